@@ -0,0 +1,299 @@
+// Side-by-side author comparison for shortlisting — the metrics of
+// author-metrics.ts for 2–10 authors in one table, plus what a single profile
+// can't show: FWCI distribution, topic overlap between the authors, works in
+// the venue presets (presets.ts), collaboration breadth and career age. Each
+// table row carries the raw values and the values normalized to the highest
+// one, and the whole comparison renders as Markdown.
+
+import { OpenAlexClient } from './openalex-client.js';
+import { CONFIG } from './config.js';
+import { AuthorMetrics, AuthorMetricsResult, authorIdentity, authorship, fetchAuthorWorks, scoreAuthorWorks } from './author-metrics.js';
+import { VENUE_PRESETS, presetsForSource } from './presets.js';
+
+export interface ComparisonFilters {
+  fromYear?: number;
+  toYear?: number;
+}
+
+export interface FwciDistribution {
+  works: number;
+  p25: number | null;
+  median: number | null;
+  p75: number | null;
+  mean: number | null;
+  /** Share of works above the world average (FWCI > 1). */
+  share_above_1: number | null;
+}
+
+export interface Collaboration {
+  /** Distinct co-authors. */
+  coauthors: number;
+  /** Distinct institutions and countries of the co-authors. */
+  institutions: number;
+  countries: number;
+  mean_authors_per_work: number | null;
+  /** Share of works with authors in more than one country. */
+  international_share: number | null;
+}
+
+export interface ComparedAuthor {
+  author: AuthorMetricsResult['author'];
+  works: AuthorMetricsResult['works'];
+  metrics: AuthorMetrics;
+  fwci: FwciDistribution;
+  top_topics: { name: string; count: number }[];
+  /** Works per venue preset key (presets with no works left out). */
+  venue_tiers: Record<string, number>;
+  /** Works in at least one venue preset. */
+  preset_venue_works: number;
+  collaboration: Collaboration;
+  /** Years since the first work counted (within the year window, if any). */
+  career_age: number | null;
+}
+
+export interface ComparisonRow {
+  metric: string;
+  label: string;
+  values: (number | null)[];
+  /** Each value divided by the highest one (null when missing or all are 0). */
+  normalized: (number | null)[];
+}
+
+export interface AuthorComparison {
+  filters: { from_year: number | null; to_year: number | null };
+  authors: ComparedAuthor[];
+  table: ComparisonRow[];
+  topic_overlap: { authors: [string, string]; score: number; shared_topics: string[] }[];
+}
+
+const COMPARISON_FIELDS = ['primary_location', 'primary_topic'];
+
+const ROWS: [metric: string, label: string, value: (a: ComparedAuthor) => number | null][] = [
+  ['works', 'Works', a => a.metrics.works],
+  ['works_per_year', 'Works per year', a => (a.career_age ? round(a.metrics.works / a.career_age) : null)],
+  ['citations', 'Citations', a => a.metrics.citations],
+  ['citations_per_work', 'Citations per work', a => (a.metrics.works ? round(a.metrics.citations / a.metrics.works) : null)],
+  ['citations_per_year', 'Citations per year', a => a.metrics.citations_per_year],
+  ['h_index', 'h-index', a => a.metrics.h_index],
+  ['all_time_h_index', 'h-index (all time, OpenAlex)', a => a.author.all_time.h_index],
+  ['g_index', 'g-index', a => a.metrics.g_index],
+  ['m_quotient', 'm-quotient', a => a.metrics.m_quotient],
+  ['i10_index', 'i10-index', a => a.metrics.i10_index],
+  ['fwci_median', 'FWCI median', a => a.fwci.median],
+  ['fwci_p25', 'FWCI 25th percentile', a => a.fwci.p25],
+  ['fwci_p75', 'FWCI 75th percentile', a => a.fwci.p75],
+  ['fwci_share_above_1', 'Share of works with FWCI > 1', a => a.fwci.share_above_1],
+  ['first_author_share', 'First-author share', a => a.metrics.first_author_share],
+  ['last_author_share', 'Last-author share', a => a.metrics.last_author_share],
+  ['preset_venue_works', 'Works in preset venues', a => a.preset_venue_works],
+  ['coauthors', 'Co-authors', a => a.collaboration.coauthors],
+  ['coauthor_institutions', 'Co-author institutions', a => a.collaboration.institutions],
+  ['coauthor_countries', 'Co-author countries', a => a.collaboration.countries],
+  ['international_share', 'International share', a => a.collaboration.international_share],
+  ['career_age', 'Career age (years)', a => a.career_age],
+];
+
+function bareId(id: string): string {
+  return String(id).split('/').pop()!.toUpperCase();
+}
+
+function round(value: number): number {
+  return Math.round(value * 1000) / 1000;
+}
+
+/** Linear-interpolated quantile of sorted values. */
+function quantile(sorted: number[], q: number): number | null {
+  if (sorted.length === 0) return null;
+  const position = (sorted.length - 1) * q;
+  const lower = Math.floor(position);
+  const upper = Math.ceil(position);
+  return round(sorted[lower] + (sorted[upper] - sorted[lower]) * (position - lower));
+}
+
+export function fwciDistribution(works: any[]): FwciDistribution {
+  const values = works.map(work => work.fwci).filter((v): v is number => typeof v === 'number').sort((a, b) => a - b);
+  return {
+    works: values.length,
+    p25: quantile(values, 0.25),
+    median: quantile(values, 0.5),
+    p75: quantile(values, 0.75),
+    mean: values.length ? round(values.reduce((a, b) => a + b, 0) / values.length) : null,
+    share_above_1: values.length ? round(values.filter(v => v > 1).length / values.length) : null,
+  };
+}
+
+export function collaboration(works: any[], authorId: string): Collaboration {
+  const coauthors = new Set<string>();
+  const institutions = new Set<string>();
+  const countries = new Set<string>();
+  let authors = 0;
+  let international = 0;
+  for (const work of works) {
+    const authorships = work.authorships || [];
+    const own = authorship(work, authorId);
+    const workCountries = new Set<string>();
+    authors += authorships.length;
+    for (const entry of authorships) {
+      for (const country of entry.countries || []) workCountries.add(country);
+      if (entry === own) continue;
+      if (entry.author?.id) coauthors.add(bareId(entry.author.id));
+      for (const institution of entry.institutions || []) if (institution?.id) institutions.add(bareId(institution.id));
+      for (const country of entry.countries || []) countries.add(country);
+    }
+    if (workCountries.size > 1) international++;
+  }
+  return {
+    coauthors: coauthors.size,
+    institutions: institutions.size,
+    countries: countries.size,
+    mean_authors_per_work: works.length ? round(authors / works.length) : null,
+    international_share: works.length ? round(international / works.length) : null,
+  };
+}
+
+function topicCounts(works: any[]): Map<string, number> {
+  const counts = new Map<string, number>();
+  for (const work of works) {
+    const name = work.primary_topic?.display_name;
+    if (name) counts.set(name, (counts.get(name) ?? 0) + 1);
+  }
+  return counts;
+}
+
+/**
+ * Weighted Jaccard overlap of two topic profiles (each topic's share of the
+ * author's works): Σ min / Σ max, from 0 (no shared topics) to 1 (same mix).
+ */
+export function topicOverlap(a: Map<string, number>, b: Map<string, number>): { score: number; shared: string[] } {
+  const total = (m: Map<string, number>) => Array.from(m.values()).reduce((x, y) => x + y, 0) || 1;
+  const [ta, tb] = [total(a), total(b)];
+  let min = 0;
+  let max = 0;
+  for (const topic of new Set([...a.keys(), ...b.keys()])) {
+    const [x, y] = [(a.get(topic) ?? 0) / ta, (b.get(topic) ?? 0) / tb];
+    min += Math.min(x, y);
+    max += Math.max(x, y);
+  }
+  const shared = Array.from(a.keys())
+    .filter(topic => b.has(topic))
+    .sort((x, y) => Math.min(a.get(y)! / ta, b.get(y)! / tb) - Math.min(a.get(x)! / ta, b.get(x)! / tb));
+  return { score: max > 0 ? round(min / max) : 0, shared: shared.slice(0, CONFIG.AUTHOR_METRICS.TOP_TOPICS) };
+}
+
+/** Build the comparison from each author's profile and counted works. */
+export function buildComparison(
+  entries: { profile: any; authorId: string; works: any[]; counts: AuthorMetricsResult['works'] }[],
+  filters: ComparisonFilters,
+  currentYear: number
+): AuthorComparison {
+  const topics = entries.map(entry => topicCounts(entry.works));
+  const authors = entries.map((entry, i): ComparedAuthor => {
+    const { metrics } = scoreAuthorWorks(entry.works, entry.authorId, currentYear);
+    const tiers = new Map<string, number>();
+    let inPresets = 0;
+    for (const work of entry.works) {
+      const keys = presetsForSource(work.primary_location?.source);
+      if (keys.length > 0) inPresets++;
+      for (const key of keys) tiers.set(key, (tiers.get(key) ?? 0) + 1);
+    }
+    return {
+      author: authorIdentity(entry.profile),
+      works: entry.counts,
+      metrics,
+      fwci: fwciDistribution(entry.works),
+      top_topics: Array.from(topics[i], ([name, count]) => ({ name, count }))
+        .sort((a, b) => b.count - a.count || a.name.localeCompare(b.name))
+        .slice(0, CONFIG.AUTHOR_METRICS.TOP_TOPICS),
+      // Preset order (presets.ts), not count order
+      venue_tiers: Object.fromEntries(Object.keys(VENUE_PRESETS).filter(key => tiers.has(key)).map(key => [key, tiers.get(key)!])),
+      collaboration: collaboration(entry.works, entry.authorId),
+      career_age: metrics.first_year !== null ? Math.max(currentYear - metrics.first_year + 1, 1) : null,
+      preset_venue_works: inPresets,
+    };
+  });
+
+  const table = ROWS.map(([metric, label, value]) => {
+    const values = authors.map(value);
+    const max = Math.max(0, ...values.filter((v): v is number => v !== null));
+    return { metric, label, values, normalized: values.map(v => (v === null || max <= 0 ? null : round(v / max))) };
+  });
+
+  const overlap: AuthorComparison['topic_overlap'] = [];
+  for (let i = 0; i < authors.length; i++) {
+    for (let j = i + 1; j < authors.length; j++) {
+      const { score, shared } = topicOverlap(topics[i], topics[j]);
+      overlap.push({ authors: [authors[i].author.id, authors[j].author.id], score, shared_topics: shared });
+    }
+  }
+
+  return {
+    filters: { from_year: filters.fromYear ?? null, to_year: filters.toYear ?? null },
+    authors,
+    table,
+    topic_overlap: overlap.sort((a, b) => b.score - a.score),
+  };
+}
+
+/**
+ * Fetch each author's works (within the year window) and compare them.
+ */
+export async function compareAuthors(
+  client: OpenAlexClient,
+  authorIds: string[],
+  filters: ComparisonFilters,
+  maxWorksPerAuthor: number
+): Promise<AuthorComparison> {
+  const entries = [];
+  for (const id of authorIds) {
+    entries.push(await fetchAuthorWorks(client, id, { ...filters, position: 'any' }, maxWorksPerAuthor, COMPARISON_FIELDS));
+  }
+  const resolved = entries.map(entry => entry.authorId);
+  const repeated = resolved.find((id, i) => resolved.indexOf(id) !== i);
+  if (repeated) throw new Error(`Author ${repeated} is listed more than once (IDs and ORCIDs resolve to the same author).`);
+  return buildComparison(entries, filters, new Date().getFullYear());
+}
+
+function formatValue(value: number | null): string {
+  if (value === null) return '–';
+  return Number.isInteger(value) ? value.toLocaleString('en-US') : String(value);
+}
+
+/** The comparison as Markdown: the metrics table (highest value in bold), venue tiers, topics and overlap. */
+export function formatComparison(comparison: AuthorComparison): string {
+  const names = comparison.authors.map(a => a.author.name ?? a.author.id);
+  const row = (cells: string[]) => `| ${cells.join(' | ')} |`;
+  const { from_year, to_year } = comparison.filters;
+  const window = from_year || to_year ? ` (works ${from_year ?? '…'}–${to_year ?? '…'})` : '';
+  const lines = [
+    `# Author comparison${window}`,
+    '',
+    row(['Metric', ...names]),
+    row(['---', ...names.map(() => '---:')]),
+  ];
+  for (const { label, values, normalized } of comparison.table) {
+    lines.push(row([label, ...values.map((v, i) => (normalized[i] === 1 && values.length > 1 ? `**${formatValue(v)}**` : formatValue(v)))]));
+  }
+  comparison.authors.forEach((a, i) => {
+    if (a.works.note) lines.push('', `_${names[i]}: ${a.works.note}_`);
+  });
+
+  const presets = Object.keys(VENUE_PRESETS).filter(key => comparison.authors.some(a => a.venue_tiers[key]));
+  if (presets.length > 0) {
+    lines.push('', '## Works in venue presets', '', row(['Preset', ...names]), row(['---', ...names.map(() => '---:')]));
+    for (const key of presets) {
+      lines.push(row([VENUE_PRESETS[key].name, ...comparison.authors.map(a => String(a.venue_tiers[key] ?? 0))]));
+    }
+  }
+
+  lines.push('', '## Top topics', '');
+  comparison.authors.forEach((a, i) => {
+    lines.push(`- **${names[i]}**: ${a.top_topics.map(t => `${t.name} (${t.count})`).join(', ') || 'none'}`);
+  });
+
+  const nameOf = new Map(comparison.authors.map((a, i) => [a.author.id, names[i]]));
+  lines.push('', '## Topic overlap', '');
+  for (const { authors: [a, b], score, shared_topics } of comparison.topic_overlap) {
+    lines.push(`- ${nameOf.get(a)} × ${nameOf.get(b)}: ${score}` + (shared_topics.length ? ` — ${shared_topics.join(', ')}` : ''));
+  }
+  return lines.join('\n') + '\n';
+}
@@ -0,0 +1,277 @@
+// Author metrics over a filtered set of works — for hiring and promotion
+// reviews, where OpenAlex's all-time summary_stats are not enough. Works are
+// paged through with the `authorships.author.id` filter (plus a year window and
+// a venue preset), narrowed locally by the author's position on each paper,
+// and scored: h-index, g-index, m-quotient, i10, median FWCI, first / last /
+// corresponding-author shares and citations received per year.
+
+import { OpenAlexClient, FilterOptions } from './openalex-client.js';
+import { CONFIG, debug } from './config.js';
+import { VenuePreset, venueFilter } from './presets.js';
+
+export type AuthorPosition = 'any' | 'first' | 'last' | 'first_or_last';
+
+export const AUTHOR_POSITIONS: AuthorPosition[] = ['any', 'first', 'last', 'first_or_last'];
+
+export interface AuthorMetricsFilters {
+  fromYear?: number;
+  toYear?: number;
+  /** Venue preset key and preset (see presets.ts). */
+  venue?: { key: string; preset: VenuePreset };
+  position: AuthorPosition;
+}
+
+export interface AuthorMetrics {
+  works: number;
+  citations: number;
+  h_index: number;
+  g_index: number;
+  /** h-index ÷ years since the first counted work (null without works). */
+  m_quotient: number | null;
+  i10_index: number;
+  median_fwci: number | null;
+  /** Counted works with an FWCI. */
+  fwci_works: number;
+  /** Shares of counted works; a sole author is both first and last. */
+  first_author_share: number | null;
+  last_author_share: number | null;
+  corresponding_author_share: number | null;
+  /** Citations ÷ years since the first counted work. */
+  citations_per_year: number | null;
+  first_year: number | null;
+  last_year: number | null;
+}
+
+export interface AuthorMetricsResult {
+  author: {
+    id: string;
+    name: string | null;
+    orcid: string | null;
+    /** OpenAlex's unfiltered summary, for comparison. */
+    all_time: { works_count: number | null; cited_by_count: number | null; h_index: number | null; i10_index: number | null };
+  };
+  filters: { from_year: number | null; to_year: number | null; journal_list: string | null; author_position: AuthorPosition };
+  works: {
+    /** Works matching the OpenAlex filters (author, years, venues). */
+    matched: number;
+    fetched: number;
+    /** Fetched works left after the author-position filter. */
+    counted: number;
+    /** Only the most-cited `fetched` of the `matched` works were fetched. */
+    truncated: boolean;
+    /** What truncation means for the metrics (null when not truncated). */
+    note: string | null;
+  };
+  metrics: AuthorMetrics;
+  works_by_year: { year: number; works_count: number }[];
+  /** Citations received per calendar year by the counted works (OpenAlex counts_by_year, last ten years). */
+  citations_by_year: { year: number; cited_by_count: number }[];
+  most_cited: { id: string; title: string | null; publication_year: number | null; cited_by_count: number; author_position: string | null }[];
+}
+
+const METRIC_FIELDS = ['id', 'title', 'display_name', 'publication_year', 'cited_by_count', 'fwci', 'authorships', 'counts_by_year'];
+
+function bareId(id: string): string {
+  return String(id).split('/').pop()!.toUpperCase();
+}
+
+function round(value: number): number {
+  return Math.round(value * 1000) / 1000;
+}
+
+/** Largest h with h works cited at least h times each. */
+export function hIndex(citations: number[]): number {
+  const sorted = [...citations].sort((a, b) => b - a);
+  let h = 0;
+  while (h < sorted.length && sorted[h] >= h + 1) h++;
+  return h;
+}
+
+/** Largest g (at most the number of works) whose top g works have at least g² citations together. */
+export function gIndex(citations: number[]): number {
+  const sorted = [...citations].sort((a, b) => b - a);
+  let g = 0;
+  let sum = 0;
+  for (let i = 0; i < sorted.length; i++) {
+    sum += sorted[i];
+    if (sum >= (i + 1) ** 2) g = i + 1;
+  }
+  return g;
+}
+
+function median(values: number[]): number | null {
+  if (values.length === 0) return null;
+  const sorted = [...values].sort((a, b) => a - b);
+  const mid = Math.floor(sorted.length / 2);
+  return sorted.length % 2 ? sorted[mid] : (sorted[mid - 1] + sorted[mid]) / 2;
+}
+
+/** The author's authorship on a work, matched by bare OpenAlex ID. */
+export function authorship(work: any, authorId: string): any | null {
+  return (work.authorships || []).find((a: any) => a.author?.id && bareId(a.author.id) === authorId) ?? null;
+}
+
+function isFirst(work: any, entry: any): boolean {
+  return entry?.author_position === 'first' || (work.authorships || []).length === 1;
+}
+
+function isLast(work: any, entry: any): boolean {
+  return entry?.author_position === 'last' || (work.authorships || []).length === 1;
+}
+
+function matchesPosition(work: any, entry: any, position: AuthorPosition): boolean {
+  switch (position) {
+    case 'any': return true;
+    case 'first': return isFirst(work, entry);
+    case 'last': return isLast(work, entry);
+    case 'first_or_last': return isFirst(work, entry) || isLast(work, entry);
+  }
+}
+
+/**
+ * Metrics for an author's works (already filtered). `currentYear` bounds the
+ * career length used by the m-quotient and citations per year.
+ */
+export function scoreAuthorWorks(works: any[], authorId: string, currentYear: number): Pick<AuthorMetricsResult, 'metrics' | 'works_by_year' | 'citations_by_year' | 'most_cited'> {
+  const citations = works.map(work => work.cited_by_count ?? 0);
+  const total = citations.reduce((a, b) => a + b, 0);
+  const h = hIndex(citations);
+  const years = works.map(work => work.publication_year).filter((y): y is number => typeof y === 'number');
+  const firstYear = years.length ? Math.min(...years) : null;
+  const careerYears = firstYear !== null ? Math.max(currentYear - firstYear + 1, 1) : null;
+  const fwci = works.map(work => work.fwci).filter((v): v is number => typeof v === 'number');
+  const entries = works.map(work => authorship(work, authorId));
+  const share = (test: (work: any, entry: any) => boolean) =>
+    works.length ? round(works.filter((work, i) => test(work, entries[i])).length / works.length) : null;
+
+  const byYear = new Map<number, number>();
+  for (const year of years) byYear.set(year, (byYear.get(year) ?? 0) + 1);
+  const citedByYear = new Map<number, number>();
+  for (const work of works) {
+    for (const { year, cited_by_count } of work.counts_by_year || []) {
+      citedByYear.set(year, (citedByYear.get(year) ?? 0) + (cited_by_count ?? 0));
+    }
+  }
+
+  return {
+    metrics: {
+      works: works.length,
+      citations: total,
+      h_index: h,
+      g_index: gIndex(citations),
+      m_quotient: careerYears !== null ? round(h / careerYears) : null,
+      i10_index: citations.filter(c => c >= 10).length,
+      median_fwci: fwci.length ? round(median(fwci)!) : null,
+      fwci_works: fwci.length,
+      first_author_share: share(isFirst),
+      last_author_share: share(isLast),
+      corresponding_author_share: share((_, entry) => entry?.is_corresponding === true),
+      citations_per_year: careerYears !== null ? round(total / careerYears) : null,
+      first_year: firstYear,
+      last_year: years.length ? Math.max(...years) : null,
+    },
+    works_by_year: Array.from(byYear, ([year, works_count]) => ({ year, works_count })).sort((a, b) => a.year - b.year),
+    citations_by_year: Array.from(citedByYear, ([year, cited_by_count]) => ({ year, cited_by_count })).sort((a, b) => a.year - b.year),
+    most_cited: works
+      .map((work, i) => ({ work, entry: entries[i] }))
+      .sort((a, b) => (b.work.cited_by_count ?? 0) - (a.work.cited_by_count ?? 0))
+      .slice(0, CONFIG.AUTHOR_METRICS.MOST_CITED)
+      .map(({ work, entry }) => ({
+        id: bareId(work.id),
+        title: work.title || work.display_name || null,
+        publication_year: work.publication_year ?? null,
+        cited_by_count: work.cited_by_count ?? 0,
+        author_position: entry?.author_position ?? null,
+      })),
+  };
+}
+
+/**
+ * Works are fetched most-cited first, so truncation drops only the least-cited
+ * ones: every missing work has at most as many citations as the least-cited
+ * counted work. The h-, g- and i10-index are then exact unless they reach the
+ * number of works counted; totals are lower bounds.
+ */
+function truncationNote(fetched: number, matched: number): string {
+  return `Only the ${fetched} most-cited of ${matched} matching works were fetched (raise max_works to fetch more). ` +
+    'Works, citations and citations per year are lower bounds and the FWCI median and authorship shares cover the fetched works only; ' +
+    'the h-, g- and i10-index are exact unless they equal the number of works counted.';
+}
+
+/**
+ * Resolve the author (OpenAlex ID, ORCID or URL) and page through their works
+ * within the filters (METRIC_FIELDS plus `select`), most-cited first. `works`
+ * holds the fetched works left after the author-position filter.
+ */
+export async function fetchAuthorWorks(
+  client: OpenAlexClient,
+  author: string,
+  filters: AuthorMetricsFilters,
+  maxWorks: number,
+  select: string[] = []
+): Promise<{ profile: any; authorId: string; works: any[]; counts: AuthorMetricsResult['works'] }> {
+  const profile = await client.getAuthor(author);
+  const authorId = bareId(profile.id);
+  const filter: FilterOptions = {
+    'authorships.author.id': authorId,
+    ...(filters.venue && venueFilter(filters.venue.preset)),
+  };
+  if (filters.fromYear && filters.toYear) filter.publication_year = `${filters.fromYear}-${filters.toYear}`;
+  else if (filters.fromYear) filter.publication_year = `>${filters.fromYear - 1}`;
+  else if (filters.toYear) filter.publication_year = `<${filters.toYear + 1}`;
+
+  const fields = Array.from(new Set([...METRIC_FIELDS, ...select]));
+  const { count, results, truncated } = await client.paginateAll('works', { filter, select: fields, sort: 'cited_by_count:desc' }, maxWorks);
+  const works = results.filter(work => matchesPosition(work, authorship(work, authorId), filters.position));
+  debug(`author metrics ${authorId}: ${works.length} of ${results.length} fetched works counted (${count} matched)`);
+  return {
+    profile,
+    authorId,
+    works,
+    counts: {
+      matched: count,
+      fetched: results.length,
+      counted: works.length,
+      truncated,
+      note: truncated ? truncationNote(results.length, count) : null,
+    },
+  };
+}
+
+/** The author's identity and OpenAlex's all-time summary. */
+export function authorIdentity(profile: any): AuthorMetricsResult['author'] {
+  return {
+    id: profile.id,
+    name: profile.display_name ?? null,
+    orcid: profile.orcid ?? null,
+    all_time: {
+      works_count: profile.works_count ?? null,
+      cited_by_count: profile.cited_by_count ?? null,
+      h_index: profile.summary_stats?.h_index ?? null,
+      i10_index: profile.summary_stats?.i10_index ?? null,
+    },
+  };
+}
+
+/**
+ * Fetch an author's works within the filters and compute the metrics.
+ */
+export async function computeAuthorMetrics(
+  client: OpenAlexClient,
+  author: string,
+  filters: AuthorMetricsFilters,
+  maxWorks: number
+): Promise<AuthorMetricsResult> {
+  const { profile, authorId, works, counts } = await fetchAuthorWorks(client, author, filters, maxWorks);
+  return {
+    author: authorIdentity(profile),
+    filters: {
+      from_year: filters.fromYear ?? null,
+      to_year: filters.toYear ?? null,
+      journal_list: filters.venue?.key ?? null,
+      author_position: filters.position,
+    },
+    works: counts,
+    ...scoreAuthorWorks(works, authorId, new Date().getFullYear()),
+  };
+}
@@ -0,0 +1,521 @@
+// Bibliography verification — parses pasted reference lists (BibTeX entries, APA,
+// Vancouver, or anything with a quoted title) into DOI/title/year/authors/venue,
+// then resolves each reference against OpenAlex: by DOI when one is given,
+// otherwise (or when the DOI points at a different paper) by title search with
+// fuzzy scoring. Every match is compared field by field so wrong years,
+// misspelled authors and mismatched venues are reported, not just "found".
+
+import { OpenAlexClient } from './openalex-client.js';
+import { CONFIG, debug } from './config.js';
+import { parseAuthorName } from './citation-formats.js';
+import { editDistance } from './filter.js';
+
+export type ReferenceStyle = 'bibtex' | 'apa' | 'vancouver' | 'other';
+
+export interface ParsedReference {
+  raw: string;
+  style: ReferenceStyle;
+  doi?: string;
+  title?: string;
+  year?: number;
+  /** Family names in citation order. */
+  authors: string[];
+  venue?: string;
+}
+
+export type VerificationStatus = 'matched' | 'uncertain' | 'not_found' | 'unparsed';
+
+export interface ReferenceMismatch {
+  field: 'doi' | 'title' | 'year' | 'author' | 'venue';
+  cited: string;
+  openalex: string | null;
+  message: string;
+}
+
+export interface MatchedWork {
+  id: string;
+  doi: string | null;
+  title: string | null;
+  publication_year: number | null;
+  authors: string[];
+  venue: string | null;
+}
+
+export interface ReferenceVerification {
+  /** 1-based position in the bibliography. */
+  index: number;
+  reference: string;
+  parsed: Omit<ParsedReference, 'raw'>;
+  status: VerificationStatus;
+  /** 0–1; see scoreCandidate. */
+  confidence: number;
+  method: 'doi' | 'title_search' | null;
+  work: MatchedWork | null;
+  mismatches: ReferenceMismatch[];
+}
+
+export interface BibliographyReport {
+  summary: {
+    total: number;
+    matched: number;
+    uncertain: number;
+    not_found: number;
+    unparsed: number;
+    with_mismatches: number;
+  };
+  results: ReferenceVerification[];
+}
+
+// ── Splitting ────────────────────────────────────────────────────────────────
+
+const ENTRY_MARKER = /^(?:\[\d+\]|\d{1,3}[.)])\s+/;
+
+function splitBibTeX(text: string): string[] {
+  const entries: string[] = [];
+  const start = /@(\w+)\s*[{(]/g;
+  let match: RegExpExecArray | null;
+  while ((match = start.exec(text))) {
+    let depth = 0;
+    let end = match.index + match[0].length - 1;
+    for (; end < text.length; end++) {
+      if ('{('.includes(text[end])) depth++;
+      else if ('})'.includes(text[end]) && --depth === 0) break;
+    }
+    if (!['comment', 'string', 'preamble'].includes(match[1].toLowerCase())) {
+      entries.push(text.slice(match.index, end + 1));
+    }
+    start.lastIndex = end + 1;
+  }
+  return entries;
+}
+
+/**
+ * Split a pasted bibliography into one string per reference: BibTeX entries,
+ * blank-line separated blocks, numbered entries ([1], 1., 1)) with wrapped
+ * lines, or one reference per line.
+ */
+export function splitBibliography(text: string): string[] {
+  if (/@\w+\s*[{(]/.test(text)) return splitBibTeX(text);
+
+  let blocks: string[];
+  if (/\n\s*\n/.test(text)) {
+    blocks = text.split(/\n\s*\n/);
+  } else {
+    const lines = text.split('\n').map(l => l.trim()).filter(Boolean);
+    if (lines.some(l => ENTRY_MARKER.test(l))) {
+      blocks = [];
+      for (const line of lines) {
+        if (ENTRY_MARKER.test(line) || blocks.length === 0) blocks.push(line);
+        else blocks[blocks.length - 1] += ` ${line}`;
+      }
+    } else {
+      blocks = lines;
+    }
+  }
+  return blocks.map(b => b.replace(/\s+/g, ' ').trim().replace(ENTRY_MARKER, '')).filter(Boolean);
+}
+
+// ── Parsing ──────────────────────────────────────────────────────────────────
+
+const DOI_PATTERN = /\b10\.\d{4,9}\/[^\s"<>]+/i;
+const YEAR_PATTERN = /\b(1[89]\d{2}|20\d{2})\b/;
+
+function extractDoi(text: string): string | undefined {
+  const found = text.match(DOI_PATTERN)?.[0];
+  if (!found) return undefined;
+  let doi: string = found;
+  // Trailing punctuation belongs to the sentence, a ')' only if it is unbalanced
+  for (;;) {
+    const trimmed: string = doi.replace(/[.,;\]]+$/, '');
+    const unbalanced = trimmed.endsWith(')') && (trimmed.match(/\(/g) || []).length < (trimmed.match(/\)/g) || []).length;
+    const next = unbalanced ? trimmed.slice(0, -1) : trimmed;
+    if (next === doi) return doi.toLowerCase();
+    doi = next;
+  }
+}
+
+function cleanBibValue(value: string): string {
+  return value
+    .replace(/\\([&%$_#])/g, '$1')
+    .replace(/\\[`'"^~=.]/g, '')
+    .replace(/\\[a-zA-Z]+\s?/g, '')
+    .replace(/[{}]/g, '')
+    .replace(/\s+/g, ' ')
+    .trim();
+}
+
+function parseBibTeXFields(entry: string): Record<string, string> {
+  const body = entry.slice(entry.search(/[{(]/) + 1);
+  const fields: Record<string, string> = {};
+  const field = /\s*([A-Za-z][\w-]*)\s*=\s*/y;
+  let i = body.indexOf(',') + 1;
+  while (i > 0 && i < body.length) {
+    field.lastIndex = i;
+    const match = field.exec(body);
+    if (!match) break;
+    i = field.lastIndex;
+    let value: string;
+    if (body[i] === '{' || body[i] === '"') {
+      const quoted = body[i] === '"';
+      let depth = 0;
+      let end = i;
+      for (; end < body.length; end++) {
+        const ch = body[end];
+        if (ch === '{') depth++;
+        else if (ch === '}') depth--;
+        if (quoted ? ch === '"' && end > i && depth === 0 : depth === 0) break;
+      }
+      value = body.slice(i + 1, end);
+      i = end + 1;
+    } else {
+      const end = body.slice(i).search(/[,})]/);
+      value = end === -1 ? body.slice(i) : body.slice(i, i + end);
+      i = end === -1 ? body.length : i + end;
+    }
+    fields[match[1].toLowerCase()] = cleanBibValue(value);
+    while (i < body.length && /[\s,]/.test(body[i])) i++;
+  }
+  return fields;
+}
+
+function familyName(name: string): string | undefined {
+  const parsed = parseAuthorName(name);
+  return parsed.family || parsed.literal;
+}
+
+function parseBibTeX(raw: string): ParsedReference {
+  const fields = parseBibTeXFields(raw);
+  const year = (fields.year || fields.date || '').match(YEAR_PATTERN)?.[1];
+  return {
+    raw,
+    style: 'bibtex',
+    doi: extractDoi(fields.doi || fields.url || ''),
+    title: fields.title || undefined,
+    year: year ? Number(year) : undefined,
+    authors: (fields.author || '')
+      .split(/\s+and\s+/i)
+      .filter(name => name && name.toLowerCase() !== 'others')
+      .map(familyName)
+      .filter((name): name is string => !!name),
+    venue: fields.journal || fields.booktitle || fields.journaltitle || undefined,
+  };
+}
+
+const INITIALS = /^(?:[A-Z]{1,3}|(?:[A-Z]\.-?)+)$/;
+
+/**
+ * Family names from an author segment: "Vaswani, A., Shazeer, N., & Parmar, N."
+ * (APA), "Vaswani A, Shazeer N" (Vancouver) or "A. Vaswani and N. Shazeer".
+ * Initials are dropped wherever they sit, which is what makes one rule fit all three.
+ */
+function parseAuthorSegment(segment: string): string[] {
+  return segment
+    .replace(/\bet al\.?/gi, '')
+    .split(/,|;|&|\band\b|\.{3}|…/)
+    .map(part => part.trim().split(/\s+/).filter(token => token && !INITIALS.test(token)).join(' '))
+    .filter(Boolean);
+}
+
+function sentences(text: string): string[] {
+  return text.split(/(?<=[.?!])\s+/).map(s => s.trim()).filter(Boolean);
+}
+
+function stripTrailing(text: string | undefined): string | undefined {
+  const cleaned = text?.replace(/^["“”'\s]+|["“”'\s]+$/g, '').replace(/[.,;:]+$/, '').trim();
+  return cleaned || undefined;
+}
+
+function venueFrom(text: string | undefined): string | undefined {
+  if (!text) return undefined;
+  const venue = text.replace(/^[\s,.]*(?:in:?\s+)?/i, '').split(/,|;|\(|\b(?:1[89]|20)\d{2}\b/)[0];
+  return stripTrailing(venue);
+}
+
+/**
+ * Extract DOI, title, year, author family names and venue from one reference.
+ * Best effort: fields that cannot be located are left undefined.
+ */
+export function parseReference(raw: string): ParsedReference {
+  const text = raw.replace(/\s+/g, ' ').trim();
+  if (/^@\w+\s*[{(]/.test(text)) return parseBibTeX(text);
+
+  const doi = extractDoi(text);
+  const body = text
+    .replace(/(?:https?:\/\/(?:dx\.)?doi\.org\/|doi:\s*)?10\.\d{4,9}\/[^\s"<>]+/gi, '')
+    .replace(/https?:\/\/\S+/g, '')
+    .replace(/\b(?:doi|available (?:from|at)|retrieved from)\s*:?\s*$/i, '')
+    .trim();
+  const result: ParsedReference = { raw, style: 'other', doi, authors: [] };
+
+  // APA: Authors (2017). Title. Venue, 30(2), 1–10.
+  const apa = body.match(/^(.*?)\s*\((\d{4})[a-z]?(?:,[^)]*)?\)\.?\s*(.+)$/);
+  if (apa) {
+    const [title, ...rest] = sentences(apa[3]);
+    return { ...result, style: 'apa', authors: parseAuthorSegment(apa[1]), year: Number(apa[2]), title: stripTrailing(title), venue: venueFrom(rest.join(' ')) };
+  }
+
+  const year = body.match(YEAR_PATTERN)?.[1];
+  if (year) result.year = Number(year);
+
+  // Quoted title (IEEE, Chicago): A. Vaswani et al., "Title," in Venue, 2017.
+  const quoted = body.match(/["“]([^"”]{8,}?)["”]/);
+  if (quoted) {
+    return {
+      ...result,
+      authors: parseAuthorSegment(body.slice(0, quoted.index).replace(/[,:]\s*$/, '')),
+      title: stripTrailing(quoted[1]),
+      venue: venueFrom(body.slice(quoted.index! + quoted[0].length)),
+    };
+  }
+
+  // Vancouver: Authors. Title. Venue. 2017;30(2):1-10.
+  const parts = sentences(body);
+  if (/\b(?:1[89]|20)\d{2}(?:\s+[A-Z][a-z]{2}(?:\s+\d{1,2})?)?\s*;/.test(body) && parts.length >= 3) {
+    return { ...result, style: 'vancouver', authors: parseAuthorSegment(parts[0]), title: stripTrailing(parts[1]), venue: venueFrom(parts[2]) };
+  }
+
+  // Harvard-like: Authors 2017. Title. Venue … or just the longest sentence
+  if (year) {
+    const at = body.indexOf(year);
+    const after = sentences(body.slice(at + year.length).replace(/^[).,\s]+/, ''));
+    if (after.length > 0 && at > 0) {
+      return { ...result, authors: parseAuthorSegment(body.slice(0, at).replace(/[(,\s]+$/, '')), title: stripTrailing(after[0]), venue: venueFrom(after.slice(1).join(' ')) };
+    }
+  }
+  const longest = parts.reduce<string | undefined>((best, s) => (!best || s.length > best.length ? s : best), undefined);
+  return { ...result, title: longest && /[A-Za-z]{2}/.test(longest) ? stripTrailing(longest) : undefined };
+}
+
+// ── Matching ─────────────────────────────────────────────────────────────────
+
+const VENUE_STOPWORDS = new Set(['of', 'the', 'and', 'for', 'in', 'on', 'a', 'an', 'de', 'la']);
+
+/** Lowercase, ASCII-folded, punctuation-free text for comparisons. */
+export function normalizeText(text: string): string {
+  return text
+    .normalize('NFD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, ' ')
+    .trim();
+}
+
+/** 1 for identical strings, falling towards 0 with edit distance. */
+function stringSimilarity(a: string, b: string): number {
+  if (!a || !b) return 0;
+  return 1 - editDistance(a, b) / Math.max(a.length, b.length);
+}
+
+/**
+ * Word-overlap similarity of two titles (Dice coefficient). A cited title that
+ * leaves out the subtitle still scores 0.9.
+ */
+export function titleSimilarity(a: string, b: string): number {
+  const wordsA = new Set(normalizeText(a).split(' ').filter(Boolean));
+  const wordsB = new Set(normalizeText(b).split(' ').filter(Boolean));
+  if (wordsA.size === 0 || wordsB.size === 0) return 0;
+  const shared = Array.from(wordsA).filter(w => wordsB.has(w)).length;
+  const dice = (2 * shared) / (wordsA.size + wordsB.size);
+  const smaller = Math.min(wordsA.size, wordsB.size);
+  const contained = smaller >= 3 ? (shared / smaller) * 0.9 : 0;
+  return Math.max(dice, contained);
+}
+
+function venueSimilarity(cited: string, actual: string): number {
+  const citedWords = normalizeText(cited).split(' ').filter(Boolean);
+  const actualWords = normalizeText(actual).split(' ').filter(w => w && !VENUE_STOPWORDS.has(w));
+  if (citedWords.join(' ') === normalizeText(actual)) return 1;
+  // ISO 4 abbreviations: "J Am Chem Soc" → Journal of the American Chemical Society
+  if (citedWords.length === actualWords.length && citedWords.every((w, i) => actualWords[i].startsWith(w))) {
+    return 0.95;
+  }
+  return stringSimilarity(citedWords.join(' '), actualWords.join(' '));
+}
+
+function workFamilies(work: any): string[] {
+  return (work.authorships || [])
+    .map((a: any) => a.author?.display_name || a.raw_author_name)
+    .filter(Boolean)
+    .map((name: string) => familyName(name) || name);
+}
+
+function bestAuthorMatch(cited: string, families: string[]): { family: string; similarity: number } {
+  const target = normalizeText(cited);
+  let best = { family: '', similarity: 0 };
+  for (const family of families) {
+    const key = normalizeText(family);
+    // "berg" should match "van der berg"
+    const similarity = Math.max(stringSimilarity(target, key), stringSimilarity(target, key.split(' ').pop()!));
+    if (similarity > best.similarity) best = { family, similarity };
+  }
+  return best;
+}
+
+function workVenue(work: any): string | null {
+  return work.primary_location?.source?.display_name ?? null;
+}
+
+function workTitle(work: any): string {
+  return work.title || work.display_name || '';
+}
+
+/**
+ * Confidence that `work` is the cited reference, plus the fields that disagree.
+ * Title (0.55), authors (0.2), year (0.15) and venue (0.1) are weighted over the
+ * fields the reference actually has; a DOI match starts from 0.5.
+ */
+export function scoreCandidate(
+  ref: ParsedReference,
+  work: any,
+  method: 'doi' | 'title_search'
+): { confidence: number; mismatches: ReferenceMismatch[] } {
+  const components: { weight: number; score: number }[] = [];
+  const mismatches: ReferenceMismatch[] = [];
+
+  if (ref.title && workTitle(work)) {
+    const similarity = titleSimilarity(ref.title, workTitle(work));
+    components.push({ weight: 0.55, score: similarity });
+    if (similarity < 0.9) {
+      mismatches.push({ field: 'title', cited: ref.title, openalex: workTitle(work), message: `Title differs from OpenAlex ("${workTitle(work)}")` });
+    }
+  }
+
+  const families = workFamilies(work);
+  const citedAuthors = ref.authors.slice(0, CONFIG.BIBLIOGRAPHY.MAX_AUTHORS_COMPARED);
+  if (citedAuthors.length > 0 && families.length > 0) {
+    const matches = citedAuthors.map(name => ({ name, ...bestAuthorMatch(name, families) }));
+    components.push({ weight: 0.2, score: matches.reduce((sum, m) => sum + m.similarity, 0) / matches.length });
+    for (const m of matches) {
+      if (m.similarity === 1) continue;
+      if (m.similarity >= CONFIG.BIBLIOGRAPHY.AUTHOR_SPELLING_SIMILARITY) {
+        mismatches.push({ field: 'author', cited: m.name, openalex: m.family, message: `Author "${m.name}" looks misspelled; OpenAlex has "${m.family}"` });
+      } else {
+        mismatches.push({ field: 'author', cited: m.name, openalex: null, message: `Author "${m.name}" is not among the OpenAlex authors` });
+      }
+    }
+  }
+
+  if (ref.year && work.publication_year) {
+    const diff = Math.abs(ref.year - work.publication_year);
+    components.push({ weight: 0.15, score: diff === 0 ? 1 : diff === 1 ? 0.5 : 0 });
+    if (diff !== 0) {
+      mismatches.push({ field: 'year', cited: String(ref.year), openalex: String(work.publication_year), message: `Year differs: cited ${ref.year}, OpenAlex has ${work.publication_year}` });
+    }
+  }
+
+  const venue = workVenue(work);
+  if (ref.venue && venue) {
+    const similarity = venueSimilarity(ref.venue, venue);
+    components.push({ weight: 0.1, score: similarity });
+    if (similarity < 0.8) {
+      mismatches.push({ field: 'venue', cited: ref.venue, openalex: venue, message: `Venue differs: cited "${ref.venue}", OpenAlex has "${venue}"` });
+    }
+  }
+
+  const totalWeight = components.reduce((sum, c) => sum + c.weight, 0);
+  const fieldScore = totalWeight > 0 ? components.reduce((sum, c) => sum + c.weight * c.score, 0) / totalWeight : 1;
+  const confidence = method === 'doi' ? 0.5 + 0.5 * fieldScore : fieldScore;
+  return { confidence: Math.round(confidence * 100) / 100, mismatches };
+}
+
+function matchedWork(work: any): MatchedWork {
+  return {
+    id: work.id,
+    doi: work.doi ?? null,
+    title: workTitle(work) || null,
+    publication_year: work.publication_year ?? null,
+    authors: (work.authorships || [])
+      .slice(0, CONFIG.MCP.MAX_AUTHORS_IN_SUMMARY)
+      .map((a: any) => a.author?.display_name || a.raw_author_name)
+      .filter(Boolean),
+    venue: workVenue(work),
+  };
+}
+
+/** A 404 from OpenAlex: the DOI is unknown. Anything else (rate limits, network, 5xx) is not a verdict. */
+function isNotFound(error: any): boolean {
+  return error?.response?.status === 404;
+}
+
+async function verifyReference(client: OpenAlexClient, ref: ParsedReference, index: number): Promise<ReferenceVerification> {
+  const { raw, ...parsed } = ref;
+  const base = { index, reference: raw, parsed };
+  if (!ref.doi && !ref.title) {
+    return { ...base, status: 'unparsed', confidence: 0, method: null, work: null, mismatches: [] };
+  }
+
+  type Candidate = { work: any; method: 'doi' | 'title_search'; confidence: number; mismatches: ReferenceMismatch[] };
+  const candidates: Candidate[] = [];
+  let doiWork: any = null;
+  if (ref.doi) {
+    doiWork = await client.getWork(ref.doi).catch(error => {
+      if (isNotFound(error)) return null;
+      throw error;
+    });
+    if (doiWork) candidates.push({ work: doiWork, method: 'doi', ...scoreCandidate(ref, doiWork, 'doi') });
+  }
+  // Fall back to the title when there is no DOI, it is unknown, or it resolves to a different paper
+  const doiTitleOk = doiWork && (!ref.title || titleSimilarity(ref.title, workTitle(doiWork)) >= 0.5);
+  if (ref.title && !doiTitleOk) {
+    const words = normalizeText(ref.title).split(' ').slice(0, CONFIG.BIBLIOGRAPHY.MAX_SEARCH_WORDS).join(' ');
+    if (words) {
+      const response = await client.getWorks({ search: words, perPage: CONFIG.BIBLIOGRAPHY.SEARCH_CANDIDATES });
+      for (const work of response.results || []) {
+        candidates.push({ work, method: 'title_search', ...scoreCandidate(ref, work, 'title_search') });
+      }
+    }
+  }
+
+  const best = candidates.reduce<Candidate | undefined>((top, c) => (!top || c.confidence > top.confidence ? c : top), undefined);
+  if (!best || best.confidence < CONFIG.BIBLIOGRAPHY.POSSIBLE_MATCH_CONFIDENCE) {
+    return { ...base, status: 'not_found', confidence: best?.confidence ?? 0, method: null, work: null, mismatches: [] };
+  }
+
+  const mismatches = [...best.mismatches];
+  if (ref.doi && best.method === 'title_search') {
+    const sameDoi = best.work.doi && best.work.doi.toLowerCase().endsWith(ref.doi);
+    if (!sameDoi) {
+      mismatches.unshift({
+        field: 'doi',
+        cited: ref.doi,
+        openalex: best.work.doi ?? null,
+        message: doiWork
+          ? `Cited DOI resolves to a different work ("${workTitle(doiWork)}")`
+          : 'Cited DOI was not found in OpenAlex; matched by title',
+      });
+    }
+  }
+  return {
+    ...base,
+    status: best.confidence >= CONFIG.BIBLIOGRAPHY.MATCH_CONFIDENCE ? 'matched' : 'uncertain',
+    confidence: best.confidence,
+    method: best.method,
+    work: matchedWork(best.work),
+    mismatches,
+  };
+}
+
+/**
+ * Parse and verify references (one string each, or a whole pasted bibliography
+ * via splitBibliography). Results follow the input order.
+ */
+export async function verifyBibliography(client: OpenAlexClient, references: string[]): Promise<BibliographyReport> {
+  if (references.length > CONFIG.BIBLIOGRAPHY.MAX_REFERENCES) {
+    throw new Error(`Bibliography has ${references.length} references; verify at most ${CONFIG.BIBLIOGRAPHY.MAX_REFERENCES} per call.`);
+  }
+  const results = await Promise.all(references.map((raw, i) => verifyReference(client, parseReference(raw), i + 1)));
+  debug(`verify_bibliography: ${results.filter(r => r.status === 'matched').length}/${results.length} matched`);
+
+  const count = (status: VerificationStatus) => results.filter(r => r.status === status).length;
+  return {
+    summary: {
+      total: results.length,
+      matched: count('matched'),
+      uncertain: count('uncertain'),
+      not_found: count('not_found'),
+      unparsed: count('unparsed'),
+      with_mismatches: results.filter(r => r.mismatches.length > 0).length,
+    },
+    results,
+  };
+}
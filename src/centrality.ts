@@ -0,0 +1,282 @@
+// Citation-network centrality — which works are structurally central in a local
+// citation graph (see graph.ts), not just most cited overall. Edges point from
+// citing to cited work. Computes PageRank (credit flows to cited works),
+// in-degree within the corpus, directed betweenness (Brandes) and Search Path
+// Count (SPC) main-path analysis, where knowledge flows from cited to citing
+// work along source → sink paths.
+
+import { OpenAlexClient, SearchOptions } from './openalex-client.js';
+import { CONFIG, debug } from './config.js';
+import { Graph, buildCorpusGraph, fetchCitationGraph } from './graph.js';
+
+export type CentralityMeasure = 'pagerank' | 'in_degree' | 'betweenness' | 'spc';
+
+export const CENTRALITY_MEASURES: CentralityMeasure[] = ['pagerank', 'in_degree', 'betweenness', 'spc'];
+
+export interface CentralityScores {
+  pagerank: number;
+  /** Citations from other works in the corpus. */
+  in_degree: number;
+  /** Normalized by (n-1)(n-2), the maximum for a directed graph. */
+  betweenness: number;
+  /** Share of all source → sink paths through the work. */
+  spc: number;
+}
+
+export interface MainPathStep {
+  id: string;
+  title: string | null;
+  year: number | null;
+  /** SPC of the edge from the previous step (null for the first). */
+  edge_spc: number | null;
+}
+
+export interface CentralityAnalysis {
+  scores: Map<string, CentralityScores>;
+  main_path: MainPathStep[];
+  /** Citations dropped to make the graph acyclic for SPC (mutual or erroneous citations). */
+  cycle_edges_removed: number;
+}
+
+export type CorpusSource =
+  | { kind: 'query'; options: SearchOptions; maxWorks: number }
+  | { kind: 'seeds'; ids: string[]; maxCitingPerSeed: number; maxReferencesPerSeed: number };
+
+function round(value: number): number {
+  return Number(value.toPrecision(4));
+}
+
+/** Outgoing (citing → cited) neighbour lists, in node order. */
+function adjacency(graph: Graph): Map<string, string[]> {
+  const out = new Map<string, string[]>(graph.nodes.map(n => [n.id, []]));
+  for (const edge of graph.edges) out.get(edge.source)!.push(edge.target);
+  return out;
+}
+
+/**
+ * PageRank with credit flowing from citing to cited works. Works citing
+ * nothing in the corpus spread their rank evenly over all works.
+ */
+export function pageRank(graph: Graph, damping = CONFIG.CENTRALITY.PAGERANK_DAMPING): Map<string, number> {
+  const n = graph.nodes.length;
+  const out = adjacency(graph);
+  let rank = new Map(graph.nodes.map(node => [node.id, 1 / n]));
+  for (let iteration = 0; iteration < CONFIG.CENTRALITY.PAGERANK_MAX_ITERATIONS; iteration++) {
+    let dangling = 0;
+    for (const [id, targets] of out) if (targets.length === 0) dangling += rank.get(id)!;
+    const next = new Map(graph.nodes.map(node => [node.id, (1 - damping) / n + (damping * dangling) / n]));
+    for (const [id, targets] of out) {
+      for (const target of targets) next.set(target, next.get(target)! + (damping * rank.get(id)!) / targets.length);
+    }
+    const delta = graph.nodes.reduce((sum, node) => sum + Math.abs(next.get(node.id)! - rank.get(node.id)!), 0);
+    rank = next;
+    if (delta < CONFIG.CENTRALITY.PAGERANK_TOLERANCE) break;
+  }
+  return rank;
+}
+
+/**
+ * Directed betweenness (Brandes' algorithm): the share of shortest citation
+ * chains between other works that pass through each work.
+ */
+export function betweenness(graph: Graph): Map<string, number> {
+  const out = adjacency(graph);
+  const score = new Map(graph.nodes.map(node => [node.id, 0]));
+  for (const { id: s } of graph.nodes) {
+    const stack: string[] = [];
+    const predecessors = new Map<string, string[]>();
+    const paths = new Map<string, number>([[s, 1]]);
+    const distance = new Map<string, number>([[s, 0]]);
+    const queue = [s];
+    for (let head = 0; head < queue.length; head++) {
+      const v = queue[head];
+      stack.push(v);
+      for (const w of out.get(v)!) {
+        if (!distance.has(w)) {
+          distance.set(w, distance.get(v)! + 1);
+          queue.push(w);
+        }
+        if (distance.get(w) === distance.get(v)! + 1) {
+          paths.set(w, (paths.get(w) ?? 0) + paths.get(v)!);
+          predecessors.set(w, [...(predecessors.get(w) || []), v]);
+        }
+      }
+    }
+    const dependency = new Map<string, number>();
+    while (stack.length > 0) {
+      const w = stack.pop()!;
+      for (const v of predecessors.get(w) || []) {
+        const share = (paths.get(v)! / paths.get(w)!) * (1 + (dependency.get(w) ?? 0));
+        dependency.set(v, (dependency.get(v) ?? 0) + share);
+      }
+      if (w !== s) score.set(w, score.get(w)! + (dependency.get(w) ?? 0));
+    }
+  }
+  const n = graph.nodes.length;
+  const scale = n > 2 ? 1 / ((n - 1) * (n - 2)) : 0;
+  return new Map(Array.from(score, ([id, value]) => [id, value * scale]));
+}
+
+/**
+ * Edges that must be dropped to make the graph acyclic: back edges of a
+ * depth-first search, visiting works in node order.
+ */
+function backEdges(graph: Graph): Set<string> {
+  const out = adjacency(graph);
+  const state = new Map<string, 'active' | 'done'>();
+  const removed = new Set<string>();
+  for (const { id: root } of graph.nodes) {
+    if (state.has(root)) continue;
+    // Iterative DFS: [node, index of the next neighbour to visit]
+    const stack: [string, number][] = [[root, 0]];
+    state.set(root, 'active');
+    while (stack.length > 0) {
+      const top = stack[stack.length - 1];
+      const targets = out.get(top[0])!;
+      if (top[1] >= targets.length) {
+        state.set(top[0], 'done');
+        stack.pop();
+        continue;
+      }
+      const next = targets[top[1]++];
+      if (state.get(next) === 'active') removed.add(`${top[0]}\u0000${next}`);
+      else if (!state.has(next)) {
+        state.set(next, 'active');
+        stack.push([next, 0]);
+      }
+    }
+  }
+  return removed;
+}
+
+/**
+ * Search Path Count main-path analysis. Knowledge flows from a cited work to
+ * the work citing it; sources are works citing nothing in the corpus, sinks are
+ * works nothing in the corpus cites. An edge's SPC is the number of source →
+ * sink paths through it; a work's SPC is the same count for the work. The main
+ * path is the source → sink path with the largest total edge SPC.
+ */
+export function searchPathCount(graph: Graph): {
+  node: Map<string, number>;
+  edge: Map<string, number>;
+  totalPaths: number;
+  mainPath: { id: string; edgeSpc: number | null }[];
+  removedEdges: number;
+} {
+  const removed = backEdges(graph);
+  // Flow edges: cited → citing
+  const flowOut = new Map<string, string[]>(graph.nodes.map(n => [n.id, []]));
+  const flowIn = new Map<string, string[]>(graph.nodes.map(n => [n.id, []]));
+  for (const edge of graph.edges) {
+    if (removed.has(`${edge.source}\u0000${edge.target}`)) continue;
+    flowOut.get(edge.target)!.push(edge.source);
+    flowIn.get(edge.source)!.push(edge.target);
+  }
+
+  // Kahn's topological order over flow edges
+  const indegree = new Map(Array.from(flowIn, ([id, from]) => [id, from.length]));
+  const order = graph.nodes.filter(n => indegree.get(n.id) === 0).map(n => n.id);
+  for (let head = 0; head < order.length; head++) {
+    for (const next of flowOut.get(order[head])!) {
+      indegree.set(next, indegree.get(next)! - 1);
+      if (indegree.get(next) === 0) order.push(next);
+    }
+  }
+
+  // Paths from any source into a work, and from a work to any sink
+  const fromSources = new Map<string, number>();
+  for (const id of order) {
+    const from = flowIn.get(id)!;
+    fromSources.set(id, from.length === 0 ? 1 : from.reduce((sum, prev) => sum + fromSources.get(prev)!, 0));
+  }
+  const toSinks = new Map<string, number>();
+  for (const id of [...order].reverse()) {
+    const to = flowOut.get(id)!;
+    toSinks.set(id, to.length === 0 ? 1 : to.reduce((sum, next) => sum + toSinks.get(next)!, 0));
+  }
+
+  const edge = new Map<string, number>();
+  for (const [from, targets] of flowOut) {
+    for (const to of targets) edge.set(`${from}\u0000${to}`, fromSources.get(from)! * toSinks.get(to)!);
+  }
+  // Isolated works (neither citing nor cited in the corpus) lie on no path
+  const isolated = (id: string) => flowIn.get(id)!.length === 0 && flowOut.get(id)!.length === 0;
+  const node = new Map(order.map(id => [id, isolated(id) ? 0 : fromSources.get(id)! * toSinks.get(id)!]));
+  const totalPaths = order
+    .filter(id => flowOut.get(id)!.length === 0 && !isolated(id))
+    .reduce((sum, id) => sum + fromSources.get(id)!, 0);
+
+  // Heaviest source → sink path by summed edge SPC (longest path in a DAG)
+  const best = new Map<string, { weight: number; prev: string | null }>();
+  for (const id of order) {
+    const from = flowIn.get(id)!;
+    let entry = { weight: 0, prev: null as string | null };
+    for (const prev of from) {
+      const weight = best.get(prev)!.weight + edge.get(`${prev}\u0000${id}`)!;
+      if (weight > entry.weight) entry = { weight, prev };
+    }
+    best.set(id, entry);
+  }
+  let end: string | null = null;
+  for (const id of order) {
+    if (flowOut.get(id)!.length === 0 && flowIn.get(id)!.length > 0 && (!end || best.get(id)!.weight > best.get(end)!.weight)) {
+      end = id;
+    }
+  }
+  const mainPath: { id: string; edgeSpc: number | null }[] = [];
+  for (let id = end; id; id = best.get(id)!.prev) {
+    const prev = best.get(id)!.prev;
+    mainPath.unshift({ id, edgeSpc: prev ? edge.get(`${prev}\u0000${id}`)! : null });
+  }
+
+  return { node, edge, totalPaths, mainPath, removedEdges: removed.size };
+}
+
+/**
+ * All centrality measures for every work in the graph, plus the main path.
+ */
+export function analyzeCentrality(graph: Graph): CentralityAnalysis {
+  const ranks = pageRank(graph);
+  const between = betweenness(graph);
+  const spc = searchPathCount(graph);
+  const inDegree = new Map(graph.nodes.map(n => [n.id, 0]));
+  for (const edge of graph.edges) inDegree.set(edge.target, inDegree.get(edge.target)! + 1);
+
+  const scores = new Map<string, CentralityScores>();
+  for (const { id } of graph.nodes) {
+    scores.set(id, {
+      pagerank: round(ranks.get(id)!),
+      in_degree: inDegree.get(id)!,
+      betweenness: round(between.get(id)!),
+      spc: spc.totalPaths > 0 ? round(spc.node.get(id)! / spc.totalPaths) : 0,
+    });
+  }
+  const nodes = new Map(graph.nodes.map(n => [n.id, n]));
+  return {
+    scores,
+    main_path: spc.mainPath.map(({ id, edgeSpc }) => ({
+      id,
+      title: (nodes.get(id)!.attributes.title as string) ?? null,
+      year: (nodes.get(id)!.attributes.year as number) ?? null,
+      edge_spc: edgeSpc,
+    })),
+    cycle_edges_removed: spc.removedEdges,
+  };
+}
+
+/**
+ * Build the local citation graph: the top works of a search (citations among
+ * them via referenced_works), or seed works with their most-cited citing works
+ * (`cites` filter) and their references (`ids.openalex` filter).
+ */
+export async function fetchCorpusGraph(client: OpenAlexClient, source: CorpusSource): Promise<{ graph: Graph; unresolved: string[] }> {
+  if (source.kind === 'seeds') {
+    return fetchCitationGraph(client, source.ids, {
+      maxCitingPerSeed: source.maxCitingPerSeed,
+      maxReferencesPerSeed: source.maxReferencesPerSeed,
+    });
+  }
+  const { results } = await client.paginateAll('works', source.options, source.maxWorks);
+  debug(`centrality corpus: ${results.length} works`);
+  return { graph: buildCorpusGraph(results), unresolved: [] };
+}
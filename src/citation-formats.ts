@@ -0,0 +1,330 @@
+// Reference-manager export — pure functions rendering raw OpenAlex works as
+// BibTeX, RIS or CSL-JSON. Unlike summarizeWork these use the FULL author list
+// and the biblio block (volume/issue/pages), since the output is meant to be
+// imported into Zotero/EndNote/Mendeley rather than read by a model.
+
+export type CitationFormat = 'bibtex' | 'ris' | 'csl-json';
+
+export const CITATION_FORMATS: CitationFormat[] = ['bibtex', 'ris', 'csl-json'];
+
+interface ParsedName {
+  family?: string;
+  given?: string;
+  suffix?: string;
+  /** Organisations and single-token names that should not be split. */
+  literal?: string;
+}
+
+const NAME_PARTICLES = new Set(['van', 'von', 'de', 'der', 'den', 'da', 'di', 'del', 'della', 'la', 'le', 'du', 'dos', 'das', 'ten', 'ter', 'bin', 'al']);
+const NAME_SUFFIXES = new Set(['jr', 'jr.', 'sr', 'sr.', 'ii', 'iii', 'iv']);
+const KEY_STOPWORDS = new Set(['a', 'an', 'the', 'on', 'of', 'in', 'for', 'and', 'to', 'with', 'from', 'by', 'at', 'is', 'are', 'towards', 'toward']);
+
+/**
+ * Split a display name into family/given parts. Handles "Family, Given",
+ * trailing suffixes (Jr., III) and lowercase particles ("Ludwig van Beethoven").
+ */
+export function parseAuthorName(name: string): ParsedName {
+  const cleaned = (name || '').trim().replace(/\s+/g, ' ');
+  if (!cleaned) return {};
+
+  if (cleaned.includes(',')) {
+    const [family, ...rest] = cleaned.split(',').map(p => p.trim());
+    return { family, given: rest.join(' ') || undefined };
+  }
+
+  const tokens = cleaned.split(' ');
+  if (tokens.length === 1) return { literal: cleaned };
+
+  let suffix: string | undefined;
+  if (tokens.length > 2 && NAME_SUFFIXES.has(tokens[tokens.length - 1].toLowerCase())) {
+    suffix = tokens.pop();
+  }
+
+  let familyStart = tokens.length - 1;
+  while (familyStart > 1 && NAME_PARTICLES.has(tokens[familyStart - 1].toLowerCase())) {
+    familyStart--;
+  }
+  return {
+    family: tokens.slice(familyStart).join(' '),
+    given: tokens.slice(0, familyStart).join(' '),
+    suffix,
+  };
+}
+
+function asciiFold(text: string): string {
+  return text.normalize('NFD').replace(/[\u0300-\u036f]/g, '');
+}
+
+function workAuthors(work: any): ParsedName[] {
+  return (work.authorships || [])
+    .map((a: any) => a.author?.display_name || a.raw_author_name)
+    .filter(Boolean)
+    .map(parseAuthorName);
+}
+
+function bareId(id: string | undefined): string | undefined {
+  return id ? String(id).split('/').pop() : undefined;
+}
+
+function bareDoi(doi: string | undefined): string | undefined {
+  return doi ? doi.replace(/^https?:\/\/(dx\.)?doi\.org\//i, '') : undefined;
+}
+
+function pages(work: any, separator: string): string | undefined {
+  const first = work.biblio?.first_page;
+  const last = work.biblio?.last_page;
+  if (first && last && first !== last) return `${first}${separator}${last}`;
+  return first || undefined;
+}
+
+function dateParts(work: any): number[] | undefined {
+  if (work.publication_date) {
+    return String(work.publication_date).split('-').map(Number).filter(n => !Number.isNaN(n));
+  }
+  return work.publication_year ? [work.publication_year] : undefined;
+}
+
+function isConference(work: any): boolean {
+  return work.primary_location?.source?.type === 'conference' || work.type_crossref === 'proceedings-article';
+}
+
+/**
+ * Deterministic citation key: first author's family name + year + first
+ * significant title word, ASCII-folded and lowercased (e.g. "vaswani2017attention").
+ */
+export function baseCitationKey(work: any): string {
+  const first = workAuthors(work)[0];
+  const name = first?.family || first?.literal || 'anon';
+  const namePart = asciiFold(name.split(' ').pop()!).toLowerCase().replace(/[^a-z0-9]/g, '') || 'anon';
+  const year = work.publication_year ? String(work.publication_year) : 'nd';
+  const titleWord = asciiFold(work.title || work.display_name || '')
+    .toLowerCase()
+    .split(/[^a-z0-9]+/)
+    .find(w => w && !KEY_STOPWORDS.has(w)) || '';
+  return `${namePart}${year}${titleWord}`;
+}
+
+/**
+ * Keys for a list of works, disambiguating collisions with a/b/c suffixes
+ * (the first occurrence keeps the bare key). Stable for a given input order.
+ */
+export function citationKeys(works: any[]): string[] {
+  const seen = new Map<string, number>();
+  return works.map(work => {
+    const key = baseCitationKey(work);
+    const n = seen.get(key) ?? 0;
+    seen.set(key, n + 1);
+    if (n === 0) return key;
+    // 1 → a, 26 → z, 27 → aa
+    let suffix = '';
+    for (let i = n; i > 0; i = Math.floor((i - 1) / 26)) {
+      suffix = String.fromCharCode(97 + ((i - 1) % 26)) + suffix;
+    }
+    return key + suffix;
+  });
+}
+
+// ── BibTeX ───────────────────────────────────────────────────────────────────
+
+function bibtexType(work: any): string {
+  switch (work.type) {
+    case 'book':
+      return 'book';
+    case 'book-chapter':
+      return 'incollection';
+    case 'dissertation':
+      return 'phdthesis';
+    case 'report':
+      return 'techreport';
+    case 'article':
+    case 'review':
+    case 'letter':
+    case 'editorial':
+      return isConference(work) ? 'inproceedings' : 'article';
+    default:
+      return 'misc';
+  }
+}
+
+function venueField(type: string): string {
+  if (type === 'article') return 'journal';
+  if (type === 'inproceedings' || type === 'incollection') return 'booktitle';
+  if (type === 'phdthesis') return 'school';
+  if (type === 'techreport') return 'institution';
+  return 'howpublished';
+}
+
+function escapeBibtex(text: string): string {
+  // Single pass, so the braces introduced for \ ~ ^ are not escaped again
+  return text.replace(/[\\&%$#_{}~^]/g, ch => {
+    if (ch === '\\') return '\\textbackslash{}';
+    if (ch === '~') return '\\textasciitilde{}';
+    if (ch === '^') return '\\textasciicircum{}';
+    return `\\${ch}`;
+  });
+}
+
+function bibtexName(name: ParsedName): string {
+  if (name.literal) return `{${escapeBibtex(name.literal)}}`;
+  const parts = [escapeBibtex(name.family!)];
+  if (name.suffix) parts.push(escapeBibtex(name.suffix));
+  if (name.given) parts.push(escapeBibtex(name.given));
+  return parts.join(', ');
+}
+
+export function toBibTeX(works: any[]): string {
+  const keys = citationKeys(works);
+  return works.map((work, i) => {
+    const type = bibtexType(work);
+    const venue = work.primary_location?.source?.display_name;
+    const fields: [string, string | undefined][] = [
+      ['title', work.title || work.display_name ? `{${escapeBibtex(work.title || work.display_name)}}` : undefined],
+      ['author', workAuthors(work).map(bibtexName).join(' and ') || undefined],
+      ['year', work.publication_year ? String(work.publication_year) : undefined],
+      [venueField(type), venue ? escapeBibtex(venue) : undefined],
+      ['volume', work.biblio?.volume],
+      ['number', work.biblio?.issue],
+      ['pages', pages(work, '--')],
+      ['publisher', work.primary_location?.source?.host_organization_name ? escapeBibtex(work.primary_location.source.host_organization_name) : undefined],
+      ['doi', bareDoi(work.doi)],
+      ['url', work.doi || work.primary_location?.landing_page_url],
+      ['note', `OpenAlex: ${bareId(work.id)}`],
+    ];
+    const body = fields
+      .filter(([, value]) => value)
+      .map(([field, value]) => `  ${field} = {${value}}`)
+      .join(',\n');
+    return `@${type}{${keys[i]},\n${body}\n}`;
+  }).join('\n\n') + '\n';
+}
+
+// ── RIS ──────────────────────────────────────────────────────────────────────
+
+function risType(work: any): string {
+  switch (work.type) {
+    case 'book':
+      return 'BOOK';
+    case 'book-chapter':
+      return 'CHAP';
+    case 'dissertation':
+      return 'THES';
+    case 'report':
+      return 'RPRT';
+    case 'dataset':
+      return 'DATA';
+    case 'preprint':
+      return 'UNPB';
+    case 'standard':
+      return 'STAND';
+    case 'article':
+    case 'review':
+    case 'letter':
+    case 'editorial':
+      return isConference(work) ? 'CPAPER' : 'JOUR';
+    default:
+      return 'GEN';
+  }
+}
+
+export function toRIS(works: any[]): string {
+  const keys = citationKeys(works);
+  return works.map((work, i) => {
+    const lines: string[] = [`TY  - ${risType(work)}`, `ID  - ${keys[i]}`];
+    const add = (tag: string, value: string | number | undefined | null) => {
+      if (value !== undefined && value !== null && value !== '') lines.push(`${tag}  - ${value}`);
+    };
+    add('TI', work.title || work.display_name);
+    for (const name of workAuthors(work)) {
+      add('AU', name.literal ?? [name.family, name.given, name.suffix].filter(Boolean).join(', '));
+    }
+    add('PY', work.publication_year);
+    add('DA', work.publication_date?.replace(/-/g, '/'));
+    add('T2', work.primary_location?.source?.display_name);
+    add('VL', work.biblio?.volume);
+    add('IS', work.biblio?.issue);
+    add('SP', work.biblio?.first_page);
+    add('EP', work.biblio?.last_page);
+    add('PB', work.primary_location?.source?.host_organization_name);
+    add('SN', work.primary_location?.source?.issn_l);
+    add('DO', bareDoi(work.doi));
+    add('UR', work.doi || work.primary_location?.landing_page_url);
+    add('N1', `OpenAlex: ${bareId(work.id)}`);
+    lines.push('ER  - ');
+    return lines.join('\n');
+  }).join('\n\n') + '\n';
+}
+
+// ── CSL-JSON ─────────────────────────────────────────────────────────────────
+
+function cslType(work: any): string {
+  switch (work.type) {
+    case 'book':
+      return 'book';
+    case 'book-chapter':
+      return 'chapter';
+    case 'dissertation':
+      return 'thesis';
+    case 'report':
+      return 'report';
+    case 'dataset':
+      return 'dataset';
+    case 'preprint':
+      return 'article';
+    case 'standard':
+      return 'standard';
+    case 'article':
+    case 'review':
+    case 'letter':
+    case 'editorial':
+      return isConference(work) ? 'paper-conference' : 'article-journal';
+    default:
+      return 'document';
+  }
+}
+
+export function toCSLJSON(works: any[]): any[] {
+  const keys = citationKeys(works);
+  return works.map((work, i) => {
+    const item: Record<string, any> = {
+      id: keys[i],
+      type: cslType(work),
+      title: work.title || work.display_name,
+      author: workAuthors(work).map(name => (name.literal ? { literal: name.literal } : {
+        family: name.family,
+        ...(name.given ? { given: name.given } : {}),
+        ...(name.suffix ? { suffix: name.suffix } : {}),
+      })),
+    };
+    const parts = dateParts(work);
+    if (parts) item.issued = { 'date-parts': [parts] };
+    const optional: Record<string, any> = {
+      'container-title': work.primary_location?.source?.display_name,
+      volume: work.biblio?.volume,
+      issue: work.biblio?.issue,
+      page: pages(work, '-'),
+      publisher: work.primary_location?.source?.host_organization_name,
+      ISSN: work.primary_location?.source?.issn_l,
+      DOI: bareDoi(work.doi),
+      URL: work.doi || work.primary_location?.landing_page_url,
+      note: `OpenAlex: ${bareId(work.id)}`,
+    };
+    for (const [field, value] of Object.entries(optional)) {
+      if (value !== undefined && value !== null && value !== '') item[field] = value;
+    }
+    return item;
+  });
+}
+
+/**
+ * Render works in the given reference-manager format as a single string.
+ */
+export function formatCitations(works: any[], format: CitationFormat): string {
+  switch (format) {
+    case 'bibtex':
+      return toBibTeX(works);
+    case 'ris':
+      return toRIS(works);
+    case 'csl-json':
+      return JSON.stringify(toCSLJSON(works), null, 2);
+  }
+}
@@ -0,0 +1,433 @@
+// Topic clustering of a works corpus — groups the results of a query by what
+// they are about, without external ML dependencies. Each work becomes a sparse
+// TF-IDF vector in three blocks: words from its title and reconstructed abstract,
+// its OpenAlex topics and keywords, and its references (shared references are
+// bibliographic coupling; a cited corpus work also gets its own ID as a feature,
+// so direct citations link too). Blocks are normalized and weighted, then
+// clustered with spherical k-means (k-means++ seeding, fixed random seed) or by
+// Louvain community detection on the citation-link graph.
+
+import { CONFIG, debug } from './config.js';
+import { normalizeText } from './bibliography.js';
+import { reconstructAbstract } from './formatters.js';
+
+export type ClusterMethod = 'kmeans' | 'graph';
+
+export interface ClusterOptions {
+  method: ClusterMethod;
+  /** Number of clusters for k-means (default: from the corpus size). */
+  k?: number;
+  seed: number;
+  includeMembers: boolean;
+}
+
+export interface CorpusCluster {
+  id: number;
+  size: number;
+  /** Share of clustered works. */
+  share: number;
+  top_terms: { term: string; weight: number }[];
+  top_topics: { name: string; count: number }[];
+  top_keywords: string[];
+  years: { from: number | null; to: number | null; median: number | null };
+  mean_citations: number;
+  representative_works: { id: string; title: string | null; publication_year: number | null; cited_by_count: number | null; similarity: number }[];
+  /** include_members: every work in the cluster. */
+  work_ids?: string[];
+}
+
+export interface ClusteringResult {
+  method: ClusterMethod;
+  works: number;
+  clusters: CorpusCluster[];
+  /** Works without usable features (k-means) or without citation links (graph), or in clusters below the minimum size. */
+  unclustered: number;
+  unclustered_ids?: string[];
+}
+
+/** Fields clustering needs; pass as `select` when fetching the corpus. */
+export const CLUSTER_FIELDS = [
+  'id', 'doi', 'title', 'display_name', 'publication_year', 'cited_by_count',
+  'abstract_inverted_index', 'primary_topic', 'topics', 'keywords', 'referenced_works',
+];
+
+type Vector = Map<string, number>;
+
+const STOPWORDS = new Set(`
+  a about above across after again against all almost along also although among an and another any are around as at
+  be been before being between both but by can could did do does doing done due during each either else etc even
+  ever every for from further had has have having here how however if in into is it its itself just less many may
+  might more most much must neither no nor not of off often on once one only or other others our out over own per
+  rather same several should since so some such than that the their them then there these they this those though
+  through thus to too toward towards under until upon us use used uses using very via was we were what when where
+  whether which while who whom whose why will with within without would yet
+  study studies paper article research results result method methods approach approaches propose proposed present
+  presents show shows shown find found findings analysis based new two three first second however therefore
+  furthermore moreover well high higher low lower different various important significant significantly provide
+  provides including include includes given obtained related respectively compared effect effects data
+`.split(/\s+/).filter(Boolean));
+
+const TITLE_WEIGHT = 2;
+
+function bareId(id: string): string {
+  return String(id).split('/').pop()!;
+}
+
+function tokens(text: string): string[] {
+  return normalizeText(text).split(' ').filter(w => w.length >= 3 && !STOPWORDS.has(w) && !/^\d+$/.test(w));
+}
+
+/** Unigrams and adjacent-word bigrams, prefixed with the feature block. */
+function termCounts(work: any): Map<string, number> {
+  const counts = new Map<string, number>();
+  const add = (text: string, weight: number) => {
+    const words = tokens(text);
+    words.forEach((word, i) => {
+      counts.set(`t:${word}`, (counts.get(`t:${word}`) ?? 0) + weight);
+      if (i > 0) counts.set(`t:${words[i - 1]} ${word}`, (counts.get(`t:${words[i - 1]} ${word}`) ?? 0) + weight);
+    });
+  };
+  add(work.title || work.display_name || '', TITLE_WEIGHT);
+  if (work.abstract_inverted_index) add(reconstructAbstract(work.abstract_inverted_index), 1);
+  return counts;
+}
+
+function conceptCounts(work: any): Map<string, number> {
+  const counts = new Map<string, number>();
+  const topics = work.topics?.length ? work.topics : work.primary_topic ? [work.primary_topic] : [];
+  for (const topic of topics) {
+    if (topic?.display_name) counts.set(`topic:${topic.display_name}`, topic.score ?? 1);
+  }
+  for (const keyword of work.keywords || []) {
+    const name = keyword?.display_name ?? keyword?.keyword;
+    if (name) counts.set(`kw:${name}`, keyword.score ?? 1);
+  }
+  return counts;
+}
+
+function norm(vector: Vector): number {
+  let sum = 0;
+  for (const value of vector.values()) sum += value * value;
+  return Math.sqrt(sum);
+}
+
+function scaled(vector: Vector, factor: number): Vector {
+  return new Map(Array.from(vector, ([key, value]) => [key, value * factor]));
+}
+
+function dot(a: Vector, b: Vector): number {
+  const [small, large] = a.size <= b.size ? [a, b] : [b, a];
+  let sum = 0;
+  for (const [key, value] of small) {
+    const other = large.get(key);
+    if (other !== undefined) sum += value * other;
+  }
+  return sum;
+}
+
+/** TF-IDF with sublinear tf; features in fewer than 2 works or more than half of them are dropped. */
+function tfidf(counts: Map<string, number>[], maxDfShare: number): Vector[] {
+  const df = new Map<string, number>();
+  for (const doc of counts) for (const key of doc.keys()) df.set(key, (df.get(key) ?? 0) + 1);
+  const n = counts.length;
+  return counts.map(doc => {
+    const vector: Vector = new Map();
+    for (const [key, tf] of doc) {
+      const d = df.get(key)!;
+      if (d < 2 || d > Math.max(2, n * maxDfShare)) continue;
+      vector.set(key, (1 + Math.log(Math.max(tf, 1))) * Math.log(n / d));
+    }
+    return vector;
+  });
+}
+
+/**
+ * Feature vectors for a corpus: text, concept and citation blocks, each
+ * L2-normalized and weighted (CONFIG.CLUSTERING.BLOCK_WEIGHTS), then the whole
+ * vector normalized. Also returns the citation block alone for graph clustering.
+ */
+export function buildFeatureVectors(works: any[]): { vectors: Vector[]; citations: Vector[] } {
+  const inCorpus = new Set(works.map(w => bareId(w.id)));
+  const citedInCorpus = new Set<string>();
+  const refCounts = works.map(work => {
+    const counts = new Map<string, number>();
+    for (const ref of work.referenced_works || []) {
+      const id = bareId(ref);
+      counts.set(`ref:${id}`, 1);
+      if (inCorpus.has(id)) citedInCorpus.add(id);
+    }
+    return counts;
+  });
+  // A cited work shares a feature with every corpus work citing it
+  works.forEach((work, i) => {
+    if (citedInCorpus.has(bareId(work.id))) refCounts[i].set(`ref:${bareId(work.id)}`, 1);
+  });
+
+  const { TEXT, CONCEPTS, CITATIONS } = CONFIG.CLUSTERING.BLOCK_WEIGHTS;
+  const blocks: [Vector[], number][] = [
+    [tfidf(works.map(termCounts), CONFIG.CLUSTERING.MAX_DF_SHARE), TEXT],
+    [tfidf(works.map(conceptCounts), 1), CONCEPTS],
+    [tfidf(refCounts, CONFIG.CLUSTERING.MAX_DF_SHARE), CITATIONS],
+  ];
+  const normalized = blocks.map(([vectors, weight]): Vector[] =>
+    vectors.map(v => (norm(v) > 0 ? scaled(v, Math.sqrt(weight) / norm(v)) : v))
+  );
+  const vectors = works.map((_, i) => {
+    const combined: Vector = new Map();
+    for (const block of normalized) for (const [key, value] of block[i]) combined.set(key, value);
+    const length = norm(combined);
+    return length > 0 ? scaled(combined, 1 / length) : combined;
+  });
+  const citations = normalized[2].map(v => (norm(v) > 0 ? scaled(v, 1 / norm(v)) : v));
+  return { vectors, citations };
+}
+
+/** Deterministic PRNG (mulberry32) so the same corpus and seed give the same clusters. */
+function random(seed: number): () => number {
+  let state = seed >>> 0;
+  return () => {
+    state = (state + 0x6d2b79f5) >>> 0;
+    let t = state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
+
+function centroid(vectors: Vector[]): Vector {
+  const sum: Vector = new Map();
+  for (const v of vectors) for (const [key, value] of v) sum.set(key, (sum.get(key) ?? 0) + value);
+  const length = norm(sum);
+  return length > 0 ? scaled(sum, 1 / length) : sum;
+}
+
+/**
+ * Spherical k-means (cosine similarity) with k-means++ seeding. Returns a
+ * cluster index per vector, or -1 for empty vectors.
+ */
+export function kMeans(vectors: Vector[], k: number, seed: number): number[] {
+  const rand = random(seed);
+  const usable = vectors.map((v, i) => i).filter(i => vectors[i].size > 0);
+  const assignment = vectors.map(() => -1);
+  if (usable.length === 0) return assignment;
+  k = Math.min(k, usable.length);
+
+  // k-means++: next centre drawn with probability ∝ cosine distance to the nearest one
+  const centres: Vector[] = [vectors[usable[Math.floor(rand() * usable.length)]]];
+  const nearest = usable.map(i => 1 - dot(vectors[i], centres[0]));
+  while (centres.length < k) {
+    const total = nearest.reduce((sum, d) => sum + Math.max(d, 0), 0);
+    let pick = usable[Math.floor(rand() * usable.length)];
+    if (total > 0) {
+      let r = rand() * total;
+      for (let j = 0; j < usable.length; j++) {
+        r -= Math.max(nearest[j], 0);
+        if (r <= 0) {
+          pick = usable[j];
+          break;
+        }
+      }
+    }
+    centres.push(vectors[pick]);
+    usable.forEach((i, j) => (nearest[j] = Math.min(nearest[j], 1 - dot(vectors[i], vectors[pick]))));
+  }
+
+  for (let iteration = 0; iteration < CONFIG.CLUSTERING.MAX_ITERATIONS; iteration++) {
+    let changed = false;
+    for (const i of usable) {
+      let best = 0;
+      let bestSimilarity = -Infinity;
+      centres.forEach((centre, c) => {
+        const similarity = dot(vectors[i], centre);
+        if (similarity > bestSimilarity) [best, bestSimilarity] = [c, similarity];
+      });
+      if (assignment[i] !== best) {
+        assignment[i] = best;
+        changed = true;
+      }
+    }
+    if (!changed) break;
+    centres.forEach((_, c) => {
+      const members = usable.filter(i => assignment[i] === c).map(i => vectors[i]);
+      // An emptied cluster keeps its old centre
+      if (members.length > 0) centres[c] = centroid(members);
+    });
+  }
+  return assignment;
+}
+
+/**
+ * Louvain community detection (modularity, with aggregation levels) on an
+ * undirected weighted graph given as adjacency maps. Returns a community per
+ * node; nodes without edges get -1.
+ */
+export function louvain(adjacency: Map<number, number>[]): number[] {
+  let graph = adjacency;
+  // membership[i]: node of the current level that original node i belongs to
+  let membership = adjacency.map((_, i) => i);
+
+  for (;;) {
+    const n = graph.length;
+    const degree = graph.map(edges => Array.from(edges.values()).reduce((a, b) => a + b, 0));
+    const m2 = degree.reduce((a, b) => a + b, 0);
+    if (m2 === 0) break;
+    const community = graph.map((_, i) => i);
+    const total = [...degree];
+    let movedAny = false;
+
+    for (let pass = 0; pass < CONFIG.CLUSTERING.MAX_ITERATIONS; pass++) {
+      let moved = false;
+      for (let i = 0; i < n; i++) {
+        const own = community[i];
+        const links = new Map<number, number>();
+        for (const [j, w] of graph[i]) {
+          if (j !== i) links.set(community[j], (links.get(community[j]) ?? 0) + w);
+        }
+        total[own] -= degree[i];
+        let best = own;
+        let bestGain = (links.get(own) ?? 0) - (total[own] * degree[i]) / m2;
+        for (const [c, w] of links) {
+          const gain = w - (total[c] * degree[i]) / m2;
+          if (gain > bestGain + 1e-12) [best, bestGain] = [c, gain];
+        }
+        total[best] += degree[i];
+        if (best !== own) {
+          community[i] = best;
+          moved = true;
+          movedAny = true;
+        }
+      }
+      if (!moved) break;
+    }
+    if (!movedAny) break;
+
+    // Aggregate communities into the nodes of the next level
+    const index = new Map<number, number>();
+    for (const c of community) if (!index.has(c)) index.set(c, index.size);
+    const next: Map<number, number>[] = Array.from({ length: index.size }, () => new Map());
+    graph.forEach((edges, i) => {
+      const a = index.get(community[i])!;
+      for (const [j, w] of edges) {
+        const b = index.get(community[j])!;
+        next[a].set(b, (next[a].get(b) ?? 0) + w);
+      }
+    });
+    membership = membership.map(node => index.get(community[node])!);
+    graph = next;
+  }
+  return membership.map((node, i) => (adjacency[i].size === 0 ? -1 : node));
+}
+
+/**
+ * Citation-link graph: corpus works linked by the cosine of their citation
+ * blocks (shared references and direct citations). Features shared by too
+ * many works are skipped to keep the graph sparse.
+ */
+function citationGraph(citations: Vector[]): Map<number, number>[] {
+  const postings = new Map<string, number[]>();
+  citations.forEach((v, i) => {
+    for (const key of v.keys()) postings.set(key, [...(postings.get(key) || []), i]);
+  });
+  const adjacency = citations.map(() => new Map<number, number>());
+  for (const members of postings.values()) {
+    if (members.length < 2 || members.length > CONFIG.CLUSTERING.MAX_LINKS_PER_FEATURE) continue;
+    for (let x = 0; x < members.length; x++) {
+      for (let y = x + 1; y < members.length; y++) {
+        const [a, b] = [members[x], members[y]];
+        if (adjacency[a].has(b)) continue;
+        const weight = dot(citations[a], citations[b]);
+        adjacency[a].set(b, weight);
+        adjacency[b].set(a, weight);
+      }
+    }
+  }
+  return adjacency;
+}
+
+/** Default k: about √(n/2), between 2 and MAX_K. */
+export function defaultK(n: number): number {
+  return Math.max(2, Math.min(CONFIG.CLUSTERING.MAX_K, Math.round(Math.sqrt(n / 2))));
+}
+
+function median(values: number[]): number | null {
+  if (values.length === 0) return null;
+  const sorted = [...values].sort((a, b) => a - b);
+  const mid = Math.floor(sorted.length / 2);
+  return sorted.length % 2 ? sorted[mid] : Math.round((sorted[mid - 1] + sorted[mid]) / 2);
+}
+
+function describeCluster(members: number[], works: any[], vectors: Vector[], includeMembers: boolean): Omit<CorpusCluster, 'id' | 'share'> {
+  const centre = centroid(members.map(i => vectors[i]));
+  const features = Array.from(centre).sort((a, b) => b[1] - a[1]);
+  const topicCounts = new Map<string, number>();
+  for (const i of members) {
+    const name = works[i].primary_topic?.display_name;
+    if (name) topicCounts.set(name, (topicCounts.get(name) ?? 0) + 1);
+  }
+  const years = members.map(i => works[i].publication_year).filter((y): y is number => typeof y === 'number');
+  const representative = members
+    .map(i => ({ i, similarity: dot(vectors[i], centre) }))
+    .sort((a, b) => b.similarity - a.similarity || (works[b.i].cited_by_count ?? 0) - (works[a.i].cited_by_count ?? 0))
+    .slice(0, CONFIG.CLUSTERING.REPRESENTATIVE_WORKS);
+
+  return {
+    size: members.length,
+    top_terms: features
+      .filter(([key]) => key.startsWith('t:'))
+      .slice(0, CONFIG.CLUSTERING.TOP_TERMS)
+      .map(([key, weight]) => ({ term: key.slice(2), weight: Math.round(weight * 1000) / 1000 })),
+    top_topics: Array.from(topicCounts, ([name, count]) => ({ name, count }))
+      .sort((a, b) => b.count - a.count || a.name.localeCompare(b.name))
+      .slice(0, 3),
+    top_keywords: features.filter(([key]) => key.startsWith('kw:')).slice(0, 5).map(([key]) => key.slice(3)),
+    years: {
+      from: years.length ? Math.min(...years) : null,
+      to: years.length ? Math.max(...years) : null,
+      median: median(years),
+    },
+    mean_citations: Math.round(members.reduce((sum, i) => sum + (works[i].cited_by_count ?? 0), 0) / members.length * 10) / 10,
+    representative_works: representative.map(({ i, similarity }) => ({
+      id: bareId(works[i].id),
+      title: works[i].title || works[i].display_name || null,
+      publication_year: works[i].publication_year ?? null,
+      cited_by_count: works[i].cited_by_count ?? null,
+      similarity: Math.round(similarity * 1000) / 1000,
+    })),
+    ...(includeMembers && { work_ids: members.map(i => bareId(works[i].id)) }),
+  };
+}
+
+/**
+ * Cluster a corpus and describe each cluster by its top terms, topics and
+ * keywords, representative works (closest to the centroid), size and years.
+ * Clusters are numbered by size, largest first.
+ */
+export function clusterCorpus(works: any[], options: ClusterOptions): ClusteringResult {
+  const { vectors, citations } = buildFeatureVectors(works);
+  const assignment = options.method === 'graph'
+    ? louvain(citationGraph(citations))
+    : kMeans(vectors, options.k ?? defaultK(works.length), options.seed);
+
+  const groups = new Map<number, number[]>();
+  assignment.forEach((c, i) => {
+    if (c >= 0) groups.set(c, [...(groups.get(c) || []), i]);
+  });
+  const kept = Array.from(groups.values())
+    .filter(members => members.length >= CONFIG.CLUSTERING.MIN_CLUSTER_SIZE)
+    .sort((a, b) => b.length - a.length);
+  const clustered = new Set(kept.flat());
+  const unclustered = works.map((_, i) => i).filter(i => !clustered.has(i));
+  debug(`cluster_corpus (${options.method}): ${works.length} works, ${kept.length} clusters, ${unclustered.length} unclustered`);
+
+  return {
+    method: options.method,
+    works: works.length,
+    clusters: kept.map((members, c) => ({
+      id: c + 1,
+      ...describeCluster(members, works, vectors, options.includeMembers),
+      share: Math.round((members.length / Math.max(clustered.size, 1)) * 1000) / 1000,
+    })),
+    unclustered: unclustered.length,
+    ...(options.includeMembers && { unclustered_ids: unclustered.map(i => bareId(works[i].id)) }),
+  };
+}
@@ -0,0 +1,247 @@
+// Collections (reading lists) — named sets of OpenAlex work IDs with user tags
+// and notes, kept in collections.json (see store.ts) so a corpus can be built
+// up across tool calls instead of copy-pasting IDs. Only IDs and annotations
+// are stored; works are re-hydrated from OpenAlex with the ids.openalex filter
+// when a collection is listed or exported.
+
+import * as path from 'node:path';
+import { OpenAlexClient } from './openalex-client.js';
+import { CONFIG } from './config.js';
+import { JsonFileStore, dataDirectory } from './store.js';
+
+export interface CollectionItem {
+  /** Bare OpenAlex work ID (W…). */
+  id: string;
+  doi: string | null;
+  added_at: string;
+  tags: string[];
+  note: string | null;
+}
+
+export interface Collection {
+  name: string;
+  description: string | null;
+  created_at: string;
+  updated_at: string;
+  items: CollectionItem[];
+}
+
+interface CollectionFile {
+  collections: Record<string, Collection>;
+}
+
+/** A work to add: its ID, and the DOI when the caller had one. */
+export interface CollectionEntry {
+  id: string;
+  doi?: string | null;
+}
+
+export interface CollectionAnnotation {
+  tags?: string[];
+  /** Replaces the note of every added item when given. */
+  note?: string;
+}
+
+const OPENALEX_WORK_ID = /^(https?:\/\/openalex\.org\/)?W\d+$/i;
+
+function bareId(id: string): string {
+  return String(id).split('/').pop()!.toUpperCase();
+}
+
+function bareDoi(doi: string): string {
+  return doi.replace(/^https?:\/\/(dx\.)?doi\.org\//i, '').replace(/^doi:\s*/i, '').toLowerCase();
+}
+
+function notFound(name: string): Error {
+  return new Error(`No collection named "${name}". Call collection_list to see collections.`);
+}
+
+function newCollection(name: string, description?: string): Collection {
+  const now = new Date().toISOString();
+  return { name, description: description ?? null, created_at: now, updated_at: now, items: [] };
+}
+
+function uniqueTags(tags: string[]): string[] {
+  return Array.from(new Set(tags.map(tag => tag.trim()).filter(Boolean)));
+}
+
+/** Items carrying a tag (all items when no tag is given). */
+export function itemsWithTag(collection: Collection, tag?: string): CollectionItem[] {
+  return tag ? collection.items.filter(item => item.tags.includes(tag)) : collection.items;
+}
+
+/** Number of items per tag, most used first. */
+export function tagCounts(collection: Collection): Record<string, number> {
+  const counts = new Map<string, number>();
+  for (const item of collection.items) {
+    for (const tag of item.tags) counts.set(tag, (counts.get(tag) ?? 0) + 1);
+  }
+  return Object.fromEntries([...counts].sort((a, b) => b[1] - a[1] || a[0].localeCompare(b[0])));
+}
+
+export class CollectionStore {
+  private store: JsonFileStore<CollectionFile>;
+
+  constructor(file: string) {
+    this.store = new JsonFileStore<CollectionFile>(file, () => ({ collections: {} }));
+  }
+
+  get file(): string {
+    return this.store.file;
+  }
+
+  async list(): Promise<Collection[]> {
+    const { collections } = await this.store.read();
+    return Object.values(collections).sort((a, b) => a.name.localeCompare(b.name));
+  }
+
+  async get(name: string): Promise<Collection> {
+    const collection = (await this.store.read()).collections[name];
+    if (!collection) throw notFound(name);
+    return collection;
+  }
+
+  create(name: string, description?: string): Promise<Collection> {
+    return this.store.update(data => {
+      if (data.collections[name]) throw new Error(`A collection named "${name}" already exists.`);
+      const collection = newCollection(name, description);
+      data.collections[name] = collection;
+      return collection;
+    });
+  }
+
+  /**
+   * Add works to a collection (created first when `create` is set). Works
+   * already in it keep their place; new tags are merged into theirs and a
+   * given note replaces theirs.
+   */
+  add(
+    name: string,
+    entries: CollectionEntry[],
+    annotation: CollectionAnnotation = {},
+    create = false
+  ): Promise<{ collection: Collection; added: string[]; updated: string[] }> {
+    return this.store.update(data => {
+      if (!data.collections[name] && create) data.collections[name] = newCollection(name);
+      const collection = data.collections[name];
+      if (!collection) throw notFound(name);
+      const byId = new Map(collection.items.map(item => [item.id, item]));
+      const tags = uniqueTags(annotation.tags ?? []);
+      const now = new Date().toISOString();
+      const added: string[] = [];
+      const updated: string[] = [];
+
+      for (const entry of entries) {
+        const id = bareId(entry.id);
+        const doi = entry.doi ? bareDoi(entry.doi) : null;
+        const existing = byId.get(id);
+        if (existing) {
+          existing.tags = uniqueTags([...existing.tags, ...tags]);
+          if (annotation.note !== undefined) existing.note = annotation.note;
+          existing.doi ??= doi;
+          if (!updated.includes(id)) updated.push(id);
+          continue;
+        }
+        const item: CollectionItem = { id, doi, added_at: now, tags: [...tags], note: annotation.note ?? null };
+        collection.items.push(item);
+        byId.set(id, item);
+        added.push(id);
+      }
+
+      if (collection.items.length > CONFIG.COLLECTIONS.MAX_ITEMS) {
+        throw new Error(
+          `Collection "${name}" would hold ${collection.items.length} works; the limit is ${CONFIG.COLLECTIONS.MAX_ITEMS}.`
+        );
+      }
+      collection.updated_at = now;
+      return { collection, added, updated };
+    });
+  }
+
+  /**
+   * Remove works by OpenAlex ID or DOI. With `tags`, only those tags are taken
+   * off the matching items (all items when no IDs are given) and the items stay.
+   */
+  remove(name: string, ids: string[], tags?: string[]): Promise<{ collection: Collection; removed: string[]; untagged: string[]; not_found: string[] }> {
+    return this.store.update(data => {
+      const collection = data.collections[name];
+      if (!collection) throw notFound(name);
+      const matches = (item: CollectionItem, id: string) =>
+        OPENALEX_WORK_ID.test(id) ? item.id === bareId(id) : item.doi === bareDoi(id);
+      const notFoundIds = ids.filter(id => !collection.items.some(item => matches(item, id)));
+      const selected = ids.length > 0
+        ? collection.items.filter(item => ids.some(id => matches(item, id)))
+        : tags ? collection.items : [];
+
+      let removed: string[] = [];
+      let untagged: string[] = [];
+      if (tags) {
+        const dropped = new Set(tags);
+        untagged = selected.filter(item => item.tags.some(tag => dropped.has(tag))).map(item => item.id);
+        for (const item of selected) item.tags = item.tags.filter(tag => !dropped.has(tag));
+      } else {
+        removed = selected.map(item => item.id);
+        collection.items = collection.items.filter(item => !selected.includes(item));
+      }
+      collection.updated_at = new Date().toISOString();
+      return { collection, removed, untagged, not_found: notFoundIds };
+    });
+  }
+}
+
+const stores = new Map<string, CollectionStore>();
+
+/**
+ * The collection store for the current environment: OPENALEX_COLLECTIONS, or
+ * collections.json in the data directory.
+ */
+export function collectionStore(env: Record<string, string | undefined> = process.env): CollectionStore {
+  const file = env.OPENALEX_COLLECTIONS || path.join(dataDirectory(env), 'collections.json');
+  if (!stores.has(file)) stores.set(file, new CollectionStore(file));
+  return stores.get(file)!;
+}
+
+/**
+ * Turn IDs and works-list results into collection entries. OpenAlex IDs are
+ * taken as they are; DOIs (and works that only carry a DOI) are resolved to
+ * their OpenAlex ID.
+ */
+export async function collectionEntries(
+  client: OpenAlexClient,
+  ids: string[],
+  works: any[]
+): Promise<{ entries: CollectionEntry[]; unresolved: string[] }> {
+  const entries: CollectionEntry[] = [];
+  const lookups: string[] = [];
+  for (const id of ids) {
+    if (OPENALEX_WORK_ID.test(id)) entries.push({ id });
+    else lookups.push(id);
+  }
+  for (const work of works) {
+    if (work?.id && OPENALEX_WORK_ID.test(String(work.id))) entries.push({ id: work.id, doi: work.doi });
+    else if (work?.doi) lookups.push(work.doi);
+  }
+
+  const { works: resolved, unresolved } = await client.resolveWorks(lookups);
+  entries.push(...resolved.map(work => ({ id: work.id, doi: work.doi })));
+  return { entries, unresolved };
+}
+
+/**
+ * Fetch the works of a collection (optionally only those with a tag) in
+ * collection order, via getWorksByIds. IDs OpenAlex no longer returns (merged
+ * or deleted works) come back in `missing`.
+ */
+export async function hydrateCollection(
+  client: OpenAlexClient,
+  collection: Collection,
+  tag?: string
+): Promise<{ items: { item: CollectionItem; work: any }[]; missing: string[] }> {
+  const selected = itemsWithTag(collection, tag);
+  const works = await client.getWorksByIds(selected.map(item => item.id));
+  const byId = new Map(works.map((work): [string, any] => [bareId(work.id), work]));
+  return {
+    items: selected.filter(item => byId.has(item.id)).map(item => ({ item, work: byId.get(item.id) })),
+    missing: selected.filter(item => !byId.has(item.id)).map(item => item.id),
+  };
+}
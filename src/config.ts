@@ -20,6 +20,8 @@ export const CONFIG = {
     RATE_LIMIT: {
       REQUESTS_PER_SECOND: 10,
       REQUESTS_PER_DAY: 100000,
+      // Simultaneous in-flight requests (fan-out handlers otherwise burst)
+      MAX_CONCURRENT: 5,
     },
     RETRY: {
       MAX_RETRIES: 3,
@@ -32,10 +34,149 @@ export const CONFIG = {
   CACHE: {
     TTL_MS: 5 * 60 * 1000, // 5 minutes
     MAX_SIZE: 1000,
+    // Optional persistent layer, enabled by OPENALEX_CACHE_DIR (or OpenAlexConfig.diskCache)
+    DISK: {
+      MAX_SIZE_MB: 200,
+      // Per-call-type TTLs. Single entities keyed by entity type; work metadata
+      // rarely changes, while author/source stats and search results drift faster.
+      TTL_MS: {
+        works: 7 * 24 * 60 * 60 * 1000, // 7 days
+        authors: 24 * 60 * 60 * 1000, // 1 day
+        sources: 24 * 60 * 60 * 1000,
+        institutions: 7 * 24 * 60 * 60 * 1000,
+        topics: 30 * 24 * 60 * 60 * 1000, // 30 days
+        publishers: 7 * 24 * 60 * 60 * 1000,
+        funders: 7 * 24 * 60 * 60 * 1000,
+        search: 60 * 60 * 1000, // 1 hour — list/filter/group_by queries
+        autocomplete: 24 * 60 * 60 * 1000,
+        default: 24 * 60 * 60 * 1000,
+      } as Record<string, number>,
+    },
+  },
+  HTTP: {
+    DEFAULT_HOST: '127.0.0.1',
+    DEFAULT_PORT: 3000,
+    PATH: '/mcp',
+    MAX_BODY_BYTES: 4 * 1024 * 1024, // 4 MB
+    // `mock-server` subcommand (local OpenAlex stand-in serving fixtures)
+    MOCK_API_PORT: 8787,
+  },
+  SNOWBALL: {
+    MAX_DEPTH: 3,
+    DEFAULT_MAX_PER_LEVEL: 50,
+    DEFAULT_MAX_CITING_PER_WORK: 25,
+    // Reference IDs hydrated per level (≈20 batched requests)
+    MAX_FETCH_PER_LEVEL: 1000,
+  },
+  CLUSTERING: {
+    DEFAULT_MAX_WORKS: 1000,
+    MAX_WORKS: 3000,
+    MAX_K: 30,
+    DEFAULT_SEED: 42,
+    // Share of the feature-vector similarity from words, topics/keywords and references
+    BLOCK_WEIGHTS: { TEXT: 0.5, CONCEPTS: 0.3, CITATIONS: 0.2 },
+    // Words and references in more than this share of works carry no signal
+    MAX_DF_SHARE: 0.5,
+    MAX_ITERATIONS: 50,
+    // Graph method: references cited by more works than this don't create links
+    MAX_LINKS_PER_FEATURE: 200,
+    MIN_CLUSTER_SIZE: 3,
+    TOP_TERMS: 10,
+    REPRESENTATIVE_WORKS: 5,
+  },
+  AUTHOR_METRICS: {
+    DEFAULT_MAX_WORKS: 2000,
+    MAX_WORKS: 5000,
+    MOST_CITED: 5,
+    // compare_authors: works fetched per author, and topics listed
+    DEFAULT_COMPARE_WORKS: 1000,
+    MAX_COMPARE_WORKS: 2000,
+    TOP_TOPICS: 5,
+  },
+  EMERGING_TOPICS: {
+    DEFAULT_WINDOW_YEARS: 3,
+    MAX_WINDOW_YEARS: 10,
+    DEFAULT_MIN_WORKS: 100,
+    // topics.id groups read per year (pages of 200, largest first); OpenAlex has ~4,500 topics
+    MAX_GROUP_PAGES: 10,
+    MAX_SCOPE_TOPICS: 5000,
+    // Kleinberg burst: the burst state's rate is BURST_SCALE × the base rate,
+    // entering it costs BURST_GAMMA × ln(years)
+    BURST_SCALE: 2,
+    BURST_GAMMA: 1,
+  },
+  CENTRALITY: {
+    DEFAULT_MAX_WORKS: 200,
+    MAX_WORKS: 1000,
+    DEFAULT_LIMIT: 25,
+    PAGERANK_DAMPING: 0.85,
+    PAGERANK_MAX_ITERATIONS: 100,
+    PAGERANK_TOLERANCE: 1e-9,
+  },
+  SIMILARITY: {
+    // Seed references used for coupling (two OR'ed cites filters of 50)
+    MAX_REFERENCES: 100,
+    DEFAULT_MAX_CANDIDATES: 200,
+    MAX_CANDIDATES: 1000,
+    CITING_SAMPLE: 200,
+    // Co-cited works hydrated for their citation counts
+    MAX_HYDRATE: 200,
+    DEFAULT_LIMIT: 20,
+    DEFAULT_MIN_SHARED: 2,
+    SHARED_ITEMS_LISTED: 10,
+  },
+  INTEGRITY: {
+    MAX_REFERENCES_PER_WORK: 500,
+    // Share of references sharing an author with the work, and the minimum
+    // count, before check_integrity flags a reference list as self-citation-heavy
+    DEFAULT_SELF_CITATION_THRESHOLD: 0.25,
+    MIN_SELF_CITATIONS: 3,
+  },
+  BIBLIOGRAPHY: {
+    MAX_REFERENCES: 100,
+    // Title-search hits scored per reference, and title words sent to the search
+    SEARCH_CANDIDATES: 5,
+    MAX_SEARCH_WORDS: 25,
+    MAX_AUTHORS_COMPARED: 10,
+    // Confidence for "matched" / "uncertain"; below that a reference is not found
+    MATCH_CONFIDENCE: 0.8,
+    POSSIBLE_MATCH_CONFIDENCE: 0.5,
+    // Name similarity above which a differing author is reported as a misspelling
+    AUTHOR_SPELLING_SIMILARITY: 0.7,
+  },
+  DEDUPE: {
+    // Preprints often appear a year or two before the version of record
+    MAX_YEAR_GAP: 3,
+    // Shorter titles ("Introduction", "Reply to comments") only merge on DOI
+    MIN_TITLE_WORDS: 4,
+    TITLE_SIMILARITY: 0.9,
+  },
+  SAVED_SEARCHES: {
+    DEFAULT_MAX_RESULTS: 200,
+    MAX_RESULTS: 2000,
+    MAX_RUN_HISTORY: 100,
+    MAX_SEEN_IDS: 50000,
+  },
+  SCREENING: {
+    DEFAULT_MAX_PER_SEARCH: 500,
+    MAX_PER_SEARCH: 2000,
+    MAX_SEARCHES: 10,
+  },
+  COLLECTIONS: {
+    MAX_ITEMS: 5000,
+  },
+  GRAPH: {
+    DEFAULT_MAX_CITING_PER_SEED: 25,
+    DEFAULT_MAX_REFERENCES_PER_SEED: 50,
   },
   MCP: {
     DEFAULT_PAGE_SIZE: 10,
     MAX_PAGE_SIZE: 200,
+    // OpenAlex accepts up to 100 OR'd values per filter; stay well inside that
+    IDS_FILTER_BATCH_SIZE: 50,
+    // fetch_all / max_results mode (cursor paging): default and hard cap on results
+    DEFAULT_FETCH_ALL_RESULTS: 1000,
+    MAX_FETCH_ALL_RESULTS: 10000,
     MAX_AUTHORS_IN_SUMMARY: 5,
     MAX_ABSTRACT_LENGTH: 500,
     MAX_TOPICS: 5,
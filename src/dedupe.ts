@@ -0,0 +1,167 @@
+// Work deduplication — merges preprint and published versions (and other
+// duplicates OpenAlex keeps as separate works) in a works list. Works are linked
+// when they share a DOI, have the same normalized title with a shared author, or
+// near-identical titles with the same first author, always within a few years of
+// each other. Each cluster keeps one canonical record, preferring the version of
+// record, and lists the others as alternates.
+
+import { CONFIG } from './config.js';
+import { parseAuthorName } from './citation-formats.js';
+import { normalizeText, titleSimilarity } from './bibliography.js';
+import { summarizeWork } from './formatters.js';
+
+export type DuplicateMatch = 'doi' | 'title' | 'similar_title';
+
+export interface WorkCluster {
+  canonical: any;
+  alternates: { work: any; matched_by: DuplicateMatch }[];
+}
+
+// arXiv, bioRxiv/medRxiv, SSRN, Zenodo, Preprints.org, Research Square, OSF, PsyArXiv, SocArXiv, TechRxiv, Authorea
+const PREPRINT_DOI_PREFIXES = [
+  '10.48550/', '10.1101/', '10.2139/', '10.5281/', '10.20944/', '10.21203/',
+  '10.31219/', '10.31234/', '10.31235/', '10.36227/', '10.22541/',
+];
+
+const MATCH_STRENGTH: Record<DuplicateMatch, number> = { doi: 3, title: 2, similar_title: 1 };
+
+function bareDoi(work: any): string | undefined {
+  return work.doi ? String(work.doi).replace(/^https?:\/\/(dx\.)?doi\.org\//i, '').toLowerCase() : undefined;
+}
+
+function families(work: any): string[] {
+  return (work.authorships || [])
+    .map((a: any) => a.author?.display_name || a.raw_author_name)
+    .filter(Boolean)
+    .map((name: string) => {
+      const parsed = parseAuthorName(name);
+      return normalizeText(parsed.family || parsed.literal || name);
+    });
+}
+
+function normalizedTitle(work: any): string {
+  return normalizeText(work.title || work.display_name || '');
+}
+
+/** True for preprints: OpenAlex type, a preprint-server DOI, or a repository-only source. */
+export function isPreprint(work: any): boolean {
+  const doi = bareDoi(work);
+  return work.type === 'preprint'
+    || (!!doi && PREPRINT_DOI_PREFIXES.some(prefix => doi.startsWith(prefix)))
+    || work.primary_location?.source?.type === 'repository';
+}
+
+/** Higher for the version of record: not a preprint, a journal/conference source, a publisher DOI. */
+function versionOfRecordScore(work: any): number {
+  const sourceType = work.primary_location?.source?.type;
+  let score = isPreprint(work) ? 0 : 4;
+  if (['journal', 'conference', 'book series', 'ebook platform'].includes(sourceType)) score += 2;
+  if (bareDoi(work) && !PREPRINT_DOI_PREFIXES.some(prefix => bareDoi(work)!.startsWith(prefix))) score += 1;
+  if (work.primary_location?.version === 'publishedVersion') score += 1;
+  return score;
+}
+
+function yearsCompatible(a: any, b: any): boolean {
+  if (!a.publication_year || !b.publication_year) return true;
+  return Math.abs(a.publication_year - b.publication_year) <= CONFIG.DEDUPE.MAX_YEAR_GAP;
+}
+
+/** How two works are duplicates of each other, or null when they are not. */
+export function duplicateMatch(a: any, b: any): DuplicateMatch | null {
+  const doiA = bareDoi(a);
+  if (doiA && doiA === bareDoi(b)) return 'doi';
+  if (!yearsCompatible(a, b)) return null;
+
+  const titleA = normalizedTitle(a);
+  const titleB = normalizedTitle(b);
+  if (titleA.split(' ').length < CONFIG.DEDUPE.MIN_TITLE_WORDS || titleB.split(' ').length < CONFIG.DEDUPE.MIN_TITLE_WORDS) {
+    return null;
+  }
+  const authorsA = families(a);
+  const authorsB = families(b);
+  if (titleA === titleB && authorsA.some(name => authorsB.includes(name))) return 'title';
+  if (authorsA.length > 0 && authorsA[0] === authorsB[0] && titleSimilarity(titleA, titleB) >= CONFIG.DEDUPE.TITLE_SIMILARITY) {
+    return 'similar_title';
+  }
+  return null;
+}
+
+/**
+ * Group duplicate works. Clusters follow the position of their first member in
+ * the input; unique works come back as single-member clusters.
+ */
+export function clusterWorks(works: any[]): WorkCluster[] {
+  const parent = works.map((_, i) => i);
+  const find = (i: number): number => (parent[i] === i ? i : (parent[i] = find(parent[i])));
+  const union = (i: number, j: number) => {
+    const [ri, rj] = [find(i), find(j)];
+    if (ri !== rj) parent[Math.max(ri, rj)] = Math.min(ri, rj);
+  };
+
+  // Only compare works that share a DOI, a title or a first author
+  const blocks = new Map<string, number[]>();
+  works.forEach((work, i) => {
+    const keys = [`doi:${bareDoi(work) ?? ''}`, `title:${normalizedTitle(work)}`, `author:${families(work)[0] ?? ''}`];
+    for (const key of keys) {
+      if (key.endsWith(':')) continue;
+      blocks.set(key, [...(blocks.get(key) || []), i]);
+    }
+  });
+  for (const members of blocks.values()) {
+    for (let x = 0; x < members.length; x++) {
+      for (let y = x + 1; y < members.length; y++) {
+        if (find(members[x]) !== find(members[y]) && duplicateMatch(works[members[x]], works[members[y]])) {
+          union(members[x], members[y]);
+        }
+      }
+    }
+  }
+
+  const groups = new Map<number, number[]>();
+  works.forEach((_, i) => groups.set(find(i), [...(groups.get(find(i)) || []), i]));
+  return Array.from(groups.values()).map(members => {
+    const ranked = [...members].sort((x, y) =>
+      versionOfRecordScore(works[y]) - versionOfRecordScore(works[x])
+      || (works[y].cited_by_count ?? 0) - (works[x].cited_by_count ?? 0)
+      || x - y
+    );
+    const canonical = works[ranked[0]];
+    return {
+      canonical,
+      alternates: ranked.slice(1).map(i => ({
+        work: works[i],
+        // Linked through another member when not directly a duplicate of the canonical record
+        matched_by: duplicateMatch(canonical, works[i]) ?? 'similar_title',
+      })).sort((p, q) => MATCH_STRENGTH[q.matched_by] - MATCH_STRENGTH[p.matched_by]),
+    };
+  });
+}
+
+/**
+ * Deduplicated works-list results (dedupe: true): summarizeWork for each
+ * canonical record plus its alternates, and before/after counts.
+ */
+export function dedupeWorks(works: any[]) {
+  const clusters = clusterWorks(works);
+  return {
+    results: clusters.map(({ canonical, alternates }) => ({
+      ...summarizeWork(canonical),
+      alternates: alternates.map(({ work, matched_by }) => ({
+        id: work.id,
+        doi: work.doi,
+        title: work.title || work.display_name,
+        publication_year: work.publication_year,
+        type: work.type,
+        source: work.primary_location?.source?.display_name,
+        cited_by_count: work.cited_by_count,
+        is_preprint: isPreprint(work),
+        matched_by,
+      })),
+    })),
+    dedupe: {
+      input: works.length,
+      output: clusters.length,
+      merged: works.length - clusters.length,
+    },
+  };
+}
@@ -0,0 +1,185 @@
+// Disk-backed response cache — survives MCP process restarts (desktop clients
+// restart the server constantly). Sits behind the in-memory SimpleCache in
+// OpenAlexClient: memory → disk → network. One JSON file per key, named by the
+// SHA-256 of the key; entries carry their own expiry so TTLs can vary per call.
+// Disk errors are logged and treated as misses — the cache must never fail a request.
+
+import { promises as fs } from 'node:fs';
+import * as path from 'node:path';
+import { createHash } from 'node:crypto';
+import { debug } from './config.js';
+
+export interface DiskCacheOptions {
+  directory: string;
+  maxSizeBytes: number;
+}
+
+export interface DiskCacheStats {
+  directory: string;
+  entries: number;
+  sizeBytes: number;
+  maxSizeBytes: number;
+  hits: number;
+  misses: number;
+  writes: number;
+  evictions: number;
+}
+
+interface DiskCacheFile<T> {
+  key: string;
+  storedAt: number;
+  expiresAt: number;
+  data: T;
+}
+
+// Entry file names as produced by fileFor; anything else in the directory
+// (e.g. the rate limiter's rate-limit.json) is not the cache's to count or evict
+const ENTRY_FILE = /^[0-9a-f]{64}\.json$/;
+
+interface IndexEntry {
+  size: number;
+  storedAt: number;
+}
+
+export class DiskCache {
+  private directory: string;
+  private maxSizeBytes: number;
+  // file name → size/age, loaded lazily from the directory on first use
+  private index: Map<string, IndexEntry> | null = null;
+  private loading: Promise<Map<string, IndexEntry>> | null = null;
+  private totalBytes = 0;
+  private hits = 0;
+  private misses = 0;
+  private writes = 0;
+  private evictions = 0;
+
+  constructor(options: DiskCacheOptions) {
+    this.directory = options.directory;
+    this.maxSizeBytes = options.maxSizeBytes;
+  }
+
+  private fileFor(key: string): string {
+    return createHash('sha256').update(key).digest('hex') + '.json';
+  }
+
+  private async loadIndex(): Promise<Map<string, IndexEntry>> {
+    if (this.index) return this.index;
+    if (!this.loading) {
+      this.loading = (async () => {
+        const index = new Map<string, IndexEntry>();
+        await fs.mkdir(this.directory, { recursive: true });
+        for (const name of await fs.readdir(this.directory)) {
+          if (!ENTRY_FILE.test(name)) continue;
+          try {
+            const stat = await fs.stat(path.join(this.directory, name));
+            index.set(name, { size: stat.size, storedAt: stat.mtimeMs });
+            this.totalBytes += stat.size;
+          } catch {
+            // Removed concurrently — ignore
+          }
+        }
+        this.index = index;
+        return index;
+      })();
+    }
+    return this.loading;
+  }
+
+  private async remove(name: string): Promise<void> {
+    const index = await this.loadIndex();
+    const entry = index.get(name);
+    if (entry) {
+      index.delete(name);
+      this.totalBytes -= entry.size;
+    }
+    await fs.rm(path.join(this.directory, name), { force: true });
+  }
+
+  async get<T>(key: string): Promise<T | null> {
+    try {
+      const index = await this.loadIndex();
+      const name = this.fileFor(key);
+      if (!index.has(name)) {
+        this.misses++;
+        return null;
+      }
+      const entry: DiskCacheFile<T> = JSON.parse(await fs.readFile(path.join(this.directory, name), 'utf-8'));
+      // Guard against hash collisions and expired entries alike
+      if (entry.key !== key || Date.now() > entry.expiresAt) {
+        await this.remove(name);
+        this.misses++;
+        return null;
+      }
+      this.hits++;
+      return entry.data;
+    } catch (error: any) {
+      debug('DiskCache read failed:', error?.message);
+      this.misses++;
+      return null;
+    }
+  }
+
+  async set<T>(key: string, data: T, ttlMs: number): Promise<void> {
+    try {
+      const index = await this.loadIndex();
+      const name = this.fileFor(key);
+      const storedAt = Date.now();
+      const body = JSON.stringify({ key, storedAt, expiresAt: storedAt + ttlMs, data } satisfies DiskCacheFile<T>);
+      const size = Buffer.byteLength(body);
+      if (size > this.maxSizeBytes) return;
+
+      // Write-then-rename so a crash mid-write never leaves a truncated entry
+      const target = path.join(this.directory, name);
+      const tmp = `${target}.${process.pid}.tmp`;
+      await fs.writeFile(tmp, body, 'utf-8');
+      await fs.rename(tmp, target);
+
+      const previous = index.get(name);
+      if (previous) this.totalBytes -= previous.size;
+      index.set(name, { size, storedAt });
+      this.totalBytes += size;
+      this.writes++;
+
+      await this.evict();
+    } catch (error: any) {
+      debug('DiskCache write failed:', error?.message);
+    }
+  }
+
+  /** Drop the oldest entries until the cache fits within maxSizeBytes. */
+  private async evict(): Promise<void> {
+    if (this.totalBytes <= this.maxSizeBytes) return;
+    const index = await this.loadIndex();
+    const oldestFirst = Array.from(index.entries()).sort((a, b) => a[1].storedAt - b[1].storedAt);
+    for (const [name] of oldestFirst) {
+      if (this.totalBytes <= this.maxSizeBytes) break;
+      await this.remove(name);
+      this.evictions++;
+    }
+  }
+
+  async clear(): Promise<void> {
+    const index = await this.loadIndex();
+    for (const name of Array.from(index.keys())) {
+      await this.remove(name);
+    }
+  }
+
+  async stats(): Promise<DiskCacheStats> {
+    try {
+      await this.loadIndex();
+    } catch (error: any) {
+      debug('DiskCache index load failed:', error?.message);
+    }
+    return {
+      directory: this.directory,
+      entries: this.index?.size ?? 0,
+      sizeBytes: this.totalBytes,
+      maxSizeBytes: this.maxSizeBytes,
+      hits: this.hits,
+      misses: this.misses,
+      writes: this.writes,
+      evictions: this.evictions,
+    };
+  }
+}
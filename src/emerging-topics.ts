@@ -0,0 +1,324 @@
+// Emerging-topic detection — which OpenAlex topics are growing fastest, rather
+// than which are largest. Topic counts come from `group_by=topics.id`, one
+// request (or a few, with cursor paging over the groups) per publication year,
+// over a baseline window and the recent window that follows it. Each topic gets
+// its growth between the windows (CAGR), the same growth relative to all of
+// OpenAlex (its share of the year's works), the change in that share, its
+// acceleration (share growing faster in the recent window than in the
+// baseline) and a Kleinberg burst over the yearly series.
+
+import { OpenAlexClient, FilterOptions } from './openalex-client.js';
+import { CONFIG, debug } from './config.js';
+
+export type EmergingRank = 'acceleration' | 'relative_growth' | 'cagr' | 'share_change' | 'burst';
+
+export const EMERGING_RANKS: EmergingRank[] = ['acceleration', 'relative_growth', 'cagr', 'share_change', 'burst'];
+
+/** Restrict topics to a domain, field and/or subfield (OpenAlex IDs, e.g. "17" or "fields/17"). */
+export interface TopicScope {
+  domain?: string;
+  field?: string;
+  subfield?: string;
+}
+
+export interface EmergingOptions {
+  /** Last year of the recent window (default: the last complete year). */
+  endYear: number;
+  /** Years per window. */
+  windowYears: number;
+  /** Minimum works in the recent window. */
+  minWorks: number;
+  rankBy: EmergingRank;
+  limit: number;
+  scope: TopicScope;
+}
+
+export interface TopicBurst {
+  from: number;
+  to: number;
+  /** Kleinberg burst weight: how much better the burst state explains these years. */
+  weight: number;
+  /** The burst runs through the last year. */
+  active: boolean;
+}
+
+export interface EmergingTopic {
+  topic_id: string;
+  topic: string | null;
+  works: { baseline: number; recent: number };
+  by_year: { year: number; works_count: number }[];
+  /** Annual growth between the window means (null when the topic is new). */
+  cagr: number | null;
+  /** CAGR relative to all works in scope: (1 + cagr) / (1 + overall cagr) - 1. */
+  relative_growth: number | null;
+  share: { baseline: number; recent: number; ratio: number | null };
+  /** Annual log-share slope in the recent window minus that in the baseline window. */
+  acceleration: number;
+  burst: TopicBurst | null;
+}
+
+export interface EmergingTopicsResult {
+  windows: { baseline: { from: number; to: number }; recent: { from: number; to: number } };
+  overall: { baseline_works: number; recent_works: number; cagr: number | null };
+  scope: TopicScope | null;
+  rank_by: EmergingRank;
+  min_works: number;
+  topics_considered: number;
+  /** Years with more topic groups than were read; topics missing there are estimated conservatively. */
+  truncated_years: number[];
+  count: number;
+  emerging_topics: EmergingTopic[];
+}
+
+interface YearCounts {
+  year: number;
+  total: number;
+  counts: Map<string, { name: string | null; count: number }>;
+  truncated: boolean;
+}
+
+const SCOPE_LEVELS: (keyof TopicScope)[] = ['domain', 'field', 'subfield'];
+
+function bareId(id: string): string {
+  return String(id).split('/').pop()!;
+}
+
+function round(value: number): number {
+  return Number(value.toPrecision(4));
+}
+
+function hasScope(scope: TopicScope): boolean {
+  return SCOPE_LEVELS.some(level => scope[level]);
+}
+
+/** Works filters for a scope: works with any topic in the domain, field or subfield. */
+export function scopeFilter(scope: TopicScope): FilterOptions {
+  const filter: FilterOptions = {};
+  for (const level of SCOPE_LEVELS) {
+    if (scope[level]) filter[`topics.${level}.id`] = bareId(scope[level]!);
+  }
+  return filter;
+}
+
+/**
+ * IDs of the topics in a scope (null without one). Works are filtered with
+ * `topics.*.id`, so their groups include their other topics too; those are
+ * dropped with this list.
+ */
+export async function scopeTopics(client: OpenAlexClient, scope: TopicScope): Promise<Set<string> | null> {
+  if (!hasScope(scope)) return null;
+  const filter: FilterOptions = {};
+  for (const level of SCOPE_LEVELS) {
+    if (scope[level]) filter[`${level}.id`] = bareId(scope[level]!);
+  }
+  const { results } = await client.paginateAll('topics', { filter, select: ['id'] }, CONFIG.EMERGING_TOPICS.MAX_SCOPE_TOPICS);
+  if (results.length === 0) throw new Error(`No topics found for ${JSON.stringify(scope)}. Check the domain, field or subfield ID.`);
+  return new Set(results.map((topic: any) => bareId(topic.id)));
+}
+
+/**
+ * Works per topic for a filter, paging through the `topics.id` groups with a
+ * cursor (up to MAX_GROUP_PAGES pages of 200, largest groups first).
+ */
+export async function topicGroupCounts(client: OpenAlexClient, filter: FilterOptions): Promise<Omit<YearCounts, 'year'>> {
+  const counts = new Map<string, { name: string | null; count: number }>();
+  let total = 0;
+  let cursor: string | null | undefined = '*';
+  for (let page = 0; cursor && page < CONFIG.EMERGING_TOPICS.MAX_GROUP_PAGES; page++) {
+    const response = await client.getWorks({ filter, groupBy: 'topics.id', perPage: CONFIG.MCP.MAX_PAGE_SIZE, cursor });
+    total = response.meta?.count ?? total;
+    const groups = response.group_by || [];
+    for (const group of groups) {
+      counts.set(bareId(group.key), { name: group.key_display_name ?? null, count: group.count });
+    }
+    cursor = groups.length > 0 ? response.meta?.next_cursor : null;
+  }
+  return { total, counts, truncated: Boolean(cursor) };
+}
+
+/**
+ * Kleinberg's two-state burst detection for batched data: in year t, r of d
+ * works belong to the topic. The base state emits at the overall rate p0, the
+ * burst state at BURST_SCALE × p0; entering the burst state costs
+ * BURST_GAMMA × ln(years). Returns the latest burst of the cheapest state
+ * sequence (Viterbi), or null when the topic never bursts.
+ */
+export function kleinbergBurst(series: { year: number; r: number; d: number }[]): TopicBurst | null {
+  const R = series.reduce((sum, s) => sum + s.r, 0);
+  const D = series.reduce((sum, s) => sum + s.d, 0);
+  if (R === 0 || D === 0 || series.length < 2) return null;
+  const p0 = R / D;
+  const p1 = Math.min(CONFIG.EMERGING_TOPICS.BURST_SCALE * p0, 0.9999);
+  // Negative log-likelihood without the binomial coefficient (equal in both states)
+  const cost = (p: number, { r, d }: { r: number; d: number }) => -(r * Math.log(p) + (d - r) * Math.log(1 - p));
+  const enter = CONFIG.EMERGING_TOPICS.BURST_GAMMA * Math.log(series.length);
+
+  // best[t][state]: cheapest cost of years 0..t ending in state; from[t][state]: previous state
+  const best: [number, number][] = [];
+  const from: [number, number][] = [];
+  series.forEach((s, t) => {
+    const emit: [number, number] = [cost(p0, s), cost(p1, s)];
+    if (t === 0) {
+      best.push([emit[0], enter + emit[1]]);
+      from.push([0, 0]);
+      return;
+    }
+    const [b0, b1] = best[t - 1];
+    const stay0 = b0 <= b1 ? [b0, 0] : [b1, 1];
+    const to1 = b1 <= b0 + enter ? [b1, 1] : [b0 + enter, 0];
+    best.push([stay0[0] + emit[0], to1[0] + emit[1]]);
+    from.push([stay0[1], to1[1]]);
+  });
+
+  const states: number[] = new Array(series.length);
+  states[series.length - 1] = best[series.length - 1][0] <= best[series.length - 1][1] ? 0 : 1;
+  for (let t = series.length - 1; t > 0; t--) states[t - 1] = from[t][states[t]];
+
+  let end = states.lastIndexOf(1);
+  if (end < 0) return null;
+  let start = end;
+  while (start > 0 && states[start - 1] === 1) start--;
+  let weight = 0;
+  for (let t = start; t <= end; t++) weight += cost(p0, series[t]) - cost(p1, series[t]);
+  return { from: series[start].year, to: series[end].year, weight: round(weight), active: end === series.length - 1 };
+}
+
+/** Least-squares slope of ln(share) per year. */
+function logShareSlope(points: { year: number; count: number; total: number }[]): number {
+  const xs = points.map(p => p.year);
+  const ys = points.map(p => Math.log((p.count + 0.5) / Math.max(p.total, 1)));
+  const mx = xs.reduce((a, b) => a + b, 0) / xs.length;
+  const my = ys.reduce((a, b) => a + b, 0) / ys.length;
+  let num = 0;
+  let den = 0;
+  xs.forEach((x, i) => {
+    num += (x - mx) * (ys[i] - my);
+    den += (x - mx) ** 2;
+  });
+  return den > 0 ? num / den : 0;
+}
+
+/** Annual growth between two window means `years` apart (null from zero). */
+function cagr(baseline: number, recent: number, years: number): number | null {
+  return baseline > 0 ? (recent / baseline) ** (1 / years) - 1 : null;
+}
+
+function rankValue(topic: EmergingTopic, rankBy: EmergingRank): number | null {
+  switch (rankBy) {
+    case 'acceleration': return topic.acceleration;
+    case 'relative_growth': return topic.relative_growth;
+    case 'cagr': return topic.cagr;
+    case 'share_change': return topic.share.ratio;
+    case 'burst': return topic.burst?.active ? topic.burst.weight : null;
+  }
+}
+
+/**
+ * Score every topic from yearly counts (baseline years first) and rank them.
+ * A topic missing from a truncated year's groups is counted at the smallest
+ * listed group in baseline years and at 0 in recent years, so truncation can
+ * only understate its growth.
+ */
+export function scoreEmergingTopics(
+  years: YearCounts[],
+  options: Pick<EmergingOptions, 'windowYears' | 'minWorks' | 'rankBy' | 'limit'>,
+  topics: Set<string> | null
+): { considered: number; overallCagr: number | null; ranked: EmergingTopic[] } {
+  const n = options.windowYears;
+  const baselineYears = years.slice(0, n);
+  const recentYears = years.slice(n);
+  const sum = (list: number[]) => list.reduce((a, b) => a + b, 0);
+  const baselineTotal = sum(baselineYears.map(y => y.total));
+  const recentTotal = sum(recentYears.map(y => y.total));
+  const overallCagr = cagr(baselineTotal, recentTotal, n);
+
+  const ids = new Set<string>();
+  const names = new Map<string, string | null>();
+  for (const year of years) {
+    for (const [id, { name }] of year.counts) {
+      if (topics && !topics.has(id)) continue;
+      ids.add(id);
+      if (name) names.set(id, name);
+    }
+  }
+  const floor = (year: YearCounts) => Math.min(...Array.from(year.counts.values(), g => g.count));
+
+  const scored: EmergingTopic[] = [];
+  for (const id of ids) {
+    const series = years.map((year, i) => ({
+      year: year.year,
+      count: year.counts.get(id)?.count ?? (year.truncated && i < n ? floor(year) : 0),
+      total: year.total,
+    }));
+    const baseline = sum(series.slice(0, n).map(s => s.count));
+    const recent = sum(series.slice(n).map(s => s.count));
+    if (recent < options.minWorks) continue;
+
+    const topicCagr = cagr(baseline, recent, n);
+    const baselineShare = baselineTotal > 0 ? baseline / baselineTotal : 0;
+    const recentShare = recentTotal > 0 ? recent / recentTotal : 0;
+    const acceleration = logShareSlope(series.slice(n)) - logShareSlope(series.slice(0, n));
+    scored.push({
+      topic_id: `https://openalex.org/${id}`,
+      topic: names.get(id) ?? null,
+      works: { baseline, recent },
+      by_year: series.map(s => ({ year: s.year, works_count: s.count })),
+      cagr: topicCagr === null ? null : round(topicCagr),
+      relative_growth: topicCagr === null || overallCagr === null ? null : round((1 + topicCagr) / (1 + overallCagr) - 1),
+      share: {
+        baseline: round(baselineShare),
+        recent: round(recentShare),
+        ratio: baselineShare > 0 ? round(recentShare / baselineShare) : null,
+      },
+      acceleration: round(acceleration),
+      burst: kleinbergBurst(series.map(s => ({ year: s.year, r: s.count, d: s.total }))),
+    });
+  }
+
+  // Topics without a value for the ranking measure (new topics, no active burst) go last
+  const ranked = scored.sort((a, b) => {
+    const [x, y] = [rankValue(a, options.rankBy), rankValue(b, options.rankBy)];
+    if (x === null || y === null) return x === null ? (y === null ? b.works.recent - a.works.recent : 1) : -1;
+    return y - x || b.works.recent - a.works.recent;
+  });
+  return { considered: scored.length, overallCagr, ranked: ranked.slice(0, options.limit) };
+}
+
+/**
+ * Fetch yearly topic counts for the baseline and recent windows and rank the
+ * topics by growth.
+ */
+export async function findEmergingTopics(client: OpenAlexClient, options: EmergingOptions): Promise<EmergingTopicsResult> {
+  const n = options.windowYears;
+  const firstYear = options.endYear - 2 * n + 1;
+  const topics = await scopeTopics(client, options.scope);
+  const filter = scopeFilter(options.scope);
+
+  const years: YearCounts[] = [];
+  for (let year = firstYear; year <= options.endYear; year++) {
+    const counts = await topicGroupCounts(client, { ...filter, publication_year: String(year) });
+    years.push({ year, ...counts });
+    debug(`emerging topics ${year}: ${counts.counts.size} topics, ${counts.total} works${counts.truncated ? ' (truncated)' : ''}`);
+  }
+
+  const { considered, overallCagr, ranked } = scoreEmergingTopics(years, options, topics);
+  const sum = (list: YearCounts[]) => list.reduce((total, y) => total + y.total, 0);
+  return {
+    windows: {
+      baseline: { from: firstYear, to: firstYear + n - 1 },
+      recent: { from: firstYear + n, to: options.endYear },
+    },
+    overall: {
+      baseline_works: sum(years.slice(0, n)),
+      recent_works: sum(years.slice(n)),
+      cagr: overallCagr === null ? null : round(overallCagr),
+    },
+    scope: hasScope(options.scope) ? options.scope : null,
+    rank_by: options.rankBy,
+    min_works: options.minWorks,
+    topics_considered: considered,
+    truncated_years: years.filter(y => y.truncated).map(y => y.year),
+    count: ranked.length,
+    emerging_topics: ranked,
+  };
+}
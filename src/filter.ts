@@ -1,5 +1,6 @@
-// buildFilter — maps MCP tool parameters to OpenAlex API filter format.
-// Exported so it can be unit-tested directly.
+// buildFilter — maps MCP tool parameters to OpenAlex API filter format, and
+// buildAdvancedFilter — validates raw OpenAlex filters passed via advanced_filter.
+// Exported so they can be unit-tested directly.
 
 import { FilterOptions } from './openalex-client.js';
 import { INSTITUTION_GROUPS } from './presets.js';
@@ -62,3 +63,160 @@ export function buildFilter(params: any): FilterOptions {
   debug('buildFilter result:', JSON.stringify(filter));
   return filter;
 }
+
+// ── advanced_filter: raw OpenAlex filter passthrough ──
+// Values are passed through verbatim, so OpenAlex's own syntax works: `a|b` (OR),
+// `!a` (NOT), `a+b` (AND within one key), `>n` / `<n` and `from-to` ranges.
+// Keys are checked against the documented filters for each entity so a typo is
+// reported with a suggestion instead of coming back as an opaque 400.
+
+export type AdvancedFilterEntity = 'works' | 'authors' | 'sources';
+
+export type AdvancedFilterValue = string | number | boolean | (string | number)[];
+
+const WORKS_FILTER_KEYS = [
+  // Attribute filters
+  'apc_list.currency', 'apc_list.provenance', 'apc_list.value', 'apc_list.value_usd',
+  'apc_paid.currency', 'apc_paid.provenance', 'apc_paid.value', 'apc_paid.value_usd',
+  'authorships.author.id', 'authorships.author.orcid', 'authorships.countries',
+  'authorships.institutions.continent', 'authorships.institutions.country_code',
+  'authorships.institutions.display_name', 'authorships.institutions.id',
+  'authorships.institutions.is_global_south', 'authorships.institutions.lineage',
+  'authorships.institutions.ror', 'authorships.institutions.type', 'authorships.is_corresponding',
+  'best_oa_location.is_accepted', 'best_oa_location.is_published', 'best_oa_location.license',
+  'best_oa_location.source.host_institution_lineage', 'best_oa_location.source.id',
+  'best_oa_location.source.is_in_doaj', 'best_oa_location.source.issn',
+  'best_oa_location.source.publisher_lineage', 'best_oa_location.source.type', 'best_oa_location.version',
+  'biblio.first_page', 'biblio.issue', 'biblio.last_page', 'biblio.volume',
+  'citation_normalized_percentile.is_in_top_1_percent', 'citation_normalized_percentile.is_in_top_10_percent',
+  'citation_normalized_percentile.value', 'cited_by_count', 'cited_by_percentile_year.max',
+  'cited_by_percentile_year.min', 'concepts.id', 'concepts.wikidata', 'corresponding_author_ids',
+  'corresponding_institution_ids', 'countries_distinct_count', 'doi', 'fulltext_origin', 'fwci',
+  'grants.award_id', 'grants.funder', 'has_fulltext', 'ids.mag', 'ids.openalex', 'ids.pmcid', 'ids.pmid',
+  'indexed_in', 'institutions_distinct_count', 'is_paratext', 'is_retracted', 'keywords.id', 'language',
+  'locations.is_accepted', 'locations.is_oa', 'locations.is_published', 'locations.license',
+  'locations.source.has_issn', 'locations.source.host_institution_lineage', 'locations.source.id',
+  'locations.source.is_core', 'locations.source.is_in_doaj', 'locations.source.issn',
+  'locations.source.publisher_lineage', 'locations.source.type', 'locations.version', 'locations_count',
+  'open_access.any_repository_has_fulltext', 'open_access.is_oa', 'open_access.oa_status',
+  'primary_location.is_accepted', 'primary_location.is_oa', 'primary_location.is_published',
+  'primary_location.license', 'primary_location.source.display_name.search',
+  'primary_location.source.has_issn', 'primary_location.source.host_organization',
+  'primary_location.source.host_organization_lineage', 'primary_location.source.id',
+  'primary_location.source.is_core', 'primary_location.source.is_in_doaj', 'primary_location.source.issn',
+  'primary_location.source.publisher_lineage', 'primary_location.source.type', 'primary_location.version',
+  'primary_topic.domain.id', 'primary_topic.field.id', 'primary_topic.id', 'primary_topic.subfield.id',
+  'publication_date', 'publication_year', 'referenced_works', 'referenced_works_count',
+  'sustainable_development_goals.id', 'sustainable_development_goals.score', 'topics.domain.id',
+  'topics.field.id', 'topics.id', 'topics.subfield.id', 'topics_count', 'type', 'type_crossref',
+  // Convenience filters and aliases
+  'abstract.search', 'abstract.search.no_stem', 'author.id', 'author.orcid', 'authors_count',
+  'best_open_version', 'cited_by', 'cites', 'concepts_count', 'default.search', 'display_name.search',
+  'display_name.search.no_stem', 'from_created_date', 'from_publication_date', 'from_updated_date',
+  'fulltext.search', 'has_abstract', 'has_doi', 'has_oa_accepted_or_published_version',
+  'has_oa_submitted_version', 'has_orcid', 'has_pmcid', 'has_pmid', 'has_references', 'institution.id',
+  'institutions.continent', 'institutions.country_code', 'institutions.display_name', 'institutions.id',
+  'institutions.is_global_south', 'institutions.ror', 'institutions.type', 'is_corresponding', 'is_oa',
+  'journal', 'oa_status', 'raw_affiliation_strings.search', 'raw_author_name.search', 'related_to',
+  'repository', 'title.search', 'title.search.no_stem', 'title_and_abstract.search',
+  'title_and_abstract.search.no_stem', 'to_created_date', 'to_publication_date', 'to_updated_date', 'version',
+];
+
+const AUTHORS_FILTER_KEYS = [
+  'affiliations.institution.country_code', 'affiliations.institution.id', 'affiliations.institution.lineage',
+  'affiliations.institution.ror', 'affiliations.institution.type', 'cited_by_count', 'default.search',
+  'display_name.search', 'has_orcid', 'ids.openalex', 'last_known_institutions.continent',
+  'last_known_institutions.country_code', 'last_known_institutions.id', 'last_known_institutions.is_global_south',
+  'last_known_institutions.lineage', 'last_known_institutions.ror', 'last_known_institutions.type', 'orcid',
+  'summary_stats.2yr_mean_citedness', 'summary_stats.h_index', 'summary_stats.i10_index', 'topic_share.id',
+  'topics.id', 'works_count', 'x_concepts.id',
+];
+
+const SOURCES_FILTER_KEYS = [
+  'apc_prices.currency', 'apc_prices.price', 'apc_usd', 'cited_by_count', 'continent', 'country_code',
+  'default.search', 'display_name.search', 'has_issn', 'host_organization', 'host_organization.id',
+  'host_organization_lineage', 'ids.mag', 'ids.openalex', 'is_core', 'is_global_south', 'is_in_doaj', 'is_oa',
+  'issn', 'openalex', 'summary_stats.2yr_mean_citedness', 'summary_stats.h_index', 'summary_stats.i10_index',
+  'topic_share.id', 'topics.id', 'type', 'works_count', 'x_concepts.id',
+];
+
+export const FILTER_KEYS: Record<AdvancedFilterEntity, ReadonlySet<string>> = {
+  works: new Set(WORKS_FILTER_KEYS),
+  authors: new Set(AUTHORS_FILTER_KEYS),
+  sources: new Set(SOURCES_FILTER_KEYS),
+};
+
+const FILTER_DOCS: Record<AdvancedFilterEntity, string> = {
+  works: 'https://docs.openalex.org/api-entities/works/filter-works',
+  authors: 'https://docs.openalex.org/api-entities/authors/filter-authors',
+  sources: 'https://docs.openalex.org/api-entities/sources/filter-sources',
+};
+
+/** Levenshtein distance: insertions, deletions and substitutions. */
+export function editDistance(a: string, b: string): number {
+  let previous = Array.from({ length: b.length + 1 }, (_, j) => j);
+  for (let i = 1; i <= a.length; i++) {
+    const current = [i];
+    for (let j = 1; j <= b.length; j++) {
+      current[j] = Math.min(previous[j] + 1, current[j - 1] + 1, previous[j - 1] + (a[i - 1] === b[j - 1] ? 0 : 1));
+    }
+    previous = current;
+  }
+  return previous[b.length];
+}
+
+/**
+ * Error message for a filter key the entity doesn't support, or null when it is
+ * valid. Suggests the closest known keys: near-misses by edit distance, then keys
+ * sharing the last path segment (e.g. `orcid` → `authorships.author.orcid`).
+ */
+export function filterKeyError(entityType: AdvancedFilterEntity, key: string): string | null {
+  const known = FILTER_KEYS[entityType];
+  if (known.has(key)) return null;
+
+  const lower = key.toLowerCase();
+  const tail = lower.split('.').pop()!;
+  const suggestions = Array.from(known)
+    .map(candidate => ({ candidate, distance: editDistance(lower, candidate) }))
+    .filter(({ candidate, distance }) => distance <= Math.max(2, Math.floor(key.length / 4)) || candidate.split('.').pop() === tail)
+    .sort((a, b) => a.distance - b.distance)
+    .slice(0, 3)
+    .map(({ candidate }) => `"${candidate}"`);
+
+  const hint = suggestions.length > 0 ? ` Did you mean ${suggestions.join(' or ')}?` : '';
+  return `Unknown ${entityType} filter "${key}".${hint} Valid keys: ${FILTER_DOCS[entityType]}`;
+}
+
+function formatFilterValue(key: string, value: AdvancedFilterValue): string {
+  const formatted = Array.isArray(value) ? value.map(String).join('|') : String(value);
+  if (formatted.trim() === '') {
+    throw new Error(`Filter "${key}" has an empty value`);
+  }
+  // OpenAlex separates filters with commas, so one inside a value would split it
+  if (formatted.includes(',')) {
+    throw new Error(`Filter "${key}" value "${formatted}" contains a comma; use | for OR or + for AND`);
+  }
+  return formatted;
+}
+
+/**
+ * Map an `advanced_filter` object to OpenAlex filters, validating each key
+ * against the entity's allowlist. Arrays become OR lists (`a|b`); strings,
+ * numbers and booleans pass through unchanged.
+ */
+export function buildAdvancedFilter(
+  entityType: AdvancedFilterEntity,
+  advanced: Record<string, AdvancedFilterValue> | undefined
+): FilterOptions {
+  const filter: FilterOptions = {};
+  if (!advanced) return filter;
+
+  for (const [key, value] of Object.entries(advanced)) {
+    const error = filterKeyError(entityType, key);
+    if (error) throw new Error(error);
+    filter[key] = formatFilterValue(key, value);
+  }
+
+  debug('buildAdvancedFilter result:', JSON.stringify(filter));
+  return filter;
+}
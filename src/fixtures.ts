@@ -0,0 +1,159 @@
+// Record/replay fixtures for OpenAlex responses — lets tests and CI run every
+// tool handler without a network. In record mode OpenAlexClient saves each live
+// response to a JSON file keyed by the normalized request; in replay mode it
+// serves those files instead of calling the API. The same store backs the local
+// mock server (mock-server.ts).
+//
+// A fixture file is { request: { path, params }, response }. File names are only
+// for humans: the store indexes every *.json in the directory by its request, so
+// fixtures can be written by hand. Entities inside list responses are also
+// indexed, so `/works/W123` replays from any recorded search that returned W123.
+
+import { promises as fs } from 'node:fs';
+import * as path from 'node:path';
+import { createHash } from 'node:crypto';
+import { debug } from './config.js';
+
+export type FixtureMode = 'record' | 'replay';
+
+export interface FixtureConfig {
+  mode: FixtureMode;
+  directory: string;
+}
+
+export interface FixtureFile {
+  request: { path: string; params: Record<string, string> };
+  response: unknown;
+}
+
+export const DEFAULT_FIXTURES_DIR = 'fixtures/openalex';
+
+// Never part of a key, and never written to a fixture
+const CREDENTIAL_PARAMS = ['mailto', 'api_key'];
+
+/**
+ * Fixture settings from OPENALEX_FIXTURES (record|replay) and OPENALEX_FIXTURES_DIR,
+ * or false when fixtures are off.
+ */
+export function fixtureConfigFromEnv(env: Record<string, string | undefined> = process.env): FixtureConfig | false {
+  const mode = env.OPENALEX_FIXTURES?.trim().toLowerCase();
+  if (!mode || mode === 'off') return false;
+  if (mode !== 'record' && mode !== 'replay') {
+    throw new Error(`Unknown OPENALEX_FIXTURES mode "${env.OPENALEX_FIXTURES}". Expected "record" or "replay".`);
+  }
+  return { mode, directory: env.OPENALEX_FIXTURES_DIR || DEFAULT_FIXTURES_DIR };
+}
+
+function withoutCredentials(params: Record<string, string>): Record<string, string> {
+  const kept: Record<string, string> = {};
+  for (const key of Object.keys(params).sort()) {
+    if (!CREDENTIAL_PARAMS.includes(key)) kept[key] = String(params[key]);
+  }
+  return kept;
+}
+
+/**
+ * Normalized request key: decoded path plus sorted, credential-free params, so
+ * `/works/https%3A%2F%2Fdoi.org%2F…` and the same request with a different
+ * mailto both map to one fixture.
+ */
+export function fixtureKey(requestPath: string, params: Record<string, string> = {}): string {
+  let decoded = requestPath;
+  try {
+    decoded = decodeURIComponent(requestPath);
+  } catch {
+    // Malformed escapes — key on the raw path
+  }
+  const query = new URLSearchParams(withoutCredentials(params)).toString();
+  return query ? `${decoded}?${query}` : decoded;
+}
+
+function fileNameFor(key: string): string {
+  const slug = key.replace(/[^A-Za-z0-9]+/g, '_').replace(/^_+|_+$/g, '').slice(0, 60);
+  return `${slug}-${createHash('sha256').update(key).digest('hex').slice(0, 12)}.json`;
+}
+
+export class FixtureStore {
+  readonly directory: string;
+  private exact: Map<string, unknown> | null = null;
+  // `/works/W123` (and its DOI forms) → entity, harvested from list responses
+  private entities = new Map<string, unknown>();
+  private loading: Promise<void> | null = null;
+
+  constructor(directory: string) {
+    this.directory = directory;
+  }
+
+  /** The recorded response for a request, or undefined when there is none. */
+  async lookup(requestPath: string, params: Record<string, string> = {}): Promise<unknown | undefined> {
+    await this.load();
+    const key = fixtureKey(requestPath, params);
+    if (this.exact!.has(key)) return this.exact!.get(key);
+    return this.entities.get(key.toLowerCase());
+  }
+
+  /** Save a live response; overwrites an earlier recording of the same request. */
+  async record(requestPath: string, params: Record<string, string>, response: unknown): Promise<void> {
+    await this.load();
+    const key = fixtureKey(requestPath, params);
+    const file: FixtureFile = { request: { path: requestPath, params: withoutCredentials(params) }, response };
+    this.index(file);
+    await fs.mkdir(this.directory, { recursive: true });
+    await fs.writeFile(path.join(this.directory, fileNameFor(key)), JSON.stringify(file, null, 2) + '\n');
+    debug('Recorded fixture', key);
+  }
+
+  /** Number of exact request fixtures loaded. */
+  async size(): Promise<number> {
+    await this.load();
+    return this.exact!.size;
+  }
+
+  private load(): Promise<void> {
+    if (!this.loading) {
+      this.loading = (async () => {
+        this.exact = new Map();
+        let names: string[] = [];
+        try {
+          names = await fs.readdir(this.directory);
+        } catch (err: any) {
+          if (err?.code !== 'ENOENT') throw err;
+        }
+        for (const name of names.filter(n => n.endsWith('.json')).sort()) {
+          try {
+            const file = JSON.parse(await fs.readFile(path.join(this.directory, name), 'utf8')) as FixtureFile;
+            if (file?.request?.path) this.index(file);
+          } catch (err: any) {
+            debug(`Skipping unreadable fixture ${name}:`, err?.message);
+          }
+        }
+      })();
+    }
+    return this.loading;
+  }
+
+  private index(file: FixtureFile): void {
+    const { path: requestPath, params = {} } = file.request;
+    this.exact!.set(fixtureKey(requestPath, params), file.response);
+
+    const entityType = requestPath.match(/^\/(works|authors|sources|institutions|topics|publishers|funders)$/)?.[1];
+    const results = (file.response as any)?.results;
+    if (!entityType || !Array.isArray(results)) return;
+    for (const entity of results) {
+      const id = typeof entity?.id === 'string' ? entity.id.split('/').pop() : undefined;
+      if (!id) continue;
+      // A list entry may carry only selected fields; never shadow a fuller one
+      const aliases = [`/${entityType}/${id}`];
+      if (typeof entity.doi === 'string') {
+        const doi = entity.doi.replace(/^https?:\/\/doi\.org\//i, '');
+        aliases.push(`/${entityType}/doi:${doi}`, `/${entityType}/https://doi.org/${doi}`);
+      }
+      for (const alias of aliases.map(a => a.toLowerCase())) {
+        const existing: any = this.entities.get(alias);
+        if (!existing || Object.keys(entity).length > Object.keys(existing).length) {
+          this.entities.set(alias, entity);
+        }
+      }
+    }
+  }
+}
@@ -0,0 +1,402 @@
+// Graph export — a small node/edge model for citation and co-author networks,
+// with serializers for GraphML, GEXF (Gephi), DOT (Graphviz) and the JSON
+// node-link format used by d3/networkx/Cytoscape. Builders dedupe nodes and
+// edges so callers can add freely; fetchCitationGraph gathers the works.
+
+import { OpenAlexClient } from './openalex-client.js';
+
+export type GraphFormat = 'graphml' | 'gexf' | 'dot' | 'json';
+
+export const GRAPH_FORMATS: GraphFormat[] = ['graphml', 'gexf', 'dot', 'json'];
+
+export type AttributeValue = string | number | boolean | null | undefined;
+
+export interface GraphNode {
+  id: string;
+  label: string;
+  attributes: Record<string, AttributeValue>;
+}
+
+export interface GraphEdge {
+  source: string;
+  target: string;
+  attributes: Record<string, AttributeValue>;
+}
+
+export interface Graph {
+  name: string;
+  directed: boolean;
+  nodes: GraphNode[];
+  edges: GraphEdge[];
+}
+
+export class GraphBuilder {
+  private nodes = new Map<string, GraphNode>();
+  private edges = new Map<string, GraphEdge>();
+
+  constructor(private name: string, private directed: boolean) {}
+
+  /** Add a node; attributes of an existing node are merged (new non-null values win). */
+  addNode(id: string, label: string, attributes: Record<string, AttributeValue> = {}): void {
+    const existing = this.nodes.get(id);
+    if (!existing) {
+      this.nodes.set(id, { id, label, attributes: { ...attributes } });
+      return;
+    }
+    for (const [key, value] of Object.entries(attributes)) {
+      if (value !== null && value !== undefined) existing.attributes[key] = value;
+    }
+  }
+
+  hasNode(id: string): boolean {
+    return this.nodes.has(id);
+  }
+
+  /** Add an edge between existing nodes; duplicates are ignored. */
+  addEdge(source: string, target: string, attributes: Record<string, AttributeValue> = {}): void {
+    if (source === target || !this.nodes.has(source) || !this.nodes.has(target)) return;
+    const [a, b] = this.directed || source < target ? [source, target] : [target, source];
+    const key = `${a}\u0000${b}`;
+    if (!this.edges.has(key)) {
+      this.edges.set(key, { source: a, target: b, attributes: { ...attributes } });
+    }
+  }
+
+  build(): Graph {
+    return {
+      name: this.name,
+      directed: this.directed,
+      nodes: Array.from(this.nodes.values()),
+      edges: Array.from(this.edges.values()),
+    };
+  }
+}
+
+function bareId(id: string): string {
+  return String(id).split('/').pop()!;
+}
+
+/**
+ * Node attributes for a work: year, citations, venue, topic/field, FWCI, etc.
+ */
+export function workNodeAttributes(work: any): Record<string, AttributeValue> {
+  return {
+    title: work.title || work.display_name,
+    year: work.publication_year,
+    citations: work.cited_by_count,
+    venue: work.primary_location?.source?.display_name,
+    topic: work.primary_topic?.display_name,
+    field: work.primary_topic?.field?.display_name,
+    fwci: work.fwci,
+    type: work.type,
+    doi: work.doi,
+  };
+}
+
+function workLabel(work: any): string {
+  const title: string = work.title || work.display_name || bareId(work.id);
+  return title.length > 80 ? `${title.slice(0, 77)}...` : title;
+}
+
+function citationGraph(works: [any, string][]): Graph {
+  const builder = new GraphBuilder('citation_network', true);
+  for (const [work, role] of works) {
+    const id = bareId(work.id);
+    // A seed that also cites another seed keeps role 'seed'
+    if (builder.hasNode(id)) continue;
+    builder.addNode(id, workLabel(work), { ...workNodeAttributes(work), role });
+  }
+  for (const [work] of works) {
+    for (const ref of work.referenced_works || []) {
+      builder.addEdge(bareId(work.id), bareId(ref), { type: 'cites' });
+    }
+  }
+  return builder.build();
+}
+
+/**
+ * Build a directed citation graph (edge = "source cites target") from seed
+ * works and their neighbours. Besides the seed↔neighbour edges, any citation
+ * between two works already in the graph (via referenced_works) is added too.
+ */
+export function buildCitationGraph(seeds: any[], citing: any[], references: any[]): Graph {
+  return citationGraph([
+    ...seeds.map((w): [any, string] => [w, 'seed']),
+    ...citing.map((w): [any, string] => [w, 'citing']),
+    ...references.map((w): [any, string] => [w, 'reference']),
+  ]);
+}
+
+/**
+ * Citation graph among a set of works, e.g. a search result (role 'corpus').
+ * Only citations between works in the set become edges.
+ */
+export function buildCorpusGraph(works: any[]): Graph {
+  return citationGraph(works.map((w): [any, string] => [w, 'corpus']));
+}
+
+export interface CitationGraphOptions {
+  maxCitingPerSeed: number;
+  maxReferencesPerSeed: number;
+}
+
+/**
+ * Fetch seed works, their top citing works and their references, and build the
+ * citation graph. Returns the IDs that could not be resolved alongside it.
+ */
+export async function fetchCitationGraph(
+  client: OpenAlexClient,
+  seedIds: string[],
+  options: CitationGraphOptions,
+): Promise<{ graph: Graph; unresolved: string[] }> {
+  const { works: seeds, unresolved } = await client.resolveWorks(seedIds);
+
+  const citing: any[] = [];
+  if (options.maxCitingPerSeed > 0) {
+    for (const seed of seeds) {
+      const response = await client.getWorks({
+        filter: { cites: bareId(seed.id) },
+        sort: 'cited_by_count:desc',
+        perPage: options.maxCitingPerSeed,
+      });
+      citing.push(...response.results);
+    }
+  }
+
+  const referenceIds = seeds.flatMap(seed => (seed.referenced_works || []).slice(0, options.maxReferencesPerSeed));
+  const references = referenceIds.length > 0 ? await client.getWorksByIds(referenceIds) : [];
+
+  return { graph: buildCitationGraph(seeds, citing, references), unresolved };
+}
+
+/**
+ * Build an undirected co-author graph around `authorId` from that author's
+ * works (each needing `authorships`). Edge weight = number of shared works;
+ * edges between collaborators are included when they co-authored one of them.
+ */
+export function buildCoauthorGraph(authorId: string, works: any[], minCollaborations = 1): Graph {
+  const names = new Map<string, string>();
+  const appearances = new Map<string, number>();
+  const workAuthors: string[][] = [];
+
+  for (const work of works) {
+    const authors = Array.from(new Set<string>(
+      (work.authorships || [])
+        .filter((a: any) => a.author?.id)
+        .map((a: any) => {
+          const id = bareId(a.author.id);
+          if (!names.has(id)) names.set(id, a.author.display_name || 'Unknown');
+          return id;
+        })
+    ));
+    for (const id of authors) {
+      appearances.set(id, (appearances.get(id) || 0) + 1);
+    }
+    workAuthors.push(authors);
+  }
+
+  // authorId may be an ORCID or URL; the ego is then the author on every work
+  let egoId = bareId(authorId);
+  if (!names.has(egoId) && appearances.size > 0) {
+    egoId = Array.from(appearances.entries()).sort((a, b) => b[1] - a[1])[0][0];
+  }
+
+  const builder = new GraphBuilder('coauthor_network', false);
+  builder.addNode(egoId, names.get(egoId) || egoId, { role: 'ego', works: works.length });
+  const kept = new Set<string>([egoId]);
+  for (const [id, count] of appearances) {
+    if (id !== egoId && count >= minCollaborations) {
+      builder.addNode(id, names.get(id)!, { role: 'collaborator', works: count });
+      kept.add(id);
+    }
+  }
+
+  // Pairs are counted only among kept authors, so the long tail of
+  // hyper-authored works never reaches the pair map
+  const pairCounts = new Map<string, number>();
+  for (const authors of workAuthors) {
+    const members = authors.filter(id => kept.has(id));
+    for (let i = 0; i < members.length; i++) {
+      for (let j = i + 1; j < members.length; j++) {
+        const key = [members[i], members[j]].sort().join('\u0000');
+        pairCounts.set(key, (pairCounts.get(key) || 0) + 1);
+      }
+    }
+  }
+  for (const [key, weight] of pairCounts) {
+    const [a, b] = key.split('\u0000');
+    builder.addEdge(a, b, { weight });
+  }
+  return builder.build();
+}
+
+// ── Serializers ──────────────────────────────────────────────────────────────
+
+type AttrType = 'int' | 'double' | 'boolean' | 'string';
+
+function present(value: AttributeValue): value is string | number | boolean {
+  return value !== null && value !== undefined && value !== '';
+}
+
+/** Infer one type per attribute key across all items (int < double < string). */
+function attributeTypes(items: { attributes: Record<string, AttributeValue> }[]): Map<string, AttrType> {
+  const types = new Map<string, AttrType>();
+  for (const item of items) {
+    for (const [key, value] of Object.entries(item.attributes)) {
+      if (!present(value)) {
+        continue;
+      }
+      const type: AttrType = typeof value === 'boolean' ? 'boolean'
+        : typeof value === 'number' ? (Number.isInteger(value) ? 'int' : 'double')
+        : 'string';
+      const prev = types.get(key);
+      if (!prev || prev === type) types.set(key, type);
+      else if ((prev === 'int' && type === 'double') || (prev === 'double' && type === 'int')) types.set(key, 'double');
+      else types.set(key, 'string');
+    }
+  }
+  return types;
+}
+
+function escapeXml(value: string): string {
+  return value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&apos;')
+    // Control characters are not allowed in XML 1.0
+    .replace(/[\u0000-\u0008\u000B\u000C\u000E-\u001F]/g, '');
+}
+
+export function toGraphML(graph: Graph): string {
+  const nodeTypes = attributeTypes(graph.nodes);
+  const edgeTypes = attributeTypes(graph.edges);
+  const lines = [
+    '<?xml version="1.0" encoding="UTF-8"?>',
+    '<graphml xmlns="http://graphml.graphdrawing.org/xmlns">',
+    '  <key id="label" for="node" attr.name="label" attr.type="string"/>',
+  ];
+  for (const [name, type] of nodeTypes) {
+    lines.push(`  <key id="n_${escapeXml(name)}" for="node" attr.name="${escapeXml(name)}" attr.type="${type}"/>`);
+  }
+  for (const [name, type] of edgeTypes) {
+    lines.push(`  <key id="e_${escapeXml(name)}" for="edge" attr.name="${escapeXml(name)}" attr.type="${type}"/>`);
+  }
+  lines.push(`  <graph id="${escapeXml(graph.name)}" edgedefault="${graph.directed ? 'directed' : 'undirected'}">`);
+  for (const node of graph.nodes) {
+    lines.push(`    <node id="${escapeXml(node.id)}">`);
+    lines.push(`      <data key="label">${escapeXml(node.label)}</data>`);
+    for (const [name, value] of Object.entries(node.attributes)) {
+      if (present(value)) lines.push(`      <data key="n_${escapeXml(name)}">${escapeXml(String(value))}</data>`);
+    }
+    lines.push('    </node>');
+  }
+  graph.edges.forEach((edge, i) => {
+    lines.push(`    <edge id="e${i}" source="${escapeXml(edge.source)}" target="${escapeXml(edge.target)}">`);
+    for (const [name, value] of Object.entries(edge.attributes)) {
+      if (present(value)) lines.push(`      <data key="e_${escapeXml(name)}">${escapeXml(String(value))}</data>`);
+    }
+    lines.push('    </edge>');
+  });
+  lines.push('  </graph>', '</graphml>');
+  return lines.join('\n') + '\n';
+}
+
+const GEXF_TYPES: Record<AttrType, string> = { int: 'integer', double: 'double', boolean: 'boolean', string: 'string' };
+
+export function toGEXF(graph: Graph): string {
+  const nodeTypes = Array.from(attributeTypes(graph.nodes));
+  const edgeTypes = Array.from(attributeTypes(graph.edges)).filter(([name]) => name !== 'weight');
+  const lines = [
+    '<?xml version="1.0" encoding="UTF-8"?>',
+    '<gexf xmlns="http://gexf.net/1.3" version="1.3">',
+    `  <graph mode="static" defaultedgetype="${graph.directed ? 'directed' : 'undirected'}">`,
+    '    <attributes class="node">',
+    ...nodeTypes.map(([name, type], i) => `      <attribute id="${i}" title="${escapeXml(name)}" type="${GEXF_TYPES[type]}"/>`),
+    '    </attributes>',
+    '    <attributes class="edge">',
+    ...edgeTypes.map(([name, type], i) => `      <attribute id="${i}" title="${escapeXml(name)}" type="${GEXF_TYPES[type]}"/>`),
+    '    </attributes>',
+    '    <nodes>',
+  ];
+  for (const node of graph.nodes) {
+    lines.push(`      <node id="${escapeXml(node.id)}" label="${escapeXml(node.label)}">`);
+    lines.push('        <attvalues>');
+    nodeTypes.forEach(([name], i) => {
+      const value = node.attributes[name];
+      if (present(value)) lines.push(`          <attvalue for="${i}" value="${escapeXml(String(value))}"/>`);
+    });
+    lines.push('        </attvalues>', '      </node>');
+  }
+  lines.push('    </nodes>', '    <edges>');
+  graph.edges.forEach((edge, i) => {
+    // GEXF has a native weight attribute
+    const weight = typeof edge.attributes.weight === 'number' ? ` weight="${edge.attributes.weight}"` : '';
+    lines.push(`      <edge id="${i}" source="${escapeXml(edge.source)}" target="${escapeXml(edge.target)}"${weight}>`);
+    lines.push('        <attvalues>');
+    edgeTypes.forEach(([name], j) => {
+      const value = edge.attributes[name];
+      if (present(value)) lines.push(`          <attvalue for="${j}" value="${escapeXml(String(value))}"/>`);
+    });
+    lines.push('        </attvalues>', '      </edge>');
+  });
+  lines.push('    </edges>', '  </graph>', '</gexf>');
+  return lines.join('\n') + '\n';
+}
+
+function dotQuote(value: string): string {
+  return `"${value.replace(/\\/g, '\\\\').replace(/"/g, '\\"').replace(/\n/g, ' ')}"`;
+}
+
+function dotAttributes(label: string | null, attributes: Record<string, AttributeValue>): string {
+  const parts = label !== null ? [`label=${dotQuote(label)}`] : [];
+  for (const [name, value] of Object.entries(attributes)) {
+    if (present(value)) parts.push(`${name}=${typeof value === 'string' ? dotQuote(value) : value}`);
+  }
+  return parts.length > 0 ? ` [${parts.join(', ')}]` : '';
+}
+
+export function toDOT(graph: Graph): string {
+  const arrow = graph.directed ? '->' : '--';
+  const lines = [`${graph.directed ? 'digraph' : 'graph'} ${dotQuote(graph.name)} {`];
+  for (const node of graph.nodes) {
+    lines.push(`  ${dotQuote(node.id)}${dotAttributes(node.label, node.attributes)};`);
+  }
+  for (const edge of graph.edges) {
+    lines.push(`  ${dotQuote(edge.source)} ${arrow} ${dotQuote(edge.target)}${dotAttributes(null, edge.attributes)};`);
+  }
+  lines.push('}');
+  return lines.join('\n') + '\n';
+}
+
+/**
+ * JSON node-link format (networkx `node_link_data` / d3-force compatible).
+ */
+export function toNodeLink(graph: Graph): any {
+  const clean = (attributes: Record<string, AttributeValue>) =>
+    Object.fromEntries(Object.entries(attributes).filter(([, v]) => present(v)));
+  return {
+    directed: graph.directed,
+    multigraph: false,
+    graph: { name: graph.name },
+    nodes: graph.nodes.map(n => ({ id: n.id, label: n.label, ...clean(n.attributes) })),
+    links: graph.edges.map(e => ({ source: e.source, target: e.target, ...clean(e.attributes) })),
+  };
+}
+
+/**
+ * Serialize a graph in the given format as a single string.
+ */
+export function formatGraph(graph: Graph, format: GraphFormat): string {
+  switch (format) {
+    case 'graphml':
+      return toGraphML(graph);
+    case 'gexf':
+      return toGEXF(graph);
+    case 'dot':
+      return toDOT(graph);
+    case 'json':
+      return JSON.stringify(toNodeLink(graph), null, 2);
+  }
+}
@@ -0,0 +1,199 @@
+// Streamable HTTP transport — serves the MCP server over HTTP (POST for requests,
+// GET for the SSE notification stream, DELETE to end a session) so one process can
+// be shared by several agents or hosted behind a gateway. stdio remains the default.
+
+import { createServer as createHttpServer, IncomingMessage, ServerResponse } from 'node:http';
+import { AddressInfo } from 'node:net';
+import { randomUUID } from 'node:crypto';
+import { Server } from '@modelcontextprotocol/sdk/server/index.js';
+import { StreamableHTTPServerTransport } from '@modelcontextprotocol/sdk/server/streamableHttp.js';
+import { isInitializeRequest } from '@modelcontextprotocol/sdk/types.js';
+import { CONFIG, debug } from './config.js';
+import { getFlag } from './setup.js';
+
+export type TransportKind = 'stdio' | 'http';
+
+export interface TransportOptions {
+  transport: TransportKind;
+  host: string;
+  port: number;
+}
+
+export interface HttpServerHandle {
+  /** Full URL of the MCP endpoint, e.g. http://127.0.0.1:3000/mcp */
+  url: string;
+  port: number;
+  /** Number of currently open MCP sessions. */
+  sessionCount(): number;
+  /** Close every session, then stop accepting connections. */
+  close(): Promise<void>;
+}
+
+interface Session {
+  transport: StreamableHTTPServerTransport;
+  server: Server;
+}
+
+/**
+ * Resolve transport settings from CLI flags, falling back to env vars, then defaults.
+ * Flags: --transport stdio|http, --host <host>, --port <port>.
+ * Env:   MCP_TRANSPORT, MCP_HTTP_HOST, MCP_HTTP_PORT.
+ */
+export function parseTransportOptions(
+  argv: string[],
+  env: Record<string, string | undefined> = process.env,
+): TransportOptions {
+  const transport = (getFlag(argv, '--transport') ?? env.MCP_TRANSPORT ?? 'stdio').toLowerCase();
+  if (transport !== 'stdio' && transport !== 'http') {
+    throw new Error(`Unknown transport "${transport}". Expected "stdio" or "http".`);
+  }
+
+  const host = getFlag(argv, '--host') ?? env.MCP_HTTP_HOST ?? CONFIG.HTTP.DEFAULT_HOST;
+  const rawPort = getFlag(argv, '--port') ?? env.MCP_HTTP_PORT;
+  const port = rawPort !== undefined ? Number(rawPort) : CONFIG.HTTP.DEFAULT_PORT;
+  if (!Number.isInteger(port) || port < 0 || port > 65535) {
+    throw new Error(`Invalid port "${rawPort}". Expected an integer between 0 and 65535.`);
+  }
+
+  return { transport, host, port };
+}
+
+function sendJsonRpcError(res: ServerResponse, status: number, code: number, message: string): void {
+  res.writeHead(status, { 'Content-Type': 'application/json' });
+  res.end(JSON.stringify({ jsonrpc: '2.0', error: { code, message }, id: null }));
+}
+
+async function readJsonBody(req: IncomingMessage): Promise<unknown> {
+  const chunks: Buffer[] = [];
+  let size = 0;
+  for await (const chunk of req) {
+    size += chunk.length;
+    if (size > CONFIG.HTTP.MAX_BODY_BYTES) {
+      const err = new Error('Request body too large');
+      (err as any).status = 413;
+      throw err;
+    }
+    chunks.push(chunk);
+  }
+  const raw = Buffer.concat(chunks).toString('utf-8');
+  try {
+    return JSON.parse(raw);
+  } catch {
+    const err = new Error('Parse error: request body is not valid JSON');
+    (err as any).status = 400;
+    throw err;
+  }
+}
+
+/**
+ * Start a Streamable HTTP server. `createMcpServer` is called once per session
+ * because an MCP Server instance can only be connected to a single transport.
+ */
+export async function startHttpServer(
+  createMcpServer: () => Server,
+  options: Pick<TransportOptions, 'host' | 'port'>,
+): Promise<HttpServerHandle> {
+  const sessions = new Map<string, Session>();
+
+  async function handleRequest(req: IncomingMessage, res: ServerResponse): Promise<void> {
+    const path = (req.url || '/').split('?')[0];
+    if (path !== CONFIG.HTTP.PATH) {
+      sendJsonRpcError(res, 404, -32000, `Not found. The MCP endpoint is ${CONFIG.HTTP.PATH}`);
+      return;
+    }
+
+    const header = req.headers['mcp-session-id'];
+    const sessionId = Array.isArray(header) ? header[0] : header;
+    const existing = sessionId ? sessions.get(sessionId) : undefined;
+
+    if (req.method === 'POST') {
+      const body = await readJsonBody(req);
+
+      if (existing) {
+        await existing.transport.handleRequest(req, res, body);
+        return;
+      }
+
+      if (!sessionId && isInitializeRequest(body)) {
+        const server = createMcpServer();
+        const transport = new StreamableHTTPServerTransport({
+          sessionIdGenerator: () => randomUUID(),
+          onsessioninitialized: (id) => {
+            debug('HTTP session opened:', id);
+            sessions.set(id, { transport, server });
+          },
+        });
+        transport.onclose = () => {
+          if (transport.sessionId && sessions.delete(transport.sessionId)) {
+            debug('HTTP session closed:', transport.sessionId);
+          }
+        };
+        await server.connect(transport);
+        await transport.handleRequest(req, res, body);
+        return;
+      }
+
+      // Unknown session IDs get 404 so spec-compliant clients re-initialize
+      if (sessionId) {
+        sendJsonRpcError(res, 404, -32001, 'Session not found');
+      } else {
+        sendJsonRpcError(res, 400, -32000, 'Bad Request: no valid session ID provided');
+      }
+      return;
+    }
+
+    if (req.method === 'GET' || req.method === 'DELETE') {
+      if (!existing) {
+        sendJsonRpcError(res, sessionId ? 404 : 400, -32000, sessionId ? 'Session not found' : 'Bad Request: missing mcp-session-id header');
+        return;
+      }
+      await existing.transport.handleRequest(req, res);
+      return;
+    }
+
+    res.setHeader('Allow', 'GET, POST, DELETE');
+    sendJsonRpcError(res, 405, -32000, 'Method not allowed');
+  }
+
+  const httpServer = createHttpServer((req, res) => {
+    handleRequest(req, res).catch((error: any) => {
+      if (!error?.status) {
+        console.error('[openalex] HTTP request failed:', error?.message ?? error);
+      }
+      if (!res.headersSent) {
+        const status = error?.status ?? 500;
+        sendJsonRpcError(res, status, status === 400 ? -32700 : -32603, error?.message ?? 'Internal server error');
+      } else {
+        res.end();
+      }
+    });
+  });
+
+  await new Promise<void>((resolve, reject) => {
+    httpServer.once('error', reject);
+    httpServer.listen(options.port, options.host, () => {
+      httpServer.off('error', reject);
+      resolve();
+    });
+  });
+
+  const { port } = httpServer.address() as AddressInfo;
+  const hostForUrl = options.host.includes(':') ? `[${options.host}]` : options.host;
+  debug(`HTTP transport listening on ${hostForUrl}:${port}`);
+
+  return {
+    url: `http://${hostForUrl}:${port}${CONFIG.HTTP.PATH}`,
+    port,
+    sessionCount: () => sessions.size,
+    async close() {
+      const open = Array.from(sessions.values());
+      sessions.clear();
+      await Promise.allSettled(open.map(s => s.server.close()));
+      // Open SSE streams would otherwise keep the server alive indefinitely
+      httpServer.closeAllConnections();
+      await new Promise<void>((resolve, reject) => {
+        httpServer.close(err => (err ? reject(err) : resolve()));
+      });
+    },
+  };
+}
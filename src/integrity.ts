@@ -0,0 +1,234 @@
+// Integrity screening for manuscript review — flags retracted works, works that
+// cite retracted papers, paratext (front matter, indexes, …) and reference lists
+// dominated by self-citations. References are hydrated once for the whole batch
+// (ids.openalex filter, 50 per request) and reused for both checks.
+
+import { OpenAlexClient } from './openalex-client.js';
+import { CONFIG, debug } from './config.js';
+
+export type IntegrityFlag = 'retracted' | 'paratext' | 'cites_retracted' | 'self_citation_heavy';
+
+export type IntegrityStatus = 'retracted' | 'needs_review' | 'clear';
+
+export interface IntegrityOptions {
+  /** Share of checked references sharing an author with the work that counts as heavy. */
+  selfCitationThreshold: number;
+  /** References checked per work (the rest are counted but not inspected). */
+  maxReferencesPerWork: number;
+}
+
+export interface CitedRetractedWork {
+  id: string;
+  doi: string | null;
+  title: string | null;
+  publication_year: number | null;
+}
+
+export interface IntegrityWorkReport {
+  id: string;
+  doi: string | null;
+  title: string | null;
+  publication_year: number | null;
+  status: IntegrityStatus;
+  flags: IntegrityFlag[];
+  is_retracted: boolean;
+  is_paratext: boolean;
+  references: {
+    total: number;
+    checked: number;
+    /** Checked references OpenAlex returned metadata for. */
+    resolved: number;
+  };
+  cited_retracted_works: CitedRetractedWork[];
+  self_citations: {
+    count: number;
+    ratio: number;
+    threshold: number;
+    /** Authors of this work who also wrote the self-cited references. */
+    authors: string[];
+  };
+  notes: string[];
+}
+
+export interface IntegrityReport {
+  summary: {
+    checked: number;
+    retracted: number;
+    cites_retracted: number;
+    paratext: number;
+    self_citation_heavy: number;
+    unresolved: number;
+  };
+  works: IntegrityWorkReport[];
+  unresolved: string[];
+}
+
+const REFERENCE_FIELDS = ['id', 'doi', 'display_name', 'publication_year', 'is_retracted', 'authorships'];
+
+function bareId(id: string): string {
+  return String(id).split('/').pop()!;
+}
+
+function authorIds(work: any): Set<string> {
+  return new Set((work.authorships || []).map((a: any) => a.author?.id).filter(Boolean).map(bareId));
+}
+
+function screenWork(work: any, references: Map<string, any>, options: IntegrityOptions): IntegrityWorkReport {
+  const allRefs: string[] = (work.referenced_works || []).map(bareId);
+  const checkedRefs = allRefs.slice(0, options.maxReferencesPerWork);
+  const resolvedRefs = checkedRefs.map(id => references.get(id)).filter(Boolean);
+
+  const citedRetracted: CitedRetractedWork[] = resolvedRefs
+    .filter(ref => ref.is_retracted)
+    .map(ref => ({
+      id: ref.id,
+      doi: ref.doi ?? null,
+      title: ref.display_name ?? ref.title ?? null,
+      publication_year: ref.publication_year ?? null,
+    }));
+
+  const ownAuthors = authorIds(work);
+  const selfCitingAuthors = new Set<string>();
+  let selfCount = 0;
+  for (const ref of resolvedRefs) {
+    const shared = Array.from(authorIds(ref)).filter(id => ownAuthors.has(id));
+    if (shared.length > 0) {
+      selfCount++;
+      shared.forEach(id => selfCitingAuthors.add(id));
+    }
+  }
+  const ratio = resolvedRefs.length > 0 ? Math.round((selfCount / resolvedRefs.length) * 1000) / 1000 : 0;
+  const authorNames = (work.authorships || [])
+    .filter((a: any) => a.author?.id && selfCitingAuthors.has(bareId(a.author.id)))
+    .map((a: any) => a.author.display_name);
+
+  const flags: IntegrityFlag[] = [];
+  const notes: string[] = [];
+  if (work.is_retracted) {
+    flags.push('retracted');
+    notes.push('This work is marked as retracted in OpenAlex.');
+  }
+  if (work.is_paratext) {
+    flags.push('paratext');
+    notes.push('Paratext (front matter, table of contents, index, …) rather than scholarly content.');
+  }
+  if (citedRetracted.length > 0) {
+    flags.push('cites_retracted');
+    notes.push(`Cites ${citedRetracted.length} retracted work${citedRetracted.length === 1 ? '' : 's'}; check whether the citations acknowledge the retraction.`);
+  }
+  if (selfCount >= CONFIG.INTEGRITY.MIN_SELF_CITATIONS && ratio >= options.selfCitationThreshold) {
+    flags.push('self_citation_heavy');
+    notes.push(`${selfCount} of ${resolvedRefs.length} resolved references (${Math.round(ratio * 100)}%) share an author with this work.`);
+  }
+  if (allRefs.length > checkedRefs.length) {
+    notes.push(`Only the first ${checkedRefs.length} of ${allRefs.length} references were checked.`);
+  }
+  if (allRefs.length === 0) {
+    notes.push('OpenAlex lists no references for this work, so citation checks were not possible.');
+  }
+
+  return {
+    id: work.id,
+    doi: work.doi ?? null,
+    title: work.title ?? work.display_name ?? null,
+    publication_year: work.publication_year ?? null,
+    status: work.is_retracted ? 'retracted' : flags.length > 0 ? 'needs_review' : 'clear',
+    flags,
+    is_retracted: !!work.is_retracted,
+    is_paratext: !!work.is_paratext,
+    references: { total: allRefs.length, checked: checkedRefs.length, resolved: resolvedRefs.length },
+    cited_retracted_works: citedRetracted,
+    self_citations: { count: selfCount, ratio, threshold: options.selfCitationThreshold, authors: authorNames },
+    notes,
+  };
+}
+
+/**
+ * Screen works (OpenAlex IDs or DOIs) for retraction, citations to retracted
+ * papers, paratext and self-citation-heavy reference lists. Reports follow the
+ * input order; IDs that cannot be resolved are listed in `unresolved`.
+ */
+export async function checkIntegrity(
+  client: OpenAlexClient,
+  ids: string[],
+  options: IntegrityOptions
+): Promise<IntegrityReport> {
+  const { works, unresolved } = await client.resolveWorks(ids);
+
+  const referenceIds = new Set<string>();
+  for (const work of works) {
+    for (const ref of (work.referenced_works || []).slice(0, options.maxReferencesPerWork)) {
+      referenceIds.add(bareId(ref));
+    }
+  }
+  const references = new Map<string, any>();
+  if (referenceIds.size > 0) {
+    for (const ref of await client.getWorksByIds(Array.from(referenceIds), REFERENCE_FIELDS)) {
+      references.set(bareId(ref.id), ref);
+    }
+  }
+  debug(`check_integrity: ${works.length} works, ${referenceIds.size} references, ${references.size} resolved`);
+
+  const reports = works.map(work => screenWork(work, references, options));
+  const count = (flag: IntegrityFlag) => reports.filter(r => r.flags.includes(flag)).length;
+  return {
+    summary: {
+      checked: reports.length,
+      retracted: count('retracted'),
+      cites_retracted: count('cites_retracted'),
+      paratext: count('paratext'),
+      self_citation_heavy: count('self_citation_heavy'),
+      unresolved: unresolved.length,
+    },
+    works: reports,
+    unresolved,
+  };
+}
+
+const STATUS_LABELS: Record<IntegrityStatus, string> = {
+  retracted: 'RETRACTED',
+  needs_review: 'Needs review',
+  clear: 'No issues found',
+};
+
+/** Markdown rendering of a report, for attaching to a manuscript review. */
+export function formatIntegrityReport(report: IntegrityReport): string {
+  const { summary } = report;
+  const lines = [
+    '# Integrity screening report',
+    '',
+    `Checked ${summary.checked} work${summary.checked === 1 ? '' : 's'} against OpenAlex: ` +
+      `${summary.retracted} retracted, ${summary.cites_retracted} citing retracted work, ` +
+      `${summary.paratext} paratext, ${summary.self_citation_heavy} self-citation-heavy.`,
+  ];
+  if (report.unresolved.length > 0) {
+    lines.push('', `Not found in OpenAlex: ${report.unresolved.join(', ')}`);
+  }
+
+  report.works.forEach((work, i) => {
+    lines.push(
+      '',
+      `## ${i + 1}. ${work.title ?? work.id}${work.publication_year ? ` (${work.publication_year})` : ''}`,
+      '',
+      `- **Status**: ${STATUS_LABELS[work.status]}`,
+      `- **Identifier**: ${work.doi ?? work.id}`,
+      `- **Retracted**: ${work.is_retracted ? 'yes' : 'no'}`,
+      `- **Paratext**: ${work.is_paratext ? 'yes' : 'no'}`,
+      `- **References checked**: ${work.references.checked} of ${work.references.total} (${work.references.resolved} resolved)`,
+      `- **Cited retracted works**: ${work.cited_retracted_works.length === 0 ? 'none' : work.cited_retracted_works.length}`,
+    );
+    for (const ref of work.cited_retracted_works) {
+      lines.push(`  - ${ref.title ?? ref.id}${ref.publication_year ? ` (${ref.publication_year})` : ''} — ${ref.doi ?? ref.id}`);
+    }
+    const self = work.self_citations;
+    lines.push(
+      `- **Self-citations**: ${self.count} (${Math.round(self.ratio * 100)}% of resolved references)` +
+        (self.authors.length > 0 ? ` by ${self.authors.join(', ')}` : ''),
+    );
+    for (const note of work.notes) {
+      lines.push(`- ${note}`);
+    }
+  });
+
+  return lines.join('\n') + '\n';
+}
@@ -0,0 +1,100 @@
+// Local stand-in for api.openalex.org that serves recorded fixtures over HTTP.
+// Point OpenAlexClient's `baseUrl` (or any script) at it to exercise works,
+// authors, sources, group_by and autocomplete requests end to end — including
+// axios, retries and the 404 path — without a network. Requests without a
+// fixture get a 404 naming the missing key, so a gap is easy to record.
+
+import { createServer as createHttpServer, ServerResponse } from 'node:http';
+import { AddressInfo } from 'node:net';
+import { CONFIG, debug } from './config.js';
+import { DEFAULT_FIXTURES_DIR, FixtureStore, fixtureKey } from './fixtures.js';
+import { getFlag } from './setup.js';
+
+export interface MockServerOptions {
+  /** Fixture directory (see fixtures.ts); defaults to OPENALEX_FIXTURES_DIR or fixtures/openalex. */
+  directory?: string;
+  host?: string;
+  /** 0 picks a free port. */
+  port?: number;
+}
+
+export interface MockServerHandle {
+  /** Base URL to use as OpenAlexClient's `baseUrl`, e.g. http://127.0.0.1:8787 */
+  url: string;
+  port: number;
+  /** Normalized key of every request served so far, hits and misses alike. */
+  requests: string[];
+  close(): Promise<void>;
+}
+
+function sendJson(res: ServerResponse, status: number, body: unknown): void {
+  res.writeHead(status, { 'Content-Type': 'application/json' });
+  res.end(JSON.stringify(body));
+}
+
+export async function startMockServer(options: MockServerOptions = {}): Promise<MockServerHandle> {
+  const store = new FixtureStore(options.directory || process.env.OPENALEX_FIXTURES_DIR || DEFAULT_FIXTURES_DIR);
+  const host = options.host ?? CONFIG.HTTP.DEFAULT_HOST;
+  const requests: string[] = [];
+
+  const httpServer = createHttpServer((req, res) => {
+    const url = new URL(req.url || '/', 'http://localhost');
+    const params = Object.fromEntries(url.searchParams);
+    const key = fixtureKey(url.pathname, params);
+    requests.push(key);
+
+    if (req.method !== 'GET') {
+      res.setHeader('Allow', 'GET');
+      sendJson(res, 405, { error: 'Method not allowed', message: 'The mock OpenAlex API only serves GET requests' });
+      return;
+    }
+
+    store.lookup(url.pathname, params).then(recorded => {
+      if (recorded === undefined) {
+        debug('Mock OpenAlex: no fixture for', key);
+        sendJson(res, 404, { error: 'No fixture', message: `No fixture recorded for GET ${key} in ${store.directory}` });
+      } else {
+        sendJson(res, 200, recorded);
+      }
+    }).catch((error: any) => {
+      sendJson(res, 500, { error: 'Fixture store failed', message: error?.message ?? String(error) });
+    });
+  });
+
+  await new Promise<void>((resolve, reject) => {
+    httpServer.once('error', reject);
+    httpServer.listen(options.port ?? 0, host, () => {
+      httpServer.off('error', reject);
+      resolve();
+    });
+  });
+
+  const { port } = httpServer.address() as AddressInfo;
+  const hostForUrl = host.includes(':') ? `[${host}]` : host;
+
+  return {
+    url: `http://${hostForUrl}:${port}`,
+    port,
+    requests,
+    async close() {
+      httpServer.closeAllConnections();
+      await new Promise<void>((resolve, reject) => {
+        httpServer.close(err => (err ? reject(err) : resolve()));
+      });
+    },
+  };
+}
+
+/**
+ * `openalex-research-mcp mock-server [--fixtures <dir>] [--host <host>] [--port <port>]`
+ */
+export async function runMockServer(argv: string[]): Promise<MockServerHandle> {
+  const rawPort = getFlag(argv, '--port');
+  const port = rawPort !== undefined ? Number(rawPort) : CONFIG.HTTP.MOCK_API_PORT;
+  if (!Number.isInteger(port) || port < 0 || port > 65535) {
+    throw new Error(`Invalid port "${rawPort}". Expected an integer between 0 and 65535.`);
+  }
+  const handle = await startMockServer({ directory: getFlag(argv, '--fixtures'), host: getFlag(argv, '--host'), port });
+  console.error(`[openalex] Mock OpenAlex API listening on ${handle.url}`);
+  return handle;
+}
@@ -1,11 +1,38 @@
 import axios, { AxiosInstance, AxiosError } from 'axios';
+import * as path from 'node:path';
 import { CONFIG, debug } from './config.js';
+import { DiskCache, DiskCacheStats } from './disk-cache.js';
+import { RateLimiter, RateLimiterOptions, RateLimiterStats } from './rate-limiter.js';
+import { FixtureConfig, FixtureStore, fixtureConfigFromEnv, fixtureKey } from './fixtures.js';
+
+export interface DiskCacheConfig {
+  directory: string;
+  maxSizeBytes?: number;
+  /** Overrides for CONFIG.CACHE.DISK.TTL_MS, keyed by entity type, 'search', 'autocomplete' or 'default'. */
+  ttlMs?: Record<string, number>;
+}
 
 export interface OpenAlexConfig {
   email?: string;
   apiKey?: string;
   baseUrl?: string;
   enableCache?: boolean;
+  /**
+   * Persistent cache layer. Defaults to OPENALEX_CACHE_DIR (size cap from
+   * OPENALEX_CACHE_MAX_MB) when set; pass false to disable regardless of env.
+   */
+  diskCache?: DiskCacheConfig | false;
+  /**
+   * Client-side rate limiting; defaults come from CONFIG.API.RATE_LIMIT. The
+   * daily count is persisted to `stateFile`, defaulting to OPENALEX_RATE_LIMIT_STATE
+   * or rate-limit.json in the disk cache directory. Pass false to disable.
+   */
+  rateLimit?: Partial<RateLimiterOptions> | false;
+  /**
+   * Record live responses to, or replay them from, a fixture directory.
+   * Defaults to OPENALEX_FIXTURES / OPENALEX_FIXTURES_DIR; pass false to disable.
+   */
+  fixtures?: FixtureConfig | false;
 }
 
 export interface FilterOptions {
@@ -68,35 +95,64 @@ export interface SearchOptions {
   select?: string[];
   groupBy?: string;
   sample?: number;
+  /** Cursor paging token: '*' for the first page, then meta.next_cursor. */
+  cursor?: string;
 }
 
 export interface OpenAlexResponse<T> {
   meta: {
     count: number;
     db_response_time_ms: number;
-    page: number;
+    page: number | null;
     per_page: number;
+    next_cursor?: string | null;
   };
   results: T[];
   group_by?: any[];
 }
 
+export interface PaginatedResults<T> {
+  /** Total matches reported by the API (may exceed results.length). */
+  count: number;
+  results: T[];
+  /** True when more results exist than were fetched. */
+  truncated: boolean;
+}
+
+/**
+ * OPENALEX_CACHE_MAX_MB in bytes, or undefined (the default size) when unset or
+ * not a positive number — NaN or ≤ 0 would make every entry over the cap.
+ */
+function diskCacheMaxBytes(value: string | undefined): number | undefined {
+  if (!value) return undefined;
+  const megabytes = parseFloat(value);
+  if (Number.isFinite(megabytes) && megabytes > 0) return megabytes * 1024 * 1024;
+  debug(`Ignoring OPENALEX_CACHE_MAX_MB="${value}" (not a positive number); using ${CONFIG.CACHE.DISK.MAX_SIZE_MB} MB`);
+  return undefined;
+}
+
 export class OpenAlexClient {
   private client: AxiosInstance;
+  private baseUrl: string;
   private email?: string;
   private apiKey?: string;
   private cache: SimpleCache<any>;
   private enableCache: boolean;
+  private diskCache: DiskCache | null = null;
+  private diskTtlMs: Record<string, number> = CONFIG.CACHE.DISK.TTL_MS;
+  private limiter: RateLimiter | null = null;
+  private fixtures: FixtureStore | null = null;
+  private fixtureMode: FixtureConfig['mode'] | null = null;
 
   constructor(config: OpenAlexConfig = {}) {
     this.email = config.email || process.env.OPENALEX_EMAIL;
     this.apiKey = config.apiKey || process.env.OPENALEX_API_KEY;
     this.enableCache = config.enableCache ?? true;
 
-    const baseUrl = config.baseUrl || CONFIG.API.BASE_URL;
+    this.baseUrl = config.baseUrl || process.env.OPENALEX_BASE_URL || CONFIG.API.BASE_URL;
 
     this.client = axios.create({
-      baseURL: baseUrl,
+      baseURL: this.baseUrl,
       timeout: CONFIG.API.TIMEOUT,
       headers: {
         'User-Agent': this.email
@@ -107,6 +163,41 @@ export class OpenAlexClient {
 
     this.cache = new SimpleCache<any>(CONFIG.CACHE.MAX_SIZE, CONFIG.CACHE.TTL_MS);
 
+    const diskConfig = config.diskCache ?? (process.env.OPENALEX_CACHE_DIR
+      ? {
+          directory: process.env.OPENALEX_CACHE_DIR,
+          maxSizeBytes: diskCacheMaxBytes(process.env.OPENALEX_CACHE_MAX_MB),
+        }
+      : false);
+    if (this.enableCache && diskConfig) {
+      this.diskCache = new DiskCache({
+        directory: diskConfig.directory,
+        maxSizeBytes: diskConfig.maxSizeBytes ?? CONFIG.CACHE.DISK.MAX_SIZE_MB * 1024 * 1024,
+      });
+      this.diskTtlMs = { ...CONFIG.CACHE.DISK.TTL_MS, ...diskConfig.ttlMs };
+      debug('Disk cache enabled at', diskConfig.directory);
+    }
+
+    if (config.rateLimit !== false) {
+      const stateFile = config.rateLimit?.stateFile
+        ?? process.env.OPENALEX_RATE_LIMIT_STATE
+        ?? (diskConfig ? path.join(diskConfig.directory, 'rate-limit.json') : undefined);
+      this.limiter = new RateLimiter({
+        requestsPerSecond: CONFIG.API.RATE_LIMIT.REQUESTS_PER_SECOND,
+        requestsPerDay: CONFIG.API.RATE_LIMIT.REQUESTS_PER_DAY,
+        maxConcurrent: CONFIG.API.RATE_LIMIT.MAX_CONCURRENT,
+        ...config.rateLimit,
+        stateFile,
+      });
+    }
+
+    const fixtureConfig = config.fixtures ?? fixtureConfigFromEnv();
+    if (fixtureConfig) {
+      this.fixtures = new FixtureStore(fixtureConfig.directory);
+      this.fixtureMode = fixtureConfig.mode;
+      debug(`Fixtures: ${fixtureConfig.mode} (${fixtureConfig.directory})`);
+    }
+
     // Add response interceptor for 429 rate-limit handling with bounded retry
     this.client.interceptors.response.use(
       (response) => response,
@@ -123,13 +214,39 @@ export class OpenAlexClient {
           const delayMs = Math.min(retryAfter * 1000, CONFIG.API.RETRY.MAX_DELAY_MS);
           debug(`429 rate limited (attempt ${config._429RetryCount}/${CONFIG.API.RETRY.MAX_429_RETRIES}) — sleeping ${delayMs}ms`);
           await this.sleep(delayMs);
-          return this.client.request(config);
+          // The retry is a real request: charge it to the limiter like the first one
+          const retry = () => this.client.request(config);
+          return this.limiter ? this.limiter.scheduleRetry(retry) : retry();
         }
         throw error;
       }
     );
   }
 
+  /**
+   * Every API request goes through here so the rate limiter and the fixture
+   * store see it. Replay never touches the network (or the limiter); a request
+   * without a fixture fails immediately rather than falling through to the API.
+   */
+  private async get(url: string, params: Record<string, string>): Promise<any> {
+    if (this.fixtures && this.fixtureMode === 'replay') {
+      const recorded = await this.fixtures.lookup(url, params);
+      if (recorded === undefined) {
+        const err = new Error(`No fixture recorded for GET ${fixtureKey(url, params)} in ${this.fixtures.directory}`);
+        (err as any).isFixtureMiss = true;
+        throw err;
+      }
+      return recorded;
+    }
+
+    const request = () => this.client.get(url, { params });
+    const response = this.limiter ? await this.limiter.schedule(request) : await request();
+    if (this.fixtures) {
+      await this.fixtures.record(url, params, response.data);
+    }
+    return response.data;
+  }
+
   private async sleep(ms: number): Promise<void> {
     return new Promise(resolve => setTimeout(resolve, ms));
   }
@@ -147,7 +264,8 @@ export class OpenAlexClient {
         lastError = error instanceof Error ? error : new Error(String(error));
 
         // Don't retry rate-limit exhaustion (already retried by the 429 interceptor)
-        if (error?.isRateLimitExhausted) {
+        // or a replay miss (the fixture won't appear on a second look)
+        if (error?.isRateLimitExhausted || error?.isFixtureMiss) {
           throw lastError;
         }
 
@@ -173,12 +291,81 @@ export class OpenAlexClient {
 
   clearCache(): void {
     this.cache.clear();
+    this.diskCache?.clear().catch(err => debug('DiskCache clear failed:', err?.message));
   }
 
   getCacheSize(): number {
     return this.cache.size;
   }
 
+  /**
+   * Whether requests carry an API key (from the config or OPENALEX_API_KEY).
+   * Fixture replay never reaches the API, so it counts as keyless.
+   */
+  usesApiKey(): boolean {
+    return !!this.apiKey && this.fixtureMode !== 'replay';
+  }
+
+  /**
+   * The API base URL requests go to (the live API, or e.g. the local mock API).
+   */
+  getBaseUrl(): string {
+    return this.baseUrl;
+  }
+
+  /**
+   * Disk cache hit/miss counters and size, or null when the disk layer is off.
+   */
+  async getDiskCacheStats(): Promise<DiskCacheStats | null> {
+    return this.diskCache ? this.diskCache.stats() : null;
+  }
+
+  /**
+   * Rate limiter budget, queue and wait statistics, or null when disabled.
+   */
+  getRateLimitStats(): RateLimiterStats | null {
+    return this.limiter ? this.limiter.stats() : null;
+  }
+
+  /**
+   * Persist pending state (the rate limiter's daily count) before shutdown.
+   */
+  async flush(): Promise<void> {
+    await this.limiter?.flush();
+  }
+
+  /**
+   * Look a key up in memory, then on disk, then fetch it. `ttlCategory` selects
+   * the disk TTL (an entity type, 'search' or 'autocomplete'); the memory layer
+   * always uses CONFIG.CACHE.TTL_MS.
+   */
+  private async withCache<T>(cacheKey: string, ttlCategory: string, fetch: () => Promise<T>): Promise<T> {
+    if (!this.enableCache) {
+      return fetch();
+    }
+
+    const cached = this.cache.get(cacheKey);
+    if (cached) {
+      return cached;
+    }
+
+    if (this.diskCache) {
+      const onDisk = await this.diskCache.get<T>(cacheKey);
+      if (onDisk) {
+        this.cache.set(cacheKey, onDisk);
+        return onDisk;
+      }
+    }
+
+    const result = await fetch();
+    this.cache.set(cacheKey, result);
+    if (this.diskCache) {
+      const ttl = this.diskTtlMs[ttlCategory] ?? this.diskTtlMs.default;
+      await this.diskCache.set(cacheKey, result, ttl);
+    }
+    return result;
+  }
+
   /**
    * Build query parameters from search options
    */
@@ -233,6 +420,10 @@ export class OpenAlexClient {
       params.sample = options.sample.toString();
     }
 
+    if (options.cursor) {
+      params.cursor = options.cursor;
+    }
+
     return params;
   }
 
@@ -262,29 +453,15 @@ export class OpenAlexClient {
    */
   async getEntity(entityType: string, id: string): Promise<any> {
     const cacheKey = `${entityType}/${id}`;
-
-    if (this.enableCache) {
-      const cached = this.cache.get(cacheKey);
-      if (cached) {
-        return cached;
-      }
-    }
-
     const normalizedId = this.normalizeId(id);
-    const result = await this.retryWithBackoff(async () => {
+
+    return this.withCache(cacheKey, entityType, () => this.retryWithBackoff(async () => {
       const params: Record<string, string> = {};
       if (this.email && !this.apiKey) params.mailto = this.email;
       if (this.apiKey) params.api_key = this.apiKey;
 
-      const response = await this.client.get(`/${entityType}/${normalizedId}`, { params });
-      return response.data;
-    }, `getEntity(${entityType}, ${id})`);
-
-    if (this.enableCache) {
-      this.cache.set(cacheKey, result);
-    }
-
-    return result;
+      return this.get(`/${entityType}/${normalizedId}`, params);
+    }, `getEntity(${entityType}, ${id})`));
   }
 
   /**
@@ -295,26 +472,64 @@ export class OpenAlexClient {
     options: SearchOptions = {}
   ): Promise<OpenAlexResponse<T>> {
     const params = this.buildQueryParams(options);
-    const cacheKey = `${entityType}?${JSON.stringify(params)}`;
+    // Credentials stay out of the key: it is persisted verbatim by the disk cache
+    const { mailto: _mailto, api_key: _apiKey, ...keyParams } = params;
+    const cacheKey = `${entityType}?${JSON.stringify(keyParams)}`;
 
-    if (this.enableCache) {
-      const cached = this.cache.get(cacheKey);
-      if (cached) {
-        return cached;
-      }
-    }
-
-    const result = await this.retryWithBackoff(async () => {
+    return this.withCache(cacheKey, 'search', () => this.retryWithBackoff(async () => {
       debug('searchEntities', entityType, JSON.stringify(params));
-      const response = await this.client.get(`/${entityType}`, { params });
-      return response.data;
-    }, `searchEntities(${entityType})`);
+      return this.get(`/${entityType}`, params);
+    }, `searchEntities(${entityType})`));
+  }
 
-    if (this.enableCache) {
-      this.cache.set(cacheKey, result);
+  /**
+   * Iterate over a result set page by page using cursor paging (`cursor=*`),
+   * which is not subject to the 10,000-result cap of page-based paging.
+   * Stops once `maxResults` results have been yielded (the last page is trimmed)
+   * or when the API runs out of pages. `page`, `sample` and `groupBy` are ignored.
+   */
+  async *paginate<T = any>(
+    entityType: string,
+    options: SearchOptions = {},
+    maxResults: number = Infinity
+  ): AsyncGenerator<OpenAlexResponse<T>> {
+    let cursor: string | null | undefined = '*';
+    let fetched = 0;
+
+    while (cursor && fetched < maxResults) {
+      const perPage = Math.min(options.perPage || CONFIG.MCP.MAX_PAGE_SIZE, CONFIG.MCP.MAX_PAGE_SIZE, maxResults - fetched);
+      const response: OpenAlexResponse<T> = await this.searchEntities<T>(entityType, {
+        ...options,
+        page: undefined,
+        sample: undefined,
+        groupBy: undefined,
+        cursor,
+        perPage,
+      });
+      const results = response.results.slice(0, maxResults - fetched);
+      fetched += results.length;
+      yield { ...response, results };
+
+      if (response.results.length === 0) break;
+      cursor = response.meta?.next_cursor;
     }
+  }
 
-    return result;
+  /**
+   * Collect up to `maxResults` results via cursor paging.
+   */
+  async paginateAll<T = any>(
+    entityType: string,
+    options: SearchOptions = {},
+    maxResults: number = Infinity
+  ): Promise<PaginatedResults<T>> {
+    let count = 0;
+    let results: T[] = [];
+    for await (const page of this.paginate<T>(entityType, options, maxResults)) {
+      count = page.meta?.count ?? count;
+      results = results.concat(page.results);
+    }
+    return { count, results, truncated: results.length < count };
   }
 
   /**
@@ -323,27 +538,13 @@ export class OpenAlexClient {
   async autocomplete(entityType: string, query: string): Promise<any> {
     const cacheKey = `autocomplete/${entityType}?q=${query}`;
 
-    if (this.enableCache) {
-      const cached = this.cache.get(cacheKey);
-      if (cached) {
-        return cached;
-      }
-    }
-
-    const result = await this.retryWithBackoff(async () => {
+    return this.withCache(cacheKey, 'autocomplete', () => this.retryWithBackoff(async () => {
       const params: Record<string, string> = { q: query };
       if (this.email && !this.apiKey) params.mailto = this.email;
       if (this.apiKey) params.api_key = this.apiKey;
 
-      const response = await this.client.get(`/autocomplete/${entityType}`, { params });
-      return response.data;
-    }, `autocomplete(${entityType}, ${query})`);
-
-    if (this.enableCache) {
-      this.cache.set(cacheKey, result);
-    }
-
-    return result;
+      return this.get(`/autocomplete/${entityType}`, params);
+    }, `autocomplete(${entityType}, ${query})`));
   }
 
   /**
@@ -374,6 +575,60 @@ export class OpenAlexClient {
     return this.getEntity('works', id);
   }
 
+  /**
+   * Fetch many works by OpenAlex ID in batched requests via the `ids.openalex`
+   * filter (one request per 50 IDs instead of one per ID). Accepts bare W-ids or
+   * full https://openalex.org/W… URLs. Results follow the input order; IDs the
+   * API does not return are simply absent.
+   */
+  async getWorksByIds(ids: string[], select?: string[]): Promise<any[]> {
+    const bareIds = Array.from(new Set(ids.map(id => String(id).split('/').pop()!)));
+    const byId = new Map<string, any>();
+    for (let i = 0; i < bareIds.length; i += CONFIG.MCP.IDS_FILTER_BATCH_SIZE) {
+      const batch = bareIds.slice(i, i + CONFIG.MCP.IDS_FILTER_BATCH_SIZE);
+      const response = await this.getWorks({
+        filter: { 'ids.openalex': batch.join('|') },
+        perPage: batch.length,
+        select,
+      });
+      for (const work of response.results) {
+        byId.set(String(work.id).split('/').pop()!, work);
+      }
+    }
+    return bareIds.map(id => byId.get(id)).filter(Boolean);
+  }
+
+  /**
+   * Resolve a mixed list of OpenAlex IDs and DOIs to works, in input order.
+   * OpenAlex IDs are fetched in batches via getWorksByIds; anything else (DOIs,
+   * URLs) goes through getWork individually. IDs that fail to resolve are
+   * returned in `unresolved` rather than thrown.
+   */
+  async resolveWorks(ids: string[]): Promise<{ works: any[]; unresolved: string[] }> {
+    const isOpenAlexId = (id: string) => /^(https?:\/\/openalex\.org\/)?W\d+$/i.test(id);
+    const bare = (id: string) => String(id).split('/').pop()!.toUpperCase();
+    const openAlexIds = ids.filter(isOpenAlexId);
+    const otherIds = ids.filter(id => !isOpenAlexId(id));
+
+    const byBareId = new Map<string, any>(
+      (await this.getWorksByIds(openAlexIds.map(bare))).map((w): [string, any] => [bare(w.id), w])
+    );
+    const settled = await Promise.allSettled(otherIds.map(id => this.getWork(id)));
+    const byInput = new Map<string, any>();
+    settled.forEach((r, i) => {
+      if (r.status === 'fulfilled') byInput.set(otherIds[i], r.value);
+    });
+
+    const works: any[] = [];
+    const unresolved: string[] = [];
+    for (const id of ids) {
+      const work = isOpenAlexId(id) ? byBareId.get(bare(id)) : byInput.get(id);
+      if (work) works.push(work);
+      else unresolved.push(id);
+    }
+    return { works, unresolved };
+  }
+
   /**
    * Get authors
    */
@@ -5,6 +5,8 @@
 // These lists match the official rankings as of 2025/2026.
 // ─────────────────────────────────────────────────────────────────────────────
 
+import type { FilterOptions } from './openalex-client.js';
+
 export interface VenuePreset {
   name: string;
   description: string;
@@ -225,3 +227,63 @@ export const INSTITUTION_GROUPS: Record<string, InstitutionGroup> = {
     ],
   },
 };
+
+/**
+ * Compact listing entry for a venue preset (list_journal_presets, resources).
+ */
+export function summarizeVenuePreset(key: string, preset: VenuePreset) {
+  return {
+    key,
+    name: preset.name,
+    description: preset.description,
+    venue_count: (preset.issns?.length ?? 0) + (preset.source_names?.length ?? 0),
+    filter_type: preset.issns ? 'issn' : 'display_name',
+    note: preset.note ?? null,
+  };
+}
+
+/**
+ * Works filter restricting to a preset's venues: ISSNs for journals (exact
+ * match with OR), display names for conferences (fuzzy match for long names).
+ */
+export function venueFilter(preset: VenuePreset): FilterOptions {
+  if (preset.issns && preset.issns.length > 0) {
+    return { 'primary_location.source.issn': preset.issns.join('|') };
+  }
+  if (preset.source_names && preset.source_names.length > 0) {
+    return { 'primary_location.source.display_name.search': preset.source_names.join('|') };
+  }
+  return {};
+}
+
+function normalizeVenueName(name: string): string {
+  return name.toLowerCase().replace(/[^a-z0-9]+/g, ' ').trim();
+}
+
+/** Whether `needle` occurs in `haystack` as whole words (both normalized). */
+function containsWords(haystack: string, needle: string): boolean {
+  return ` ${haystack} `.includes(` ${needle} `);
+}
+
+/**
+ * Keys of the venue presets a work's source belongs to — the local
+ * counterpart of venueFilter: any ISSN in the preset, or a conference name
+ * found as whole words in the source's display name. A source name of three
+ * words or more also matches the one conference name that contains it; when
+ * several do (e.g. "Conference on Computer Vision"), it matches none.
+ */
+export function presetsForSource(source: { issn?: string[] | null; issn_l?: string | null; display_name?: string | null } | null | undefined): string[] {
+  if (!source) return [];
+  const issns = new Set([...(source.issn || []), ...(source.issn_l ? [source.issn_l] : [])]);
+  const name = source.display_name ? normalizeVenueName(source.display_name) : '';
+  const conferences = new Set(Object.values(VENUE_PRESETS).flatMap(preset => (preset.source_names || []).map(normalizeVenueName)));
+  const containing = name.split(' ').length >= 3 ? Array.from(conferences).filter(venue => containsWords(venue, name)) : [];
+  return Object.entries(VENUE_PRESETS)
+    .filter(([, preset]) =>
+      preset.issns?.some(issn => issns.has(issn)) ||
+      (name && preset.source_names?.some(venue => {
+        const normalized = normalizeVenueName(venue);
+        return containsWords(name, normalized) || (containing.length === 1 && containing[0] === normalized);
+      })))
+    .map(([key]) => key);
+}
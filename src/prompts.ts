@@ -0,0 +1,180 @@
+// MCP prompts — guided multi-step workflows that chain the server's tools.
+// Each template declares its arguments (validated with Zod, since prompt
+// arguments always arrive as strings) and renders a single user message that
+// tells the model which tools to call, in what order, and what to report.
+
+import { z } from 'zod';
+import { ErrorCode, GetPromptResult, McpError, Prompt } from '@modelcontextprotocol/sdk/types.js';
+import { VENUE_PRESETS } from './presets.js';
+
+interface PromptTemplate {
+  prompt: Prompt;
+  schema: z.ZodTypeAny;
+  render(args: any): string;
+}
+
+const year = z.string().regex(/^\d{4}$/, 'must be a four-digit year');
+const count = z.string().regex(/^\d+$/, 'must be a whole number');
+const journalList = z.string().refine(key => key in VENUE_PRESETS, {
+  message: `must be a venue preset key (${Object.keys(VENUE_PRESETS).join(', ')})`,
+});
+
+function lines(...parts: (string | false | undefined)[]): string {
+  return parts.filter((p): p is string => typeof p === 'string').join('\n');
+}
+
+const TEMPLATES: PromptTemplate[] = [
+  {
+    prompt: {
+      name: 'landscape_field',
+      title: 'Landscape a research field',
+      description: 'Map a field: leading venues, publication trend, seminal and review papers, key researchers and emerging topics.',
+      arguments: [
+        { name: 'field', description: 'Field or topic, e.g. "supply chain resilience"', required: true },
+        { name: 'from_year', description: 'Start year for the trend analysis (default: 10 years ago)' },
+        { name: 'journal_list', description: 'Optional venue preset key (e.g. utd24, ft50) to restrict paper searches' },
+      ],
+    },
+    schema: z.object({ field: z.string().min(1), from_year: year.optional(), journal_list: journalList.optional() }),
+    render: ({ field, from_year, journal_list }) => lines(
+      `Produce a research landscape of "${field}" using the OpenAlex tools.`,
+      '',
+      `1. get_top_venues_for_field(query="${field}") — the journals and conferences where this work appears.`,
+      `2. analyze_topic_trends(query="${field}"${from_year ? `, from_year=${from_year}` : ''}) — publications per year; describe growth or decline.`,
+      `3. find_seminal_papers(query="${field}") — the foundational, must-cite works.`,
+      `4. find_review_articles(query="${field}") — recent reviews that summarise the state of the art.`,
+      journal_list && `5. search_in_journal_list(query="${field}", journal_list="${journal_list}") — the most-cited work in ${VENUE_PRESETS[journal_list].name} venues.`,
+      `${journal_list ? 6 : 5}. search_authors_by_expertise(topic="${field}") — the leading researchers.`,
+      '',
+      'Report: a short overview of the field, a table of the top venues, the trend, 5–10 seminal papers and 3–5 reviews (title, year, citations, DOI), the key researchers, and open questions or emerging directions suggested by recent work. Cite only works returned by the tools.',
+    ),
+  },
+  {
+    prompt: {
+      name: 'vet_venue',
+      title: 'Vet a journal or conference',
+      description: 'Assess whether a venue is reputable: impact metrics, standing among its field\'s top venues, and what it publishes.',
+      arguments: [
+        { name: 'venue', description: 'Journal or conference name, or an ISSN', required: true },
+      ],
+    },
+    schema: z.object({ venue: z.string().min(1) }),
+    render: ({ venue }) => {
+      const isIssn = /^\d{4}-\d{3}[\dXx]$/.test(venue);
+      return lines(
+        `Assess the quality of the venue "${venue}".`,
+        '',
+        `1. check_venue_quality(${isIssn ? `venue_issn="${venue}"` : `venue_name="${venue}"`}) — h-index, 2-year mean citedness, DOAJ/indexing status, works count.`,
+        '2. Identify the venue\'s main field from its topics, then get_top_venues_for_field(query=<that field>) and note where this venue ranks.',
+        '3. list_journal_presets(category="venues") and check whether it belongs to any curated list (UTD24, FT50, AJG 4*, top AI conferences, …).',
+        `4. search_works_in_venue(${isIssn ? `venue_issn="${venue}"` : `venue_name="${venue}"`}, sort="cited_by_count:desc", per_page=5) — its most-cited papers.`,
+        '',
+        'Report: the key metrics, its rank within the field, preset memberships, representative papers, any warning signs (very low citedness, no indexing, unusually high output), and a one-line verdict: top-tier, solid, niche, or caution.',
+      );
+    },
+  },
+  {
+    prompt: {
+      name: 'profile_expert',
+      title: 'Profile a researcher',
+      description: 'Disambiguate a researcher by name, then summarise their impact, main topics, key works and collaborators.',
+      arguments: [
+        { name: 'name', description: 'Researcher name, or an OpenAlex author ID / ORCID', required: true },
+        { name: 'affiliation', description: 'Institution to disambiguate common names' },
+      ],
+    },
+    schema: z.object({ name: z.string().min(1), affiliation: z.string().optional() }),
+    render: ({ name, affiliation }) => {
+      const isId = /^(A\d+|\d{4}-\d{4}-\d{4}-\d{3}[\dX]|https?:\/\/)/i.test(name);
+      return lines(
+        `Build a research profile of ${name}${affiliation ? ` (${affiliation})` : ''}.`,
+        '',
+        isId
+          ? `1. Use "${name}" directly as the author_id.`
+          : `1. search_authors(query="${name}"${affiliation ? `, institution="${affiliation}"` : ''}) — names are ambiguous; pick the matching author by affiliation and topics and use their OpenAlex ID from here on. If several candidates remain plausible, list them and ask before continuing.`,
+        '2. get_author_profile(author_id=<id>) — h-index, i10-index, citations, top-cited and recent works, main topics.',
+        '3. get_author_collaborators(author_id=<id>, min_collaborations=2) — frequent co-authors.',
+        '',
+        'Report: affiliation and career stage, impact metrics, 3–5 research themes, the most influential and the most recent works (title, year, citations), and the core collaborators.',
+      );
+    },
+  },
+  {
+    prompt: {
+      name: 'find_foundational_literature',
+      title: 'Find seminal and review papers',
+      description: 'Collect the must-cite foundational papers and the best recent reviews on a topic, optionally exported for a reference manager.',
+      arguments: [
+        { name: 'topic', description: 'Research topic or question', required: true },
+        { name: 'min_citations', description: 'Citation threshold for seminal papers (default: the tool\'s own)' },
+        { name: 'export_format', description: 'Also export the selection as bibtex, ris or csl-json' },
+      ],
+    },
+    schema: z.object({
+      topic: z.string().min(1),
+      min_citations: count.optional(),
+      export_format: z.enum(['bibtex', 'ris', 'csl-json']).optional(),
+    }),
+    render: ({ topic, min_citations, export_format }) => lines(
+      `Find the foundational literature on "${topic}".`,
+      '',
+      `1. find_seminal_papers(query="${topic}"${min_citations ? `, min_citations=${min_citations}` : ''}) — highly cited works more than five years old.`,
+      `2. find_review_articles(query="${topic}") — review articles, systematic reviews and meta-analyses.`,
+      '3. For the two or three most-cited seminal papers, get_citation_network(id=<work id>, max_citing=10) to see how the line of work continued.',
+      export_format && `4. export_citations(ids=<the selected work IDs>, format="${export_format}").`,
+      '',
+      'Report two tables — seminal papers and reviews — with title, authors, year, citations and DOI, plus one sentence per paper on why it matters. Flag any paper that appears in both lists.',
+    ),
+  },
+  {
+    prompt: {
+      name: 'snowball_review',
+      title: 'Snowball from seed papers',
+      description: 'Systematic-review style backward/forward snowballing from a few seed papers, screened for relevance.',
+      arguments: [
+        { name: 'seed_ids', description: 'Comma-separated OpenAlex IDs or DOIs of the seed papers', required: true },
+        { name: 'research_question', description: 'Inclusion criterion used to screen the candidates', required: true },
+        { name: 'depth', description: 'Snowballing depth, 1–3 (default: 1)' },
+      ],
+    },
+    schema: z.object({
+      seed_ids: z.string().min(1),
+      research_question: z.string().min(1),
+      depth: z.enum(['1', '2', '3']).optional(),
+    }),
+    render: ({ seed_ids, research_question, depth }) => {
+      const seeds = seed_ids.split(',').map((s: string) => s.trim()).filter(Boolean);
+      return lines(
+        `Run citation snowballing for the research question: "${research_question}".`,
+        '',
+        `1. snowball(seed_ids=${JSON.stringify(seeds)}, direction="both", depth=${depth || 1}).`,
+        '2. Screen each returned work against the research question using its title (fetch abstracts with batch_resolve_references for borderline cases). Mark it include, exclude or maybe, with a short reason.',
+        '3. export_citations(ids=<included work IDs>, format="bibtex").',
+        '',
+        'Report the per-level counts from the snowball result, a table of included works (title, year, citations, level, direction, via), the number excluded, and the BibTeX export.',
+      );
+    },
+  },
+];
+
+export const prompts: Prompt[] = TEMPLATES.map(t => t.prompt);
+
+/**
+ * Render a prompt by name. Unknown prompts and invalid arguments are reported
+ * as InvalidParams so the client sees a protocol error rather than a bad prompt.
+ */
+export function getPrompt(name: string, args: Record<string, string> = {}): GetPromptResult {
+  const template = TEMPLATES.find(t => t.prompt.name === name);
+  if (!template) {
+    throw new McpError(ErrorCode.InvalidParams, `Unknown prompt: ${name}`);
+  }
+  const parsed = template.schema.safeParse(args);
+  if (!parsed.success) {
+    const errorMessages = parsed.error.errors.map(e => `${e.path.join('.')}: ${e.message}`).join(', ');
+    throw new McpError(ErrorCode.InvalidParams, `Invalid arguments for prompt ${name}: ${errorMessages}`);
+  }
+  return {
+    description: template.prompt.description,
+    messages: [{ role: 'user', content: { type: 'text', text: template.render(parsed.data) } }],
+  };
+}
@@ -0,0 +1,288 @@
+// Boolean query builder — parses search strings such as
+//   ("large language model" OR LLM) AND title:(education NOT medical)
+// into OpenAlex's `search` parameter plus field-scoped `*.search` filters.
+//
+// Syntax: AND, OR, NOT (upper case; lower case words are search terms), quoted
+// phrases (straight or curly quotes), parentheses, and `field:` prefixes that
+// scope the next term, phrase or group (title, abstract, title_and_abstract,
+// fulltext for works; display_name for other entities). Adjacent words are kept
+// together as one free-text term, as OpenAlex expects.
+//
+// OpenAlex ANDs every filter with the search, so a field-scoped clause must be a
+// top-level AND conjunct — `title:x OR abstract:x` cannot be expressed and is
+// rejected rather than silently changed. Nesting errors, dangling operators and
+// NOTs with nothing to exclude from are reported with their position.
+
+export type QueryEntity = 'works' | 'authors' | 'sources' | 'institutions';
+
+export const QUERY_FIELDS: Record<QueryEntity, Record<string, string>> = {
+  works: {
+    title: 'title.search',
+    abstract: 'abstract.search',
+    title_and_abstract: 'title_and_abstract.search',
+    fulltext: 'fulltext.search',
+  },
+  authors: { display_name: 'display_name.search' },
+  sources: { display_name: 'display_name.search' },
+  institutions: { display_name: 'display_name.search' },
+};
+
+export type QueryNode =
+  | { type: 'term'; text: string; phrase: boolean }
+  | { type: 'and' | 'or'; children: QueryNode[] }
+  | { type: 'not'; child: QueryNode }
+  | { type: 'field'; field: string; child: QueryNode };
+
+export interface CompiledQuery {
+  /** Value for the `search` parameter, if anything is left unscoped. */
+  search?: string;
+  /** Field-scoped clauses, keyed by OpenAlex filter key (e.g. title.search). */
+  filter: Record<string, string>;
+}
+
+type Token =
+  | { kind: 'and' | 'or' | 'not' | 'open' | 'close'; pos: number }
+  | { kind: 'word' | 'phrase'; text: string; pos: number }
+  | { kind: 'field'; field: string; pos: number };
+
+const OPEN_QUOTES = '"“”';
+const OPERATORS: Record<string, 'and' | 'or' | 'not'> = { AND: 'and', OR: 'or', NOT: 'not' };
+
+function isField(fields: Record<string, string>, name: string): boolean {
+  return Object.prototype.hasOwnProperty.call(fields, name);
+}
+
+function queryError(message: string, pos?: number): Error {
+  return new Error(`Invalid search query: ${message}${pos !== undefined ? ` (at position ${pos + 1})` : ''}`);
+}
+
+function tokenize(input: string, entityType: QueryEntity): Token[] {
+  const fields = QUERY_FIELDS[entityType];
+  const tokens: Token[] = [];
+  let i = 0;
+
+  while (i < input.length) {
+    const ch = input[i];
+    if (/\s/.test(ch)) {
+      i++;
+    } else if (ch === '(' || ch === ')') {
+      tokens.push({ kind: ch === '(' ? 'open' : 'close', pos: i });
+      i++;
+    } else if (OPEN_QUOTES.includes(ch)) {
+      const end = Array.from(OPEN_QUOTES).map(q => input.indexOf(q, i + 1)).filter(n => n !== -1);
+      if (end.length === 0) throw queryError('unterminated quote', i);
+      const close = Math.min(...end);
+      const text = input.slice(i + 1, close).trim();
+      if (!text) throw queryError('empty phrase', i);
+      tokens.push({ kind: 'phrase', text, pos: i });
+      i = close + 1;
+    } else {
+      let j = i;
+      while (j < input.length && !/\s/.test(input[j]) && !'()'.includes(input[j]) && !OPEN_QUOTES.includes(input[j])) j++;
+      const word = input.slice(i, j);
+      const prefix = word.match(/^([A-Za-z_]+):/);
+      if (prefix && isField(fields, prefix[1].toLowerCase())) {
+        tokens.push({ kind: 'field', field: prefix[1].toLowerCase(), pos: i });
+        // `title:word` — the scoped word follows in the same chunk
+        const rest = word.slice(prefix[0].length);
+        if (rest) tokens.push(OPERATORS[rest] ? { kind: OPERATORS[rest], pos: i + prefix[0].length } : { kind: 'word', text: rest, pos: i + prefix[0].length });
+      } else if (prefix && Object.values(QUERY_FIELDS).some(f => isField(f, prefix[1].toLowerCase()))) {
+        const available = Object.keys(fields).join(', ');
+        throw queryError(`field "${prefix[1]}" is not searchable for ${entityType} (use ${available})`, i);
+      } else {
+        tokens.push(OPERATORS[word] ? { kind: OPERATORS[word], pos: i } : { kind: 'word', text: word, pos: i });
+      }
+      i = j;
+    }
+  }
+  return tokens;
+}
+
+class Parser {
+  private index = 0;
+
+  constructor(private tokens: Token[], private input: string) {}
+
+  parse(): QueryNode {
+    if (this.tokens.length === 0) throw queryError('the query is empty');
+    const node = this.parseOr();
+    const extra = this.peek();
+    if (extra) {
+      throw queryError(extra.kind === 'close' ? 'unmatched ")"' : 'unexpected input', extra.pos);
+    }
+    return node;
+  }
+
+  private peek(): Token | undefined {
+    return this.tokens[this.index];
+  }
+
+  private next(): Token | undefined {
+    return this.tokens[this.index++];
+  }
+
+  private startsOperand(token: Token | undefined): boolean {
+    return !!token && ['word', 'phrase', 'field', 'open'].includes(token.kind);
+  }
+
+  private parseOr(): QueryNode {
+    const children = [this.parseAnd()];
+    while (this.peek()?.kind === 'or') {
+      this.next();
+      children.push(this.parseAnd());
+    }
+    return children.length === 1 ? children[0] : { type: 'or', children: children.flatMap(c => (c.type === 'or' ? c.children : [c])) };
+  }
+
+  private parseAnd(): QueryNode {
+    const children = [this.parseUnary()];
+    for (;;) {
+      const token = this.peek();
+      if (token?.kind === 'and') {
+        this.next();
+        children.push(this.parseUnary());
+      } else if (token?.kind === 'not') {
+        // Binary NOT: `a NOT b` means a AND NOT b
+        this.next();
+        children.push({ type: 'not', child: this.parseUnary() });
+      } else if (this.startsOperand(token)) {
+        const operand = this.parseUnary();
+        const last = children[children.length - 1];
+        // Adjacent bare words stay one free-text term ("large language model")
+        if (last.type === 'term' && !last.phrase && operand.type === 'term' && !operand.phrase && token!.kind === 'word') {
+          children[children.length - 1] = { ...last, text: `${last.text} ${operand.text}` };
+        } else {
+          children.push(operand);
+        }
+      } else {
+        break;
+      }
+    }
+    return children.length === 1 ? children[0] : { type: 'and', children: children.flatMap(c => (c.type === 'and' ? c.children : [c])) };
+  }
+
+  private parseUnary(): QueryNode {
+    if (this.peek()?.kind === 'not') {
+      this.next();
+      return { type: 'not', child: this.parseUnary() };
+    }
+    return this.parsePrimary();
+  }
+
+  private parsePrimary(): QueryNode {
+    const token = this.next();
+    if (!token) {
+      throw queryError(`the query ends with a dangling operator or field`, this.input.length - 1);
+    }
+    switch (token.kind) {
+      case 'word':
+        return { type: 'term', text: token.text, phrase: false };
+      case 'phrase':
+        return { type: 'term', text: token.text, phrase: true };
+      case 'open': {
+        if (this.peek()?.kind === 'close') throw queryError('empty parentheses', token.pos);
+        const inner = this.parseOr();
+        if (this.next()?.kind !== 'close') throw queryError('unclosed "("', token.pos);
+        return inner;
+      }
+      case 'field': {
+        const child = this.parsePrimary();
+        if (containsField(child)) throw queryError(`field scopes cannot be nested inside ${token.field}:`, token.pos);
+        return { type: 'field', field: token.field, child };
+      }
+      case 'close':
+        throw queryError('unexpected ")"', token.pos);
+      default:
+        throw queryError(`expected a search term before ${token.kind.toUpperCase()}`, token.pos);
+    }
+  }
+}
+
+function containsField(node: QueryNode): boolean {
+  switch (node.type) {
+    case 'field': return true;
+    case 'not': return containsField(node.child);
+    case 'and':
+    case 'or': return node.children.some(containsField);
+    default: return false;
+  }
+}
+
+/** Parse a boolean search string into a syntax tree (throws on malformed input). */
+export function parseSearchQuery(input: string, entityType: QueryEntity = 'works'): QueryNode {
+  return new Parser(tokenize(input, entityType), input).parse();
+}
+
+function render(node: QueryNode): string {
+  switch (node.type) {
+    case 'term':
+      return node.phrase ? `"${node.text.replace(/"/g, '')}"` : node.text;
+    case 'or': {
+      if (node.children.some(c => c.type === 'not')) {
+        throw queryError('NOT cannot be an alternative in an OR group; write (a OR b) NOT c instead');
+      }
+      return node.children.map(c => (c.type === 'and' ? `(${render(c)})` : render(c))).join(' OR ');
+    }
+    case 'and': {
+      const positive = node.children.filter(c => c.type !== 'not');
+      const negative = node.children.filter((c): c is Extract<QueryNode, { type: 'not' }> => c.type === 'not');
+      if (positive.length === 0) {
+        throw queryError('NOT needs a term to exclude from, e.g. education NOT medical');
+      }
+      const wrap = (c: QueryNode) => (c.type === 'and' || c.type === 'or' ? `(${render(c)})` : render(c));
+      return [positive.map(wrap).join(' AND '), ...negative.map(n => `NOT ${wrap(n.child)}`)].join(' ');
+    }
+    case 'not':
+      return render({ type: 'and', children: [node] });
+    case 'field':
+      throw queryError(`${node.field}: scopes must be joined to the rest of the query with AND, because OpenAlex ANDs field searches with the main search`);
+  }
+}
+
+/**
+ * Compile a boolean search string to OpenAlex parameters. Top-level conjuncts
+ * scoped with `field:` become `<field>.search` filters; everything else goes to
+ * `search`, or to `defaultField`'s filter when one is given (the search_field
+ * tool parameter).
+ */
+export function compileSearchQuery(
+  input: string,
+  entityType: QueryEntity = 'works',
+  defaultField?: string,
+): CompiledQuery {
+  const fields = QUERY_FIELDS[entityType];
+  const root = parseSearchQuery(input, entityType);
+  const conjuncts = root.type === 'and' ? root.children : [root];
+
+  const unscoped: QueryNode[] = [];
+  const scoped = new Map<string, QueryNode[]>();
+  const addScoped = (field: string, node: QueryNode) => scoped.set(field, [...(scoped.get(field) || []), node]);
+
+  for (const clause of conjuncts) {
+    if (clause.type === 'field') {
+      addScoped(clause.field, clause.child);
+    } else if (clause.type === 'not' && clause.child.type === 'field') {
+      addScoped(clause.child.field, { type: 'not', child: clause.child.child });
+    } else if (containsField(clause)) {
+      throw queryError('field-scoped clauses must be joined to the rest of the query with AND, because OpenAlex ANDs field searches with the main search');
+    } else if (defaultField && isField(fields, defaultField)) {
+      addScoped(defaultField, clause);
+    } else {
+      unscoped.push(clause);
+    }
+  }
+
+  const compiled: CompiledQuery = { filter: {} };
+  if (unscoped.length > 0) {
+    compiled.search = render(unscoped.length === 1 ? unscoped[0] : { type: 'and', children: unscoped });
+  }
+  for (const [field, nodes] of scoped) {
+    const value = render(nodes.length === 1 ? nodes[0] : { type: 'and', children: nodes });
+    // Filters are comma-separated in the request, so a comma would split this one
+    if (value.includes(',')) {
+      throw queryError(`${field}: clauses cannot contain commas`);
+    }
+    compiled.filter[fields[field]] = value;
+  }
+  return compiled;
+}
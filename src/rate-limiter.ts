@@ -0,0 +1,242 @@
+// Client-side rate limiting for OpenAlex — a concurrency cap, a token bucket for
+// the per-second limit and a daily request budget. Waiting callers are served
+// in order; an exhausted daily budget fails fast rather than blocking for hours.
+// The daily count can be persisted to a JSON file so restarts don't reset it.
+
+import { promises as fs } from 'node:fs';
+import * as path from 'node:path';
+import { debug } from './config.js';
+
+export interface RateLimiterOptions {
+  requestsPerSecond: number;
+  requestsPerDay: number;
+  maxConcurrent: number;
+  /** JSON file holding today's request count; omit to keep it in memory only. */
+  stateFile?: string;
+}
+
+export interface RateLimiterStats {
+  requests_per_second: number;
+  max_concurrent: number;
+  in_flight: number;
+  queued: number;
+  daily_limit: number;
+  requests_today: number;
+  remaining_today: number;
+  persisted: boolean;
+  total_requests: number;
+  /** Requests that had to wait for a slot or token. */
+  throttled_requests: number;
+  total_wait_ms: number;
+  max_wait_ms: number;
+  avg_wait_ms: number;
+}
+
+interface PersistedState {
+  date: string;
+  count: number;
+}
+
+// How long to coalesce daily-count writes
+const SAVE_DELAY_MS = 1000;
+
+function utcDay(time = Date.now()): string {
+  return new Date(time).toISOString().slice(0, 10);
+}
+
+export class RateLimiter {
+  private tokens: number;
+  private lastRefill = Date.now();
+  private inFlight = 0;
+  private waiting = 0;
+  private slotQueue: (() => void)[] = [];
+  private day = utcDay();
+  private dayCount = 0;
+  private loaded: Promise<void> | null = null;
+  private saveTimer: NodeJS.Timeout | null = null;
+  private totalRequests = 0;
+  private throttled = 0;
+  private totalWaitMs = 0;
+  private maxWaitMs = 0;
+
+  constructor(private options: RateLimiterOptions) {
+    this.tokens = options.requestsPerSecond;
+  }
+
+  /**
+   * Run `fn` once a concurrency slot, a per-second token and daily budget are
+   * available. Throws (with `isRateLimitExhausted`) when today's budget is spent.
+   */
+  async schedule<T>(fn: () => Promise<T>): Promise<T> {
+    const started = Date.now();
+    await this.acquire();
+    const waited = Date.now() - started;
+    this.totalRequests++;
+    if (waited > 0) {
+      this.throttled++;
+      this.totalWaitMs += waited;
+      this.maxWaitMs = Math.max(this.maxWaitMs, waited);
+      debug(`Rate limiter: request waited ${waited}ms`);
+    }
+    try {
+      return await fn();
+    } finally {
+      this.releaseSlot();
+    }
+  }
+
+  /**
+   * Run a retry of a request that already holds a concurrency slot (the 429
+   * interceptor retries inside the original schedule call). The retry is
+   * charged a per-second token and the daily budget, but takes no new slot.
+   */
+  async scheduleRetry<T>(fn: () => Promise<T>): Promise<T> {
+    await this.load();
+    await this.charge();
+    this.totalRequests++;
+    return fn();
+  }
+
+  stats(): RateLimiterStats {
+    this.rollDay();
+    return {
+      requests_per_second: this.options.requestsPerSecond,
+      max_concurrent: this.options.maxConcurrent,
+      in_flight: this.inFlight,
+      queued: this.waiting,
+      daily_limit: this.options.requestsPerDay,
+      requests_today: this.dayCount,
+      remaining_today: Math.max(0, this.options.requestsPerDay - this.dayCount),
+      persisted: !!this.options.stateFile,
+      total_requests: this.totalRequests,
+      throttled_requests: this.throttled,
+      total_wait_ms: this.totalWaitMs,
+      max_wait_ms: this.maxWaitMs,
+      avg_wait_ms: this.totalRequests > 0 ? Math.round(this.totalWaitMs / this.totalRequests) : 0,
+    };
+  }
+
+  /**
+   * Write a pending daily count now. The save timer is deliberately not unref'd,
+   * so a stdio server that exits naturally still persists it; call this before
+   * process.exit().
+   */
+  async flush(): Promise<void> {
+    if (this.saveTimer) {
+      clearTimeout(this.saveTimer);
+      this.saveTimer = null;
+      await this.save();
+    }
+  }
+
+  private async acquire(): Promise<void> {
+    this.waiting++;
+    try {
+      await this.load();
+      await this.acquireSlot();
+      try {
+        await this.charge();
+      } catch (error) {
+        this.releaseSlot();
+        throw error;
+      }
+    } finally {
+      this.waiting--;
+    }
+  }
+
+  /** Take a per-second token and count the request against today's budget. */
+  private async charge(): Promise<void> {
+    this.rollDay();
+    if (this.dayCount >= this.options.requestsPerDay) {
+      const err = new Error(
+        `Daily OpenAlex request budget of ${this.options.requestsPerDay} exhausted; it resets at 00:00 UTC.`
+      );
+      (err as any).isRateLimitExhausted = true;
+      throw err;
+    }
+    await this.acquireToken();
+    this.dayCount++;
+    this.scheduleSave();
+  }
+
+  private acquireSlot(): Promise<void> {
+    if (this.inFlight < this.options.maxConcurrent && this.slotQueue.length === 0) {
+      this.inFlight++;
+      return Promise.resolve();
+    }
+    // releaseSlot hands the slot over directly, so inFlight is unchanged
+    return new Promise(resolve => this.slotQueue.push(resolve));
+  }
+
+  private releaseSlot(): void {
+    const next = this.slotQueue.shift();
+    if (next) {
+      next();
+    } else {
+      this.inFlight--;
+    }
+  }
+
+  private async acquireToken(): Promise<void> {
+    const rate = this.options.requestsPerSecond;
+    for (;;) {
+      const now = Date.now();
+      this.tokens = Math.min(rate, this.tokens + ((now - this.lastRefill) / 1000) * rate);
+      this.lastRefill = now;
+      if (this.tokens >= 1) {
+        this.tokens -= 1;
+        return;
+      }
+      await new Promise(resolve => setTimeout(resolve, Math.ceil(((1 - this.tokens) / rate) * 1000)));
+    }
+  }
+
+  private rollDay(): void {
+    const today = utcDay();
+    if (today !== this.day) {
+      this.day = today;
+      this.dayCount = 0;
+    }
+  }
+
+  private load(): Promise<void> {
+    if (!this.loaded) {
+      this.loaded = this.readState();
+    }
+    return this.loaded;
+  }
+
+  private async readState(): Promise<void> {
+    if (!this.options.stateFile) return;
+    try {
+      const state = JSON.parse(await fs.readFile(this.options.stateFile, 'utf8')) as PersistedState;
+      if (state.date === utcDay() && Number.isFinite(state.count)) {
+        this.dayCount = Math.max(this.dayCount, state.count);
+      }
+    } catch (err: any) {
+      if (err?.code !== 'ENOENT') debug('Rate limiter state unreadable:', err?.message);
+    }
+  }
+
+  private scheduleSave(): void {
+    if (!this.options.stateFile || this.saveTimer) return;
+    this.saveTimer = setTimeout(() => {
+      this.saveTimer = null;
+      this.save().catch(() => undefined);
+    }, SAVE_DELAY_MS);
+  }
+
+  private async save(): Promise<void> {
+    const file = this.options.stateFile!;
+    const state: PersistedState = { date: this.day, count: this.dayCount };
+    try {
+      await fs.mkdir(path.dirname(file), { recursive: true });
+      const tmp = `${file}.${process.pid}.tmp`;
+      await fs.writeFile(tmp, JSON.stringify(state));
+      await fs.rename(tmp, file);
+    } catch (err: any) {
+      debug('Rate limiter state not saved:', err?.message);
+    }
+  }
+}
@@ -0,0 +1,153 @@
+// MCP resources — static preset data and OpenAlex entities addressable by URI,
+// so clients can attach a paper, author or journal list as context without a
+// tool call. Presets are listed; entities are reachable via resource templates:
+//
+//   openalex://presets/venues                 all venue presets (summaries)
+//   openalex://presets/venues/{key}           one venue preset with its ISSNs / names
+//   openalex://presets/institutions           all institution groups
+//   openalex://presets/institutions/{key}     one institution group
+//   openalex://{entity_type}/{id}             works, authors, sources, institutions, …
+
+import {
+  ErrorCode,
+  McpError,
+  ReadResourceResult,
+  Resource,
+  ResourceTemplate,
+} from '@modelcontextprotocol/sdk/types.js';
+import { OpenAlexClient } from './openalex-client.js';
+import { VENUE_PRESETS, INSTITUTION_GROUPS, summarizeVenuePreset } from './presets.js';
+import { summarizeAuthor, summarizeSource, summarizeInstitution, getFullWorkDetails } from './formatters.js';
+
+const SCHEME = 'openalex://';
+const JSON_MIME = 'application/json';
+
+const ENTITY_TYPES = ['works', 'authors', 'sources', 'institutions', 'topics', 'publishers', 'funders'];
+
+/** Entity types with a compact formatter; the rest are returned as-is. */
+const ENTITY_FORMATTERS: Record<string, (entity: any) => any> = {
+  works: getFullWorkDetails,
+  authors: summarizeAuthor,
+  sources: summarizeSource,
+  institutions: summarizeInstitution,
+};
+
+const ENTITY_EXAMPLES: Record<string, string> = {
+  works: 'W2741809807 or a DOI',
+  authors: 'A5023888391 or an ORCID',
+  sources: 'S137773608 or an ISSN',
+  institutions: 'I27837315 or a ROR ID',
+  topics: 'T10017',
+  publishers: 'P4310319965',
+  funders: 'F4320332161',
+};
+
+export const resourceTemplates: ResourceTemplate[] = [
+  ...ENTITY_TYPES.map(type => ({
+    uriTemplate: `${SCHEME}${type}/{id}`,
+    name: `OpenAlex ${type.slice(0, -1)}`,
+    description: `A single OpenAlex ${type.slice(0, -1)} by ID (${ENTITY_EXAMPLES[type]}).`,
+    mimeType: JSON_MIME,
+  })),
+  {
+    uriTemplate: `${SCHEME}presets/venues/{key}`,
+    name: 'Venue preset',
+    description: 'A curated journal/conference list (e.g. utd24, ft50) with the ISSNs or venue names it filters on.',
+    mimeType: JSON_MIME,
+  },
+  {
+    uriTemplate: `${SCHEME}presets/institutions/{key}`,
+    name: 'Institution group',
+    description: 'A named group of institutions usable as institution_group (e.g. harvard_stanford_mit).',
+    mimeType: JSON_MIME,
+  },
+];
+
+/**
+ * Concrete resources: the preset indexes and every individual preset.
+ */
+export function listResources(): Resource[] {
+  return [
+    {
+      uri: `${SCHEME}presets/venues`,
+      name: 'Venue presets',
+      description: 'All curated journal and conference lists (UTD24, FT50, top AI conferences, …).',
+      mimeType: JSON_MIME,
+    },
+    ...Object.entries(VENUE_PRESETS).map(([key, preset]) => ({
+      uri: `${SCHEME}presets/venues/${key}`,
+      name: preset.name,
+      description: preset.description,
+      mimeType: JSON_MIME,
+    })),
+    {
+      uri: `${SCHEME}presets/institutions`,
+      name: 'Institution groups',
+      description: 'All named institution groups usable as institution_group.',
+      mimeType: JSON_MIME,
+    },
+    ...Object.entries(INSTITUTION_GROUPS).map(([key, group]) => ({
+      uri: `${SCHEME}presets/institutions/${key}`,
+      name: group.name,
+      description: group.description,
+      mimeType: JSON_MIME,
+    })),
+  ];
+}
+
+function jsonResource(uri: string, data: unknown): ReadResourceResult {
+  return { contents: [{ uri, mimeType: JSON_MIME, text: JSON.stringify(data, null, 2) }] };
+}
+
+function notFound(uri: string): McpError {
+  return new McpError(ErrorCode.InvalidParams, `Resource not found: ${uri}`);
+}
+
+function readPreset(uri: string, path: string[]): ReadResourceResult {
+  const [category, key, ...rest] = path;
+  if (rest.length > 0) throw notFound(uri);
+
+  if (category === 'venues') {
+    if (key === undefined) {
+      return jsonResource(uri, Object.entries(VENUE_PRESETS).map(([k, p]) => summarizeVenuePreset(k, p)));
+    }
+    const preset = VENUE_PRESETS[key];
+    if (!preset) throw notFound(uri);
+    return jsonResource(uri, { key, ...preset });
+  }
+
+  if (category === 'institutions') {
+    if (key === undefined) {
+      return jsonResource(uri, Object.entries(INSTITUTION_GROUPS).map(([k, g]) => ({ key: k, ...g })));
+    }
+    const group = INSTITUTION_GROUPS[key];
+    if (!group) throw notFound(uri);
+    return jsonResource(uri, { key, ...group });
+  }
+
+  throw notFound(uri);
+}
+
+/**
+ * Resolve an `openalex://` URI. Entity IDs may be percent-encoded (DOIs, URLs)
+ * and go through the client's normal ID handling and cache.
+ */
+export async function readResource(client: OpenAlexClient, uri: string): Promise<ReadResourceResult> {
+  if (!uri.startsWith(SCHEME)) throw notFound(uri);
+  const rest = uri.slice(SCHEME.length);
+  const slash = rest.indexOf('/');
+  const head = slash === -1 ? rest : rest.slice(0, slash);
+  const tail = slash === -1 ? '' : rest.slice(slash + 1);
+
+  if (head === 'presets') {
+    return readPreset(uri, tail ? tail.split('/') : []);
+  }
+
+  if (ENTITY_TYPES.includes(head) && tail) {
+    const entity = await client.getEntity(head, decodeURIComponent(tail));
+    const format = ENTITY_FORMATTERS[head];
+    return jsonResource(uri, format ? format(entity) : entity);
+  }
+
+  throw notFound(uri);
+}
@@ -0,0 +1,192 @@
+// Saved searches for monitoring a field — a named search_works or
+// search_in_journal_list query stored in saved-searches.json (see store.ts),
+// re-run on demand. Each run returns only the works not seen in earlier runs:
+// with an API key the query is narrowed with from_created_date (works added to
+// OpenAlex since the previous run), and every run is diffed against the IDs
+// already seen. Runs are appended to a persisted history.
+
+import * as path from 'node:path';
+import { OpenAlexClient, SearchOptions } from './openalex-client.js';
+import { CONFIG, debug } from './config.js';
+import { JsonFileStore, dataDirectory } from './store.js';
+
+export type SavedSearchTool = 'search_works' | 'search_in_journal_list';
+
+export const SAVED_SEARCH_TOOLS: SavedSearchTool[] = ['search_works', 'search_in_journal_list'];
+
+// Paging and output options are chosen per run, not saved with the query
+const RUN_ONLY_PARAMS = ['page', 'per_page', 'fetch_all', 'max_results', 'format'];
+
+export interface SavedSearchRun {
+  run_at: string;
+  /** created_date: narrowed with from_created_date; ids: diffed against earlier results only. */
+  strategy: 'created_date' | 'ids';
+  /** from_created_date used for this run, if any. */
+  since: string | null;
+  total_count: number;
+  fetched: number;
+  truncated: boolean;
+  new_count: number;
+  new_ids: string[];
+}
+
+export interface SavedSearch {
+  name: string;
+  tool: SavedSearchTool;
+  params: Record<string, unknown>;
+  description: string | null;
+  created_at: string;
+  last_run_at: string | null;
+  /** Bare IDs of every work returned so far, newest last. */
+  seen_ids: string[];
+  runs: SavedSearchRun[];
+}
+
+interface SavedSearchFile {
+  searches: Record<string, SavedSearch>;
+}
+
+export interface SavedSearchRunResult {
+  search: SavedSearch;
+  run: SavedSearchRun;
+  /** Raw OpenAlex works not returned by any earlier run. */
+  newWorks: any[];
+  previousRunAt: string | null;
+}
+
+export interface RunSavedSearchOptions {
+  maxResults: number;
+  /** Narrow with from_created_date (needs an OpenAlex API key). */
+  useCreatedDate: boolean;
+}
+
+function bareId(id: string): string {
+  return String(id).split('/').pop()!;
+}
+
+function notFound(name: string): Error {
+  return new Error(`No saved search named "${name}". Call list_saved_searches to see saved searches.`);
+}
+
+export class SavedSearchStore {
+  private store: JsonFileStore<SavedSearchFile>;
+
+  constructor(file: string) {
+    this.store = new JsonFileStore<SavedSearchFile>(file, () => ({ searches: {} }));
+  }
+
+  get file(): string {
+    return this.store.file;
+  }
+
+  async list(): Promise<SavedSearch[]> {
+    const { searches } = await this.store.read();
+    return Object.values(searches).sort((a, b) => a.name.localeCompare(b.name));
+  }
+
+  async get(name: string): Promise<SavedSearch> {
+    const search = (await this.store.read()).searches[name];
+    if (!search) throw notFound(name);
+    return search;
+  }
+
+  /** Save a query; replacing an existing name requires `overwrite` and resets its history. */
+  save(input: { name: string; tool: SavedSearchTool; params: Record<string, unknown>; description?: string }, overwrite = false): Promise<SavedSearch> {
+    return this.store.update(data => {
+      if (data.searches[input.name] && !overwrite) {
+        throw new Error(`A saved search named "${input.name}" already exists. Pass overwrite: true to replace it.`);
+      }
+      const params = Object.fromEntries(Object.entries(input.params).filter(([key]) => !RUN_ONLY_PARAMS.includes(key)));
+      const search: SavedSearch = {
+        name: input.name,
+        tool: input.tool,
+        params,
+        description: input.description ?? null,
+        created_at: new Date().toISOString(),
+        last_run_at: null,
+        seen_ids: [],
+        runs: [],
+      };
+      data.searches[input.name] = search;
+      return search;
+    });
+  }
+
+  delete(name: string): Promise<SavedSearch> {
+    return this.store.update(data => {
+      const search = data.searches[name];
+      if (!search) throw notFound(name);
+      delete data.searches[name];
+      return search;
+    });
+  }
+
+  /** Append a run, remember its IDs, and return the updated search. */
+  recordRun(name: string, run: SavedSearchRun, fetchedIds: string[]): Promise<SavedSearch> {
+    return this.store.update(data => {
+      const search = data.searches[name];
+      if (!search) throw notFound(name);
+      const seen = new Set(search.seen_ids);
+      search.seen_ids.push(...fetchedIds.filter(id => !seen.has(id)));
+      search.seen_ids = search.seen_ids.slice(-CONFIG.SAVED_SEARCHES.MAX_SEEN_IDS);
+      search.runs = [...search.runs, run].slice(-CONFIG.SAVED_SEARCHES.MAX_RUN_HISTORY);
+      search.last_run_at = run.run_at;
+      return search;
+    });
+  }
+}
+
+const stores = new Map<string, SavedSearchStore>();
+
+/**
+ * The saved-search store for the current environment: OPENALEX_SAVED_SEARCHES,
+ * or saved-searches.json in the data directory.
+ */
+export function savedSearchStore(env: Record<string, string | undefined> = process.env): SavedSearchStore {
+  const file = env.OPENALEX_SAVED_SEARCHES || path.join(dataDirectory(env), 'saved-searches.json');
+  if (!stores.has(file)) stores.set(file, new SavedSearchStore(file));
+  return stores.get(file)!;
+}
+
+/**
+ * Run a saved search and return the works it has not returned before. Results
+ * are fetched newest first (publication_date:desc) with cursor paging up to
+ * maxResults, so the diff window always covers the latest works. The first run
+ * records a baseline and returns everything it fetched.
+ */
+export async function runSavedSearch(
+  client: OpenAlexClient,
+  store: SavedSearchStore,
+  name: string,
+  buildOptions: (tool: SavedSearchTool, params: Record<string, unknown>) => SearchOptions,
+  options: RunSavedSearchOptions
+): Promise<SavedSearchRunResult> {
+  const search = await store.get(name);
+  const base = buildOptions(search.tool, search.params);
+  const since = options.useCreatedDate && search.last_run_at ? search.last_run_at.slice(0, 10) : null;
+  const searchOptions: SearchOptions = {
+    ...base,
+    // Runs page at the API maximum rather than the browsing default
+    perPage: undefined,
+    filter: { ...base.filter, ...(since && { from_created_date: since }) },
+    sort: 'publication_date:desc',
+  };
+
+  const { count, results, truncated } = await client.paginateAll('works', searchOptions, options.maxResults);
+  const seen = new Set(search.seen_ids);
+  const newWorks = results.filter(work => !seen.has(bareId(work.id)));
+  debug(`run_saved_search ${name}: ${results.length} fetched, ${newWorks.length} new`);
+
+  const run: SavedSearchRun = {
+    run_at: new Date().toISOString(),
+    strategy: since ? 'created_date' : 'ids',
+    since,
+    total_count: count,
+    fetched: results.length,
+    truncated,
+    new_count: newWorks.length,
+    new_ids: newWorks.map(work => bareId(work.id)),
+  };
+  const updated = await store.recordRun(name, run, results.map(work => bareId(work.id)));
+  return { search: updated, run, newWorks, previousRunAt: search.last_run_at };
+}
@@ -0,0 +1,339 @@
+// Systematic-review screening sessions (PRISMA 2020). A session runs one or
+// more search definitions, removes duplicates — the same work found by several
+// searches, and preprint/published versions of one paper (see dedupe.ts) — and
+// stores each remaining record with an include / exclude / maybe decision and
+// reason. Sessions live in screening.json (see store.ts); records keep only the
+// metadata needed to screen and count, and are re-hydrated by ID for export.
+
+import * as path from 'node:path';
+import { OpenAlexClient, SearchOptions } from './openalex-client.js';
+import { debug } from './config.js';
+import { JsonFileStore, dataDirectory } from './store.js';
+import { clusterWorks } from './dedupe.js';
+
+export type ScreeningDecision = 'include' | 'exclude' | 'maybe';
+
+export const SCREENING_DECISIONS: ScreeningDecision[] = ['include', 'exclude', 'maybe'];
+
+export interface ScreeningSearch {
+  label: string;
+  tool: string;
+  params: Record<string, unknown>;
+  /** Matches reported by OpenAlex. */
+  total_count: number;
+  /** Records retrieved (at most the per-search limit). */
+  fetched: number;
+  truncated: boolean;
+}
+
+export interface ScreeningRecord {
+  /** Bare OpenAlex work ID (W…). */
+  id: string;
+  doi: string | null;
+  title: string | null;
+  publication_year: number | null;
+  first_author: string | null;
+  source: string | null;
+  type: string | null;
+  /** Labels of the searches that found this work (or one of its versions). */
+  found_by: string[];
+  /** Other versions of the work removed as duplicates (bare IDs). */
+  duplicates: string[];
+  decision: ScreeningDecision | null;
+  reason: string | null;
+  decided_at: string | null;
+}
+
+export interface ScreeningSession {
+  name: string;
+  description: string | null;
+  created_at: string;
+  updated_at: string;
+  searches: ScreeningSearch[];
+  duplicates: {
+    /** Retrievals of a work already found by an earlier search. */
+    same_work: number;
+    /** Preprint/published (or other) versions merged into one record. */
+    versions: number;
+  };
+  records: ScreeningRecord[];
+}
+
+interface ScreeningFile {
+  sessions: Record<string, ScreeningSession>;
+}
+
+/** A search definition ready to run: a label, the tool it mirrors, and its built options. */
+export interface ScreeningSearchInput {
+  label: string;
+  tool: string;
+  params: Record<string, unknown>;
+  options: SearchOptions;
+}
+
+export interface ScreeningDecisionInput {
+  id: string;
+  decision: ScreeningDecision;
+  reason?: string;
+}
+
+/** PRISMA 2020 flow counts for a single screening stage. */
+export interface PrismaCounts {
+  identification: {
+    searches: { label: string; records: number; total_count: number; truncated: boolean }[];
+    records_identified: number;
+    duplicates_removed: number;
+    duplicates: ScreeningSession['duplicates'];
+  };
+  screening: {
+    records_screened: number;
+    decided: number;
+    pending: number;
+    excluded: number;
+    exclusion_reasons: Record<string, number>;
+    maybe: number;
+  };
+  included: number;
+}
+
+const NO_REASON = 'no reason given';
+
+function bareId(id: string): string {
+  return String(id).split('/').pop()!.toUpperCase();
+}
+
+function notFound(name: string): Error {
+  return new Error(`No screening session named "${name}". Call screening_prisma without a name to list sessions.`);
+}
+
+function alreadyExists(name: string): Error {
+  return new Error(`A screening session named "${name}" already exists. Pass overwrite: true to replace it and its decisions.`);
+}
+
+function toRecord(work: any, foundBy: string[], duplicates: string[]): ScreeningRecord {
+  return {
+    id: bareId(work.id),
+    doi: work.doi ? String(work.doi).replace(/^https?:\/\/(dx\.)?doi\.org\//i, '') : null,
+    title: work.title || work.display_name || null,
+    publication_year: work.publication_year ?? null,
+    first_author: work.authorships?.[0]?.author?.display_name ?? null,
+    source: work.primary_location?.source?.display_name ?? null,
+    type: work.type ?? null,
+    found_by: foundBy,
+    duplicates,
+    decision: null,
+    reason: null,
+    decided_at: null,
+  };
+}
+
+/**
+ * Run the searches (cursor paging, up to maxPerSearch each) and deduplicate:
+ * first by work ID across searches, then — when dedupeVersions is set — by
+ * merging versions of the same paper, keeping the version of record.
+ */
+export async function identifyRecords(
+  client: OpenAlexClient,
+  searches: ScreeningSearchInput[],
+  maxPerSearch: number,
+  dedupeVersions = true
+): Promise<Pick<ScreeningSession, 'searches' | 'duplicates' | 'records'>> {
+  const works = new Map<string, any>();
+  const foundBy = new Map<string, string[]>();
+  const ran: ScreeningSearch[] = [];
+  let sameWork = 0;
+
+  for (const search of searches) {
+    const { count, results, truncated } = await client.paginateAll('works', search.options, maxPerSearch);
+    ran.push({ label: search.label, tool: search.tool, params: search.params, total_count: count, fetched: results.length, truncated });
+    for (const work of results) {
+      const id = bareId(work.id);
+      if (works.has(id)) {
+        sameWork++;
+        if (!foundBy.get(id)!.includes(search.label)) foundBy.get(id)!.push(search.label);
+        continue;
+      }
+      works.set(id, work);
+      foundBy.set(id, [search.label]);
+    }
+    debug(`screening search "${search.label}": ${results.length} of ${count} fetched`);
+  }
+
+  const unique = Array.from(works.values());
+  const clusters = dedupeVersions ? clusterWorks(unique) : unique.map(work => ({ canonical: work, alternates: [] }));
+  const records = clusters.map(({ canonical, alternates }) => {
+    const members = [canonical, ...alternates.map(a => a.work)].map(work => bareId(work.id));
+    const labels = searches.map(s => s.label).filter(label => members.some(id => foundBy.get(id)!.includes(label)));
+    return toRecord(canonical, labels, members.slice(1));
+  });
+
+  return {
+    searches: ran,
+    duplicates: { same_work: sameWork, versions: unique.length - records.length },
+    records,
+  };
+}
+
+export class ScreeningStore {
+  private store: JsonFileStore<ScreeningFile>;
+
+  constructor(file: string) {
+    this.store = new JsonFileStore<ScreeningFile>(file, () => ({ sessions: {} }));
+  }
+
+  get file(): string {
+    return this.store.file;
+  }
+
+  async list(): Promise<ScreeningSession[]> {
+    const { sessions } = await this.store.read();
+    return Object.values(sessions).sort((a, b) => a.name.localeCompare(b.name));
+  }
+
+  async get(name: string): Promise<ScreeningSession> {
+    const session = (await this.store.read()).sessions[name];
+    if (!session) throw notFound(name);
+    return session;
+  }
+
+  /** Throws when a session with this name exists (checked before running its searches). */
+  async assertNew(name: string): Promise<void> {
+    if ((await this.store.read()).sessions[name]) throw alreadyExists(name);
+  }
+
+  /** Store a new session; replacing an existing one requires `overwrite` and discards its decisions. */
+  create(
+    input: Pick<ScreeningSession, 'name' | 'searches' | 'duplicates' | 'records'> & { description?: string },
+    overwrite = false
+  ): Promise<ScreeningSession> {
+    return this.store.update(data => {
+      if (data.sessions[input.name] && !overwrite) throw alreadyExists(input.name);
+      const now = new Date().toISOString();
+      const session: ScreeningSession = {
+        name: input.name,
+        description: input.description ?? null,
+        created_at: now,
+        updated_at: now,
+        searches: input.searches,
+        duplicates: input.duplicates,
+        records: input.records,
+      };
+      data.sessions[input.name] = session;
+      return session;
+    });
+  }
+
+  /**
+   * Record decisions by OpenAlex ID (a merged duplicate's ID finds its record).
+   * A later decision for the same record replaces the earlier one.
+   */
+  decide(name: string, decisions: ScreeningDecisionInput[]): Promise<{ session: ScreeningSession; updated: string[]; not_found: string[] }> {
+    return this.store.update(data => {
+      const session = data.sessions[name];
+      if (!session) throw notFound(name);
+      const byId = new Map<string, ScreeningRecord>();
+      for (const record of session.records) {
+        for (const id of [record.id, ...record.duplicates]) byId.set(id, record);
+      }
+
+      const now = new Date().toISOString();
+      const updated: string[] = [];
+      const notFoundIds: string[] = [];
+      for (const { id, decision, reason } of decisions) {
+        const record = byId.get(bareId(id));
+        if (!record) {
+          notFoundIds.push(id);
+          continue;
+        }
+        record.decision = decision;
+        record.reason = reason?.trim() || null;
+        record.decided_at = now;
+        if (!updated.includes(record.id)) updated.push(record.id);
+      }
+      session.updated_at = now;
+      return { session, updated, not_found: notFoundIds };
+    });
+  }
+}
+
+const stores = new Map<string, ScreeningStore>();
+
+/**
+ * The screening store for the current environment: OPENALEX_SCREENING, or
+ * screening.json in the data directory.
+ */
+export function screeningStore(env: Record<string, string | undefined> = process.env): ScreeningStore {
+  const file = env.OPENALEX_SCREENING || path.join(dataDirectory(env), 'screening.json');
+  if (!stores.has(file)) stores.set(file, new ScreeningStore(file));
+  return stores.get(file)!;
+}
+
+/** Records with a decision ('pending' for undecided, 'all' for every record). */
+export function recordsWithDecision(session: ScreeningSession, decision: ScreeningDecision | 'pending' | 'all'): ScreeningRecord[] {
+  if (decision === 'all') return session.records;
+  return session.records.filter(record => record.decision === (decision === 'pending' ? null : decision));
+}
+
+export function prismaCounts(session: ScreeningSession): PrismaCounts {
+  const identified = session.searches.reduce((sum, search) => sum + search.fetched, 0);
+  const reasons = new Map<string, number>();
+  for (const record of recordsWithDecision(session, 'exclude')) {
+    const reason = record.reason ?? NO_REASON;
+    reasons.set(reason, (reasons.get(reason) ?? 0) + 1);
+  }
+  const pending = recordsWithDecision(session, 'pending').length;
+  return {
+    identification: {
+      searches: session.searches.map(search => ({
+        label: search.label,
+        records: search.fetched,
+        total_count: search.total_count,
+        truncated: search.truncated,
+      })),
+      records_identified: identified,
+      duplicates_removed: identified - session.records.length,
+      duplicates: session.duplicates,
+    },
+    screening: {
+      records_screened: session.records.length,
+      decided: session.records.length - pending,
+      pending,
+      excluded: recordsWithDecision(session, 'exclude').length,
+      exclusion_reasons: Object.fromEntries([...reasons].sort((a, b) => b[1] - a[1] || a[0].localeCompare(b[0]))),
+      maybe: recordsWithDecision(session, 'maybe').length,
+    },
+    included: recordsWithDecision(session, 'include').length,
+  };
+}
+
+/** PRISMA flow as a markdown outline, one box per line. */
+export function formatPrismaFlow(session: ScreeningSession): string {
+  const counts = prismaCounts(session);
+  const { identification, screening } = counts;
+  const lines = [
+    `# PRISMA flow: ${session.name}`,
+    '',
+    '## Identification',
+    '',
+    `- **Records identified**: ${identification.records_identified}`,
+  ];
+  for (const search of identification.searches) {
+    lines.push(`  - ${search.label}: ${search.records}` + (search.truncated ? ` (first ${search.records} of ${search.total_count} matches)` : ''));
+  }
+  lines.push(
+    `- **Duplicates removed**: ${identification.duplicates_removed}` +
+      ` (${identification.duplicates.same_work} found by more than one search, ${identification.duplicates.versions} versions of the same work)`,
+    '',
+    '## Screening',
+    '',
+    `- **Records screened**: ${screening.records_screened}`,
+    `- **Records excluded**: ${screening.excluded}`,
+  );
+  for (const [reason, n] of Object.entries(screening.exclusion_reasons)) {
+    lines.push(`  - ${reason}: ${n}`);
+  }
+  if (screening.maybe > 0) lines.push(`- **Undecided (maybe)**: ${screening.maybe}`);
+  if (screening.pending > 0) lines.push(`- **Not yet screened**: ${screening.pending}`);
+  lines.push('', '## Included', '', `- **Records included**: ${counts.included}`);
+  return lines.join('\n') + '\n';
+}
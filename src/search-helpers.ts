@@ -1,4 +1,5 @@
 import { debug } from './config.js';
+import { QueryEntity, compileSearchQuery } from './query-builder.js';
 
 /**
  * Wrap a search query in double quotes for exact phrase matching.
@@ -21,35 +22,34 @@ export function wrapPhraseSearch(query: string | undefined, exactPhrase?: boolea
 }
 
 /**
- * Apply search field scoping via OpenAlex filter keys.
- * When searchField is set without exactPhrase, moves the query into a filter key
- * (e.g., title.search, abstract.search). When both are set, phrase search wins
- * because OpenAlex does not support phrase matching inside field-scoped filters.
+ * Turn a tool's query into OpenAlex `search` and field-scoped filter params.
+ * Queries go through the boolean query builder (query-builder.ts), so AND/OR/NOT,
+ * phrases, grouping and per-clause `title:` / `abstract:` scopes all work; the
+ * searchField, when set, scopes whatever the query leaves unscoped (e.g. title
+ * moves it into title.search). exactPhrase treats the whole query as one
+ * phrase, scoped to searchField like any other clause (e.g. title.search:
+ * "privacy paradox"). Malformed queries throw with the position of the problem.
  */
 export function applySearchField(
   query: string | undefined,
   searchField: string | undefined,
   exactPhrase?: boolean,
+  entityType: QueryEntity = 'works',
 ): { search?: string; filterAdditions?: Record<string, any> } {
-  if (!searchField) {
-    return { search: wrapPhraseSearch(query, exactPhrase) };
-  }
-
-  // Both searchField and exactPhrase — prefer phrase search (global search param)
   if (exactPhrase) {
-    debug('search_field ignored because exact_phrase is true — phrase matching requires global search param');
-    return { search: wrapPhraseSearch(query, true) };
+    const phrase = wrapPhraseSearch(query, true);
+    if (phrase === undefined || !searchField) {
+      return { search: phrase };
+    }
+    query = phrase;
   }
-
-  // searchField without exactPhrase — move query into a filter key
-  const fieldMap: Record<string, string> = {
-    title: 'title.search',
-    abstract: 'abstract.search',
-    fulltext: 'fulltext.search',
-  };
-  const filterKey = fieldMap[searchField];
-  if (!filterKey || !query) {
+  if (query === undefined || !query.trim()) {
     return { search: query };
   }
-  return { filterAdditions: { [filterKey]: query } };
+
+  const compiled = compileSearchQuery(query, entityType, searchField);
+  debug('Compiled search query:', JSON.stringify(compiled));
+  return Object.keys(compiled.filter).length > 0
+    ? { search: compiled.search, filterAdditions: compiled.filter }
+    : { search: compiled.search };
 }
@@ -0,0 +1,3331 @@
+// MCP server factory — tools, resources and prompts, independent of the
+// transport. index.ts connects one instance to stdio; the HTTP transport creates
+// one per session, all sharing a single OpenAlexClient (and therefore its cache).
+
+import { Server } from '@modelcontextprotocol/sdk/server/index.js';
+import {
+  CallToolRequest,
+  CallToolRequestSchema,
+  CallToolResult,
+  GetPromptRequestSchema,
+  ListPromptsRequestSchema,
+  ListResourcesRequestSchema,
+  ListResourceTemplatesRequestSchema,
+  ListToolsRequestSchema,
+  ReadResourceRequestSchema,
+  Tool,
+} from '@modelcontextprotocol/sdk/types.js';
+import { OpenAlexClient, FilterOptions, SearchOptions } from './openalex-client.js';
+import { CONFIG, VERSION, debug } from './config.js';
+import { validateInput, TOOL_SCHEMAS, toolOutputJsonSchema } from './validation.js';
+import { VENUE_PRESETS, INSTITUTION_GROUPS, VenuePreset, summarizeVenuePreset, venueFilter } from './presets.js';
+import {
+  summarizeWork, summarizeAuthor, summarizeSource, summarizeInstitution,
+  summarizeWorksList, getFullWorkDetails,
+} from './formatters.js';
+import { CitationFormat, CITATION_FORMATS, formatCitations } from './citation-formats.js';
+import { AdvancedFilterEntity, buildAdvancedFilter, buildFilter } from './filter.js';
+import { snowball } from './snowball.js';
+import { checkIntegrity, formatIntegrityReport } from './integrity.js';
+import { splitBibliography, verifyBibliography } from './bibliography.js';
+import { listResources, readResource, resourceTemplates } from './resources.js';
+import { prompts, getPrompt } from './prompts.js';
+import { Graph, GraphFormat, buildCoauthorGraph, fetchCitationGraph, formatGraph } from './graph.js';
+import { wrapPhraseSearch, applySearchField } from './search-helpers.js';
+import { QueryEntity, compileSearchQuery } from './query-builder.js';
+import { clusterWorks, dedupeWorks } from './dedupe.js';
+import { findSimilarByCitations } from './similarity.js';
+import { AuthorMetricsFilters, computeAuthorMetrics } from './author-metrics.js';
+import { compareAuthors, formatComparison } from './author-comparison.js';
+import { CLUSTER_FIELDS, clusterCorpus } from './clustering.js';
+import { TopicScope, findEmergingTopics, scopeFilter, scopeTopics } from './emerging-topics.js';
+import { CENTRALITY_MEASURES, CentralityMeasure, analyzeCentrality, fetchCorpusGraph } from './centrality.js';
+import { SavedSearch, SavedSearchTool, SAVED_SEARCH_TOOLS, runSavedSearch, savedSearchStore } from './saved-searches.js';
+import {
+  ScreeningSearchInput, ScreeningSession, SCREENING_DECISIONS, formatPrismaFlow, identifyRecords, prismaCounts,
+  recordsWithDecision, screeningStore,
+} from './screening.js';
+import { Collection, collectionEntries, collectionStore, hydrateCollection, itemsWithTag, tagCounts } from './collections.js';
+
+// Default page size for MCP clients (can be overridden with MCP_DEFAULT_PAGE_SIZE env var)
+const DEFAULT_PAGE_SIZE = parseInt(process.env.MCP_DEFAULT_PAGE_SIZE || String(CONFIG.MCP.DEFAULT_PAGE_SIZE), 10);
+
+// JSON Schema for the dedupe option of works-list tools (see dedupe.ts)
+const DEDUPE_PROPERTY = {
+  type: 'boolean',
+  description: 'Merge duplicate works — preprint and published versions, or the same paper indexed twice — matched by DOI, normalized title and author/year. Each result is the version of record where there is one, with the other versions under alternates. Applied to the fetched page, so a page can come back shorter than per_page.',
+  default: false,
+};
+
+// JSON Schema for advanced_filter (raw OpenAlex filters, validated per entity in filter.ts)
+function advancedFilterProperty(entityType: AdvancedFilterEntity) {
+  const examples: Record<AdvancedFilterEntity, string> = {
+    works: '{"language": "en", "is_retracted": false, "grants.funder": "F4320332161", "from_publication_date": "2020-01-01", "type": "!paratext", "sustainable_development_goals.id": ["3", "13"]}',
+    authors: '{"last_known_institutions.ror": "https://ror.org/03vek6s52", "summary_stats.h_index": ">20", "has_orcid": true}',
+    sources: '{"is_in_doaj": true, "country_code": "gb|us", "apc_usd": "<1000", "host_organization": "!P4310320595"}',
+  };
+  return {
+    type: 'object',
+    description: `Any OpenAlex ${entityType} filter not covered by the parameters above, as { key: value }. Values use OpenAlex syntax: "a|b" (OR), "!a" (NOT), "a+b" (AND), ">n" / "<n", and "from-to" ranges; an array is an OR list. Unknown keys are rejected with a suggestion. Overrides any named parameter that sets the same key. Example: ${examples[entityType]}`,
+    additionalProperties: {
+      anyOf: [
+        { type: 'string' },
+        { type: 'number' },
+        { type: 'boolean' },
+        { type: 'array', items: { anyOf: [{ type: 'string' }, { type: 'number' }] } },
+      ],
+    },
+  };
+}
+
+// Define all tools
+export const tools: Tool[] = [
+  // Literature Search & Discovery
+  {
+    name: 'search_works',
+    description:
+      'Search scholarly works with advanced filtering. Supports Boolean operators, year ranges, citation thresholds, venue/journal filtering (source_name, source_issn, source_id), and institution filtering (author_institution, institution_group). The most flexible search tool. Use search_in_journal_list for preset journal lists like UTD24 or FT50.',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        query: {
+          type: 'string',
+          description:
+            'Search query. Supports Boolean operators (AND, OR, NOT), grouping and per-clause field scopes (title:, abstract:, title_and_abstract:, fulltext:). Example: "(\"large language model\" OR LLM) AND title:(education NOT medical)". Use build_search_query to preview how a query compiles. For exact phrase matching (e.g., \'privacy paradox\' as a specific concept), set exact_phrase to true.',
+        },
+        exact_phrase: {
+          type: 'boolean',
+          description: 'Set to true for exact phrase matching. Without this, search terms are matched independently. Use this when searching for a specific concept or multi-word term (e.g., \'privacy paradox\', \'supply chain resilience\').',
+          default: false,
+        },
+        search_field: {
+          type: 'string',
+          description: 'Restrict search to a specific field: \'title\' (paper titles only), \'abstract\' (abstracts only), or \'fulltext\' (full text only). By default, searches across all fields. With exact_phrase, the phrase is matched within this field.',
+          enum: ['title', 'abstract', 'fulltext'],
+        },
+        from_year: {
+          type: 'number',
+          description: 'Filter works published from this year onwards',
+        },
+        to_year: {
+          type: 'number',
+          description: 'Filter works published up to this year',
+        },
+        min_citations: {
+          type: 'number',
+          description: 'Minimum citation count. E.g., 50 for solid papers, 200 for highly influential.',
+        },
+        cited_by_count: {
+          type: 'string',
+          description: 'Citation filter with operator: ">100", "<50". Prefer min_citations for simplicity.',
+        },
+        source_name: {
+          type: 'string',
+          description: 'Filter by journal/conference name (partial match). E.g., "Nature", "NeurIPS", "Management Science".',
+        },
+        source_id: {
+          type: 'string',
+          description: 'Filter by exact OpenAlex source ID (most reliable for conferences).',
+        },
+        source_issn: {
+          type: 'string',
+          description: 'Filter by journal ISSN. E.g., "0025-1909" for Management Science.',
+        },
+        author_institution: {
+          type: 'string',
+          description: 'Filter by author institution (OpenAlex display_name). Use | for OR. E.g., "Harvard University|Stanford University|MIT".',
+        },
+        institution_group: {
+          type: 'string',
+          description: 'Named institution group preset. Use list_journal_presets to see all. E.g., harvard_stanford_mit, ivy_league, top_us, insead_london, top_global_business.',
+          enum: ['harvard_stanford_mit', 'ivy_league', 'top_us', 'top_us_business', 'insead_london', 'top_global_business', 'top_china'],
+        },
+        is_oa: {
+          type: 'boolean',
+          description: 'Filter for open access works only',
+        },
+        type: {
+          type: 'string',
+          description: 'Filter by work type: article, review, book-chapter, dataset, etc.',
+        },
+        sort: {
+          type: 'string',
+          description: 'Sort: relevance_score (default), cited_by_count:desc, publication_year:desc',
+        },
+        page: {
+          type: 'number',
+          description: 'Page number for pagination (default: 1)',
+        },
+        per_page: {
+          type: 'number',
+          description: 'Results per page, max 200 (default: 10; use 20 for broader coverage)',
+          maximum: 200,
+        },
+        fetch_all: {
+          type: 'boolean',
+          description: 'Fetch results across many pages via cursor paging instead of a single page (up to max_results, default 1000). page and per_page are ignored. Use for building a full corpus, not for browsing.',
+          default: false,
+        },
+        max_results: {
+          type: 'number',
+          description: 'Maximum works to return in fetch_all mode (default: 1000, max: 10000). Setting this implies fetch_all.',
+          maximum: 10000,
+        },
+        format: {
+          type: 'string',
+          description: 'Output format: json (summarized results, default) or a reference-manager format — bibtex, ris, csl-json — rendered from the full author list and bibliographic data.',
+          enum: ['json', 'bibtex', 'ris', 'csl-json'],
+          default: 'json',
+        },
+        dedupe: DEDUPE_PROPERTY,
+        advanced_filter: advancedFilterProperty('works'),
+      },
+    },
+  },
+  {
+    name: 'get_work',
+    description:
+      'Get COMPLETE details about a specific work by OpenAlex ID or DOI. Unlike search results which are summarized, this returns ALL information including: complete author list (first, middle, and last authors with positions, institutions, ORCID, corresponding author flags), full abstract (reconstructed), all topics, complete bibliographic data, funding/grants, keywords, and reference lists. Use this when you need detailed information about a specific paper, especially for identifying PIs (often last author) or corresponding authors.',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        id: {
+          type: 'string',
+          description:
+            'Work identifier. Can be OpenAlex ID (W2741809807), DOI (10.1371/journal.pone.0000000), or full URL',
+        },
+        format: {
+          type: 'string',
+          description: 'Output format: json (full details, default), or a citation in bibtex, ris or csl-json.',
+          enum: ['json', 'bibtex', 'ris', 'csl-json'],
+          default: 'json',
+        },
+      },
+      required: ['id'],
+    },
+  },
+  {
+    name: 'get_related_works',
+    description:
+      'Find works related to a given work based on shared topics, citations, and references. Useful for discovering similar papers in a research area.',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        id: {
+          type: 'string',
+          description: 'Work identifier (OpenAlex ID, DOI, or URL)',
+        },
+        per_page: {
+          type: 'number',
+          description: 'Number of related works to return (default: 10, max: 200)',
+          maximum: 200,
+        },
+      },
+      required: ['id'],
+    },
+  },
+  {
+    name: 'search_by_topic',
+    description:
+      'Search for works within specific research topics or domains. Use this to explore literature in a particular field or subfield. Supports venue filtering to restrict results to top journals/conferences.',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        topic: {
+          type: 'string',
+          description:
+            'Topic name or keywords to search for (e.g., "artificial intelligence", "climate change", "quantum computing"). For exact phrase matching (e.g., \'privacy paradox\' as a specific concept), set exact_phrase to true.',
+        },
+        exact_phrase: {
+          type: 'boolean',
+          description: 'Set to true for exact phrase matching. Without this, search terms are matched independently. Use this when searching for a specific concept or multi-word term (e.g., \'privacy paradox\', \'supply chain resilience\').',
+          default: false,
+        },
+        search_field: {
+          type: 'string',
+          description: 'Restrict search to a specific field: \'title\' (paper titles only), \'abstract\' (abstracts only), or \'fulltext\' (full text only). By default, searches across all fields. With exact_phrase, the phrase is matched within this field.',
+          enum: ['title', 'abstract', 'fulltext'],
+        },
+        from_year: {
+          type: 'number',
+          description: 'Filter works from this year onwards',
+        },
+        to_year: {
+          type: 'number',
+          description: 'Filter works up to this year',
+        },
+        source_name: {
+          type: 'string',
+          description: 'Restrict to a specific journal or conference by name (e.g., "Nature", "ICML", "PNAS")',
+        },
+        source_issn: {
+          type: 'string',
+          description: 'Restrict to a specific journal/conference by ISSN (most precise)',
+        },
+        min_citations: {
+          type: 'number',
+          description: 'Minimum citation count threshold to filter low-impact papers',
+        },
+        author_institution: {
+          type: 'string',
+          description: 'Filter by author institution (exact OpenAlex display_name). Use | for OR, e.g., "Harvard University|Stanford University"',
+        },
+        institution_group: {
+          type: 'string',
+          description: 'Named institution group preset. Options: harvard_stanford_mit, ivy_league, top_us, top_us_business, insead_london, top_global_business, top_china. Use list_journal_presets to see all.',
+          enum: ['harvard_stanford_mit', 'ivy_league', 'top_us', 'top_us_business', 'insead_london', 'top_global_business', 'top_china'],
+        },
+        sort: {
+          type: 'string',
+          description: 'Sort by: cited_by_count:desc, publication_year:desc, relevance_score (default)',
+        },
+        per_page: {
+          type: 'number',
+          description: 'Results per page (default: 10, use 20 for broader coverage, max 200)',
+          maximum: 200,
+        },
+        advanced_filter: advancedFilterProperty('works'),
+      },
+      required: ['topic'],
+    },
+  },
+  {
+    name: 'autocomplete_search',
+    description:
+      'Fast autocomplete/typeahead search for works, authors, institutions, or other entities. Returns quick suggestions for partial queries.',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        query: {
+          type: 'string',
+          description: 'Partial search query',
+        },
+        entity_type: {
+          type: 'string',
+          description:
+            'Type of entity to search: works, authors, institutions, sources, topics, publishers, funders',
+          enum: ['works', 'authors', 'institutions', 'sources', 'topics', 'publishers', 'funders'],
+        },
+      },
+      required: ['query', 'entity_type'],
+    },
+  },
+  {
+    name: 'build_search_query',
+    description:
+      'Compile a boolean search string into the OpenAlex search and field-scoped filter parameters that every search tool would send, without running it. Use it to check a complex query before searching. Syntax: AND, OR, NOT (upper case), "quoted phrases", parentheses, and field scopes like title:(...) or abstract:"..." (display_name: for authors, sources and institutions). Example: ("large language model" OR LLM) AND title:(education NOT medical).',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        query: {
+          type: 'string',
+          description: 'Boolean search string, as accepted by the query parameter of the search tools',
+        },
+        entity_type: {
+          type: 'string',
+          description: 'Entity being searched, which decides the available field scopes (default: works)',
+          enum: ['works', 'authors', 'sources', 'institutions'],
+          default: 'works',
+        },
+        search_field: {
+          type: 'string',
+          description: 'Scope for clauses without their own field prefix, as in the search tools: title, abstract or fulltext (works only)',
+          enum: ['title', 'abstract', 'fulltext'],
+        },
+      },
+      required: ['query'],
+    },
+  },
+
+  // Citation Analysis
+  {
+    name: 'get_work_citations',
+    description:
+      'Get all works that cite a given work. Essential for forward citation analysis and understanding research impact.',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        id: {
+          type: 'string',
+          description: 'Work identifier (OpenAlex ID, DOI, or URL)',
+        },
+        page: {
+          type: 'number',
+          description: 'Page number for pagination',
+        },
+        per_page: {
+          type: 'number',
+          description: 'Citations per page (default: 10, max: 200)',
+          maximum: 200,
+        },
+        sort: {
+          type: 'string',
+          description: 'Sort by: publication_year, cited_by_count',
+        },
+        fetch_all: {
+          type: 'boolean',
+          description: 'Fetch all citing works via cursor paging (up to max_results, default 1000) instead of a single page. page and per_page are ignored.',
+          default: false,
+        },
+        max_results: {
+          type: 'number',
+          description: 'Maximum citing works to return in fetch_all mode (default: 1000, max: 10000). Setting this implies fetch_all.',
+          maximum: 10000,
+        },
+        dedupe: DEDUPE_PROPERTY,
+      },
+      required: ['id'],
+    },
+  },
+  {
+    name: 'get_work_references',
+    description:
+      'Get all works referenced/cited by a given work. Essential for backward citation analysis and finding foundational papers.',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        id: {
+          type: 'string',
+          description: 'Work identifier (OpenAlex ID, DOI, or URL)',
+        },
+      },
+      required: ['id'],
+    },
+  },
+  {
+    name: 'get_citation_network',
+    description:
+      'Get a citation network for a work including both citing works (forward) and referenced works (backward). Returns immediate connections only. Citing works are returned as summaries; referenced works as IDs (use batch_resolve_references to hydrate).',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        id: {
+          type: 'string',
+          description: 'Work identifier (OpenAlex ID, DOI, or URL)',
+        },
+        max_citing: {
+          type: 'number',
+          description: 'Maximum number of citing works to include (default: 50, max: 200)',
+          maximum: 200,
+        },
+        max_references: {
+          type: 'number',
+          description: 'Maximum number of referenced works to include (default: 50, max: 200)',
+          maximum: 200,
+        },
+        graph_format: {
+          type: 'string',
+          description: 'Return the network as a graph file instead of nested JSON: GraphML or GEXF (Gephi, Cytoscape), DOT (Graphviz) or JSON node-link (d3, networkx). Referenced works are hydrated so nodes carry year, citations, venue, topic and FWCI.',
+          enum: ['graphml', 'gexf', 'dot', 'json'],
+        },
+      },
+      required: ['id'],
+    },
+  },
+  {
+    name: 'find_similar_by_citations',
+    description:
+      'Find intellectual neighbours of a work through the citation graph, as a transparent alternative to related_works. Bibliographic coupling: works citing the same references as the seed (candidates are the most-cited works citing any of its first 100 references). Co-citation: works cited together with the seed by a sample of its citing works. Scores are normalized (Salton cosine, 0–1) and each result lists the shared references and co-citing works behind its score.',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        id: {
+          type: 'string',
+          description: 'Work identifier (OpenAlex ID, DOI, or URL)',
+        },
+        method: {
+          type: 'string',
+          description: 'coupling (shared references), cocitation (cited together) or both (default: both, ranked by the mean score)',
+          enum: ['coupling', 'cocitation', 'both'],
+          default: 'both',
+        },
+        limit: {
+          type: 'number',
+          description: 'Number of similar works to return (default: 20, max: 100)',
+          maximum: 100,
+        },
+        min_shared: {
+          type: 'number',
+          description: 'Minimum shared references or co-citing works for a candidate (default: 2)',
+        },
+        max_candidates: {
+          type: 'number',
+          description: 'Coupling: candidate works scanned per 50 seed references, most-cited first (default: 200, max: 1000)',
+          maximum: 1000,
+        },
+        citing_sample: {
+          type: 'number',
+          description: 'Co-citation: citing works sampled (default: 200, max: 200)',
+          maximum: 200,
+        },
+      },
+      required: ['id'],
+    },
+  },
+  {
+    name: 'rank_by_network_centrality',
+    description:
+      'Rank works by their structural position in a local citation graph rather than raw citation counts. The graph is built from the top results of a query (citations among them) or from seed works plus their most-cited citing works and their references. Computes PageRank, in-degree within the corpus, betweenness and Search Path Count (SPC), and returns the SPC main path — the chain of works carrying the most knowledge flow from the oldest to the newest works.',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        query: { type: 'string', description: 'Search query defining the corpus (use this or seed_ids)' },
+        from_year: { type: 'number', description: 'With query: earliest publication year' },
+        to_year: { type: 'number', description: 'With query: latest publication year' },
+        min_citations: { type: 'number', description: 'With query: minimum citation count' },
+        sort: {
+          type: 'string',
+          description: 'With query: which matches form the corpus (default: relevance)',
+          enum: ['relevance_score:desc', 'cited_by_count:desc', 'publication_date:desc'],
+        },
+        max_works: {
+          type: 'number',
+          description: 'With query: corpus size (default: 200, max: 1000)',
+          maximum: 1000,
+        },
+        seed_ids: {
+          type: 'array',
+          items: { type: 'string' },
+          description: 'Seed work IDs or DOIs (max 25); the corpus adds their citing works and references',
+        },
+        max_citing_per_seed: {
+          type: 'number',
+          description: 'With seed_ids: most-cited citing works added per seed (default: 25, max: 200)',
+          maximum: 200,
+        },
+        max_references_per_seed: {
+          type: 'number',
+          description: 'With seed_ids: references added per seed (default: 50, max: 200)',
+          maximum: 200,
+        },
+        rank_by: {
+          type: 'string',
+          description: 'Measure to rank by (default: pagerank)',
+          enum: CENTRALITY_MEASURES,
+          default: 'pagerank',
+        },
+        limit: {
+          type: 'number',
+          description: 'Number of ranked works to return (default: 25, max: 200)',
+          maximum: 200,
+        },
+        graph_format: {
+          type: 'string',
+          description: 'Return the whole graph as a file instead, with the scores as node attributes: GraphML, GEXF, DOT or JSON node-link',
+          enum: ['graphml', 'gexf', 'dot', 'json'],
+        },
+      },
+    },
+  },
+  {
+    name: 'get_top_cited_works',
+    description:
+      'Find the most highly cited works in a research area or matching specific criteria. Identifies influential and seminal papers. Automatically filters for papers with significant citations. Combine with source_name or source_issn to find the most-cited papers in a specific top journal/conference.',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        query: {
+          type: 'string',
+          description: 'Search query to filter works (optional). For exact phrase matching (e.g., \'privacy paradox\' as a specific concept), set exact_phrase to true.',
+        },
+        topic: {
+          type: 'string',
+          description: 'Filter by research topic. For exact phrase matching (e.g., \'privacy paradox\' as a specific concept), set exact_phrase to true.',
+        },
+        exact_phrase: {
+          type: 'boolean',
+          description: 'Set to true for exact phrase matching. Without this, search terms are matched independently. Use this when searching for a specific concept or multi-word term (e.g., \'privacy paradox\', \'supply chain resilience\').',
+          default: false,
+        },
+        search_field: {
+          type: 'string',
+          description: 'Restrict search to a specific field: \'title\' (paper titles only), \'abstract\' (abstracts only), or \'fulltext\' (full text only). By default, searches across all fields. With exact_phrase, the phrase is matched within this field.',
+          enum: ['title', 'abstract', 'fulltext'],
+        },
+        from_year: {
+          type: 'number',
+          description: 'Consider works from this year onwards',
+        },
+        to_year: {
+          type: 'number',
+          description: 'Consider works up to this year',
+        },
+        min_citations: {
+          type: 'number',
+          description: 'Minimum citation count threshold (default: 50). Use higher values (e.g., 200) for only the most influential papers.',
+        },
+        source_name: {
+          type: 'string',
+          description: 'Restrict to a specific journal or conference by name (e.g., "Nature", "NeurIPS", "ICML")',
+        },
+        source_issn: {
+          type: 'string',
+          description: 'Restrict to a specific journal/conference by ISSN (most precise)',
+        },
+        author_institution: {
+          type: 'string',
+          description: 'Filter by author institution. Use | for OR. E.g., "Harvard University|MIT"',
+        },
+        institution_group: {
+          type: 'string',
+          description: 'Named institution group: harvard_stanford_mit, ivy_league, top_us, insead_london, top_global_business, top_china',
+          enum: ['harvard_stanford_mit', 'ivy_league', 'top_us', 'top_us_business', 'insead_london', 'top_global_business', 'top_china'],
+        },
+        per_page: {
+          type: 'number',
+          description: 'Number of top works to return (default: 10, use 20 for broader coverage, max: 200)',
+          maximum: 200,
+        },
+        advanced_filter: advancedFilterProperty('works'),
+      },
+    },
+  },
+
+  // Author & Institution Analysis
+  {
+    name: 'search_authors',
+    description:
+      'Search for authors/researchers. Returns h-index, citation count, and affiliation data. Best for finding experts when you know the name. Use search_authors_by_expertise to find experts by research area.',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        query: {
+          type: 'string',
+          description: 'Author name or search query. For exact phrase matching of a full name (e.g., \'Sarah Jane Williams\') or a concept (e.g., \'deep reinforcement learning\'), set exact_phrase to true.',
+        },
+        exact_phrase: {
+          type: 'boolean',
+          description: 'Set to true for exact phrase matching. Without this, name/query tokens are matched independently. Use this when the query is a full name (e.g., \'Anna Maria Bianchi\') or a specific multi-word concept.',
+          default: false,
+        },
+        works_count: {
+          type: 'string',
+          description: 'Filter by number of works. Use >X or <X. Example: ">50"',
+        },
+        cited_by_count: {
+          type: 'string',
+          description: 'Filter by total citation count. Use >X or <X. Example: ">1000"',
+        },
+        institution: {
+          type: 'string',
+          description: 'Filter by institution name or ID',
+        },
+        sort: {
+          type: 'string',
+          description: 'Sort results: cited_by_count:desc (default), works_count:desc, publication_year:desc',
+        },
+        per_page: {
+          type: 'number',
+          description: 'Results per page (default: 10, max: 200)',
+          maximum: 200,
+        },
+        advanced_filter: advancedFilterProperty('authors'),
+      },
+    },
+  },
+  {
+    name: 'get_author_works',
+    description:
+      "Get all publications by a specific author over time. Useful for analyzing an author's research trajectory and productivity.",
+    inputSchema: {
+      type: 'object',
+      properties: {
+        author_id: {
+          type: 'string',
+          description: 'Author identifier (OpenAlex ID, ORCID, or URL)',
+        },
+        from_year: {
+          type: 'number',
+          description: 'Get works from this year onwards',
+        },
+        to_year: {
+          type: 'number',
+          description: 'Get works up to this year',
+        },
+        sort: {
+          type: 'string',
+          description: 'Sort by: publication_year, cited_by_count',
+        },
+        per_page: {
+          type: 'number',
+          description: 'Works per page (default: 10, max: 200)',
+          maximum: 200,
+        },
+      },
+      required: ['author_id'],
+    },
+  },
+  {
+    name: 'compute_author_metrics',
+    description:
+      "Compute an author's citation metrics over a filtered set of their works, for hiring and promotion reviews: a year window, a venue list preset, and/or only papers where they are first or last author. Pages through all matching works and returns h-index, g-index, m-quotient, i10-index, median FWCI, first/last/corresponding-author shares, citations per year and their most-cited works, next to OpenAlex's all-time figures.",
+    inputSchema: {
+      type: 'object',
+      properties: {
+        author_id: {
+          type: 'string',
+          description: 'Author identifier (OpenAlex ID, ORCID, or URL)',
+        },
+        from_year: { type: 'number', description: 'Only works published from this year' },
+        to_year: { type: 'number', description: 'Only works published up to this year' },
+        journal_list: {
+          type: 'string',
+          description: 'Only works in a venue preset (e.g. utd24, ft50, top_ai_conferences). Use list_journal_presets to see all options.',
+        },
+        author_position: {
+          type: 'string',
+          description: 'Only works where the author is first, last, or first or last author (a sole author counts as both). Default: any',
+          enum: ['any', 'first', 'last', 'first_or_last'],
+          default: 'any',
+        },
+        max_works: {
+          type: 'number',
+          description: 'Maximum works to fetch, most-cited first (default: 2000, max: 5000). When more works match, totals are lower bounds but the h-index stays exact.',
+          maximum: 5000,
+        },
+      },
+      required: ['author_id'],
+    },
+  },
+  {
+    name: 'compare_authors',
+    description:
+      'Compare 2–10 authors side by side, e.g. to shortlist candidates. Pages through each author\'s works (optionally within a year window) and returns one comparison table — output, citations, h-index, g-index, m-quotient, FWCI distribution, authorship shares, works in venue presets (journal/conference lists), collaboration breadth and career age — with each row also normalized to the highest value. Also reports each author\'s top topics and the pairwise topic overlap. Use format "markdown" for the table rendered as Markdown.',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        author_ids: {
+          type: 'array',
+          items: { type: 'string' },
+          description: 'Author identifiers (OpenAlex IDs, ORCIDs, or URLs), 2–10',
+          minItems: 2,
+          maxItems: 10,
+        },
+        from_year: { type: 'number', description: 'Only works published from this year' },
+        to_year: { type: 'number', description: 'Only works published up to this year' },
+        max_works_per_author: {
+          type: 'number',
+          description: 'Maximum works fetched per author, most-cited first (default: 1000, max: 2000). When more works match, totals are lower bounds but the h-index stays exact.',
+          maximum: 2000,
+        },
+        format: {
+          type: 'string',
+          description: 'json (default) or markdown (the comparison table, venue presets, topics and topic overlap)',
+          enum: ['json', 'markdown'],
+        },
+      },
+      required: ['author_ids'],
+    },
+  },
+  {
+    name: 'get_author_collaborators',
+    description:
+      'Analyze an author\'s co-authorship network. Returns frequent collaborators and collaboration statistics.',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        author_id: {
+          type: 'string',
+          description: 'Author identifier (OpenAlex ID, ORCID, or URL)',
+        },
+        min_collaborations: {
+          type: 'number',
+          description: 'Minimum number of co-authored papers to include (default: 1)',
+        },
+        graph_format: {
+          type: 'string',
+          description: 'Return the co-author network as a graph file instead of a list: GraphML, GEXF, DOT or JSON node-link. Edge weights count shared works; links between collaborators are included.',
+          enum: ['graphml', 'gexf', 'dot', 'json'],
+        },
+      },
+      required: ['author_id'],
+    },
+  },
+  {
+    name: 'search_institutions',
+    description:
+      'Search for academic institutions with filters for research output, citations, and geographical location. Find leading institutions in specific areas.',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        query: {
+          type: 'string',
+          description: 'Institution name or search query. For exact phrase matching of a multi-word institution name (e.g., \'London School of Economics\', \'Seoul National University\'), set exact_phrase to true.',
+        },
+        exact_phrase: {
+          type: 'boolean',
+          description: 'Set to true for exact phrase matching. Without this, name tokens are matched independently (may return partial matches). Use this when the query is a specific multi-word institution name.',
+          default: false,
+        },
+        country_code: {
+          type: 'string',
+          description: 'Filter by ISO 3166-1 alpha-2 country code (e.g., "US", "GB", "CN")',
+        },
+        type: {
+          type: 'string',
+          description: 'Institution type: education, healthcare, company, archive, nonprofit, government, facility, other',
+        },
+        works_count: {
+          type: 'string',
+          description: 'Filter by number of works. Use >X or <X',
+        },
+        per_page: {
+          type: 'number',
+          description: 'Results per page (default: 10, max: 200)',
+          maximum: 200,
+        },
+      },
+    },
+  },
+
+  // Research Landscape & Trends
+  {
+    name: 'analyze_topic_trends',
+    description:
+      'Analyze publication trends over time for specific topics or queries. Returns works grouped by year to show research evolution and growth.',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        query: {
+          type: 'string',
+          description: 'Search query or topic to analyze. For exact phrase matching (e.g., \'privacy paradox\' as a specific concept), set exact_phrase to true.',
+        },
+        exact_phrase: {
+          type: 'boolean',
+          description: 'Set to true for exact phrase matching. Without this, search terms are matched independently. Use this when searching for a specific concept or multi-word term (e.g., \'privacy paradox\', \'supply chain resilience\').',
+          default: false,
+        },
+        search_field: {
+          type: 'string',
+          description: 'Restrict search to a specific field: \'title\' (paper titles only), \'abstract\' (abstracts only), or \'fulltext\' (full text only). By default, searches across all fields. With exact_phrase, the phrase is matched within this field.',
+          enum: ['title', 'abstract', 'fulltext'],
+        },
+        from_year: {
+          type: 'number',
+          description: 'Start year for trend analysis',
+        },
+        to_year: {
+          type: 'number',
+          description: 'End year for trend analysis',
+        },
+      },
+      required: ['query'],
+    },
+  },
+  {
+    name: 'compare_research_areas',
+    description:
+      'Compare publication volume and citation metrics across different research topics or queries. Useful for understanding relative activity in different fields.',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        topics: {
+          type: 'array',
+          items: { type: 'string' },
+          description: 'Array of topics/queries to compare (2-5 recommended). For exact phrase matching (e.g., \'privacy paradox\' as a specific concept), set exact_phrase to true.',
+        },
+        exact_phrase: {
+          type: 'boolean',
+          description: 'Set to true for exact phrase matching on all topics in the array. Without this, search terms are matched independently. Applies uniformly to every topic — cannot selectively quote individual items.',
+          default: false,
+        },
+        from_year: {
+          type: 'number',
+          description: 'Compare from this year onwards',
+        },
+        to_year: {
+          type: 'number',
+          description: 'Compare up to this year',
+        },
+      },
+      required: ['topics'],
+    },
+  },
+  {
+    name: 'get_trending_topics',
+    description:
+      'Discover emerging and trending research topics. mode "volume" (default) ranks topics by works in the last N years, which favours large established topics. mode "growth" finds emerging ones: it counts works per topic per year over a baseline window and the recent window after it, and ranks topics by acceleration, growth relative to all of OpenAlex (CAGR normalized by overall growth), share change, CAGR or Kleinberg burst. Either mode can be limited to a domain, field or subfield.',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        mode: {
+          type: 'string',
+          description: 'volume: most works in the last N years. growth: fastest-growing topics between two windows',
+          enum: ['volume', 'growth'],
+          default: 'volume',
+        },
+        min_works: {
+          type: 'number',
+          description: 'Minimum number of recent works for a topic to be considered trending (default: 100)',
+        },
+        time_period_years: {
+          type: 'number',
+          description: 'volume: consider works from the last N years (default: 3)',
+        },
+        window_years: {
+          type: 'number',
+          description: 'growth: years in the recent window and in the baseline window before it (default: 3, max: 10)',
+          maximum: 10,
+        },
+        end_year: {
+          type: 'number',
+          description: 'growth: last year of the recent window (default: last complete year)',
+        },
+        rank_by: {
+          type: 'string',
+          description: 'growth: acceleration (share growing faster recently than before, default), relative_growth (CAGR beyond overall OpenAlex growth), cagr, share_change (recent ÷ baseline share) or burst (active Kleinberg burst weight)',
+          enum: ['acceleration', 'relative_growth', 'cagr', 'share_change', 'burst'],
+        },
+        domain: { type: 'string', description: 'Only topics in this OpenAlex domain (ID, e.g. "3" for Physical Sciences)' },
+        field: { type: 'string', description: 'Only topics in this OpenAlex field (ID, e.g. "17" for Computer Science)' },
+        subfield: { type: 'string', description: 'Only topics in this OpenAlex subfield (ID, e.g. "1702" for Artificial Intelligence)' },
+        per_page: {
+          type: 'number',
+          description: 'Number of trending topics to return (default: 10, max: 200)',
+          maximum: 200,
+        },
+      },
+    },
+  },
+  {
+    name: 'cluster_corpus',
+    description:
+      'Cluster the works matching a query into research themes. Pulls up to 3000 works and groups them locally by their words (title and abstract, TF-IDF), OpenAlex topics/keywords and citation links — with k-means, or with community detection on the citation graph. Each cluster comes with top terms, dominant topics, keywords, representative papers, size and year span. Use get_trending_topics for counts over all of OpenAlex instead.',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        query: { type: 'string', description: 'Search query defining the corpus' },
+        from_year: { type: 'number', description: 'Earliest publication year' },
+        to_year: { type: 'number', description: 'Latest publication year' },
+        min_citations: { type: 'number', description: 'Minimum citation count' },
+        sort: {
+          type: 'string',
+          description: 'Which matches form the corpus (default: relevance)',
+          enum: ['relevance_score:desc', 'cited_by_count:desc', 'publication_date:desc'],
+        },
+        max_works: {
+          type: 'number',
+          description: 'Corpus size (default: 1000, max: 3000)',
+          maximum: 3000,
+        },
+        method: {
+          type: 'string',
+          description: 'kmeans: spherical k-means on words, topics/keywords and references (default). graph: Louvain communities of works linked by shared references or direct citations; the number of clusters follows from the data and unlinked works stay unclustered.',
+          enum: ['kmeans', 'graph'],
+          default: 'kmeans',
+        },
+        k: {
+          type: 'number',
+          description: 'kmeans: number of clusters (default: about √(works/2), max: 30)',
+          minimum: 2,
+          maximum: 30,
+        },
+        seed: { type: 'number', description: 'kmeans: random seed, for reproducible clusters (default: 42)' },
+        include_members: {
+          type: 'boolean',
+          description: 'List the IDs of every work in each cluster',
+          default: false,
+        },
+      },
+      required: ['query'],
+    },
+  },
+  {
+    name: 'analyze_geographic_distribution',
+    description:
+      'Analyze the geographical distribution of research activity for a topic or query. Shows which countries and institutions are most active.',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        query: {
+          type: 'string',
+          description: 'Search query or topic to analyze. For exact phrase matching (e.g., \'privacy paradox\' as a specific concept), set exact_phrase to true.',
+        },
+        exact_phrase: {
+          type: 'boolean',
+          description: 'Set to true for exact phrase matching. Without this, search terms are matched independently. Use this when searching for a specific concept or multi-word term (e.g., \'privacy paradox\', \'supply chain resilience\').',
+          default: false,
+        },
+        search_field: {
+          type: 'string',
+          description: 'Restrict search to a specific field: \'title\' (paper titles only), \'abstract\' (abstracts only), or \'fulltext\' (full text only). By default, searches across all fields. With exact_phrase, the phrase is matched within this field.',
+          enum: ['title', 'abstract', 'fulltext'],
+        },
+        from_year: {
+          type: 'number',
+          description: 'Analyze from this year onwards',
+        },
+        to_year: {
+          type: 'number',
+          description: 'Analyze up to this year',
+        },
+      },
+      required: ['query'],
+    },
+  },
+
+  // Entity Lookup
+  {
+    name: 'get_entity',
+    description:
+      'Get detailed information about any OpenAlex entity by ID. Supports works, authors, sources, institutions, topics, publishers, and funders.',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        entity_type: {
+          type: 'string',
+          description: 'Type of entity',
+          enum: ['works', 'authors', 'sources', 'institutions', 'topics', 'publishers', 'funders'],
+        },
+        id: {
+          type: 'string',
+          description: 'Entity identifier (OpenAlex ID, DOI, ORCID, or other supported ID)',
+        },
+      },
+      required: ['entity_type', 'id'],
+    },
+  },
+  {
+    name: 'search_sources',
+    description:
+      'Search for journals, conferences, and other publication sources. Results are sorted by h-index descending by default, making it easy to identify top-tier venues. Returns h-index, impact metrics, and open access status. Use check_venue_quality for detailed metrics on a specific venue, or get_top_venues_for_field to discover the best venues in a research area.',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        query: {
+          type: 'string',
+          description: 'Source/journal name or search query. For exact phrase matching of a multi-word journal name (e.g., \'Journal of Financial Economics\', \'Management Information Systems Quarterly\'), set exact_phrase to true.',
+        },
+        exact_phrase: {
+          type: 'boolean',
+          description: 'Set to true for exact phrase matching of the source name. Without this, name tokens are matched independently. Use when the journal/conference name is a specific multi-word phrase.',
+          default: false,
+        },
+        type: {
+          type: 'string',
+          description: 'Source type: journal, conference, repository, ebook platform, book series',
+        },
+        is_oa: {
+          type: 'boolean',
+          description: 'Filter for open access sources only',
+        },
+        works_count: {
+          type: 'string',
+          description: 'Filter by number of works published. Use >X or <X',
+        },
+        per_page: {
+          type: 'number',
+          description: 'Results per page (default: 10, max: 200)',
+          maximum: 200,
+        },
+        advanced_filter: advancedFilterProperty('sources'),
+      },
+    },
+  },
+  // ── Named preset tools ─────────────────────────────────────────────────────
+
+  {
+    name: 'list_journal_presets',
+    description:
+      'List all available named journal/conference presets and institution group presets. Call this first to discover which preset keys to pass to search_in_journal_list or the institution_group parameter. Presets include: UTD24, FT50, AJG/ABS 4*/4/3 tiers, top AI conferences, Management Science group, Nature/Science family, and institution groups (Ivy League, Top US, INSEAD+London, etc.).',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        category: {
+          type: 'string',
+          description: 'Filter by category: venues (journals/conferences) or institutions. Omit for all.',
+          enum: ['venues', 'institutions'],
+        },
+      },
+    },
+  },
+
+  {
+    name: 'search_in_journal_list',
+    description:
+      'Search for papers in a named list of top journals or conferences (preset) rather than specifying individual venues. This is the main tool for credibility-gated searches. Examples: search in UTD24 journals, FT50, AJG 4*, top AI conferences. Combine with author_institution or institution_group to answer questions like "AI papers in top AI conferences by Harvard/Stanford/MIT authors".',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        query: {
+          type: 'string',
+          description: 'Topic or keyword query (e.g., "artificial intelligence", "LLMs", "supply chain"). For exact phrase matching (e.g., \'privacy paradox\' as a specific concept), set exact_phrase to true.',
+        },
+        exact_phrase: {
+          type: 'boolean',
+          description: 'Set to true for exact phrase matching. Without this, search terms are matched independently. Use this when searching for a specific concept or multi-word term (e.g., \'privacy paradox\', \'supply chain resilience\').',
+          default: false,
+        },
+        search_field: {
+          type: 'string',
+          description: 'Restrict search to a specific field: \'title\' (paper titles only), \'abstract\' (abstracts only), or \'fulltext\' (full text only). By default, searches across all fields. With exact_phrase, the phrase is matched within this field.',
+          enum: ['title', 'abstract', 'fulltext'],
+        },
+        journal_list: {
+          type: 'string',
+          description: 'Preset journal list key. Use list_journal_presets to see all options. Common values: utd24, ft50, abs4star, abs4, abs3, top_ai_conferences, ms_misq_ops, nature_science, top_cs_conferences',
+        },
+        from_year: { type: 'number', description: 'From publication year' },
+        to_year: { type: 'number', description: 'To publication year' },
+        min_citations: { type: 'number', description: 'Minimum citation count (default: 0 = no filter)' },
+        author_institution: {
+          type: 'string',
+          description: 'Only papers by authors at this institution. Single name or pipe-separated OR list. E.g., "INSEAD" or "Harvard University|Stanford University"',
+        },
+        institution_group: {
+          type: 'string',
+          description: 'Named institution group: harvard_stanford_mit, ivy_league, top_us, top_us_business, insead_london, top_global_business, top_china',
+          enum: ['harvard_stanford_mit', 'ivy_league', 'top_us', 'top_us_business', 'insead_london', 'top_global_business', 'top_china'],
+        },
+        sort: {
+          type: 'string',
+          description: 'Sort: cited_by_count:desc (default), publication_year:desc, relevance_score',
+        },
+        per_page: { type: 'number', description: 'Results per page (default: 10, use 20 for broader coverage, max: 200)', maximum: 200 },
+        dedupe: DEDUPE_PROPERTY,
+      },
+      required: ['journal_list'],
+    },
+  },
+
+  // ── New tools for top-journal research ────────────────────────────────────
+
+  {
+    name: 'search_works_in_venue',
+    description:
+      'Search for papers published in a specific journal or conference. This is the primary tool for restricting citations to credible, high-impact venues. Identify the venue first via check_venue_quality or search_sources, then use its name, ISSN, or ID here.',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        query: {
+          type: 'string',
+          description: 'Topic or keyword query to search within the venue. For exact phrase matching (e.g., \'privacy paradox\' as a specific concept), set exact_phrase to true.',
+        },
+        exact_phrase: {
+          type: 'boolean',
+          description: 'Set to true for exact phrase matching. Without this, search terms are matched independently. Use this when searching for a specific concept or multi-word term (e.g., \'privacy paradox\', \'supply chain resilience\').',
+          default: false,
+        },
+        search_field: {
+          type: 'string',
+          description: 'Restrict search to a specific field: \'title\' (paper titles only), \'abstract\' (abstracts only), or \'fulltext\' (full text only). By default, searches across all fields. With exact_phrase, the phrase is matched within this field.',
+          enum: ['title', 'abstract', 'fulltext'],
+        },
+        venue_name: {
+          type: 'string',
+          description: 'Journal/conference name (partial match). E.g., "Nature", "NeurIPS", "ICML", "PNAS", "AAAI"',
+        },
+        venue_issn: {
+          type: 'string',
+          description: 'Journal ISSN for precise identification (e.g., "0028-0836" for Nature)',
+        },
+        venue_id: {
+          type: 'string',
+          description: 'OpenAlex source ID for precise identification',
+        },
+        from_year: { type: 'number', description: 'From publication year' },
+        to_year: { type: 'number', description: 'To publication year' },
+        min_citations: { type: 'number', description: 'Minimum citation count' },
+        sort: {
+          type: 'string',
+          description: 'Sort: cited_by_count:desc (default for credibility), publication_year:desc, relevance_score',
+        },
+        per_page: { type: 'number', description: 'Results per page (default: 10, use 20 for broader coverage, max 200)', maximum: 200 },
+      },
+    },
+  },
+
+  {
+    name: 'get_top_venues_for_field',
+    description:
+      'Get the top journals and conferences for a specific research field ranked by h-index. Essential first step before searching for citations — use this to identify credible venues, then use search_works_in_venue to restrict searches to them.',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        query: {
+          type: 'string',
+          description: 'Field or topic name (e.g., "machine learning", "climate science", "genetics"). For exact phrase matching (e.g., \'privacy paradox\' as a specific concept), set exact_phrase to true.',
+        },
+        exact_phrase: {
+          type: 'boolean',
+          description: 'Set to true for exact phrase matching. Without this, search terms are matched independently. Use this when searching for a specific concept or multi-word term (e.g., \'privacy paradox\', \'supply chain resilience\').',
+          default: false,
+        },
+        type: {
+          type: 'string',
+          description: 'Venue type: journal, conference, repository (default: journal)',
+          enum: ['journal', 'conference', 'repository'],
+        },
+        per_page: { type: 'number', description: 'Number of venues to return (default: 10, max: 50)', maximum: 50 },
+      },
+      required: ['query'],
+    },
+  },
+
+  {
+    name: 'check_venue_quality',
+    description:
+      'Check the quality and prestige metrics of a journal or conference. Returns h-index, citation impact, and indexing status. Use before citing a paper to confirm the venue is reputable.',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        venue_name: {
+          type: 'string',
+          description: 'Journal or conference name to look up',
+        },
+        venue_issn: {
+          type: 'string',
+          description: 'ISSN for precise lookup',
+        },
+        venue_id: {
+          type: 'string',
+          description: 'OpenAlex source ID',
+        },
+      },
+    },
+  },
+
+  {
+    name: 'get_author_profile',
+    description:
+      'Get a comprehensive research profile for an author: h-index, i10-index, total citations, top-cited works, recent works, and main research topics. Use this to identify key researchers, potential reviewers, or to study an expert\'s body of work.',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        author_id: {
+          type: 'string',
+          description: 'Author identifier: OpenAlex ID (A1234), ORCID (0000-0001-2345-6789), or full URL',
+        },
+        top_works_count: {
+          type: 'number',
+          description: 'Number of top-cited works to return (default: 5)',
+        },
+        recent_works_count: {
+          type: 'number',
+          description: 'Number of recent works to return (default: 5)',
+        },
+      },
+      required: ['author_id'],
+    },
+  },
+
+  {
+    name: 'search_authors_by_expertise',
+    description:
+      'Find leading researchers/experts in a specific topic or research area, ranked by h-index or citation count. More useful than search_authors when you do not know names but need to identify key figures in a field.',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        topic: {
+          type: 'string',
+          description: 'Research topic or field (e.g., "transformer models", "CRISPR gene editing"). For exact phrase matching (e.g., \'privacy paradox\' as a specific concept), set exact_phrase to true.',
+        },
+        exact_phrase: {
+          type: 'boolean',
+          description: 'Set to true for exact phrase matching. Without this, search terms are matched independently. Use this when searching for a specific concept or multi-word term (e.g., \'privacy paradox\', \'supply chain resilience\').',
+          default: false,
+        },
+        min_h_index: {
+          type: 'number',
+          description: 'Minimum h-index to filter senior researchers (e.g., 20 for established researchers)',
+        },
+        min_cited_by_count: {
+          type: 'number',
+          description: 'Minimum total citations (alternative to min_h_index)',
+        },
+        institution: {
+          type: 'string',
+          description: 'Filter by institution',
+        },
+        per_page: { type: 'number', description: 'Results per page (default: 10, max: 50)', maximum: 50 },
+      },
+      required: ['topic'],
+    },
+  },
+
+  {
+    name: 'find_review_articles',
+    description:
+      'Find review articles, systematic reviews, and meta-analyses on a topic. Reviews summarize the state-of-the-art and are high-value citations that establish context in top papers. Optionally restrict to specific high-impact journals.',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        query: {
+          type: 'string',
+          description: 'Topic or research question. For exact phrase matching (e.g., \'privacy paradox\' as a specific concept), set exact_phrase to true.',
+        },
+        exact_phrase: {
+          type: 'boolean',
+          description: 'Set to true for exact phrase matching. Without this, search terms are matched independently. Use this when searching for a specific concept or multi-word term (e.g., \'privacy paradox\', \'supply chain resilience\').',
+          default: false,
+        },
+        search_field: {
+          type: 'string',
+          description: 'Restrict search to a specific field: \'title\' (paper titles only), \'abstract\' (abstracts only), or \'fulltext\' (full text only). By default, searches across all fields. With exact_phrase, the phrase is matched within this field.',
+          enum: ['title', 'abstract', 'fulltext'],
+        },
+        from_year: { type: 'number', description: 'From year' },
+        to_year: { type: 'number', description: 'To year' },
+        source_name: {
+          type: 'string',
+          description: 'Restrict to a specific journal (e.g., "Nature Reviews", "Annual Review")',
+        },
+        min_citations: {
+          type: 'number',
+          description: 'Minimum citations (default: 10; use 50+ for highly-cited reviews)',
+        },
+        per_page: { type: 'number', description: 'Results per page (default: 10, max: 50)', maximum: 50 },
+      },
+      required: ['query'],
+    },
+  },
+
+  {
+    name: 'find_seminal_papers',
+    description:
+      'Find seminal/foundational papers in a research area — those published more than 5 years ago with very high citations. These are the "must-cite" papers that establish the intellectual lineage of a field. Use to identify citations that reviewers expect to see.',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        query: {
+          type: 'string',
+          description: 'Research topic or concept. For exact phrase matching (e.g., \'privacy paradox\' as a specific concept), set exact_phrase to true.',
+        },
+        exact_phrase: {
+          type: 'boolean',
+          description: 'Set to true for exact phrase matching. Without this, search terms are matched independently. Use this when searching for a specific concept or multi-word term (e.g., \'privacy paradox\', \'supply chain resilience\').',
+          default: false,
+        },
+        search_field: {
+          type: 'string',
+          description: 'Restrict search to a specific field: \'title\' (paper titles only), \'abstract\' (abstracts only), or \'fulltext\' (full text only). By default, searches across all fields. With exact_phrase, the phrase is matched within this field.',
+          enum: ['title', 'abstract', 'fulltext'],
+        },
+        min_citations: {
+          type: 'number',
+          description: 'Minimum citation count (default: 200 since these are foundational papers)',
+        },
+        published_before: {
+          type: 'number',
+          description: 'Only papers published before this year (default: current year - 5)',
+        },
+        source_name: {
+          type: 'string',
+          description: 'Restrict to a specific venue (e.g., "Nature", "Science", "NeurIPS")',
+        },
+        per_page: { type: 'number', description: 'Results per page (default: 10, max: 50)', maximum: 50 },
+      },
+      required: ['query'],
+    },
+  },
+
+  {
+    name: 'batch_resolve_references',
+    description:
+      'Resolve a list of DOIs or work IDs to full work metadata in one call. Useful for checking reference lists: validate that a set of citations are real, credible, and appropriately cited.',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        ids: {
+          type: 'array',
+          items: { type: 'string' },
+          description: 'List of DOIs (e.g., "10.1038/nature12373") or OpenAlex IDs (e.g., "W2741809807"). Max 20 per call.',
+        },
+        format: {
+          type: 'string',
+          description: 'Output format: json (summaries with per-ID errors, default), or bibtex, ris, csl-json for the resolved works (unresolved IDs are listed separately).',
+          enum: ['json', 'bibtex', 'ris', 'csl-json'],
+          default: 'json',
+        },
+      },
+      required: ['ids'],
+    },
+  },
+
+  {
+    name: 'verify_bibliography',
+    description:
+      'Verify a reference list given as free text (APA, Vancouver, IEEE/Chicago-style or BibTeX entries). Parses each reference into DOI, title, year, authors and venue, then resolves it against OpenAlex by DOI lookup or, without a usable DOI, by title search with fuzzy scoring. Reports per reference the matched work ID, a confidence score (0–1), a status (matched / uncertain / not_found / unparsed) and mismatches such as a wrong year, a misspelled author, a different venue or a DOI that points to another paper. Up to 100 references per call.',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        references: {
+          type: 'array',
+          items: { type: 'string' },
+          description: 'One reference string (or BibTeX entry) per item. Max 100.',
+        },
+        bibliography: {
+          type: 'string',
+          description: 'A pasted bibliography: references separated by blank lines or line breaks, numbered ([1], 1.) entries, or BibTeX. Used when references is not given.',
+        },
+      },
+    },
+  },
+
+  {
+    name: 'snowball',
+    description:
+      'Systematic-review citation snowballing. Starting from seed works, follows references (backward), citing works (forward) or both, level by level up to a given depth. Deduplicates across levels and records for every work the level, direction, originating seed and the work it was reached via. Each level keeps the most-cited works up to max_per_level; year and citation filters apply at every level. Returns compact records — hydrate with batch_resolve_references or export_citations.',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        seed_ids: {
+          type: 'array',
+          items: { type: 'string' },
+          description: 'Seed works: OpenAlex IDs (e.g., "W2741809807") or DOIs. Max 25.',
+        },
+        direction: {
+          type: 'string',
+          description: 'backward (references), forward (citing works), or both (default)',
+          enum: ['backward', 'forward', 'both'],
+          default: 'both',
+        },
+        depth: {
+          type: 'number',
+          description: 'Number of hops from the seeds (default: 1, max: 3)',
+          maximum: 3,
+        },
+        max_per_level: {
+          type: 'number',
+          description: 'Maximum new works kept per level, most-cited first (default: 50, max: 500)',
+          maximum: 500,
+        },
+        max_citing_per_work: {
+          type: 'number',
+          description: 'Forward snowballing: citing works fetched per frontier work, most-cited first (default: 25, max: 200)',
+          maximum: 200,
+        },
+        from_year: { type: 'number', description: 'Only include works published from this year' },
+        to_year: { type: 'number', description: 'Only include works published up to this year' },
+        min_citations: { type: 'number', description: 'Only include works with at least this many citations' },
+      },
+      required: ['seed_ids'],
+    },
+  },
+
+  {
+    name: 'check_integrity',
+    description:
+      'Research-integrity screening for manuscript review. For each work, reports whether it is retracted or paratext (front matter, indexes, …), lists the retracted works it cites (its references checked against is_retracted) and flags self-citation-heavy reference lists (references sharing an author with the work). Returns a per-work report with status clear / needs_review / retracted; use format "markdown" for a report to attach to a review.',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        ids: {
+          type: 'array',
+          items: { type: 'string' },
+          description: 'Works to screen: OpenAlex IDs (e.g., "W2741809807") and/or DOIs. Max 25.',
+        },
+        self_citation_threshold: {
+          type: 'number',
+          description: 'Share of resolved references sharing an author with the work at which it is flagged as self-citation-heavy (default: 0.25; at least 3 self-citations are always required)',
+          maximum: 1,
+        },
+        format: {
+          type: 'string',
+          description: 'json (default) or markdown (a report ready to attach to a manuscript review)',
+          enum: ['json', 'markdown'],
+          default: 'json',
+        },
+      },
+      required: ['ids'],
+    },
+  },
+
+  {
+    name: 'export_citations',
+    description:
+      'Export a list of works as BibTeX, RIS or CSL-JSON for import into a reference manager (Zotero, EndNote, Mendeley, etc.). Includes the full author list, DOI, venue, volume/issue/pages and a stable citation key (e.g. vaswani2017attention). Accepts OpenAlex IDs (fetched in batches) and DOIs.',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        ids: {
+          type: 'array',
+          items: { type: 'string' },
+          description: 'OpenAlex work IDs (e.g., "W2741809807") and/or DOIs (e.g., "10.1038/nature12373"). Max 200 per call.',
+        },
+        format: {
+          type: 'string',
+          description: 'Export format (default: bibtex)',
+          enum: ['bibtex', 'ris', 'csl-json'],
+          default: 'bibtex',
+        },
+      },
+      required: ['ids'],
+    },
+  },
+
+  {
+    name: 'export_citation_graph',
+    description:
+      'Build a citation graph around one or more seed works — the seeds, their most-cited citing works and their references — and export it for network tools: GraphML or GEXF (Gephi, Cytoscape), DOT (Graphviz) or JSON node-link (d3, networkx). Edges point from citing to cited work and include citations among all works in the graph. Nodes carry year, citations, venue, topic, field, FWCI and role (seed/citing/reference).',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        seed_ids: {
+          type: 'array',
+          items: { type: 'string' },
+          description: 'Seed works: OpenAlex IDs and/or DOIs (max 25)',
+        },
+        format: {
+          type: 'string',
+          description: 'Graph format (default: graphml)',
+          enum: ['graphml', 'gexf', 'dot', 'json'],
+          default: 'graphml',
+        },
+        max_citing_per_seed: {
+          type: 'number',
+          description: 'Most-cited citing works to include per seed (default: 25, max: 200, 0 to skip)',
+          maximum: 200,
+        },
+        max_references_per_seed: {
+          type: 'number',
+          description: 'References to include per seed (default: 50, max: 200, 0 to skip)',
+          maximum: 200,
+        },
+      },
+      required: ['seed_ids'],
+    },
+  },
+
+  {
+    name: 'find_open_access_version',
+    description:
+      'Find freely available (open access) versions of papers, including preprints on arXiv, bioRxiv, and institutional repositories. Useful for accessing full text without a subscription.',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        query: {
+          type: 'string',
+          description: 'Topic query to find OA papers on. For exact phrase matching (e.g., \'privacy paradox\' as a specific concept), set exact_phrase to true.',
+        },
+        exact_phrase: {
+          type: 'boolean',
+          description: 'Set to true for exact phrase matching. Without this, search terms are matched independently. Use this when searching for a specific concept or multi-word term (e.g., \'privacy paradox\', \'supply chain resilience\').',
+          default: false,
+        },
+        search_field: {
+          type: 'string',
+          description: 'Restrict search to a specific field: \'title\' (paper titles only), \'abstract\' (abstracts only), or \'fulltext\' (full text only). By default, searches across all fields. With exact_phrase, the phrase is matched within this field.',
+          enum: ['title', 'abstract', 'fulltext'],
+        },
+        from_year: { type: 'number', description: 'From publication year' },
+        source_name: {
+          type: 'string',
+          description: 'Optional: restrict to a specific venue',
+        },
+        min_citations: { type: 'number', description: 'Minimum citation count' },
+        per_page: { type: 'number', description: 'Results per page (default: 10, max: 50)', maximum: 50 },
+      },
+      required: ['query'],
+    },
+  },
+
+  // ── Saved searches ────────────────────────────────────────────────────────
+
+  {
+    name: 'save_search',
+    description:
+      'Save a search_works or search_in_journal_list query under a name for monitoring a field. Re-run it later with run_saved_search to get only the works that are new since the previous run. Searches are stored in a local JSON file (OPENALEX_DATA_DIR, default ~/.openalex-mcp).',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        name: { type: 'string', description: 'Unique name for the search, e.g. "llm-education-weekly"' },
+        tool: {
+          type: 'string',
+          description: 'The tool whose arguments are being saved',
+          enum: SAVED_SEARCH_TOOLS,
+        },
+        params: {
+          type: 'object',
+          description: 'Arguments for that tool, exactly as you would pass them (e.g. { "query": "large language models", "from_year": 2023 }). Paging and output options (page, per_page, fetch_all, max_results, format) are not saved.',
+        },
+        description: { type: 'string', description: 'Optional note on what the search monitors' },
+        overwrite: {
+          type: 'boolean',
+          description: 'Replace an existing search with the same name (its run history is reset)',
+          default: false,
+        },
+      },
+      required: ['name', 'tool', 'params'],
+    },
+  },
+
+  {
+    name: 'list_saved_searches',
+    description:
+      'List saved searches with their query, last run and number of works seen so far. Pass a name to get that search with its full run history.',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        name: { type: 'string', description: 'Only this saved search, including its run history' },
+      },
+    },
+  },
+
+  {
+    name: 'run_saved_search',
+    description:
+      'Run a saved search and return only the works not returned by its earlier runs. Results are fetched newest first (publication_date:desc) up to max_results and diffed by work ID; with an OpenAlex API key the query is also narrowed to works added since the previous run (from_created_date). The first run records a baseline and returns everything fetched. Each run is added to the saved history.',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        name: { type: 'string', description: 'Name of the saved search' },
+        max_results: {
+          type: 'number',
+          description: 'Maximum works to fetch and compare (default: 200, max: 2000)',
+          maximum: 2000,
+        },
+        dedupe: DEDUPE_PROPERTY,
+      },
+      required: ['name'],
+    },
+  },
+
+  {
+    name: 'delete_saved_search',
+    description: 'Delete a saved search and its run history.',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        name: { type: 'string', description: 'Name of the saved search' },
+      },
+      required: ['name'],
+    },
+  },
+
+  // ── Systematic-review screening ───────────────────────────────────────────
+  {
+    name: 'screening_create',
+    description:
+      'Start a systematic-review screening session (PRISMA 2020). Runs one or more search definitions — search_works or search_in_journal_list arguments, or saved searches — up to max_per_search results each, removes duplicates (the same work found by several searches, and preprint/published versions of one paper) and stores every remaining record as not yet screened. Record decisions with screening_decide; get flow counts with screening_prisma.',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        name: { type: 'string', description: 'Session name (e.g. "llm-education-review")' },
+        description: { type: 'string', description: 'Optional review question or protocol note' },
+        searches: {
+          type: 'array',
+          description: 'Search definitions, run in order (max 10)',
+          items: {
+            type: 'object',
+            properties: {
+              label: { type: 'string', description: 'Name shown in PRISMA counts (default: "search 1", "search 2", …)' },
+              tool: {
+                type: 'string',
+                description: 'Tool whose arguments params holds (default: search_works)',
+                enum: SAVED_SEARCH_TOOLS,
+              },
+              params: {
+                type: 'object',
+                description: 'Arguments for that tool (e.g. { "query": "large language models", "from_year": 2020 })',
+              },
+              saved_search: { type: 'string', description: 'Run this saved search instead of tool/params' },
+            },
+          },
+        },
+        max_per_search: {
+          type: 'number',
+          description: 'Maximum records retrieved per search (default: 500, max: 2000)',
+          maximum: 2000,
+        },
+        dedupe_versions: {
+          type: 'boolean',
+          description: 'Also merge preprint/published versions of the same paper into one record (default: true)',
+          default: true,
+        },
+        overwrite: {
+          type: 'boolean',
+          description: 'Replace an existing session with the same name (its decisions are discarded)',
+          default: false,
+        },
+      },
+      required: ['name', 'searches'],
+    },
+  },
+
+  {
+    name: 'screening_records',
+    description:
+      'Page through the records of a screening session by decision (default: not yet screened), with title, year, first author, venue and the searches that found them. Set with_abstracts to fetch each record\'s current OpenAlex summary including its abstract, for title/abstract screening.',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        name: { type: 'string', description: 'Session name' },
+        decision: {
+          type: 'string',
+          description: 'Which records to return (default: pending)',
+          enum: ['pending', 'include', 'exclude', 'maybe', 'all'],
+          default: 'pending',
+        },
+        limit: { type: 'number', description: 'Records per call (default: 25, max: 200)', maximum: 200 },
+        offset: { type: 'number', description: 'Records to skip (default: 0)' },
+        with_abstracts: {
+          type: 'boolean',
+          description: 'Include the OpenAlex work summary with abstract (fetched in batches of 50)',
+          default: false,
+        },
+      },
+      required: ['name'],
+    },
+  },
+
+  {
+    name: 'screening_decide',
+    description:
+      'Record include / exclude / maybe decisions for records of a screening session, each with an optional reason (exclusion reasons are tallied in the PRISMA counts). Records are identified by OpenAlex ID; the ID of a merged duplicate finds its record. A new decision replaces the previous one.',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        name: { type: 'string', description: 'Session name' },
+        decisions: {
+          type: 'array',
+          description: 'Decisions to record (max 500 per call)',
+          items: {
+            type: 'object',
+            properties: {
+              id: { type: 'string', description: 'OpenAlex work ID (e.g., "W2741809807")' },
+              decision: { type: 'string', enum: SCREENING_DECISIONS },
+              reason: { type: 'string', description: 'Reason, e.g. "wrong population" (recommended for exclusions)' },
+            },
+            required: ['id', 'decision'],
+          },
+        },
+      },
+      required: ['name', 'decisions'],
+    },
+  },
+
+  {
+    name: 'screening_prisma',
+    description:
+      'PRISMA 2020 flow counts for a screening session: records identified per search, duplicates removed, records screened, excluded (by reason), undecided and included. Without a name, lists every session with its counts. format "markdown" renders the flow as an outline for a report.',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        name: { type: 'string', description: 'Only this session' },
+        format: {
+          type: 'string',
+          description: 'Output format (default: json)',
+          enum: ['json', 'markdown'],
+          default: 'json',
+        },
+      },
+    },
+  },
+
+  {
+    name: 'screening_export',
+    description:
+      'Export the included records of a screening session (or those with another decision), re-fetched from OpenAlex: JSON work summaries with decision, reason and the searches that found them, or BibTeX, RIS or CSL-JSON for a reference manager.',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        name: { type: 'string', description: 'Session name' },
+        decision: {
+          type: 'string',
+          description: 'Records to export (default: include)',
+          enum: ['include', 'exclude', 'maybe', 'pending', 'all'],
+          default: 'include',
+        },
+        format: {
+          type: 'string',
+          description: 'Export format (default: json)',
+          enum: ['json', 'bibtex', 'ris', 'csl-json'],
+          default: 'json',
+        },
+      },
+      required: ['name'],
+    },
+  },
+
+  // ── Collections ───────────────────────────────────────────────────────────
+  {
+    name: 'collection_create',
+    description:
+      'Create a named collection (reading list) of works stored locally, so a corpus can be assembled across tool calls. Add works with collection_add; read them back with collection_list or collection_export.',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        name: { type: 'string', description: 'Collection name (e.g. "llm-review")' },
+        description: { type: 'string', description: 'Optional note on what the collection is for' },
+      },
+      required: ['name'],
+    },
+  },
+
+  {
+    name: 'collection_add',
+    description:
+      'Add works to a collection, with optional tags and a note. Accepts OpenAlex IDs/DOIs and/or the results array of any works-list tool (search_works, get_work_citations, snowball, …) — only each work\'s id/doi is read. Works already in the collection keep their place; new tags are merged and a given note replaces the old one.',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        name: { type: 'string', description: 'Collection name' },
+        ids: {
+          type: 'array',
+          items: { type: 'string' },
+          description: 'OpenAlex work IDs (e.g., "W2741809807") and/or DOIs',
+        },
+        works: {
+          type: 'array',
+          items: { type: 'object' },
+          description: 'Works as returned by another tool (e.g. its "results" array); each needs an "id" or "doi"',
+        },
+        tags: {
+          type: 'array',
+          items: { type: 'string' },
+          description: 'Tags to attach to every added work (e.g. ["include", "methods"])',
+        },
+        note: { type: 'string', description: 'Note to attach to every added work' },
+        create: {
+          type: 'boolean',
+          description: 'Create the collection if it does not exist yet',
+          default: false,
+        },
+      },
+      required: ['name'],
+    },
+  },
+
+  {
+    name: 'collection_remove',
+    description:
+      'Remove works from a collection by OpenAlex ID or DOI. With tags, only those tags are removed from the works (from every work when no IDs are given) and the works stay in the collection.',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        name: { type: 'string', description: 'Collection name' },
+        ids: {
+          type: 'array',
+          items: { type: 'string' },
+          description: 'OpenAlex work IDs and/or DOIs to remove',
+        },
+        tags: {
+          type: 'array',
+          items: { type: 'string' },
+          description: 'Remove only these tags instead of the works',
+        },
+      },
+      required: ['name'],
+    },
+  },
+
+  {
+    name: 'collection_list',
+    description:
+      'List collections with their size and tag counts. Pass a name to get that collection\'s works (IDs, tags, notes), optionally re-fetched from OpenAlex with hydrate.',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        name: { type: 'string', description: 'Only this collection, including its works' },
+        tag: { type: 'string', description: 'Only works with this tag (with name)' },
+        hydrate: {
+          type: 'boolean',
+          description: 'Include each work\'s current OpenAlex summary (fetched in batches of 50)',
+          default: false,
+        },
+      },
+    },
+  },
+
+  {
+    name: 'collection_export',
+    description:
+      'Export a collection, re-fetched from OpenAlex: JSON work summaries with their tags and notes, or BibTeX, RIS or CSL-JSON for a reference manager. Works OpenAlex no longer returns are listed as missing/unresolved.',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        name: { type: 'string', description: 'Collection name' },
+        tag: { type: 'string', description: 'Only works with this tag' },
+        format: {
+          type: 'string',
+          description: 'Export format (default: json)',
+          enum: ['json', 'bibtex', 'ris', 'csl-json'],
+          default: 'json',
+        },
+      },
+      required: ['name'],
+    },
+  },
+
+  {
+    name: 'health_check',
+    description:
+      'Check the health status of the OpenAlex MCP server and API connectivity. Returns cache status and configuration information.',
+    inputSchema: {
+      type: 'object',
+      properties: {},
+    },
+  },
+];
+
+// Every tool advertises the shape of its structuredContent (see TOOL_OUTPUT_SCHEMAS)
+for (const tool of tools) {
+  tool.outputSchema = toolOutputJsonSchema(tool.name);
+}
+
+/**
+ * Standard tool result: compact JSON text plus the same data as structuredContent
+ * (validated by clients against the tool's outputSchema). Round-tripping through
+ * JSON drops undefined fields so both forms match exactly.
+ */
+function jsonResult(data: object): CallToolResult {
+  const text = JSON.stringify(data);
+  return {
+    content: [{ type: 'text', text }],
+    structuredContent: JSON.parse(text),
+  };
+}
+
+/**
+ * Text export (citations, graphs) as a tool result: the document itself as text,
+ * plus a JSON block listing any IDs that could not be resolved.
+ */
+function documentResult(format: string, document: string, unresolved: string[] = []): CallToolResult {
+  const content: CallToolResult['content'] = [{ type: 'text', text: document }];
+  const structuredContent: Record<string, unknown> = { format, document };
+  if (unresolved.length > 0) {
+    content.push({ type: 'text', text: JSON.stringify({ unresolved }) });
+    structuredContent.unresolved = unresolved;
+  }
+  return { content, structuredContent };
+}
+
+/**
+ * True when a tool's `format` parameter asks for reference-manager output.
+ */
+function isCitationFormat(format: unknown): format is CitationFormat {
+  return CITATION_FORMATS.includes(format as CitationFormat);
+}
+
+/**
+ * Reference-manager output (BibTeX, RIS, CSL-JSON) as a tool result.
+ */
+function citationResult(works: any[], format: CitationFormat, unresolved: string[] = []): CallToolResult {
+  return documentResult(format, formatCitations(works, format), unresolved);
+}
+
+/**
+ * Graph export (GraphML, GEXF, DOT, node-link) as a tool result.
+ */
+function graphResult(graph: Graph, format: GraphFormat, unresolved: string[] = []): CallToolResult {
+  return documentResult(format, formatGraph(graph, format), unresolved);
+}
+
+/**
+ * fetch_all / max_results mode: true when the caller asked for more than one page.
+ */
+function wantsAllResults(params: any): boolean {
+  return params.fetch_all === true || params.max_results !== undefined;
+}
+
+function fetchAllLimit(maxResults?: number): number {
+  return Math.min(maxResults || CONFIG.MCP.DEFAULT_FETCH_ALL_RESULTS, CONFIG.MCP.MAX_FETCH_ALL_RESULTS);
+}
+
+/**
+ * Collect works via cursor paging (bypassing the 10,000-result page cap) and
+ * summarize them like summarizeWorksList, with paging meta replaced by totals.
+ * per_page is dropped so that every request fetches a full page.
+ */
+async function fetchAllWorks(openAlexClient: OpenAlexClient, options: SearchOptions, maxResults?: number, dedupe = false) {
+  const limit = fetchAllLimit(maxResults);
+  const { count, results, truncated } = await openAlexClient.paginateAll('works', { ...options, perPage: undefined }, limit);
+  return {
+    meta: {
+      count,
+      fetched: results.length,
+      max_results: limit,
+      truncated,
+    },
+    ...(dedupe ? dedupeWorks(results) : { results: results.map(summarizeWork) }),
+  };
+}
+
+/**
+ * One page of works as summarizeWorksList, with duplicates merged when the
+ * caller passed dedupe: true.
+ */
+function worksPage(response: any, dedupe = false) {
+  const summary = summarizeWorksList(response);
+  return dedupe ? { ...summary, ...dedupeWorks(response.results || []) } : summary;
+}
+
+/**
+ * SearchOptions for search_works (also used to run saved searches).
+ */
+function searchWorksOptions(params: any): SearchOptions {
+  const filter = buildFilter(params);
+  const { search, filterAdditions } = applySearchField(params.query, params.search_field, params.exact_phrase);
+  if (filterAdditions) Object.assign(filter, filterAdditions);
+  Object.assign(filter, buildAdvancedFilter('works', params.advanced_filter));
+  return {
+    search,
+    filter,
+    sort: params.sort,
+    page: params.page || 1,
+    perPage: params.per_page || DEFAULT_PAGE_SIZE,
+  };
+}
+
+/**
+ * A venue preset by key. Throws on an unknown preset, listing the available ones.
+ */
+function venuePreset(key: string): VenuePreset {
+  const preset = VENUE_PRESETS[key];
+  if (!preset) {
+    const available = Object.keys(VENUE_PRESETS).join(', ');
+    throw new Error(
+      `Unknown journal_list preset: "${key}". Available presets: ${available}. ` +
+      'Call list_journal_presets to see all options with descriptions.'
+    );
+  }
+  return preset;
+}
+
+/**
+ * Preset and SearchOptions for search_in_journal_list (also used to run saved
+ * searches). Throws on an unknown preset.
+ */
+function journalListOptions(params: any): { preset: VenuePreset; options: SearchOptions } {
+  const preset = venuePreset(params.journal_list);
+
+  // ── Venue filter ──────────────────────────────────────────────────
+  const filter: FilterOptions = venueFilter(preset);
+
+  // ── Institution filter ────────────────────────────────────────────
+  if (params.institution_group) {
+    const group = INSTITUTION_GROUPS[params.institution_group];
+    if (group) {
+      filter['authorships.institutions.display_name'] = group.institutions.join('|');
+    }
+  } else if (params.author_institution) {
+    filter['authorships.institutions.display_name'] = params.author_institution;
+  }
+
+  // ── Year range ────────────────────────────────────────────────────
+  if (params.from_year && params.to_year) {
+    filter['publication_year'] = `${params.from_year}-${params.to_year}`;
+  } else if (params.from_year) {
+    filter['publication_year'] = `>${params.from_year - 1}`;
+  } else if (params.to_year) {
+    filter['publication_year'] = `<${params.to_year + 1}`;
+  }
+
+  // ── Citation threshold ────────────────────────────────────────────
+  if (params.min_citations !== undefined && params.min_citations > 0) {
+    filter['cited_by_count'] = `>${params.min_citations - 1}`;
+  }
+
+  const { search: searchQuery, filterAdditions } = applySearchField(params.query, params.search_field, params.exact_phrase);
+  if (filterAdditions) Object.assign(filter, filterAdditions);
+
+  const options: SearchOptions = {
+    search: searchQuery,
+    filter,
+    sort: params.sort || 'cited_by_count:desc',
+    perPage: params.per_page || DEFAULT_PAGE_SIZE,
+  };
+
+  return { preset, options };
+}
+
+function savedSearchOptions(tool: SavedSearchTool, params: any): SearchOptions {
+  return tool === 'search_works' ? searchWorksOptions(params) : journalListOptions(params).options;
+}
+
+/**
+ * A saved search as listed: the query and its latest run, without the seen IDs.
+ */
+function summarizeSavedSearch(search: SavedSearch, withHistory = false) {
+  return {
+    name: search.name,
+    tool: search.tool,
+    params: search.params,
+    description: search.description,
+    created_at: search.created_at,
+    last_run_at: search.last_run_at,
+    run_count: search.runs.length,
+    seen_count: search.seen_ids.length,
+    last_run: search.runs[search.runs.length - 1] ?? null,
+    ...(withHistory && { runs: search.runs }),
+  };
+}
+
+/**
+ * A screening session as listed: its searches and record count, without the records.
+ */
+function summarizeScreeningSession(session: ScreeningSession) {
+  return {
+    name: session.name,
+    description: session.description,
+    created_at: session.created_at,
+    updated_at: session.updated_at,
+    searches: session.searches,
+    records: session.records.length,
+  };
+}
+
+/**
+ * Turn screening_create search definitions into runnable searches. Saved
+ * searches are looked up by name; arguments are validated like the tool's own.
+ */
+async function screeningSearches(definitions: any[]): Promise<ScreeningSearchInput[]> {
+  const searches: ScreeningSearchInput[] = [];
+  for (const [i, definition] of definitions.entries()) {
+    const saved = definition.saved_search ? await savedSearchStore().get(definition.saved_search) : undefined;
+    const tool: SavedSearchTool = saved?.tool ?? definition.tool ?? 'search_works';
+    const searchParams = saved?.params ?? definition.params;
+    validateInput(TOOL_SCHEMAS[tool], searchParams, tool);
+    searches.push({
+      label: definition.label || saved?.name || `search ${i + 1}`,
+      tool,
+      params: searchParams,
+      // Cursor paging picks its own page size
+      options: { ...savedSearchOptions(tool, searchParams), perPage: undefined },
+    });
+  }
+  const labels = searches.map(search => search.label);
+  const repeated = labels.find((label, i) => labels.indexOf(label) !== i);
+  if (repeated) throw new Error(`Search labels must be unique; "${repeated}" is used more than once.`);
+  return searches;
+}
+
+/**
+ * A collection as listed: its size and tag counts, without the items.
+ */
+function summarizeCollection(collection: Collection) {
+  return {
+    name: collection.name,
+    description: collection.description,
+    created_at: collection.created_at,
+    updated_at: collection.updated_at,
+    size: collection.items.length,
+    tags: tagCounts(collection),
+  };
+}
+
+// Handle tool calls
+async function callTool(openAlexClient: OpenAlexClient, request: CallToolRequest): Promise<CallToolResult> {
+  const { name, arguments: args } = request.params;
+  debug('Tool call:', name, JSON.stringify(args));
+
+  try {
+    // Type assertion for args
+    const params = args as any;
+
+    // Validate input against the tool's schema (throws a clear error on bad input).
+    // We validate for errors but keep `params` as the source of truth rather than
+    // swapping to the parsed result, so a handler never loses a field that an
+    // incomplete schema happens to omit. health_check takes no args and is absent.
+    const schema = TOOL_SCHEMAS[name];
+    if (schema) {
+      validateInput(schema, params, name);
+    }
+
+    switch (name) {
+      case 'search_works': {
+        const options = searchWorksOptions(params);
+        if (isCitationFormat(params.format)) {
+          const works = wantsAllResults(params)
+            ? (await openAlexClient.paginateAll('works', { ...options, perPage: undefined }, fetchAllLimit(params.max_results))).results
+            : (await openAlexClient.getWorks(options)).results;
+          return citationResult(params.dedupe ? clusterWorks(works).map(c => c.canonical) : works, params.format);
+        }
+        const summary = wantsAllResults(params)
+          ? await fetchAllWorks(openAlexClient, options, params.max_results, params.dedupe)
+          : worksPage(await openAlexClient.getWorks(options), params.dedupe);
+        return jsonResult(summary);
+      }
+
+      case 'get_work': {
+        const work = await openAlexClient.getWork(params.id);
+        if (isCitationFormat(params.format)) {
+          return citationResult([work], params.format);
+        }
+        const fullDetails = getFullWorkDetails(work);
+        return jsonResult(fullDetails);
+      }
+
+      case 'get_related_works': {
+        const work = await openAlexClient.getWork(params.id);
+        const relatedIds: string[] = work.related_works || [];
+
+        // Fetch all related works in ONE request via the ids.openalex filter
+        // (was N separate getWork calls). Strip the URL prefix to bare W-ids,
+        // then restore the original related_works order (the API returns its own).
+        const limit = Math.min(params.per_page || DEFAULT_PAGE_SIZE, relatedIds.length);
+        const bareIds = relatedIds.slice(0, limit).map(u => u.split('/').pop()!);
+        let relatedWorks: any[] = [];
+        if (bareIds.length > 0) {
+          const results = await openAlexClient.getWorks({
+            filter: { 'ids.openalex': bareIds.join('|') },
+            perPage: bareIds.length,
+          });
+          const byId = new Map<string, any>(
+            results.results.map((w: any): [string, any] => [String(w.id).split('/').pop()!, w])
+          );
+          relatedWorks = bareIds
+            .map(id => byId.get(id))
+            .filter(Boolean)
+            .map(summarizeWork);
+        }
+
+        return jsonResult({ related_works: relatedWorks });
+      }
+
+      case 'search_by_topic': {
+        const filter = buildFilter(params);
+        const { search, filterAdditions } = applySearchField(params.topic, params.search_field, params.exact_phrase);
+        if (filterAdditions) Object.assign(filter, filterAdditions);
+        Object.assign(filter, buildAdvancedFilter('works', params.advanced_filter));
+        const options: SearchOptions = {
+          search,
+          filter,
+          sort: params.sort || 'relevance_score',
+          perPage: params.per_page || DEFAULT_PAGE_SIZE,
+        };
+        const results = await openAlexClient.getWorks(options);
+        const summary = summarizeWorksList(results);
+        return jsonResult(summary);
+      }
+
+      case 'autocomplete_search': {
+        const results = await openAlexClient.autocomplete(params.entity_type, params.query);
+        return jsonResult(results);
+      }
+
+      case 'build_search_query': {
+        const entityType: QueryEntity = params.entity_type || 'works';
+        const { search, filter } = compileSearchQuery(params.query, entityType, params.search_field);
+        const filterParam = Object.entries(filter).map(([key, value]) => `${key}:${value}`).join(',');
+        return jsonResult({
+          query: params.query,
+          entity_type: entityType,
+          search: search ?? null,
+          filter,
+          // Exactly what is sent as URL parameters (before encoding)
+          api_params: {
+            ...(search !== undefined && { search }),
+            ...(filterParam && { filter: filterParam }),
+          },
+        });
+      }
+
+      case 'get_work_citations': {
+        const filter: FilterOptions = {
+          'cites': params.id,
+        };
+        const options: SearchOptions = {
+          filter,
+          page: params.page || 1,
+          perPage: params.per_page || DEFAULT_PAGE_SIZE,
+          sort: params.sort,
+        };
+        const summary = wantsAllResults(params)
+          ? await fetchAllWorks(openAlexClient, options, params.max_results, params.dedupe)
+          : worksPage(await openAlexClient.getWorks(options), params.dedupe);
+        return jsonResult(summary);
+      }
+
+      case 'get_work_references': {
+        const work = await openAlexClient.getWork(params.id);
+        const referenceIds = work.referenced_works || [];
+
+        return jsonResult({
+          count: referenceIds.length,
+          referenced_works: referenceIds,
+        });
+      }
+
+      case 'get_citation_network': {
+        const maxCiting = params.max_citing || 50;
+        const maxReferences = params.max_references || 50;
+
+        if (params.graph_format) {
+          const { graph, unresolved } = await fetchCitationGraph(openAlexClient, [params.id], {
+            maxCitingPerSeed: maxCiting,
+            maxReferencesPerSeed: maxReferences,
+          });
+          return graphResult(graph, params.graph_format, unresolved);
+        }
+
+        const work = await openAlexClient.getWork(params.id);
+
+        // Get citing works
+        const citingFilter: FilterOptions = { 'cites': params.id };
+        const citingResults = await openAlexClient.getWorks({
+          filter: citingFilter,
+          perPage: maxCiting,
+        });
+
+        // Get referenced works
+        const referenceIds = (work.referenced_works || []).slice(0, maxReferences);
+
+        return jsonResult({
+          central_work: {
+            id: work.id,
+            title: work.title,
+            publication_year: work.publication_year,
+            cited_by_count: work.cited_by_count,
+          },
+          citing_works: {
+            count: citingResults.meta.count,
+            works: citingResults.results.map(summarizeWork),
+          },
+          referenced_works: {
+            count: referenceIds.length,
+            work_ids: referenceIds,
+          },
+        });
+      }
+
+      case 'find_similar_by_citations': {
+        return jsonResult(await findSimilarByCitations(openAlexClient, params.id, {
+          method: params.method || 'both',
+          limit: params.limit || CONFIG.SIMILARITY.DEFAULT_LIMIT,
+          minShared: params.min_shared ?? CONFIG.SIMILARITY.DEFAULT_MIN_SHARED,
+          maxCandidates: Math.min(params.max_candidates || CONFIG.SIMILARITY.DEFAULT_MAX_CANDIDATES, CONFIG.SIMILARITY.MAX_CANDIDATES),
+          citingSample: params.citing_sample || CONFIG.SIMILARITY.CITING_SAMPLE,
+        }));
+      }
+
+      case 'rank_by_network_centrality': {
+        const { graph, unresolved } = await fetchCorpusGraph(openAlexClient, params.seed_ids
+          ? {
+            kind: 'seeds',
+            ids: params.seed_ids,
+            maxCitingPerSeed: params.max_citing_per_seed ?? CONFIG.GRAPH.DEFAULT_MAX_CITING_PER_SEED,
+            maxReferencesPerSeed: params.max_references_per_seed ?? CONFIG.GRAPH.DEFAULT_MAX_REFERENCES_PER_SEED,
+          }
+          : {
+            kind: 'query',
+            options: { ...searchWorksOptions(params), perPage: undefined },
+            maxWorks: Math.min(params.max_works || CONFIG.CENTRALITY.DEFAULT_MAX_WORKS, CONFIG.CENTRALITY.MAX_WORKS),
+          });
+        const analysis = analyzeCentrality(graph);
+        const onMainPath = new Set(analysis.main_path.map(step => step.id));
+
+        if (params.graph_format) {
+          for (const node of graph.nodes) {
+            Object.assign(node.attributes, analysis.scores.get(node.id), { main_path: onMainPath.has(node.id) });
+          }
+          return graphResult(graph, params.graph_format, unresolved);
+        }
+
+        const rankBy: CentralityMeasure = params.rank_by || 'pagerank';
+        const ranked = graph.nodes
+          .map(node => ({ node, scores: analysis.scores.get(node.id)! }))
+          .sort((a, b) => b.scores[rankBy] - a.scores[rankBy]
+            || ((b.node.attributes.citations as number) ?? 0) - ((a.node.attributes.citations as number) ?? 0))
+          .slice(0, Math.min(params.limit || CONFIG.CENTRALITY.DEFAULT_LIMIT, 200));
+        return jsonResult({
+          corpus: {
+            source: params.seed_ids ? 'seeds' : 'query',
+            works: graph.nodes.length,
+            citations: graph.edges.length,
+            cycle_edges_removed: analysis.cycle_edges_removed,
+          },
+          rank_by: rankBy,
+          results: ranked.map(({ node, scores }, i) => ({
+            rank: i + 1,
+            id: node.id,
+            title: node.attributes.title,
+            publication_year: node.attributes.year,
+            cited_by_count: node.attributes.citations,
+            role: node.attributes.role,
+            scores,
+            on_main_path: onMainPath.has(node.id),
+          })),
+          main_path: analysis.main_path,
+          unresolved,
+        });
+      }
+
+      case 'get_top_cited_works': {
+        const filter = buildFilter(params);
+        // Add default minimum citation threshold for influential papers
+        const minCitations = params.min_citations !== undefined ? params.min_citations : 50;
+        if (minCitations > 0) {
+          filter.cited_by_count = `>${minCitations - 1}`;
+        }
+        const { search, filterAdditions } = applySearchField(params.query || params.topic, params.search_field, params.exact_phrase);
+        if (filterAdditions) Object.assign(filter, filterAdditions);
+        Object.assign(filter, buildAdvancedFilter('works', params.advanced_filter));
+        const options: SearchOptions = {
+          search,
+          filter,
+          sort: 'cited_by_count:desc',
+          perPage: params.per_page || DEFAULT_PAGE_SIZE,
+        };
+        const results = await openAlexClient.getWorks(options);
+        const summary = summarizeWorksList(results);
+        return jsonResult(summary);
+      }
+
+      case 'search_authors': {
+        const { search, filterAdditions } = applySearchField(params.query, undefined, params.exact_phrase, 'authors');
+        const filter = { ...buildFilter(params), ...filterAdditions, ...buildAdvancedFilter('authors', params.advanced_filter) };
+        const options: SearchOptions = {
+          search,
+          filter,
+          sort: params.sort || 'cited_by_count:desc',
+          perPage: params.per_page || DEFAULT_PAGE_SIZE,
+        };
+        const results = await openAlexClient.getAuthors(options);
+        const authorSummary = {
+          meta: {
+            count: results.meta?.count,
+            page: results.meta?.page,
+            per_page: results.meta?.per_page
+          },
+          results: results.results.map(summarizeAuthor)
+        };
+        return jsonResult(authorSummary);
+      }
+
+      case 'get_author_works': {
+        const filter: FilterOptions = {
+          'authorships.author.id': params.author_id,
+        };
+        // Use correct publication_year filter (NOT from_publication_date)
+        if (params.from_year && params.to_year) {
+          filter['publication_year'] = `${params.from_year}-${params.to_year}`;
+        } else if (params.from_year) {
+          filter['publication_year'] = `>${params.from_year - 1}`;
+        } else if (params.to_year) {
+          filter['publication_year'] = `<${params.to_year + 1}`;
+        }
+
+        const options: SearchOptions = {
+          filter,
+          sort: params.sort,
+          perPage: params.per_page || DEFAULT_PAGE_SIZE,
+        };
+        const results = await openAlexClient.getWorks(options);
+        const summary = summarizeWorksList(results);
+        return jsonResult(summary);
+      }
+
+      case 'compute_author_metrics': {
+        const filters: AuthorMetricsFilters = {
+          fromYear: params.from_year,
+          toYear: params.to_year,
+          position: params.author_position || 'any',
+          ...(params.journal_list && { venue: { key: params.journal_list, preset: venuePreset(params.journal_list) } }),
+        };
+        const maxWorks = Math.min(params.max_works || CONFIG.AUTHOR_METRICS.DEFAULT_MAX_WORKS, CONFIG.AUTHOR_METRICS.MAX_WORKS);
+        return jsonResult(await computeAuthorMetrics(openAlexClient, params.author_id, filters, maxWorks));
+      }
+
+      case 'compare_authors': {
+        const maxWorks = Math.min(params.max_works_per_author || CONFIG.AUTHOR_METRICS.DEFAULT_COMPARE_WORKS, CONFIG.AUTHOR_METRICS.MAX_COMPARE_WORKS);
+        const comparison = await compareAuthors(openAlexClient, params.author_ids, { fromYear: params.from_year, toYear: params.to_year }, maxWorks);
+        if (params.format === 'markdown') {
+          return documentResult('markdown', formatComparison(comparison));
+        }
+        return jsonResult(comparison);
+      }
+
+      case 'get_author_collaborators': {
+        // Paginate through author's works to handle prolific authors
+        const authorFilter: FilterOptions = {
+          'authorships.author.id': params.author_id,
+        };
+        // Cap at 1000 works to avoid excessive API calls
+        const { results: allWorks } = await openAlexClient.paginateAll('works', {
+          filter: authorFilter,
+          select: ['id', 'authorships'],
+        }, 1000);
+
+        if (params.graph_format) {
+          const graph = buildCoauthorGraph(params.author_id, allWorks, params.min_collaborations || 1);
+          return graphResult(graph, params.graph_format);
+        }
+
+        // Count collaborators
+        const collaboratorCounts: { [key: string]: { count: number; name: string; id: string } } = {};
+
+        for (const work of allWorks) {
+          if (work.authorships) {
+            for (const authorship of work.authorships) {
+              const coauthorId = authorship.author?.id;
+              if (coauthorId && coauthorId !== params.author_id) {
+                if (!collaboratorCounts[coauthorId]) {
+                  collaboratorCounts[coauthorId] = {
+                    count: 0,
+                    name: authorship.author?.display_name || 'Unknown',
+                    id: coauthorId,
+                  };
+                }
+                collaboratorCounts[coauthorId].count++;
+              }
+            }
+          }
+        }
+
+        // Filter and sort
+        const minCollabs = params.min_collaborations || 1;
+        const collaborators = Object.values(collaboratorCounts)
+          .filter(c => c.count >= minCollabs)
+          .sort((a, b) => b.count - a.count);
+
+        return jsonResult({
+          author_id: params.author_id,
+          total_works_analyzed: allWorks.length,
+          collaborators,
+        });
+      }
+
+      case 'search_institutions': {
+        const { search, filterAdditions } = applySearchField(params.query, undefined, params.exact_phrase, 'institutions');
+        const filter = { ...buildFilter(params), ...filterAdditions };
+        const options: SearchOptions = {
+          search,
+          filter,
+          perPage: params.per_page || DEFAULT_PAGE_SIZE,
+        };
+        const results = await openAlexClient.getInstitutions(options);
+        return jsonResult({
+          meta: { count: results.meta?.count, page: results.meta?.page, per_page: results.meta?.per_page },
+          results: results.results.map(summarizeInstitution),
+        });
+      }
+
+      case 'analyze_topic_trends': {
+        const filter = buildFilter(params);
+        const { search, filterAdditions } = applySearchField(params.query, params.search_field, params.exact_phrase);
+        if (filterAdditions) Object.assign(filter, filterAdditions);
+        const results = await openAlexClient.getWorks({
+          search,
+          filter,
+          groupBy: 'publication_year',
+        });
+
+        // group_by mode returns an empty results[] plus a group_by[] of {key, count}.
+        // Return a compact year→count trend sorted chronologically instead of the raw dump.
+        const trend = (results.group_by || [])
+          .map((g: any) => ({ year: Number(g.key), works_count: g.count }))
+          .sort((a: any, b: any) => a.year - b.year);
+
+        return jsonResult({
+          query: params.query,
+          total_works: results.meta?.count ?? null,
+          trend,
+        });
+      }
+
+      case 'compare_research_areas': {
+        const comparisons = [];
+
+        for (const topic of params.topics) {
+          const { search, filterAdditions } = applySearchField(topic, undefined, params.exact_phrase);
+          const options: SearchOptions = {
+            search,
+            filter: { ...buildFilter(params), ...filterAdditions },
+            perPage: 1,
+          };
+          const results = await openAlexClient.getWorks(options);
+
+          comparisons.push({
+            topic,
+            total_works: results.meta.count,
+          });
+        }
+
+        return jsonResult({ comparisons });
+      }
+
+      case 'get_trending_topics': {
+        const currentYear = new Date().getFullYear();
+        const minWorks = params.min_works !== undefined ? params.min_works : 100;
+        const limit = params.per_page || DEFAULT_PAGE_SIZE;
+        const scope: TopicScope = { domain: params.domain, field: params.field, subfield: params.subfield };
+
+        if (params.mode === 'growth') {
+          return jsonResult({
+            mode: 'growth',
+            ...(await findEmergingTopics(openAlexClient, {
+              endYear: params.end_year ?? currentYear - 1,
+              windowYears: params.window_years || CONFIG.EMERGING_TOPICS.DEFAULT_WINDOW_YEARS,
+              minWorks,
+              rankBy: params.rank_by || 'acceleration',
+              limit,
+              scope,
+            })),
+          });
+        }
+
+        const yearsBack = params.time_period_years || 3;
+        const fromYear = currentYear - yearsBack;
+        const topics = await scopeTopics(openAlexClient, scope);
+        const filter: FilterOptions = {
+          'publication_year': `>${fromYear - 1}`,
+          ...scopeFilter(scope),
+        };
+
+        // group_by returns every topic bucket (up to 200); filter by the documented
+        // min_works threshold, rank by volume, and trim to the requested page size.
+        const results = await openAlexClient.getWorks({
+          filter,
+          groupBy: 'topics.id',
+        });
+
+        const trending = (results.group_by || [])
+          .filter((g: any) => !topics || topics.has(String(g.key).split('/').pop()!))
+          .filter((g: any) => g.count >= minWorks)
+          .sort((a: any, b: any) => b.count - a.count)
+          .slice(0, limit)
+          .map((g: any) => ({
+            topic_id: g.key,
+            topic: g.key_display_name,
+            works_count: g.count,
+          }));
+
+        return jsonResult({
+          time_period: `${fromYear}-${currentYear}`,
+          min_works: minWorks,
+          count: trending.length,
+          trending_topics: trending,
+        });
+      }
+
+      case 'cluster_corpus': {
+        const { results, count } = await openAlexClient.paginateAll('works', {
+          ...searchWorksOptions(params),
+          perPage: undefined,
+          select: CLUSTER_FIELDS,
+        }, Math.min(params.max_works || CONFIG.CLUSTERING.DEFAULT_MAX_WORKS, CONFIG.CLUSTERING.MAX_WORKS));
+        return jsonResult({
+          query: params.query,
+          total_count: count,
+          ...clusterCorpus(results, {
+            method: params.method || 'kmeans',
+            k: params.k,
+            seed: params.seed ?? CONFIG.CLUSTERING.DEFAULT_SEED,
+            includeMembers: params.include_members === true,
+          }),
+        });
+      }
+
+      case 'analyze_geographic_distribution': {
+        const filter = buildFilter(params);
+        const { search, filterAdditions } = applySearchField(params.query, params.search_field, params.exact_phrase);
+        if (filterAdditions) Object.assign(filter, filterAdditions);
+        const results = await openAlexClient.getWorks({
+          search,
+          filter,
+          groupBy: 'institutions.country_code',
+        });
+
+        const byCountry = (results.group_by || [])
+          .map((g: any) => ({
+            country_code: g.key,
+            country: g.key_display_name,
+            works_count: g.count,
+          }))
+          .sort((a: any, b: any) => b.works_count - a.works_count);
+
+        return jsonResult({
+          query: params.query,
+          total_works: results.meta?.count ?? null,
+          by_country: byCountry,
+        });
+      }
+
+      case 'get_entity': {
+        const entity = await openAlexClient.getEntity(params.entity_type, params.id);
+        return jsonResult(entity);
+      }
+
+      case 'search_sources': {
+        const { search, filterAdditions } = applySearchField(params.query, undefined, params.exact_phrase, 'sources');
+        const filter = { ...buildFilter(params), ...filterAdditions, ...buildAdvancedFilter('sources', params.advanced_filter) };
+        const options: SearchOptions = {
+          search,
+          filter,
+          sort: 'summary_stats.h_index:desc',
+          perPage: params.per_page || DEFAULT_PAGE_SIZE,
+        };
+        const results = await openAlexClient.getSources(options);
+        return jsonResult({
+          meta: { count: results.meta?.count, page: results.meta?.page, per_page: results.meta?.per_page },
+          sources: results.results.map(summarizeSource)
+        });
+      }
+
+      // ── Named preset handlers ──────────────────────────────────────────────
+
+      case 'list_journal_presets': {
+        const includeVenues = !params.category || params.category === 'venues';
+        const includeInstitutions = !params.category || params.category === 'institutions';
+
+        const response: any = {};
+
+        if (includeVenues) {
+          response.journal_and_conference_presets = Object.entries(VENUE_PRESETS)
+            .map(([key, p]) => summarizeVenuePreset(key, p));
+        }
+
+        if (includeInstitutions) {
+          response.institution_group_presets = Object.entries(INSTITUTION_GROUPS).map(([key, g]) => ({
+            key,
+            name: g.name,
+            description: g.description,
+            institutions: g.institutions,
+          }));
+        }
+
+        response.usage = {
+          search_in_journal_list: 'Pass a preset key as journal_list parameter',
+          institution_filter: 'Pass a preset key as institution_group, or a pipe-separated list as author_institution',
+          examples: [
+            'search_in_journal_list(query="artificial intelligence", journal_list="utd24")',
+            'search_in_journal_list(query="LLMs", journal_list="top_ai_conferences", institution_group="harvard_stanford_mit")',
+            'search_in_journal_list(query="AI", journal_list="ft50", from_year=2020, min_citations=50)',
+            'search_works(query="AI", institution_group="insead_london")',
+          ],
+        };
+
+        return jsonResult(response);
+      }
+
+      case 'search_in_journal_list': {
+        const { preset, options } = journalListOptions(params);
+
+        const results = await openAlexClient.getWorks(options);
+        const summary = worksPage(results, params.dedupe);
+
+        return jsonResult({
+          preset_used: { key: params.journal_list, name: preset.name },
+          institution_filter: params.institution_group
+            ? INSTITUTION_GROUPS[params.institution_group]?.name
+            : (params.author_institution ?? null),
+          ...summary,
+        });
+      }
+
+      // ── New handlers ──────────────────────────────────────────────────────
+
+      case 'search_works_in_venue': {
+        const filter: FilterOptions = {};
+
+        // Venue identification (in priority order: ID > ISSN > name)
+        if (params.venue_id) {
+          filter['primary_location.source.id'] = params.venue_id;
+        } else if (params.venue_issn) {
+          filter['primary_location.source.issn'] = params.venue_issn;
+        } else if (params.venue_name) {
+          filter['primary_location.source.display_name.search'] = params.venue_name;
+        }
+
+        // Year range
+        if (params.from_year && params.to_year) {
+          filter['publication_year'] = `${params.from_year}-${params.to_year}`;
+        } else if (params.from_year) {
+          filter['publication_year'] = `>${params.from_year - 1}`;
+        } else if (params.to_year) {
+          filter['publication_year'] = `<${params.to_year + 1}`;
+        }
+
+        if (params.min_citations !== undefined && params.min_citations > 0) {
+          filter['cited_by_count'] = `>${params.min_citations - 1}`;
+        }
+
+        const { search: venueSearch, filterAdditions: venueFilterAdditions } = applySearchField(params.query, params.search_field, params.exact_phrase);
+        if (venueFilterAdditions) Object.assign(filter, venueFilterAdditions);
+
+        const options: SearchOptions = {
+          search: venueSearch,
+          filter,
+          sort: params.sort || 'cited_by_count:desc',
+          perPage: params.per_page || DEFAULT_PAGE_SIZE,
+        };
+        const results = await openAlexClient.getWorks(options);
+        const summary = summarizeWorksList(results);
+        return jsonResult(summary);
+      }
+
+      case 'get_top_venues_for_field': {
+        const venueType = params.type || 'journal';
+        const { search, filterAdditions } = applySearchField(params.query, undefined, params.exact_phrase, 'sources');
+        const options: SearchOptions = {
+          search,
+          filter: { 'type': venueType, ...filterAdditions },
+          sort: 'summary_stats.h_index:desc',
+          perPage: Math.min(params.per_page || DEFAULT_PAGE_SIZE, 50),
+        };
+        const results = await openAlexClient.getSources(options);
+        return jsonResult({
+          meta: { count: results.meta?.count, query: params.query, type: venueType },
+          venues: results.results.map(summarizeSource)
+        });
+      }
+
+      case 'check_venue_quality': {
+        // Try to find the venue by ISSN, ID, or name search
+        let venueData: any = null;
+
+        if (params.venue_id) {
+          venueData = await openAlexClient.getEntity('sources', params.venue_id);
+        } else {
+          const filter: FilterOptions = params.venue_issn
+            ? { 'issn': params.venue_issn }
+            : {};
+
+          const results = await openAlexClient.getSources({
+            search: params.venue_issn ? undefined : params.venue_name,
+            filter: params.venue_issn ? filter : {},
+            perPage: 5,
+            sort: 'summary_stats.h_index:desc',
+          });
+
+          if (results.results.length > 0) {
+            venueData = results.results[0];
+          }
+        }
+
+        if (!venueData) {
+          throw new Error('Venue not found. Try a different name, ISSN, or ID.');
+        }
+
+        const quality = {
+          ...summarizeSource(venueData),
+          // Additional quality signals
+          apc_usd: venueData.apc_usd ?? null,
+          apc_prices: venueData.apc_prices ?? null,
+          societies: venueData.societies ?? [],
+          homepage_url: venueData.homepage_url ?? null,
+          issn: venueData.issn ?? [],
+          issn_l: venueData.issn_l ?? null,
+        };
+        return jsonResult(quality);
+      }
+
+      case 'get_author_profile': {
+        const author = await openAlexClient.getAuthor(params.author_id);
+        const topWorksCount = params.top_works_count || 5;
+        const recentWorksCount = params.recent_works_count || 5;
+
+        // Fetch top-cited works
+        const topWorksResult = await openAlexClient.getWorks({
+          filter: { 'authorships.author.id': params.author_id },
+          sort: 'cited_by_count:desc',
+          perPage: topWorksCount,
+        });
+
+        // Fetch recent works
+        const recentWorksResult = await openAlexClient.getWorks({
+          filter: { 'authorships.author.id': params.author_id },
+          sort: 'publication_year:desc',
+          perPage: recentWorksCount,
+        });
+
+        const profile = {
+          ...summarizeAuthor(author),
+          top_cited_works: topWorksResult.results.map(summarizeWork),
+          recent_works: recentWorksResult.results.map(summarizeWork),
+          // Full affiliations history
+          affiliations: author.affiliations?.map((a: any) => ({
+            institution: a.institution?.display_name,
+            country: a.institution?.country_code,
+            years: a.years
+          })) || [],
+        };
+        return jsonResult(profile);
+      }
+
+      case 'search_authors_by_expertise': {
+        const filter: FilterOptions = {};
+        if (params.institution) filter['institutions.display_name'] = params.institution;
+        if (params.min_cited_by_count) filter['cited_by_count'] = `>${params.min_cited_by_count - 1}`;
+        // h-index filter is via summary_stats
+        if (params.min_h_index) filter['summary_stats.h_index'] = `>${params.min_h_index - 1}`;
+
+        // Resolve the topic string to a topic ID and filter authors by topics.id
+        // (people who WORK on the topic). The previous name `search=` matched author
+        // display names — e.g. "machine learning" returned authors named like the
+        // query, not ML researchers. Fall back to name search if no topic matches.
+        let resolvedTopic: { id: string; display_name: string } | null = null;
+        const topicMatch = await openAlexClient.getTopics({
+          search: params.topic,
+          perPage: 1,
+          select: ['id', 'display_name'],
+        });
+        if (topicMatch.results.length > 0) {
+          const t = topicMatch.results[0];
+          resolvedTopic = { id: t.id, display_name: t.display_name };
+          filter['topics.id'] = String(t.id).split('/').pop()!;
+        }
+
+        const options: SearchOptions = {
+          search: resolvedTopic ? undefined : wrapPhraseSearch(params.topic, params.exact_phrase),
+          filter,
+          sort: 'summary_stats.h_index:desc',
+          perPage: Math.min(params.per_page || DEFAULT_PAGE_SIZE, 50),
+        };
+        const results = await openAlexClient.getAuthors(options);
+        return jsonResult({
+          meta: {
+            count: results.meta?.count,
+            topic: params.topic,
+            resolved_topic: resolvedTopic,
+            match_strategy: resolvedTopic ? 'topics.id' : 'name_search_fallback',
+          },
+          experts: results.results.map(summarizeAuthor)
+        });
+      }
+
+      case 'find_review_articles': {
+        const filter: FilterOptions = { 'type': 'review' };
+        if (params.source_name) {
+          filter['primary_location.source.display_name.search'] = params.source_name;
+        }
+        if (params.from_year && params.to_year) {
+          filter['publication_year'] = `${params.from_year}-${params.to_year}`;
+        } else if (params.from_year) {
+          filter['publication_year'] = `>${params.from_year - 1}`;
+        } else if (params.to_year) {
+          filter['publication_year'] = `<${params.to_year + 1}`;
+        }
+        const minCit = params.min_citations !== undefined ? params.min_citations : 10;
+        if (minCit > 0) filter['cited_by_count'] = `>${minCit - 1}`;
+
+        const { search: reviewSearch, filterAdditions: reviewFilterAdditions } = applySearchField(params.query, params.search_field, params.exact_phrase);
+        if (reviewFilterAdditions) Object.assign(filter, reviewFilterAdditions);
+
+        const options: SearchOptions = {
+          search: reviewSearch,
+          filter,
+          sort: 'cited_by_count:desc',
+          perPage: Math.min(params.per_page || DEFAULT_PAGE_SIZE, 50),
+        };
+        const results = await openAlexClient.getWorks(options);
+        return jsonResult(summarizeWorksList(results));
+      }
+
+      case 'find_seminal_papers': {
+        const currentYear = new Date().getFullYear();
+        const publishedBefore = params.published_before || (currentYear - 5);
+        const minCit = params.min_citations !== undefined ? params.min_citations : 200;
+
+        const filter: FilterOptions = {
+          'publication_year': `<${publishedBefore + 1}`,
+        };
+        if (minCit > 0) filter['cited_by_count'] = `>${minCit - 1}`;
+        if (params.source_name) {
+          filter['primary_location.source.display_name.search'] = params.source_name;
+        }
+
+        const { search: seminalSearch, filterAdditions: seminalFilterAdditions } = applySearchField(params.query, params.search_field, params.exact_phrase);
+        if (seminalFilterAdditions) Object.assign(filter, seminalFilterAdditions);
+
+        const options: SearchOptions = {
+          search: seminalSearch,
+          filter,
+          sort: 'cited_by_count:desc',
+          perPage: Math.min(params.per_page || DEFAULT_PAGE_SIZE, 50),
+        };
+        const results = await openAlexClient.getWorks(options);
+        return jsonResult(summarizeWorksList(results));
+      }
+
+      case 'batch_resolve_references': {
+        const ids: string[] = (params.ids || []).slice(0, 20);
+        const results = await Promise.allSettled(
+          ids.map(id => openAlexClient.getWork(id))
+        );
+        if (isCitationFormat(params.format)) {
+          return citationResult(
+            results.flatMap(r => (r.status === 'fulfilled' ? [r.value] : [])),
+            params.format,
+            ids.filter((_, i) => results[i].status === 'rejected'),
+          );
+        }
+        const resolved = results.map((r, i) =>
+          r.status === 'fulfilled'
+            ? summarizeWork(r.value)
+            : { id: ids[i], error: 'Not found or invalid ID' }
+        );
+
+        return jsonResult({
+          requested: ids.length,
+          resolved: resolved.filter((r: any) => !r.error).length,
+          results: resolved
+        });
+      }
+
+      case 'verify_bibliography': {
+        const references: string[] = params.references ?? splitBibliography(params.bibliography);
+        return jsonResult(await verifyBibliography(openAlexClient, references));
+      }
+
+      case 'snowball': {
+        const result = await snowball(openAlexClient, {
+          seeds: params.seed_ids,
+          direction: params.direction || 'both',
+          depth: Math.min(params.depth || 1, CONFIG.SNOWBALL.MAX_DEPTH),
+          maxPerLevel: params.max_per_level || CONFIG.SNOWBALL.DEFAULT_MAX_PER_LEVEL,
+          maxCitingPerWork: params.max_citing_per_work || CONFIG.SNOWBALL.DEFAULT_MAX_CITING_PER_WORK,
+          fromYear: params.from_year,
+          toYear: params.to_year,
+          minCitations: params.min_citations,
+        });
+        return jsonResult({
+          seeds: result.seeds.map(w => ({ id: w.id, title: w.title || w.display_name, publication_year: w.publication_year })),
+          unresolved_seeds: result.unresolved_seeds,
+          levels: result.levels,
+          total_works: result.works.length,
+          works: result.works.map(({ work, provenance }) => ({
+            id: work.id,
+            doi: work.doi,
+            title: work.title || work.display_name,
+            publication_year: work.publication_year,
+            cited_by_count: work.cited_by_count,
+            source: work.primary_location?.source?.display_name,
+            ...provenance,
+          })),
+        });
+      }
+
+      case 'check_integrity': {
+        const report = await checkIntegrity(openAlexClient, params.ids, {
+          selfCitationThreshold: params.self_citation_threshold ?? CONFIG.INTEGRITY.DEFAULT_SELF_CITATION_THRESHOLD,
+          maxReferencesPerWork: CONFIG.INTEGRITY.MAX_REFERENCES_PER_WORK,
+        });
+        if (params.format === 'markdown') {
+          return documentResult('markdown', formatIntegrityReport(report), report.unresolved);
+        }
+        return jsonResult(report);
+      }
+
+      case 'export_citations': {
+        const ids: string[] = params.ids.slice(0, 200);
+        const { works, unresolved } = await openAlexClient.resolveWorks(ids);
+        return citationResult(works, params.format || 'bibtex', unresolved);
+      }
+
+      case 'export_citation_graph': {
+        const { graph, unresolved } = await fetchCitationGraph(openAlexClient, params.seed_ids, {
+          maxCitingPerSeed: params.max_citing_per_seed ?? CONFIG.GRAPH.DEFAULT_MAX_CITING_PER_SEED,
+          maxReferencesPerSeed: params.max_references_per_seed ?? CONFIG.GRAPH.DEFAULT_MAX_REFERENCES_PER_SEED,
+        });
+        return graphResult(graph, params.format || 'graphml', unresolved);
+      }
+
+      case 'find_open_access_version': {
+        const filter: FilterOptions = { 'is_oa': true };
+        if (params.source_name) {
+          filter['primary_location.source.display_name.search'] = params.source_name;
+        }
+        if (params.from_year) filter['publication_year'] = `>${params.from_year - 1}`;
+        if (params.min_citations !== undefined && params.min_citations > 0) {
+          filter['cited_by_count'] = `>${params.min_citations - 1}`;
+        }
+
+        const { search: oaSearch, filterAdditions: oaFilterAdditions } = applySearchField(params.query, params.search_field, params.exact_phrase);
+        if (oaFilterAdditions) Object.assign(filter, oaFilterAdditions);
+
+        const options: SearchOptions = {
+          search: oaSearch,
+          filter,
+          sort: 'cited_by_count:desc',
+          perPage: Math.min(params.per_page || DEFAULT_PAGE_SIZE, 50),
+        };
+        const results = await openAlexClient.getWorks(options);
+        // Enrich with OA URL info
+        const summary = summarizeWorksList(results);
+        return jsonResult(summary);
+      }
+
+      case 'save_search': {
+        // Check the query now rather than on its first run
+        validateInput(TOOL_SCHEMAS[params.tool], params.params, params.tool);
+        savedSearchOptions(params.tool, params.params);
+        const store = savedSearchStore();
+        const search = await store.save(
+          { name: params.name, tool: params.tool, params: params.params, description: params.description },
+          params.overwrite === true,
+        );
+        return jsonResult({ saved: summarizeSavedSearch(search), file: store.file });
+      }
+
+      case 'list_saved_searches': {
+        const store = savedSearchStore();
+        const searches = params.name ? [await store.get(params.name)] : await store.list();
+        return jsonResult({
+          file: store.file,
+          count: searches.length,
+          searches: searches.map(search => summarizeSavedSearch(search, !!params.name)),
+        });
+      }
+
+      case 'run_saved_search': {
+        const { search, run, newWorks, previousRunAt } = await runSavedSearch(
+          openAlexClient,
+          savedSearchStore(),
+          params.name,
+          savedSearchOptions,
+          {
+            maxResults: Math.min(params.max_results || CONFIG.SAVED_SEARCHES.DEFAULT_MAX_RESULTS, CONFIG.SAVED_SEARCHES.MAX_RESULTS),
+            useCreatedDate: openAlexClient.usesApiKey(),
+          },
+        );
+        return jsonResult({
+          name: search.name,
+          tool: search.tool,
+          previous_run_at: previousRunAt,
+          first_run: previousRunAt === null,
+          run,
+          ...(params.dedupe ? dedupeWorks(newWorks) : { results: newWorks.map(summarizeWork) }),
+        });
+      }
+
+      case 'delete_saved_search': {
+        const store = savedSearchStore();
+        const search = await store.delete(params.name);
+        return jsonResult({ deleted: search.name, runs_removed: search.runs.length, file: store.file });
+      }
+
+      case 'screening_create': {
+        const store = screeningStore();
+        if (!params.overwrite) await store.assertNew(params.name);
+        const identified = await identifyRecords(
+          openAlexClient,
+          await screeningSearches(params.searches),
+          Math.min(params.max_per_search || CONFIG.SCREENING.DEFAULT_MAX_PER_SEARCH, CONFIG.SCREENING.MAX_PER_SEARCH),
+          params.dedupe_versions !== false,
+        );
+        const session = await store.create({ name: params.name, description: params.description, ...identified }, params.overwrite === true);
+        return jsonResult({ session: summarizeScreeningSession(session), prisma: prismaCounts(session), file: store.file });
+      }
+
+      case 'screening_records': {
+        const session = await screeningStore().get(params.name);
+        const decision = params.decision || 'pending';
+        const matching = recordsWithDecision(session, decision);
+        const offset = params.offset || 0;
+        const records = matching.slice(offset, offset + Math.min(params.limit || 25, 200));
+        let results: any[] = records;
+        if (params.with_abstracts) {
+          const works = await openAlexClient.getWorksByIds(records.map(record => record.id));
+          const byId = new Map(works.map((work): [string, any] => [String(work.id).split('/').pop()!, work]));
+          results = records.map(record => ({ ...record, work: byId.has(record.id) ? summarizeWork(byId.get(record.id)) : null }));
+        }
+        return jsonResult({ name: session.name, decision, total: matching.length, offset, count: results.length, records: results });
+      }
+
+      case 'screening_decide': {
+        const { session, updated, not_found } = await screeningStore().decide(params.name, params.decisions);
+        return jsonResult({ name: session.name, updated, not_found, prisma: prismaCounts(session) });
+      }
+
+      case 'screening_prisma': {
+        const store = screeningStore();
+        const sessions = params.name ? [await store.get(params.name)] : await store.list();
+        if (params.format === 'markdown') {
+          return documentResult('markdown', sessions.map(formatPrismaFlow).join('\n'));
+        }
+        return jsonResult({
+          file: store.file,
+          count: sessions.length,
+          sessions: sessions.map(session => ({ ...summarizeScreeningSession(session), prisma: prismaCounts(session) })),
+        });
+      }
+
+      case 'screening_export': {
+        const session = await screeningStore().get(params.name);
+        const decision = params.decision || 'include';
+        const records = recordsWithDecision(session, decision);
+        const works = await openAlexClient.getWorksByIds(records.map(record => record.id));
+        const byId = new Map(works.map((work): [string, any] => [String(work.id).split('/').pop()!, work]));
+        const found = records.filter(record => byId.has(record.id));
+        const missing = records.filter(record => !byId.has(record.id)).map(record => record.id);
+        if (isCitationFormat(params.format)) {
+          return citationResult(found.map(record => byId.get(record.id)), params.format, missing);
+        }
+        return jsonResult({
+          name: session.name,
+          decision,
+          count: found.length,
+          results: found.map(record => ({
+            ...summarizeWork(byId.get(record.id)),
+            screening_decision: record.decision,
+            screening_reason: record.reason,
+            found_by: record.found_by,
+          })),
+          missing,
+        });
+      }
+
+      case 'collection_create': {
+        const store = collectionStore();
+        const collection = await store.create(params.name, params.description);
+        return jsonResult({ created: summarizeCollection(collection), file: store.file });
+      }
+
+      case 'collection_add': {
+        const store = collectionStore();
+        // Fail on an unknown name before resolving any DOIs
+        if (!params.create) await store.get(params.name);
+        const { entries, unresolved } = await collectionEntries(openAlexClient, params.ids || [], params.works || []);
+        const { collection, added, updated } = await store.add(
+          params.name,
+          entries,
+          { tags: params.tags, note: params.note },
+          params.create === true,
+        );
+        return jsonResult({ collection: summarizeCollection(collection), added, updated, unresolved });
+      }
+
+      case 'collection_remove': {
+        const { collection, ...changes } = await collectionStore().remove(params.name, params.ids || [], params.tags);
+        return jsonResult({ collection: summarizeCollection(collection), ...changes });
+      }
+
+      case 'collection_list': {
+        const store = collectionStore();
+        if (!params.name) {
+          const collections = await store.list();
+          return jsonResult({ file: store.file, count: collections.length, collections: collections.map(c => summarizeCollection(c)) });
+        }
+        const collection = await store.get(params.name);
+        if (!params.hydrate) {
+          return jsonResult({
+            file: store.file,
+            count: 1,
+            collections: [{ ...summarizeCollection(collection), items: itemsWithTag(collection, params.tag) }],
+          });
+        }
+        const { items, missing } = await hydrateCollection(openAlexClient, collection, params.tag);
+        return jsonResult({
+          file: store.file,
+          count: 1,
+          collections: [{
+            ...summarizeCollection(collection),
+            items: items.map(({ item, work }) => ({ ...item, work: summarizeWork(work) })),
+            missing,
+          }],
+        });
+      }
+
+      case 'collection_export': {
+        const collection = await collectionStore().get(params.name);
+        const { items, missing } = await hydrateCollection(openAlexClient, collection, params.tag);
+        if (isCitationFormat(params.format)) {
+          return citationResult(items.map(({ work }) => work), params.format, missing);
+        }
+        return jsonResult({
+          collection: summarizeCollection(collection),
+          count: items.length,
+          results: items.map(({ item, work }) => ({
+            ...summarizeWork(work),
+            collection_tags: item.tags,
+            collection_note: item.note,
+            added_at: item.added_at,
+          })),
+          missing,
+        });
+      }
+
+      case 'health_check': {
+        const diskStats = await openAlexClient.getDiskCacheStats();
+        const rateLimitStats = openAlexClient.getRateLimitStats();
+        return jsonResult({
+          status: 'healthy',
+          version: VERSION,
+          timestamp: new Date().toISOString(),
+          api: {
+            baseUrl: openAlexClient.getBaseUrl(),
+            timeout: CONFIG.API.TIMEOUT,
+            emailConfigured: !!process.env.OPENALEX_EMAIL,
+            apiKeyConfigured: !!process.env.OPENALEX_API_KEY,
+          },
+          cache: {
+            enabled: true,
+            size: openAlexClient.getCacheSize(),
+            maxSize: CONFIG.CACHE.MAX_SIZE,
+            ttlMs: CONFIG.CACHE.TTL_MS,
+            disk: diskStats ? { enabled: true, ...diskStats } : { enabled: false },
+          },
+          rate_limit: rateLimitStats ? { enabled: true, ...rateLimitStats } : { enabled: false },
+          config: {
+            defaultPageSize: CONFIG.MCP.DEFAULT_PAGE_SIZE,
+            maxPageSize: CONFIG.MCP.MAX_PAGE_SIZE,
+            rateLimit: CONFIG.API.RATE_LIMIT,
+          },
+        });
+      }
+
+      default:
+        throw new Error(`Unknown tool: ${name}`);
+    }
+  } catch (error) {
+    const errorMessage = error instanceof Error ? error.message : String(error);
+    // Log full details to stderr for debugging; keep client response clean
+    console.error(`[openalex] Error in ${name}:`, errorMessage);
+    if (error instanceof Error && error.stack) {
+      debug('Stack:', error.stack);
+    }
+
+    return {
+      content: [
+        {
+          type: 'text',
+          text: JSON.stringify({
+            success: false,
+            error: errorMessage,
+            tool: name,
+          }),
+        },
+      ],
+      isError: true,
+    };
+  }
+}
+
+/**
+ * Create an MCP server exposing every tool backed by the given client.
+ * A Server instance can only be connected to one transport at a time, so
+ * multi-session transports call this once per session.
+ */
+export function createServer(openAlexClient: OpenAlexClient): Server {
+  const server = new Server(
+    {
+      name: 'openalex-mcp',
+      version: VERSION,
+    },
+    {
+      capabilities: {
+        tools: {},
+        resources: {},
+        prompts: {},
+      },
+    }
+  );
+
+  // List available tools
+  server.setRequestHandler(ListToolsRequestSchema, async () => {
+    debug('ListTools:', tools.length, 'tools');
+    return { tools };
+  });
+
+  server.setRequestHandler(CallToolRequestSchema, (request) => callTool(openAlexClient, request));
+
+  // Presets and entities as openalex:// resources
+  server.setRequestHandler(ListResourcesRequestSchema, async () => ({ resources: listResources() }));
+  server.setRequestHandler(ListResourceTemplatesRequestSchema, async () => ({ resourceTemplates }));
+  server.setRequestHandler(ReadResourceRequestSchema, (request) => {
+    debug('ReadResource:', request.params.uri);
+    return readResource(openAlexClient, request.params.uri);
+  });
+
+  // Guided workflows that chain the tools above
+  server.setRequestHandler(ListPromptsRequestSchema, async () => ({ prompts }));
+  server.setRequestHandler(GetPromptRequestSchema, async (request) => {
+    debug('GetPrompt:', request.params.name);
+    return getPrompt(request.params.name, request.params.arguments);
+  });
+
+  return server;
+}
@@ -4,7 +4,7 @@ import * as path from 'path';
 import * as os from 'os';
 import axios from 'axios';
 
-function getFlag(args: string[], flag: string): string | undefined {
+export function getFlag(args: string[], flag: string): string | undefined {
   const idx = args.indexOf(flag);
   if (idx !== -1 && idx + 1 < args.length && !args[idx + 1].startsWith('--')) {
     return args[idx + 1];
@@ -0,0 +1,229 @@
+// Citation-based similarity — intellectual neighbours of a work found through
+// the citation graph rather than OpenAlex's related_works. Bibliographic
+// coupling links works that cite the same references (candidates are works
+// citing any of the seed's references, via an OR'ed `cites` filter);
+// co-citation links works cited together with the seed (counted over a sample
+// of the works citing it). Both are normalized with Salton's cosine, so large
+// reference lists and highly cited works don't dominate, and every score comes
+// with the shared items that produced it.
+
+import { OpenAlexClient } from './openalex-client.js';
+import { CONFIG, debug } from './config.js';
+
+export type SimilarityMethod = 'coupling' | 'cocitation' | 'both';
+
+export interface SimilarityOptions {
+  method: SimilarityMethod;
+  /** Neighbours returned. */
+  limit: number;
+  /** Coupling: candidate works fetched per batch of references (most-cited first). */
+  maxCandidates: number;
+  /** Co-citation: citing works sampled. */
+  citingSample: number;
+  /** Minimum shared references / co-citations for a candidate to count. */
+  minShared: number;
+}
+
+export interface SharedItem {
+  id: string;
+  title: string | null;
+}
+
+export interface SimilarWork {
+  id: string;
+  doi: string | null;
+  title: string | null;
+  publication_year: number | null;
+  cited_by_count: number | null;
+  /** Mean of the method scores (a missing score counts as 0 when both are used). */
+  score: number;
+  coupling: {
+    /** |shared| / sqrt(|seed references| × |candidate references|) */
+    score: number;
+    shared_count: number;
+    shared_references: SharedItem[];
+  } | null;
+  cocitation: {
+    /** Estimated co-citations / sqrt(seed citations × candidate citations) */
+    score: number;
+    /** Sampled works citing both. */
+    count: number;
+    co_citing_works: SharedItem[];
+  } | null;
+}
+
+export interface SimilarityResult {
+  seed: {
+    id: string;
+    title: string | null;
+    publication_year: number | null;
+    cited_by_count: number;
+    references: number;
+  };
+  method: SimilarityMethod;
+  coupling: { references_used: number; candidates_scanned: number; truncated: boolean } | null;
+  cocitation: { citing_total: number; citing_sampled: number } | null;
+  results: SimilarWork[];
+}
+
+const CANDIDATE_FIELDS = ['id', 'doi', 'title', 'display_name', 'publication_year', 'cited_by_count', 'referenced_works'];
+
+function bareId(id: string): string {
+  return String(id).split('/').pop()!;
+}
+
+function round(value: number): number {
+  return Math.round(value * 1000) / 1000;
+}
+
+/**
+ * Works sharing references with the seed: for each batch of seed references,
+ * the most-cited works citing any of them, scored by Salton's cosine.
+ */
+async function bibliographicCoupling(client: OpenAlexClient, seedId: string, references: string[], options: SimilarityOptions) {
+  const seedRefs = new Set(references);
+  const candidates = new Map<string, { work: any; shared: string[] }>();
+  let truncated = false;
+
+  for (let i = 0; i < references.length; i += CONFIG.MCP.IDS_FILTER_BATCH_SIZE) {
+    const batch = references.slice(i, i + CONFIG.MCP.IDS_FILTER_BATCH_SIZE);
+    const page = await client.paginateAll('works', {
+      filter: { cites: batch.join('|') },
+      sort: 'cited_by_count:desc',
+      select: CANDIDATE_FIELDS,
+    }, options.maxCandidates);
+    truncated ||= page.truncated;
+    for (const work of page.results) {
+      const id = bareId(work.id);
+      if (id === seedId || candidates.has(id)) continue;
+      const shared = (work.referenced_works || []).map(bareId).filter((ref: string) => seedRefs.has(ref));
+      if (shared.length >= options.minShared) candidates.set(id, { work, shared });
+    }
+  }
+
+  const scores = new Map<string, { work: any; shared: string[]; score: number }>();
+  for (const [id, { work, shared }] of candidates) {
+    const candidateRefs = (work.referenced_works || []).length;
+    scores.set(id, { work, shared, score: shared.length / Math.sqrt(seedRefs.size * Math.max(candidateRefs, shared.length)) });
+  }
+  debug(`coupling ${seedId}: ${candidates.size} candidates sharing ≥${options.minShared} references`);
+  return { scores, truncated, scanned: candidates.size };
+}
+
+/**
+ * Works cited together with the seed by a sample of its citing works. Counts
+ * are scaled up to the seed's full citation count before normalizing.
+ */
+async function coCitation(client: OpenAlexClient, seed: any, options: SimilarityOptions) {
+  const seedId = bareId(seed.id);
+  const citedBy = seed.cited_by_count ?? 0;
+  const response = await client.getWorks({
+    filter: { cites: seedId },
+    select: ['id', 'title', 'display_name', 'referenced_works'],
+    perPage: options.citingSample,
+    // A random sample when there are more citing works than we read
+    ...(citedBy > options.citingSample && { sample: options.citingSample }),
+  });
+  const citing = response.results;
+
+  const coCiting = new Map<string, any[]>();
+  for (const work of citing) {
+    for (const ref of new Set<string>((work.referenced_works || []).map(bareId))) {
+      if (ref === seedId) continue;
+      coCiting.set(ref, [...(coCiting.get(ref) || []), work]);
+    }
+  }
+  const frequent = Array.from(coCiting.entries())
+    .filter(([, works]) => works.length >= options.minShared)
+    .sort((a, b) => b[1].length - a[1].length)
+    .slice(0, CONFIG.SIMILARITY.MAX_HYDRATE);
+
+  // Candidate citation counts are needed to normalize
+  const works = await client.getWorksByIds(frequent.map(([id]) => id), CANDIDATE_FIELDS);
+  const byId = new Map(works.map((work): [string, any] => [bareId(work.id), work]));
+  const total = Math.max(response.meta?.count ?? citing.length, citing.length);
+  const scale = citing.length > 0 ? total / citing.length : 0;
+
+  const scores = new Map<string, { work: any; citing: any[]; score: number }>();
+  for (const [id, sharedCiting] of frequent) {
+    const work = byId.get(id);
+    if (!work) continue;
+    const estimated = sharedCiting.length * scale;
+    const score = Math.min(1, estimated / Math.sqrt(Math.max(total, 1) * Math.max(work.cited_by_count ?? 0, estimated, 1)));
+    scores.set(id, { work, citing: sharedCiting, score });
+  }
+  debug(`co-citation ${seedId}: ${citing.length} of ${total} citing works sampled, ${scores.size} candidates`);
+  return { scores, total, sampled: citing.length };
+}
+
+/**
+ * Rank works similar to `id` by bibliographic coupling and/or co-citation.
+ */
+export async function findSimilarByCitations(client: OpenAlexClient, id: string, options: SimilarityOptions): Promise<SimilarityResult> {
+  const seed = await client.getWork(id);
+  const seedId = bareId(seed.id);
+  const allReferences: string[] = (seed.referenced_works || []).map(bareId);
+  const references = allReferences.slice(0, CONFIG.SIMILARITY.MAX_REFERENCES);
+  const useCoupling = options.method !== 'cocitation';
+  const useCocitation = options.method !== 'coupling';
+
+  const coupling = useCoupling && references.length > 0
+    ? await bibliographicCoupling(client, seedId, references, options)
+    : null;
+  const cocitation = useCocitation && (seed.cited_by_count ?? 0) > 0
+    ? await coCitation(client, seed, options)
+    : null;
+
+  const ids = new Set([...(coupling?.scores.keys() ?? []), ...(cocitation?.scores.keys() ?? [])]);
+  const methods = useCoupling && useCocitation ? 2 : 1;
+  const ranked = Array.from(ids).map(candidateId => {
+    const c = coupling?.scores.get(candidateId);
+    const k = cocitation?.scores.get(candidateId);
+    return { id: candidateId, c, k, work: c?.work ?? k!.work, score: ((c?.score ?? 0) + (k?.score ?? 0)) / methods };
+  })
+    .sort((a, b) => b.score - a.score || (b.work.cited_by_count ?? 0) - (a.work.cited_by_count ?? 0))
+    .slice(0, options.limit);
+
+  // Titles for the shared references listed in the results
+  const listedRefs = new Set(ranked.flatMap(r => r.c?.shared.slice(0, CONFIG.SIMILARITY.SHARED_ITEMS_LISTED) ?? []));
+  const refWorks = listedRefs.size > 0 ? await client.getWorksByIds(Array.from(listedRefs), ['id', 'title', 'display_name']) : [];
+  const refTitles = new Map(refWorks.map((work): [string, string | null] => [bareId(work.id), work.title || work.display_name || null]));
+  const sharedItem = (work: any): SharedItem => ({ id: bareId(work.id), title: work.title || work.display_name || null });
+
+  return {
+    seed: {
+      id: seedId,
+      title: seed.title || seed.display_name || null,
+      publication_year: seed.publication_year ?? null,
+      cited_by_count: seed.cited_by_count ?? 0,
+      references: allReferences.length,
+    },
+    method: options.method,
+    coupling: useCoupling
+      ? { references_used: references.length, candidates_scanned: coupling?.scanned ?? 0, truncated: coupling?.truncated ?? false }
+      : null,
+    cocitation: useCocitation ? { citing_total: cocitation?.total ?? 0, citing_sampled: cocitation?.sampled ?? 0 } : null,
+    results: ranked.map(({ id: candidateId, c, k, work, score }) => ({
+      id: candidateId,
+      doi: work.doi ?? null,
+      title: work.title || work.display_name || null,
+      publication_year: work.publication_year ?? null,
+      cited_by_count: work.cited_by_count ?? null,
+      score: round(score),
+      coupling: c
+        ? {
+          score: round(c.score),
+          shared_count: c.shared.length,
+          shared_references: c.shared.slice(0, CONFIG.SIMILARITY.SHARED_ITEMS_LISTED).map(ref => ({ id: ref, title: refTitles.get(ref) ?? null })),
+        }
+        : null,
+      cocitation: k
+        ? {
+          score: round(k.score),
+          count: k.citing.length,
+          co_citing_works: k.citing.slice(0, CONFIG.SIMILARITY.SHARED_ITEMS_LISTED).map(sharedItem),
+        }
+        : null,
+    })),
+  };
+}
@@ -0,0 +1,178 @@
+// Citation snowballing for systematic reviews — expands a seed set backward
+// (references) and/or forward (citing works) level by level, deduplicating
+// across levels and recording how each work was first reached.
+
+import { OpenAlexClient, FilterOptions } from './openalex-client.js';
+import { CONFIG, debug } from './config.js';
+
+export type SnowballDirection = 'backward' | 'forward' | 'both';
+
+export interface SnowballOptions {
+  seeds: string[];
+  direction: SnowballDirection;
+  depth: number;
+  /** Works kept per level (highest-cited first). */
+  maxPerLevel: number;
+  /** Forward only: citing works fetched per frontier work. */
+  maxCitingPerWork: number;
+  fromYear?: number;
+  toYear?: number;
+  minCitations?: number;
+}
+
+export interface SnowballProvenance {
+  level: number;
+  direction: 'backward' | 'forward';
+  /** Seed whose chain first reached this work. */
+  seed: string;
+  /** Work at the previous level that cites (backward) or is cited by (forward) this one. */
+  via: string;
+  /** How many frontier works at that level pointed to this work. */
+  links: number;
+}
+
+export interface SnowballLevelStats {
+  level: number;
+  candidates: number;
+  fetched: number;
+  passed_filters: number;
+  kept: number;
+}
+
+export interface SnowballResult {
+  seeds: any[];
+  unresolved_seeds: string[];
+  levels: SnowballLevelStats[];
+  works: { work: any; provenance: SnowballProvenance }[];
+}
+
+interface Candidate {
+  id: string;
+  direction: 'backward' | 'forward';
+  seed: string;
+  via: string;
+  links: number;
+  work?: any;
+}
+
+function bareId(id: string): string {
+  return String(id).split('/').pop()!;
+}
+
+function passesFilters(work: any, options: SnowballOptions): boolean {
+  const year = work.publication_year;
+  if (options.fromYear && (!year || year < options.fromYear)) return false;
+  if (options.toYear && (!year || year > options.toYear)) return false;
+  if (options.minCitations && (work.cited_by_count ?? 0) < options.minCitations) return false;
+  return true;
+}
+
+function yearFilter(options: SnowballOptions): FilterOptions {
+  const filter: FilterOptions = {};
+  if (options.fromYear && options.toYear) {
+    filter['publication_year'] = `${options.fromYear}-${options.toYear}`;
+  } else if (options.fromYear) {
+    filter['publication_year'] = `>${options.fromYear - 1}`;
+  } else if (options.toYear) {
+    filter['publication_year'] = `<${options.toYear + 1}`;
+  }
+  if (options.minCitations && options.minCitations > 0) {
+    filter['cited_by_count'] = `>${options.minCitations - 1}`;
+  }
+  return filter;
+}
+
+/**
+ * Run backward and/or forward snowballing from `options.seeds` to `options.depth`.
+ * Each level's frontier is the set of works kept at the previous level. Works
+ * already seen (including seeds) are never re-added, so provenance always
+ * reflects the shortest path by which a work was reached.
+ */
+export async function snowball(client: OpenAlexClient, options: SnowballOptions): Promise<SnowballResult> {
+  const { works: seeds, unresolved } = await client.resolveWorks(options.seeds);
+  const seen = new Set<string>(seeds.map(w => bareId(w.id)));
+  // Which seed each frontier work descends from
+  const seedOf = new Map<string, string>(seeds.map(w => [bareId(w.id), bareId(w.id)]));
+
+  let frontier: any[] = seeds;
+  const levels: SnowballLevelStats[] = [];
+  const collected: { work: any; provenance: SnowballProvenance }[] = [];
+
+  for (let level = 1; level <= options.depth && frontier.length > 0; level++) {
+    const candidates = new Map<string, Candidate>();
+    const addCandidate = (id: string, direction: 'backward' | 'forward', parent: string, work?: any) => {
+      const bare = bareId(id);
+      if (seen.has(bare)) return;
+      const existing = candidates.get(bare);
+      if (existing) {
+        existing.links++;
+        return;
+      }
+      candidates.set(bare, { id: bare, direction, seed: seedOf.get(parent)!, via: parent, links: 1, work });
+    };
+
+    if (options.direction === 'backward' || options.direction === 'both') {
+      for (const work of frontier) {
+        for (const ref of work.referenced_works || []) {
+          addCandidate(ref, 'backward', bareId(work.id));
+        }
+      }
+    }
+
+    if (options.direction === 'forward' || options.direction === 'both') {
+      for (const work of frontier) {
+        const parent = bareId(work.id);
+        const citing = await client.getWorks({
+          filter: { cites: parent, ...yearFilter(options) },
+          sort: 'cited_by_count:desc',
+          perPage: options.maxCitingPerWork,
+        });
+        for (const w of citing.results) {
+          addCandidate(w.id, 'forward', parent, w);
+        }
+      }
+    }
+
+    // References arrive as bare IDs; hydrate the most-linked ones in batches.
+    // Works pointed to by several frontier works are the strongest candidates.
+    const toFetch = Array.from(candidates.values())
+      .filter(c => !c.work)
+      .sort((a, b) => b.links - a.links)
+      .slice(0, CONFIG.SNOWBALL.MAX_FETCH_PER_LEVEL);
+    if (toFetch.length > 0) {
+      const fetched = await client.getWorksByIds(toFetch.map(c => c.id));
+      for (const work of fetched) {
+        const candidate = candidates.get(bareId(work.id));
+        if (candidate) candidate.work = work;
+      }
+    }
+
+    const hydrated = Array.from(candidates.values()).filter(c => c.work);
+    const passing = hydrated.filter(c => passesFilters(c.work, options));
+    const kept = passing
+      .sort((a, b) => (b.work.cited_by_count ?? 0) - (a.work.cited_by_count ?? 0))
+      .slice(0, options.maxPerLevel);
+
+    for (const c of kept) {
+      seen.add(c.id);
+      seedOf.set(c.id, c.seed);
+      collected.push({
+        work: c.work,
+        provenance: { level, direction: c.direction, seed: c.seed, via: c.via, links: c.links },
+      });
+    }
+
+    levels.push({
+      level,
+      candidates: candidates.size,
+      fetched: hydrated.length,
+      passed_filters: passing.length,
+      kept: kept.length,
+    });
+    debug(`snowball level ${level}: ${candidates.size} candidates, kept ${kept.length}`);
+
+    frontier = kept.map(c => c.work);
+  }
+
+  return { seeds, unresolved_seeds: unresolved, levels, works: collected };
+}
@@ -0,0 +1,52 @@
+// Local JSON stores for user data that must outlive the MCP process (saved
+// searches, collections, screening sessions). Each store is one file in
+// OPENALEX_DATA_DIR (default ~/.openalex-mcp). Files are small, so every read
+// goes to disk — two server processes sharing a directory see each other's
+// changes — and updates are serialized per file and written with
+// write-then-rename, so a crash never leaves a truncated file.
+
+import { promises as fs } from 'node:fs';
+import * as os from 'node:os';
+import * as path from 'node:path';
+
+/** Directory for local stores: OPENALEX_DATA_DIR, or ~/.openalex-mcp. */
+export function dataDirectory(env: Record<string, string | undefined> = process.env): string {
+  return env.OPENALEX_DATA_DIR || path.join(os.homedir(), '.openalex-mcp');
+}
+
+export class JsonFileStore<T> {
+  readonly file: string;
+  private queue: Promise<unknown> = Promise.resolve();
+
+  constructor(file: string, private empty: () => T) {
+    this.file = file;
+  }
+
+  async read(): Promise<T> {
+    try {
+      return JSON.parse(await fs.readFile(this.file, 'utf8')) as T;
+    } catch (err: any) {
+      if (err?.code === 'ENOENT') return this.empty();
+      throw new Error(`Could not read ${this.file}: ${err?.message ?? err}`);
+    }
+  }
+
+  /**
+   * Read-modify-write: `change` mutates the data (or throws to abort without
+   * writing); its return value is passed through.
+   */
+  update<R>(change: (data: T) => R): Promise<R> {
+    const next = this.queue.then(async () => {
+      const data = await this.read();
+      const result = change(data);
+      await fs.mkdir(path.dirname(this.file), { recursive: true });
+      const tmp = `${this.file}.${process.pid}.tmp`;
+      await fs.writeFile(tmp, JSON.stringify(data, null, 2) + '\n');
+      await fs.rename(tmp, this.file);
+      return result;
+    });
+    // A failed update must not block the ones queued behind it
+    this.queue = next.catch(() => undefined);
+    return next;
+  }
+}
@@ -1,4 +1,18 @@
 import { z } from 'zod';
+import { zodToJsonSchema } from 'zod-to-json-schema';
+import { Tool } from '@modelcontextprotocol/sdk/types.js';
+import { AdvancedFilterEntity, filterKeyError } from './filter.js';
+
+/** Raw OpenAlex filters (advanced_filter), keys checked against the entity's allowlist. */
+function advancedFilterSchema(entityType: AdvancedFilterEntity) {
+  const value = z.union([z.string(), z.number(), z.boolean(), z.array(z.union([z.string(), z.number()])).min(1)]);
+  return z.record(value).superRefine((filter, ctx) => {
+    for (const key of Object.keys(filter)) {
+      const message = filterKeyError(entityType, key);
+      if (message) ctx.addIssue({ code: z.ZodIssueCode.custom, path: [key], message });
+    }
+  });
+}
 
 export const searchWorksSchema = z.object({
   query: z.string().optional(),
@@ -18,10 +32,16 @@ export const searchWorksSchema = z.object({
   per_page: z.number().positive().max(200).optional(),
   exact_phrase: z.boolean().optional(),
   search_field: z.enum(['title', 'abstract', 'fulltext']).optional(),
+  fetch_all: z.boolean().optional(),
+  max_results: z.number().int().positive().max(10000).optional(),
+  format: z.enum(['json', 'bibtex', 'ris', 'csl-json']).optional(),
+  advanced_filter: advancedFilterSchema('works').optional(),
+  dedupe: z.boolean().optional(),
 });
 
 export const getWorkSchema = z.object({
   id: z.string().min(1),
+  format: z.enum(['json', 'bibtex', 'ris', 'csl-json']).optional(),
 });
 
 export const getRelatedWorksSchema = z.object({
@@ -42,6 +62,7 @@ export const searchByTopicSchema = z.object({
   per_page: z.number().positive().max(200).optional(),
   exact_phrase: z.boolean().optional(),
   search_field: z.enum(['title', 'abstract', 'fulltext']).optional(),
+  advanced_filter: advancedFilterSchema('works').optional(),
 });
 
 export const autocompleteSearchSchema = z.object({
@@ -49,11 +70,20 @@ export const autocompleteSearchSchema = z.object({
   entity_type: z.enum(['works', 'authors', 'institutions', 'sources', 'topics', 'publishers', 'funders']),
 });
 
+export const buildSearchQuerySchema = z.object({
+  query: z.string().min(1),
+  entity_type: z.enum(['works', 'authors', 'sources', 'institutions']).optional(),
+  search_field: z.enum(['title', 'abstract', 'fulltext']).optional(),
+});
+
 export const getWorkCitationsSchema = z.object({
   id: z.string().min(1),
   page: z.number().positive().optional(),
   per_page: z.number().positive().max(200).optional(),
   sort: z.string().optional(),
+  fetch_all: z.boolean().optional(),
+  max_results: z.number().int().positive().max(10000).optional(),
+  dedupe: z.boolean().optional(),
 });
 
 export const getWorkReferencesSchema = z.object({
@@ -64,6 +94,33 @@ export const getCitationNetworkSchema = z.object({
   id: z.string().min(1),
   max_citing: z.number().positive().optional(),
   max_references: z.number().positive().optional(),
+  graph_format: z.enum(['graphml', 'gexf', 'dot', 'json']).optional(),
+});
+
+export const findSimilarByCitationsSchema = z.object({
+  id: z.string().min(1),
+  method: z.enum(['coupling', 'cocitation', 'both']).optional(),
+  limit: z.number().int().positive().max(100).optional(),
+  min_shared: z.number().int().positive().optional(),
+  max_candidates: z.number().int().positive().max(1000).optional(),
+  citing_sample: z.number().int().positive().max(200).optional(),
+});
+
+export const rankByNetworkCentralitySchema = z.object({
+  query: z.string().min(1).optional(),
+  from_year: z.number().positive().optional(),
+  to_year: z.number().positive().optional(),
+  min_citations: z.number().nonnegative().optional(),
+  sort: z.enum(['relevance_score:desc', 'cited_by_count:desc', 'publication_date:desc']).optional(),
+  max_works: z.number().int().positive().max(1000).optional(),
+  seed_ids: z.array(z.string().min(1)).min(1).max(25).optional(),
+  max_citing_per_seed: z.number().int().nonnegative().max(200).optional(),
+  max_references_per_seed: z.number().int().nonnegative().max(200).optional(),
+  rank_by: z.enum(['pagerank', 'in_degree', 'betweenness', 'spc']).optional(),
+  limit: z.number().int().positive().max(200).optional(),
+  graph_format: z.enum(['graphml', 'gexf', 'dot', 'json']).optional(),
+}).refine(p => (p.query === undefined) !== (p.seed_ids === undefined), {
+  message: 'Provide either query or seed_ids',
 });
 
 export const getTopCitedWorksSchema = z.object({
@@ -80,6 +137,7 @@ export const getTopCitedWorksSchema = z.object({
   per_page: z.number().positive().max(200).optional(),
   exact_phrase: z.boolean().optional(),
   search_field: z.enum(['title', 'abstract', 'fulltext']).optional(),
+  advanced_filter: advancedFilterSchema('works').optional(),
 });
 
 export const searchAuthorsSchema = z.object({
@@ -90,6 +148,7 @@ export const searchAuthorsSchema = z.object({
   sort: z.string().optional(),
   per_page: z.number().positive().max(200).optional(),
   exact_phrase: z.boolean().optional(),
+  advanced_filter: advancedFilterSchema('authors').optional(),
 });
 
 export const getAuthorWorksSchema = z.object({
@@ -100,9 +159,27 @@ export const getAuthorWorksSchema = z.object({
   per_page: z.number().positive().max(200).optional(),
 });
 
+export const computeAuthorMetricsSchema = z.object({
+  author_id: z.string().min(1),
+  from_year: z.number().int().positive().optional(),
+  to_year: z.number().int().positive().optional(),
+  journal_list: z.string().min(1).optional(),
+  author_position: z.enum(['any', 'first', 'last', 'first_or_last']).optional(),
+  max_works: z.number().int().positive().max(5000).optional(),
+});
+
+export const compareAuthorsSchema = z.object({
+  author_ids: z.array(z.string().min(1)).min(2).max(10),
+  from_year: z.number().int().positive().optional(),
+  to_year: z.number().int().positive().optional(),
+  max_works_per_author: z.number().int().positive().max(2000).optional(),
+  format: z.enum(['json', 'markdown']).optional(),
+});
+
 export const getAuthorCollaboratorsSchema = z.object({
   author_id: z.string().min(1),
   min_collaborations: z.number().positive().optional(),
+  graph_format: z.enum(['graphml', 'gexf', 'dot', 'json']).optional(),
 });
 
 export const searchInstitutionsSchema = z.object({
@@ -129,12 +206,34 @@ export const compareResearchAreasSchema = z.object({
   exact_phrase: z.boolean().optional(),
 });
 
+const openAlexTaxonomyId = z.string().regex(/^(https?:\/\/openalex\.org\/)?((domains|fields|subfields)\/)?\d+$/i, 'Expected a numeric OpenAlex ID, e.g. "17" or "fields/17"');
+
 export const getTrendingTopicsSchema = z.object({
+  mode: z.enum(['volume', 'growth']).optional(),
   min_works: z.number().positive().optional(),
   time_period_years: z.number().positive().optional(),
+  window_years: z.number().int().min(2).max(10).optional(),
+  end_year: z.number().int().positive().optional(),
+  rank_by: z.enum(['acceleration', 'relative_growth', 'cagr', 'share_change', 'burst']).optional(),
+  domain: openAlexTaxonomyId.optional(),
+  field: openAlexTaxonomyId.optional(),
+  subfield: openAlexTaxonomyId.optional(),
   per_page: z.number().positive().max(200).optional(),
 });
 
+export const clusterCorpusSchema = z.object({
+  query: z.string().min(1),
+  from_year: z.number().positive().optional(),
+  to_year: z.number().positive().optional(),
+  min_citations: z.number().nonnegative().optional(),
+  sort: z.enum(['relevance_score:desc', 'cited_by_count:desc', 'publication_date:desc']).optional(),
+  max_works: z.number().int().positive().max(3000).optional(),
+  method: z.enum(['kmeans', 'graph']).optional(),
+  k: z.number().int().min(2).max(30).optional(),
+  seed: z.number().int().optional(),
+  include_members: z.boolean().optional(),
+});
+
 export const analyzeGeographicDistributionSchema = z.object({
   query: z.string().min(1),
   from_year: z.number().positive().optional(),
@@ -155,6 +254,7 @@ export const searchSourcesSchema = z.object({
   works_count: z.string().optional(),
   per_page: z.number().positive().max(200).optional(),
   exact_phrase: z.boolean().optional(),
+  advanced_filter: advancedFilterSchema('sources').optional(),
 });
 
 // ── Schemas for named-preset and top-journal research tools (added in 0.5.0) ──
@@ -178,6 +278,7 @@ export const searchInJournalListSchema = z.object({
   per_page: z.number().positive().max(200).optional(),
   exact_phrase: z.boolean().optional(),
   search_field: z.enum(['title', 'abstract', 'fulltext']).optional(),
+  dedupe: z.boolean().optional(),
 });
 
 export const searchWorksInVenueSchema = z.object({
@@ -245,6 +346,43 @@ export const findSeminalPapersSchema = z.object({
 
 export const batchResolveReferencesSchema = z.object({
   ids: z.array(z.string().min(1)).min(1),
+  format: z.enum(['json', 'bibtex', 'ris', 'csl-json']).optional(),
+});
+
+export const verifyBibliographySchema = z.object({
+  references: z.array(z.string().min(1)).min(1).max(100).optional(),
+  bibliography: z.string().min(1).optional(),
+}).refine(p => p.references || p.bibliography, {
+  message: 'Provide references (one string per reference) or bibliography (pasted text)',
+});
+
+export const snowballSchema = z.object({
+  seed_ids: z.array(z.string().min(1)).min(1).max(25),
+  direction: z.enum(['backward', 'forward', 'both']).optional(),
+  depth: z.number().int().positive().max(3).optional(),
+  max_per_level: z.number().int().positive().max(500).optional(),
+  max_citing_per_work: z.number().int().positive().max(200).optional(),
+  from_year: z.number().positive().optional(),
+  to_year: z.number().positive().optional(),
+  min_citations: z.number().nonnegative().optional(),
+});
+
+export const checkIntegritySchema = z.object({
+  ids: z.array(z.string().min(1)).min(1).max(25),
+  self_citation_threshold: z.number().positive().max(1).optional(),
+  format: z.enum(['json', 'markdown']).optional(),
+});
+
+export const exportCitationsSchema = z.object({
+  ids: z.array(z.string().min(1)).min(1).max(200),
+  format: z.enum(['bibtex', 'ris', 'csl-json']).optional(),
+});
+
+export const exportCitationGraphSchema = z.object({
+  seed_ids: z.array(z.string().min(1)).min(1).max(25),
+  format: z.enum(['graphml', 'gexf', 'dot', 'json']).optional(),
+  max_citing_per_seed: z.number().int().nonnegative().max(200).optional(),
+  max_references_per_seed: z.number().int().nonnegative().max(200).optional(),
 });
 
 export const findOpenAccessVersionSchema = z.object({
@@ -257,6 +395,115 @@ export const findOpenAccessVersionSchema = z.object({
   search_field: z.enum(['title', 'abstract', 'fulltext']).optional(),
 });
 
+const savedSearchName = z.string().min(1).max(100);
+
+export const saveSearchSchema = z.object({
+  name: savedSearchName,
+  tool: z.enum(['search_works', 'search_in_journal_list']),
+  params: z.record(z.unknown()),
+  description: z.string().optional(),
+  overwrite: z.boolean().optional(),
+});
+
+export const listSavedSearchesSchema = z.object({
+  name: savedSearchName.optional(),
+});
+
+export const runSavedSearchSchema = z.object({
+  name: savedSearchName,
+  max_results: z.number().int().positive().max(2000).optional(),
+  dedupe: z.boolean().optional(),
+});
+
+export const deleteSavedSearchSchema = z.object({
+  name: savedSearchName,
+});
+
+const screeningName = z.string().min(1).max(100);
+
+export const screeningCreateSchema = z.object({
+  name: screeningName,
+  description: z.string().optional(),
+  searches: z.array(z.object({
+    label: z.string().min(1).max(100).optional(),
+    tool: z.enum(['search_works', 'search_in_journal_list']).optional(),
+    params: z.record(z.unknown()).optional(),
+    saved_search: z.string().min(1).optional(),
+  }).refine(s => (s.params === undefined) !== (s.saved_search === undefined), {
+    message: 'Each search needs either params or saved_search',
+  })).min(1).max(10),
+  max_per_search: z.number().int().positive().max(2000).optional(),
+  dedupe_versions: z.boolean().optional(),
+  overwrite: z.boolean().optional(),
+});
+
+export const screeningRecordsSchema = z.object({
+  name: screeningName,
+  decision: z.enum(['pending', 'include', 'exclude', 'maybe', 'all']).optional(),
+  limit: z.number().int().positive().max(200).optional(),
+  offset: z.number().int().nonnegative().optional(),
+  with_abstracts: z.boolean().optional(),
+});
+
+export const screeningDecideSchema = z.object({
+  name: screeningName,
+  decisions: z.array(z.object({
+    id: z.string().min(1),
+    decision: z.enum(['include', 'exclude', 'maybe']),
+    reason: z.string().max(200).optional(),
+  })).min(1).max(500),
+});
+
+export const screeningPrismaSchema = z.object({
+  name: screeningName.optional(),
+  format: z.enum(['json', 'markdown']).optional(),
+});
+
+export const screeningExportSchema = z.object({
+  name: screeningName,
+  decision: z.enum(['include', 'exclude', 'maybe', 'pending', 'all']).optional(),
+  format: z.enum(['json', 'bibtex', 'ris', 'csl-json']).optional(),
+});
+
+const collectionName = z.string().min(1).max(100);
+const collectionTags = z.array(z.string().min(1).max(50)).max(20);
+
+export const collectionCreateSchema = z.object({
+  name: collectionName,
+  description: z.string().optional(),
+});
+
+export const collectionAddSchema = z.object({
+  name: collectionName,
+  ids: z.array(z.string().min(1)).max(500).optional(),
+  works: z.array(z.object({ id: z.string().nullish(), doi: z.string().nullish() }).passthrough()).max(500).optional(),
+  tags: collectionTags.optional(),
+  note: z.string().optional(),
+  create: z.boolean().optional(),
+}).refine(p => (p.ids?.length ?? 0) + (p.works?.length ?? 0) > 0, {
+  message: 'Provide ids and/or works to add',
+});
+
+export const collectionRemoveSchema = z.object({
+  name: collectionName,
+  ids: z.array(z.string().min(1)).max(500).optional(),
+  tags: collectionTags.min(1).optional(),
+}).refine(p => (p.ids?.length ?? 0) > 0 || p.tags !== undefined, {
+  message: 'Provide ids to remove and/or tags to take off',
+});
+
+export const collectionListSchema = z.object({
+  name: collectionName.optional(),
+  tag: z.string().optional(),
+  hydrate: z.boolean().optional(),
+});
+
+export const collectionExportSchema = z.object({
+  name: collectionName,
+  tag: z.string().optional(),
+  format: z.enum(['json', 'bibtex', 'ris', 'csl-json']).optional(),
+});
+
 /**
  * Central map of tool name → input schema. Every tool that takes arguments is
  * listed here so the request handler can validate uniformly (health_check takes
@@ -268,17 +515,23 @@ export const TOOL_SCHEMAS: Record<string, z.ZodTypeAny> = {
   get_related_works: getRelatedWorksSchema,
   search_by_topic: searchByTopicSchema,
   autocomplete_search: autocompleteSearchSchema,
+  build_search_query: buildSearchQuerySchema,
   get_work_citations: getWorkCitationsSchema,
   get_work_references: getWorkReferencesSchema,
   get_citation_network: getCitationNetworkSchema,
+  find_similar_by_citations: findSimilarByCitationsSchema,
+  rank_by_network_centrality: rankByNetworkCentralitySchema,
   get_top_cited_works: getTopCitedWorksSchema,
   search_authors: searchAuthorsSchema,
   get_author_works: getAuthorWorksSchema,
+  compute_author_metrics: computeAuthorMetricsSchema,
+  compare_authors: compareAuthorsSchema,
   get_author_collaborators: getAuthorCollaboratorsSchema,
   search_institutions: searchInstitutionsSchema,
   analyze_topic_trends: analyzeTopicTrendsSchema,
   compare_research_areas: compareResearchAreasSchema,
   get_trending_topics: getTrendingTopicsSchema,
+  cluster_corpus: clusterCorpusSchema,
   analyze_geographic_distribution: analyzeGeographicDistributionSchema,
   get_entity: getEntitySchema,
   search_sources: searchSourcesSchema,
@@ -292,9 +545,774 @@ export const TOOL_SCHEMAS: Record<string, z.ZodTypeAny> = {
   find_review_articles: findReviewArticlesSchema,
   find_seminal_papers: findSeminalPapersSchema,
   batch_resolve_references: batchResolveReferencesSchema,
+  verify_bibliography: verifyBibliographySchema,
+  snowball: snowballSchema,
+  check_integrity: checkIntegritySchema,
+  export_citations: exportCitationsSchema,
+  export_citation_graph: exportCitationGraphSchema,
   find_open_access_version: findOpenAccessVersionSchema,
+  save_search: saveSearchSchema,
+  list_saved_searches: listSavedSearchesSchema,
+  run_saved_search: runSavedSearchSchema,
+  delete_saved_search: deleteSavedSearchSchema,
+  screening_create: screeningCreateSchema,
+  screening_records: screeningRecordsSchema,
+  screening_decide: screeningDecideSchema,
+  screening_prisma: screeningPrismaSchema,
+  screening_export: screeningExportSchema,
+  collection_create: collectionCreateSchema,
+  collection_add: collectionAddSchema,
+  collection_remove: collectionRemoveSchema,
+  collection_list: collectionListSchema,
+  collection_export: collectionExportSchema,
+};
+
+// ── Output schemas ───────────────────────────────────────────────────────────
+// Shape of each tool's structuredContent, mirroring the summarizers in
+// formatters.ts. OpenAlex leaves many fields null or absent, so leaf fields are
+// nullish and objects let unknown keys through; the JSON Schema sent to clients
+// as outputSchema is generated from these (see toolOutputJsonSchema).
+
+const str = z.string().nullish();
+const num = z.number().nullish();
+const bool = z.boolean().nullish();
+
+function shape<T extends z.ZodRawShape>(fields: T) {
+  return z.object(fields).passthrough();
+}
+
+const pageMetaOutput = shape({
+  count: num,
+  page: num,
+  per_page: num,
+});
+
+export const workSummaryOutputSchema = shape({
+  id: z.string(),
+  doi: str,
+  title: str,
+  publication_year: num,
+  publication_date: str,
+  cited_by_count: num,
+  type: str,
+  authors: z.array(shape({ name: str, institutions: z.array(str).nullish() })),
+  authors_truncated: bool,
+  primary_topic: shape({ display_name: str, field: str, subfield: str }).nullable(),
+  open_access: shape({ is_oa: bool, oa_status: str, oa_url: str }),
+  landing_page_url: str,
+  pdf_url: str,
+  source: str,
+  source_id: str,
+  source_issn_l: str,
+  source_type: str,
+  fwci: num,
+  abstract: str,
+});
+
+export const fullWorkOutputSchema = shape({
+  id: z.string(),
+  doi: str,
+  title: str,
+  publication_year: num,
+  publication_date: str,
+  cited_by_count: num,
+  type: str,
+  authors: z.array(shape({
+    position: z.enum(['first', 'middle', 'last']),
+    name: str,
+    id: str,
+    orcid: str,
+    institutions: z.array(shape({ id: str, display_name: str, ror: str, country_code: str, type: str })),
+    countries: z.array(z.string()),
+    is_corresponding: bool,
+  })),
+  primary_topic: shape({ id: str, display_name: str, field: str, subfield: str, domain: str }).nullable(),
+  topics: z.array(shape({ id: str, display_name: str, score: num })),
+  open_access: shape({ is_oa: bool, oa_status: str, oa_url: str }),
+  abstract: str,
+  fwci: num,
+  keywords: z.array(shape({ keyword: str, score: num })),
+  referenced_works: z.array(z.string()),
+  related_works: z.array(z.string()),
+});
+
+export const authorSummaryOutputSchema = shape({
+  id: z.string(),
+  name: str,
+  orcid: str,
+  works_count: num,
+  cited_by_count: num,
+  h_index: num,
+  i10_index: num,
+  two_year_mean_citedness: num,
+  last_known_institutions: z.array(shape({ display_name: str, country_code: str, type: str })),
+  top_topics: z.array(shape({ name: str, count: num })),
+});
+
+export const sourceSummaryOutputSchema = shape({
+  id: z.string(),
+  display_name: str,
+  issn_l: str,
+  issn: z.array(z.string()).nullish(),
+  type: str,
+  h_index: num,
+  two_year_mean_citedness: num,
+  works_count: num,
+  cited_by_count: num,
+  is_oa: bool,
+  is_in_doaj: bool,
+  homepage_url: str,
+  host_organization: str,
+  topics: z.array(str),
+});
+
+export const institutionSummaryOutputSchema = shape({
+  id: z.string(),
+  display_name: str,
+  ror: str,
+  country_code: str,
+  type: str,
+  works_count: num,
+  cited_by_count: num,
+  h_index: num,
+  i10_index: num,
+  two_year_mean_citedness: num,
+  geo: shape({ city: str, region: str, country: str }).nullable(),
+  top_topics: z.array(str),
+});
+
+/** summarizeWorksList, or fetchAllWorks' totals in fetch_all mode. */
+export const worksListOutputSchema = shape({
+  meta: pageMetaOutput.extend({ fetched: num, max_results: num, truncated: bool }),
+  results: z.array(workSummaryOutputSchema.extend({
+    // dedupe: true — the other versions merged into this record
+    alternates: z.array(shape({
+      id: z.string(),
+      doi: str,
+      title: str,
+      publication_year: num,
+      type: str,
+      source: str,
+      cited_by_count: num,
+      is_preprint: z.boolean(),
+      matched_by: z.enum(['doi', 'title', 'similar_title']),
+    })).optional(),
+  })),
+  dedupe: shape({ input: z.number(), output: z.number(), merged: z.number() }).optional(),
+});
+
+/** Text exports (BibTeX/RIS/CSL-JSON, GraphML/GEXF/DOT/node-link). */
+export const documentOutputSchema = shape({
+  format: z.string(),
+  document: z.string(),
+  unresolved: z.array(z.string()).optional(),
+});
+
+const rawEntityOutput = shape({ id: z.string() });
+
+const citationNetworkOutput = shape({
+  central_work: shape({ id: z.string(), title: str, publication_year: num, cited_by_count: num }),
+  citing_works: shape({ count: num, works: z.array(workSummaryOutputSchema) }),
+  referenced_works: shape({ count: z.number(), work_ids: z.array(z.string()) }),
+});
+
+const collaboratorsOutput = shape({
+  author_id: z.string(),
+  total_works_analyzed: z.number(),
+  collaborators: z.array(shape({ id: z.string(), name: str, count: z.number() })),
+});
+
+const batchResolveOutput = shape({
+  requested: z.number(),
+  resolved: z.number(),
+  results: z.array(z.union([workSummaryOutputSchema, shape({ id: z.string(), error: z.string() })])),
+});
+
+const verifyBibliographyOutput = shape({
+  summary: shape({
+    total: z.number(),
+    matched: z.number(),
+    uncertain: z.number(),
+    not_found: z.number(),
+    unparsed: z.number(),
+    with_mismatches: z.number(),
+  }),
+  results: z.array(shape({
+    index: z.number(),
+    reference: z.string(),
+    parsed: shape({
+      style: z.enum(['bibtex', 'apa', 'vancouver', 'other']),
+      doi: str,
+      title: str,
+      year: num,
+      authors: z.array(z.string()),
+      venue: str,
+    }),
+    status: z.enum(['matched', 'uncertain', 'not_found', 'unparsed']),
+    confidence: z.number(),
+    method: z.enum(['doi', 'title_search']).nullable(),
+    work: shape({
+      id: z.string(),
+      doi: str,
+      title: str,
+      publication_year: num,
+      authors: z.array(z.string()),
+      venue: str,
+    }).nullable(),
+    mismatches: z.array(shape({
+      field: z.enum(['doi', 'title', 'year', 'author', 'venue']),
+      cited: z.string(),
+      openalex: str,
+      message: z.string(),
+    })),
+  })),
+});
+
+const savedSearchRunOutput = shape({
+  run_at: z.string(),
+  strategy: z.enum(['created_date', 'ids']),
+  since: str,
+  total_count: z.number(),
+  fetched: z.number(),
+  truncated: z.boolean(),
+  new_count: z.number(),
+  new_ids: z.array(z.string()),
+});
+
+const savedSearchOutput = shape({
+  name: z.string(),
+  tool: z.string(),
+  params: shape({}),
+  description: str,
+  created_at: z.string(),
+  last_run_at: str,
+  run_count: z.number(),
+  seen_count: z.number(),
+  last_run: savedSearchRunOutput.nullable(),
+  runs: z.array(savedSearchRunOutput).optional(),
+});
+
+const screeningDecisionOutput = z.enum(['include', 'exclude', 'maybe']);
+
+const screeningSessionOutput = shape({
+  name: z.string(),
+  description: str,
+  created_at: z.string(),
+  updated_at: z.string(),
+  searches: z.array(shape({
+    label: z.string(),
+    tool: z.string(),
+    params: shape({}),
+    total_count: z.number(),
+    fetched: z.number(),
+    truncated: z.boolean(),
+  })),
+  records: z.number(),
+});
+
+const prismaOutput = shape({
+  identification: shape({
+    searches: z.array(shape({ label: z.string(), records: z.number(), total_count: z.number(), truncated: z.boolean() })),
+    records_identified: z.number(),
+    duplicates_removed: z.number(),
+    duplicates: shape({ same_work: z.number(), versions: z.number() }),
+  }),
+  screening: shape({
+    records_screened: z.number(),
+    decided: z.number(),
+    pending: z.number(),
+    excluded: z.number(),
+    exclusion_reasons: z.record(z.number()),
+    maybe: z.number(),
+  }),
+  included: z.number(),
+});
+
+const screeningRecordOutput = shape({
+  id: z.string(),
+  doi: str,
+  title: str,
+  publication_year: num,
+  first_author: str,
+  source: str,
+  type: str,
+  found_by: z.array(z.string()),
+  duplicates: z.array(z.string()),
+  decision: screeningDecisionOutput.nullable(),
+  reason: str,
+  decided_at: str,
+  // with_abstracts: true
+  work: workSummaryOutputSchema.nullish(),
+});
+
+const collectionOutput = shape({
+  name: z.string(),
+  description: str,
+  created_at: z.string(),
+  updated_at: z.string(),
+  size: z.number(),
+  tags: z.record(z.number()),
+});
+
+const collectionItemOutput = shape({
+  id: z.string(),
+  doi: str,
+  added_at: z.string(),
+  tags: z.array(z.string()),
+  note: str,
+  // hydrate: true
+  work: workSummaryOutputSchema.optional(),
+});
+
+const metricsAuthorOutput = shape({
+  id: z.string(),
+  name: str,
+  orcid: str,
+  all_time: shape({ works_count: num, cited_by_count: num, h_index: num, i10_index: num }),
+});
+
+const metricsWorksOutput = shape({ matched: z.number(), fetched: z.number(), counted: z.number(), truncated: z.boolean(), note: str });
+
+const authorMetricsValuesOutput = shape({
+  works: z.number(),
+  citations: z.number(),
+  h_index: z.number(),
+  g_index: z.number(),
+  m_quotient: num,
+  i10_index: z.number(),
+  median_fwci: num,
+  fwci_works: z.number(),
+  first_author_share: num,
+  last_author_share: num,
+  corresponding_author_share: num,
+  citations_per_year: num,
+  first_year: num,
+  last_year: num,
+});
+
+const authorMetricsOutput = shape({
+  author: metricsAuthorOutput,
+  filters: shape({ from_year: num, to_year: num, journal_list: str, author_position: z.string() }),
+  works: metricsWorksOutput,
+  metrics: authorMetricsValuesOutput,
+  works_by_year: z.array(shape({ year: z.number(), works_count: z.number() })),
+  citations_by_year: z.array(shape({ year: z.number(), cited_by_count: z.number() })),
+  most_cited: z.array(shape({ id: z.string(), title: str, publication_year: num, cited_by_count: z.number(), author_position: str })),
+});
+
+const authorComparisonOutput = shape({
+  filters: shape({ from_year: num, to_year: num }),
+  authors: z.array(shape({
+    author: metricsAuthorOutput,
+    works: metricsWorksOutput,
+    metrics: authorMetricsValuesOutput,
+    fwci: shape({ works: z.number(), p25: num, median: num, p75: num, mean: num, share_above_1: num }),
+    top_topics: z.array(shape({ name: z.string(), count: z.number() })),
+    venue_tiers: z.record(z.number()),
+    preset_venue_works: z.number(),
+    collaboration: shape({
+      coauthors: z.number(),
+      institutions: z.number(),
+      countries: z.number(),
+      mean_authors_per_work: num,
+      international_share: num,
+    }),
+    career_age: num,
+  })),
+  table: z.array(shape({
+    metric: z.string(),
+    label: z.string(),
+    values: z.array(z.number().nullable()),
+    normalized: z.array(z.number().nullable()),
+  })),
+  topic_overlap: z.array(shape({ authors: z.array(z.string()), score: z.number(), shared_topics: z.array(z.string()) })),
+});
+
+const emergingTopicsOutput = shape({
+  mode: z.literal('growth'),
+  windows: shape({
+    baseline: shape({ from: z.number(), to: z.number() }),
+    recent: shape({ from: z.number(), to: z.number() }),
+  }),
+  overall: shape({ baseline_works: z.number(), recent_works: z.number(), cagr: num }),
+  scope: shape({ domain: z.string().optional(), field: z.string().optional(), subfield: z.string().optional() }).nullable(),
+  rank_by: z.string(),
+  min_works: z.number(),
+  topics_considered: z.number(),
+  truncated_years: z.array(z.number()),
+  count: z.number(),
+  emerging_topics: z.array(shape({
+    topic_id: z.string(),
+    topic: str,
+    works: shape({ baseline: z.number(), recent: z.number() }),
+    by_year: z.array(shape({ year: z.number(), works_count: z.number() })),
+    cagr: num,
+    relative_growth: num,
+    share: shape({ baseline: z.number(), recent: z.number(), ratio: num }),
+    acceleration: z.number(),
+    burst: shape({ from: z.number(), to: z.number(), weight: z.number(), active: z.boolean() }).nullable(),
+  })),
+});
+
+const clusterCorpusOutput = shape({
+  query: z.string(),
+  total_count: z.number(),
+  method: z.enum(['kmeans', 'graph']),
+  works: z.number(),
+  clusters: z.array(shape({
+    id: z.number(),
+    size: z.number(),
+    share: z.number(),
+    top_terms: z.array(shape({ term: z.string(), weight: z.number() })),
+    top_topics: z.array(shape({ name: z.string(), count: z.number() })),
+    top_keywords: z.array(z.string()),
+    years: shape({ from: num, to: num, median: num }),
+    mean_citations: z.number(),
+    representative_works: z.array(shape({
+      id: z.string(),
+      title: str,
+      publication_year: num,
+      cited_by_count: num,
+      similarity: z.number(),
+    })),
+    work_ids: z.array(z.string()).optional(),
+  })),
+  unclustered: z.number(),
+  unclustered_ids: z.array(z.string()).optional(),
+});
+
+const centralityScoresOutput = shape({
+  pagerank: z.number(),
+  in_degree: z.number(),
+  betweenness: z.number(),
+  spc: z.number(),
+});
+
+const centralityOutput = shape({
+  corpus: shape({
+    source: z.enum(['query', 'seeds']),
+    works: z.number(),
+    citations: z.number(),
+    cycle_edges_removed: z.number(),
+  }),
+  rank_by: z.string(),
+  results: z.array(shape({
+    rank: z.number(),
+    id: z.string(),
+    title: str,
+    publication_year: num,
+    cited_by_count: num,
+    role: str,
+    scores: centralityScoresOutput,
+    on_main_path: z.boolean(),
+  })),
+  main_path: z.array(shape({ id: z.string(), title: str, year: num, edge_spc: num })),
+  unresolved: z.array(z.string()),
+});
+
+const sharedItemOutput = shape({ id: z.string(), title: str });
+
+const similarityOutput = shape({
+  seed: shape({
+    id: z.string(),
+    title: str,
+    publication_year: num,
+    cited_by_count: z.number(),
+    references: z.number(),
+  }),
+  method: z.enum(['coupling', 'cocitation', 'both']),
+  coupling: shape({ references_used: z.number(), candidates_scanned: z.number(), truncated: z.boolean() }).nullable(),
+  cocitation: shape({ citing_total: z.number(), citing_sampled: z.number() }).nullable(),
+  results: z.array(shape({
+    id: z.string(),
+    doi: str,
+    title: str,
+    publication_year: num,
+    cited_by_count: num,
+    score: z.number(),
+    coupling: shape({
+      score: z.number(),
+      shared_count: z.number(),
+      shared_references: z.array(sharedItemOutput),
+    }).nullable(),
+    cocitation: shape({
+      score: z.number(),
+      count: z.number(),
+      co_citing_works: z.array(sharedItemOutput),
+    }).nullable(),
+  })),
+});
+
+const integrityOutput = shape({
+  summary: shape({
+    checked: z.number(),
+    retracted: z.number(),
+    cites_retracted: z.number(),
+    paratext: z.number(),
+    self_citation_heavy: z.number(),
+    unresolved: z.number(),
+  }),
+  works: z.array(shape({
+    id: z.string(),
+    doi: str,
+    title: str,
+    publication_year: num,
+    status: z.enum(['retracted', 'needs_review', 'clear']),
+    flags: z.array(z.string()),
+    is_retracted: z.boolean(),
+    is_paratext: z.boolean(),
+    references: shape({ total: z.number(), checked: z.number(), resolved: z.number() }),
+    cited_retracted_works: z.array(shape({ id: z.string(), doi: str, title: str, publication_year: num })),
+    self_citations: shape({ count: z.number(), ratio: z.number(), threshold: z.number(), authors: z.array(z.string()) }),
+    notes: z.array(z.string()),
+  })),
+  unresolved: z.array(z.string()),
+});
+
+/**
+ * Central map of tool name → output schema; unlike TOOL_SCHEMAS it covers
+ * every tool, including health_check.
+ */
+export const TOOL_OUTPUT_SCHEMAS: Record<string, z.ZodTypeAny> = {
+  search_works: z.union([worksListOutputSchema, documentOutputSchema]),
+  get_work: z.union([fullWorkOutputSchema, documentOutputSchema]),
+  get_related_works: shape({ related_works: z.array(workSummaryOutputSchema) }),
+  search_by_topic: worksListOutputSchema,
+  autocomplete_search: shape({
+    meta: shape({ count: num }).nullish(),
+    results: z.array(shape({ id: z.string(), display_name: str })),
+  }),
+  build_search_query: shape({
+    query: z.string(),
+    entity_type: z.string(),
+    search: z.string().nullable(),
+    filter: z.record(z.string()),
+    api_params: shape({ search: z.string().optional(), filter: z.string().optional() }),
+  }),
+  get_work_citations: worksListOutputSchema,
+  get_work_references: shape({ count: z.number(), referenced_works: z.array(z.string()) }),
+  get_citation_network: z.union([citationNetworkOutput, documentOutputSchema]),
+  find_similar_by_citations: similarityOutput,
+  rank_by_network_centrality: z.union([centralityOutput, documentOutputSchema]),
+  get_top_cited_works: worksListOutputSchema,
+  search_authors: shape({ meta: pageMetaOutput, results: z.array(authorSummaryOutputSchema) }),
+  get_author_works: worksListOutputSchema,
+  compute_author_metrics: authorMetricsOutput,
+  compare_authors: z.union([authorComparisonOutput, documentOutputSchema]),
+  get_author_collaborators: z.union([collaboratorsOutput, documentOutputSchema]),
+  search_institutions: shape({ meta: pageMetaOutput, results: z.array(institutionSummaryOutputSchema) }),
+  analyze_topic_trends: shape({
+    query: z.string(),
+    total_works: num,
+    trend: z.array(shape({ year: z.number(), works_count: z.number() })),
+  }),
+  compare_research_areas: shape({
+    comparisons: z.array(shape({ topic: z.string(), total_works: num })),
+  }),
+  cluster_corpus: clusterCorpusOutput,
+  get_trending_topics: z.union([
+    shape({
+      time_period: z.string(),
+      min_works: z.number(),
+      count: z.number(),
+      trending_topics: z.array(shape({ topic_id: z.string(), topic: str, works_count: z.number() })),
+    }),
+    emergingTopicsOutput,
+  ]),
+  analyze_geographic_distribution: shape({
+    query: str,
+    total_works: num,
+    by_country: z.array(shape({ country_code: str, country: str, works_count: z.number() })),
+  }),
+  get_entity: rawEntityOutput,
+  search_sources: shape({ meta: pageMetaOutput, sources: z.array(sourceSummaryOutputSchema) }),
+  list_journal_presets: shape({
+    journal_and_conference_presets: z.array(shape({
+      key: z.string(),
+      name: z.string(),
+      description: z.string(),
+      venue_count: z.number(),
+      filter_type: z.enum(['issn', 'display_name']),
+      note: str,
+    })).optional(),
+    institution_group_presets: z.array(shape({
+      key: z.string(),
+      name: z.string(),
+      description: z.string(),
+      institutions: z.array(z.string()),
+    })).optional(),
+  }),
+  search_in_journal_list: worksListOutputSchema.extend({
+    preset_used: shape({ key: z.string(), name: z.string() }),
+    institution_filter: str,
+  }),
+  search_works_in_venue: worksListOutputSchema,
+  get_top_venues_for_field: shape({
+    meta: shape({ count: num, query: z.string(), type: z.string() }),
+    venues: z.array(sourceSummaryOutputSchema),
+  }),
+  check_venue_quality: sourceSummaryOutputSchema.extend({
+    apc_usd: num,
+    societies: z.array(z.any()),
+  }),
+  get_author_profile: authorSummaryOutputSchema.extend({
+    top_cited_works: z.array(workSummaryOutputSchema),
+    recent_works: z.array(workSummaryOutputSchema),
+    affiliations: z.array(shape({ institution: str, country: str, years: z.array(z.number()).nullish() })),
+  }),
+  search_authors_by_expertise: shape({
+    meta: shape({
+      count: num,
+      topic: z.string(),
+      resolved_topic: shape({ id: z.string(), display_name: z.string() }).nullable(),
+      match_strategy: z.enum(['topics.id', 'name_search_fallback']),
+    }),
+    experts: z.array(authorSummaryOutputSchema),
+  }),
+  find_review_articles: worksListOutputSchema,
+  find_seminal_papers: worksListOutputSchema,
+  batch_resolve_references: z.union([batchResolveOutput, documentOutputSchema]),
+  verify_bibliography: verifyBibliographyOutput,
+  snowball: shape({
+    seeds: z.array(shape({ id: z.string(), title: str, publication_year: num })),
+    unresolved_seeds: z.array(z.string()),
+    levels: z.array(shape({
+      level: z.number(),
+      candidates: z.number(),
+      fetched: z.number(),
+      passed_filters: z.number(),
+      kept: z.number(),
+    })),
+    total_works: z.number(),
+    works: z.array(shape({
+      id: z.string(),
+      doi: str,
+      title: str,
+      publication_year: num,
+      cited_by_count: num,
+      source: str,
+      level: z.number(),
+      direction: z.enum(['backward', 'forward']),
+      seed: z.string(),
+      via: z.string(),
+      links: z.number(),
+    })),
+  }),
+  check_integrity: z.union([integrityOutput, documentOutputSchema]),
+  export_citations: documentOutputSchema,
+  export_citation_graph: documentOutputSchema,
+  find_open_access_version: worksListOutputSchema,
+  save_search: shape({ saved: savedSearchOutput, file: z.string() }),
+  list_saved_searches: shape({ file: z.string(), count: z.number(), searches: z.array(savedSearchOutput) }),
+  run_saved_search: worksListOutputSchema.omit({ meta: true }).extend({
+    name: z.string(),
+    tool: z.string(),
+    previous_run_at: str,
+    first_run: z.boolean(),
+    run: savedSearchRunOutput,
+  }),
+  delete_saved_search: shape({ deleted: z.string(), runs_removed: z.number(), file: z.string() }),
+  screening_create: shape({ session: screeningSessionOutput, prisma: prismaOutput, file: z.string() }),
+  screening_records: shape({
+    name: z.string(),
+    decision: z.string(),
+    total: z.number(),
+    offset: z.number(),
+    count: z.number(),
+    records: z.array(screeningRecordOutput),
+  }),
+  screening_decide: shape({
+    name: z.string(),
+    updated: z.array(z.string()),
+    not_found: z.array(z.string()),
+    prisma: prismaOutput,
+  }),
+  screening_prisma: z.union([
+    shape({
+      file: z.string(),
+      count: z.number(),
+      sessions: z.array(screeningSessionOutput.extend({ prisma: prismaOutput })),
+    }),
+    documentOutputSchema,
+  ]),
+  screening_export: z.union([
+    shape({
+      name: z.string(),
+      decision: z.string(),
+      count: z.number(),
+      results: z.array(workSummaryOutputSchema.extend({
+        screening_decision: screeningDecisionOutput.nullable(),
+        screening_reason: str,
+        found_by: z.array(z.string()),
+      })),
+      missing: z.array(z.string()),
+    }),
+    documentOutputSchema,
+  ]),
+  collection_create: shape({ created: collectionOutput, file: z.string() }),
+  collection_add: shape({
+    collection: collectionOutput,
+    added: z.array(z.string()),
+    updated: z.array(z.string()),
+    unresolved: z.array(z.string()),
+  }),
+  collection_remove: shape({
+    collection: collectionOutput,
+    removed: z.array(z.string()),
+    untagged: z.array(z.string()),
+    not_found: z.array(z.string()),
+  }),
+  collection_list: shape({
+    file: z.string(),
+    count: z.number(),
+    collections: z.array(collectionOutput.extend({
+      items: z.array(collectionItemOutput).optional(),
+      missing: z.array(z.string()).optional(),
+    })),
+  }),
+  collection_export: z.union([
+    shape({
+      collection: collectionOutput,
+      count: z.number(),
+      results: z.array(workSummaryOutputSchema.extend({
+        collection_tags: z.array(z.string()),
+        collection_note: str,
+        added_at: z.string(),
+      })),
+      missing: z.array(z.string()),
+    }),
+    documentOutputSchema,
+  ]),
+  health_check: shape({
+    status: z.string(),
+    version: z.string(),
+    timestamp: z.string(),
+    api: shape({}),
+    cache: shape({ enabled: z.boolean(), disk: shape({ enabled: z.boolean() }) }),
+    rate_limit: shape({
+      enabled: z.boolean(),
+      requests_today: z.number().optional(),
+      remaining_today: z.number().optional(),
+      queued: z.number().optional(),
+      avg_wait_ms: z.number().optional(),
+    }),
+    config: shape({}),
+  }),
 };
 
+/**
+ * JSON Schema for a tool's outputSchema. MCP requires an object at the top
+ * level, so unions (normal result | text export) get an explicit type.
+ */
+export function toolOutputJsonSchema(name: string): Tool['outputSchema'] {
+  const schema = TOOL_OUTPUT_SCHEMAS[name];
+  if (!schema) {
+    throw new Error(`No output schema for tool: ${name}`);
+  }
+  const { $schema: _draft, ...json } = zodToJsonSchema(schema, { $refStrategy: 'none' }) as Record<string, any>;
+  return { ...json, type: 'object' };
+}
+
 export function validateInput<T>(schema: z.ZodSchema<T>, data: unknown, context: string): T {
   try {
     return schema.parse(data);
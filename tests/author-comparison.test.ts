@@ -0,0 +1,151 @@
+import { describe, it, expect, vi } from 'vitest';
+import { Client } from '@modelcontextprotocol/sdk/client/index.js';
+import { InMemoryTransport } from '@modelcontextprotocol/sdk/inMemory.js';
+import { createServer } from '../src/server.js';
+import { buildComparison, collaboration, fwciDistribution, formatComparison, topicOverlap } from '../src/author-comparison.js';
+import { presetsForSource } from '../src/presets.js';
+
+const profile = (id: string, name: string, h: number) => ({
+  id: `https://openalex.org/${id}`,
+  display_name: name,
+  orcid: null,
+  works_count: 50,
+  cited_by_count: 1000,
+  summary_stats: { h_index: h, i10_index: 10 },
+});
+
+const coauthor = (id: string, institution: string, country: string, position = 'middle') => ({
+  author_position: position,
+  author: { id: `https://openalex.org/${id}` },
+  institutions: [{ id: `https://openalex.org/${institution}` }],
+  countries: [country],
+});
+
+const work = (id: string, author: string, year: number, citedBy: number, fwci: number, topic: string, source: any, others: any[]) => ({
+  id: `https://openalex.org/${id}`,
+  title: `Paper ${id}`,
+  publication_year: year,
+  cited_by_count: citedBy,
+  fwci,
+  primary_topic: { display_name: topic },
+  primary_location: { source },
+  authorships: [
+    { ...coauthor(author, 'I1', 'US'), author_position: 'first', is_corresponding: true },
+    ...others,
+  ],
+});
+
+const MISQ = { issn_l: '0276-7783', issn: ['0276-7783', '2162-9730'], display_name: 'MIS Quarterly' };
+const NEURIPS = { issn_l: null, issn: null, display_name: 'Neural Information Processing Systems' };
+const OTHER = { issn_l: '1234-5678', issn: ['1234-5678'], display_name: 'Journal of Things' };
+
+const WORKS_A = [
+  work('W1', 'A1', 2015, 120, 4.0, 'Information systems', MISQ, [coauthor('A3', 'I2', 'DE', 'last')]),
+  work('W2', 'A1', 2018, 40, 2.0, 'Information systems', OTHER, [coauthor('A4', 'I3', 'US', 'last')]),
+  work('W3', 'A1', 2020, 8, 0.5, 'Machine learning', NEURIPS, [coauthor('A3', 'I2', 'DE'), coauthor('A5', 'I4', 'FR', 'last')]),
+];
+const WORKS_B = [
+  work('W4', 'A2', 2019, 30, 1.5, 'Machine learning', NEURIPS, [coauthor('A6', 'I5', 'US', 'last')]),
+  work('W5', 'A2', 2021, 10, 0.8, 'Machine learning', OTHER, []),
+];
+
+const entries = [
+  { profile: profile('A1', 'Ada', 20), authorId: 'A1', works: WORKS_A, counts: { matched: 3, fetched: 3, counted: 3, truncated: false, note: null } },
+  { profile: profile('A2', 'Bo', 8), authorId: 'A2', works: WORKS_B, counts: { matched: 9, fetched: 2, counted: 2, truncated: true, note: 'Only the 2 most-cited of 9 matching works were fetched.' } },
+];
+
+describe('author comparison', () => {
+  it('matches sources against venue presets', () => {
+    expect(presetsForSource(MISQ)).toEqual(expect.arrayContaining(['utd24', 'ft50', 'ms_misq_ops']));
+    expect(presetsForSource(NEURIPS)).toEqual(['top_ai_conferences']);
+    expect(presetsForSource(OTHER)).toEqual([]);
+    expect(presetsForSource({ display_name: 'Systems' })).toEqual([]);
+    // Whole words only: "UIST" is not found inside another word
+    expect(presetsForSource({ display_name: 'Adjunct Proceedings of UIST 2023' })).toEqual(['top_cs_conferences']);
+    expect(presetsForSource({ display_name: 'Journal of Intuistic Logic' })).toEqual([]);
+    // A generic name contained in several conference names matches none of them
+    expect(presetsForSource({ display_name: 'Conference on Computer Vision' })).toEqual([]);
+  });
+
+  it('computes FWCI distribution, collaboration breadth and topic overlap', () => {
+    expect(fwciDistribution(WORKS_A)).toEqual({ works: 3, p25: 1.25, median: 2, p75: 3, mean: 2.167, share_above_1: 0.667 });
+    expect(collaboration(WORKS_A, 'A1')).toEqual({
+      coauthors: 3,
+      institutions: 3,
+      countries: 3,
+      mean_authors_per_work: 2.333,
+      international_share: 0.667,
+    });
+    const overlap = topicOverlap(new Map([['Information systems', 2], ['Machine learning', 1]]), new Map([['Machine learning', 2]]));
+    expect(overlap).toEqual({ score: 0.2, shared: ['Machine learning'] });
+  });
+
+  it('builds a normalized table and renders it as Markdown', () => {
+    const comparison = buildComparison(entries, { fromYear: 2015 }, 2024);
+    const [ada, bo] = comparison.authors;
+    expect(ada.venue_tiers).toMatchObject({ utd24: 1, top_ai_conferences: 1 });
+    expect(ada.preset_venue_works).toBe(2);
+    expect(bo.career_age).toBe(6);
+    expect(bo.top_topics).toEqual([{ name: 'Machine learning', count: 2 }]);
+
+    const row = (metric: string) => comparison.table.find(r => r.metric === metric)!;
+    expect(row('h_index')).toMatchObject({ values: [3, 2], normalized: [1, 0.667] });
+    expect(row('all_time_h_index')).toMatchObject({ values: [20, 8], normalized: [1, 0.4] });
+    expect(row('coauthors').values).toEqual([3, 1]);
+    expect(comparison.topic_overlap).toEqual([
+      { authors: ['https://openalex.org/A1', 'https://openalex.org/A2'], score: 0.2, shared_topics: ['Machine learning'] },
+    ]);
+
+    const markdown = formatComparison(comparison);
+    expect(markdown).toContain('# Author comparison (works 2015–…)');
+    expect(markdown).toContain('| Metric | Ada | Bo |');
+    expect(markdown).toContain('| h-index | **3** | 2 |');
+    expect(markdown).toContain('| UT Dallas 24 (UTD) | 1 | 0 |');
+    expect(markdown).toContain('- Ada × Bo: 0.2 — Machine learning');
+    expect(markdown).toContain('_Bo: Only the 2 most-cited of 9 matching works were fetched._');
+    expect(markdown).not.toContain('_Ada:');
+  });
+});
+
+describe('compare_authors over MCP', () => {
+  it('fetches every author and rejects duplicates', async () => {
+    const fake = {
+      getAuthor: vi.fn(async (id: string) => (id === 'A2' ? profile('A2', 'Bo', 8) : profile('A1', 'Ada', 20))),
+      paginateAll: vi.fn(async (_entity: string, options: any) => {
+        const works = options.filter['authorships.author.id'] === 'A1' ? WORKS_A : WORKS_B;
+        return { count: works.length, results: works, truncated: false };
+      }),
+    };
+    const server = createServer(fake as any);
+    const client = new Client({ name: 'test-client', version: '1.0.0' });
+    const [clientTransport, serverTransport] = InMemoryTransport.createLinkedPair();
+    await Promise.all([server.connect(serverTransport), client.connect(clientTransport)]);
+    await client.listTools();
+
+    const result: any = await client.callTool({ name: 'compare_authors', arguments: { author_ids: ['A1', 'A2'], to_year: 2023 } });
+    expect(result.isError).toBeFalsy();
+    const data = result.structuredContent;
+    expect(data.authors.map((a: any) => a.author.name)).toEqual(['Ada', 'Bo']);
+    expect(data.filters).toEqual({ from_year: null, to_year: 2023 });
+    expect(fake.paginateAll).toHaveBeenCalledWith(
+      'works',
+      expect.objectContaining({
+        filter: { 'authorships.author.id': 'A2', publication_year: '<2024' },
+        select: expect.arrayContaining(['authorships', 'primary_location', 'primary_topic']),
+        sort: 'cited_by_count:desc',
+      }),
+      1000,
+    );
+
+    const markdown: any = await client.callTool({ name: 'compare_authors', arguments: { author_ids: ['A1', 'A2'], format: 'markdown' } });
+    expect(markdown.content[0].text).toContain('| Metric | Ada | Bo |');
+
+    const duplicate: any = await client.callTool({ name: 'compare_authors', arguments: { author_ids: ['A1', '0000-0002-1825-0097'] } });
+    expect(duplicate.isError).toBe(true);
+    expect(duplicate.content[0].text).toMatch(/listed more than once/);
+
+    const single: any = await client.callTool({ name: 'compare_authors', arguments: { author_ids: ['A1'] } });
+    expect(single.isError).toBe(true);
+    await client.close();
+  });
+});
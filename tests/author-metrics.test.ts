@@ -0,0 +1,112 @@
+import { describe, it, expect, vi } from 'vitest';
+import { Client } from '@modelcontextprotocol/sdk/client/index.js';
+import { InMemoryTransport } from '@modelcontextprotocol/sdk/inMemory.js';
+import { createServer } from '../src/server.js';
+import { gIndex, hIndex, scoreAuthorWorks } from '../src/author-metrics.js';
+
+const AUTHOR = { id: 'https://openalex.org/A1', display_name: 'Ada Researcher', orcid: null, works_count: 40, cited_by_count: 900, summary_stats: { h_index: 12, i10_index: 15 } };
+
+const work = (id: string, year: number, citedBy: number, position: string, options: { fwci?: number; corresponding?: boolean; solo?: boolean } = {}) => ({
+  id: `https://openalex.org/${id}`,
+  title: `Paper ${id}`,
+  publication_year: year,
+  cited_by_count: citedBy,
+  fwci: options.fwci ?? null,
+  authorships: options.solo
+    ? [{ author_position: 'first', author: { id: AUTHOR.id }, is_corresponding: options.corresponding ?? false }]
+    : [
+      { author_position: 'first', author: { id: position === 'first' ? AUTHOR.id : 'https://openalex.org/A9' }, is_corresponding: false },
+      { author_position: 'middle', author: { id: position === 'middle' ? AUTHOR.id : 'https://openalex.org/A8' }, is_corresponding: false },
+      { author_position: 'last', author: { id: position === 'last' ? AUTHOR.id : 'https://openalex.org/A7' }, is_corresponding: options.corresponding ?? false },
+    ],
+  counts_by_year: [{ year: 2024, cited_by_count: Math.floor(citedBy / 2) }, { year: 2023, cited_by_count: citedBy - Math.floor(citedBy / 2) }],
+});
+
+const WORKS = [
+  work('W1', 2016, 50, 'first', { fwci: 3.2 }),
+  work('W2', 2018, 20, 'last', { fwci: 1.5, corresponding: true }),
+  work('W3', 2019, 12, 'middle', { fwci: 0.8 }),
+  work('W4', 2020, 4, 'middle'),
+  work('W5', 2021, 3, 'first', { solo: true, corresponding: true, fwci: 1.1 }),
+  work('W6', 2022, 0, 'last'),
+];
+
+describe('author metrics', () => {
+  it('computes h- and g-index', () => {
+    expect(hIndex([50, 20, 12, 4, 3, 0])).toBe(4);
+    expect(gIndex([50, 20, 12, 4, 3, 0])).toBe(6);
+    expect(gIndex([1, 1, 1])).toBe(1);
+    expect(hIndex([])).toBe(0);
+  });
+
+  it('scores an author\'s works', () => {
+    const { metrics, citations_by_year, works_by_year, most_cited } = scoreAuthorWorks(WORKS, 'A1', 2025);
+    expect(metrics).toEqual({
+      works: 6,
+      citations: 89,
+      h_index: 4,
+      g_index: 6,
+      m_quotient: 0.4,
+      i10_index: 3,
+      median_fwci: 1.3,
+      fwci_works: 4,
+      first_author_share: 0.333,
+      last_author_share: 0.5,
+      corresponding_author_share: 0.333,
+      citations_per_year: 8.9,
+      first_year: 2016,
+      last_year: 2022,
+    });
+    expect(citations_by_year).toEqual([{ year: 2023, cited_by_count: 45 }, { year: 2024, cited_by_count: 44 }]);
+    expect(works_by_year[0]).toEqual({ year: 2016, works_count: 1 });
+    expect(most_cited[0]).toEqual({ id: 'W1', title: 'Paper W1', publication_year: 2016, cited_by_count: 50, author_position: 'first' });
+  });
+});
+
+describe('compute_author_metrics over MCP', () => {
+  it('filters by venue preset, year window and author position', async () => {
+    const fake = {
+      getAuthor: vi.fn(async () => AUTHOR),
+      paginateAll: vi.fn(async () => ({ count: WORKS.length, results: WORKS, truncated: false })),
+    };
+    const server = createServer(fake as any);
+    const client = new Client({ name: 'test-client', version: '1.0.0' });
+    const [clientTransport, serverTransport] = InMemoryTransport.createLinkedPair();
+    await Promise.all([server.connect(serverTransport), client.connect(clientTransport)]);
+    await client.listTools();
+
+    const result: any = await client.callTool({
+      name: 'compute_author_metrics',
+      arguments: { author_id: '0000-0002-1825-0097', from_year: 2016, to_year: 2022, journal_list: 'utd24', author_position: 'first_or_last' },
+    });
+    expect(result.isError).toBeFalsy();
+    const data = result.structuredContent;
+    expect(data.author).toMatchObject({ id: AUTHOR.id, name: 'Ada Researcher', all_time: { h_index: 12 } });
+    expect(data.filters).toEqual({ from_year: 2016, to_year: 2022, journal_list: 'utd24', author_position: 'first_or_last' });
+    expect(data.works).toEqual({ matched: 6, fetched: 6, counted: 4, truncated: false, note: null });
+    expect(data.metrics).toMatchObject({ works: 4, citations: 73, h_index: 3 });
+    expect(fake.paginateAll).toHaveBeenCalledWith(
+      'works',
+      expect.objectContaining({
+        filter: expect.objectContaining({
+          'authorships.author.id': 'A1',
+          publication_year: '2016-2022',
+          'primary_location.source.issn': expect.stringContaining('0001-4826'),
+        }),
+        sort: 'cited_by_count:desc',
+      }),
+      2000,
+    );
+
+    // More matching works than max_works: the least-cited ones are dropped
+    fake.paginateAll.mockResolvedValueOnce({ count: 40, results: WORKS, truncated: true });
+    const truncated: any = await client.callTool({ name: 'compute_author_metrics', arguments: { author_id: 'A1', max_works: 6 } });
+    expect(truncated.structuredContent.works).toMatchObject({ matched: 40, fetched: 6, truncated: true });
+    expect(truncated.structuredContent.works.note).toMatch(/6 most-cited of 40 .* lower bounds/);
+
+    const unknown: any = await client.callTool({ name: 'compute_author_metrics', arguments: { author_id: 'A1', journal_list: 'nope' } });
+    expect(unknown.isError).toBe(true);
+    expect(unknown.content[0].text).toMatch(/Unknown journal_list preset/);
+    await client.close();
+  });
+});
@@ -0,0 +1,158 @@
+import { describe, it, expect, vi } from 'vitest';
+import { parseReference, splitBibliography, titleSimilarity, verifyBibliography } from '../src/bibliography.js';
+
+const APA =
+  'Vaswani, A., Shazeer, N., Parmar, N., & Polosukhin, I. (2017). Attention is all you need. Advances in Neural Information Processing Systems, 30, 5998–6008. https://doi.org/10.48550/arXiv.1706.03762';
+const VANCOUVER =
+  'Smith J, van der Berg AB, Lee K. Safety of vaccines in children: a cohort study. N Engl J Med. 2020 Feb 20;382(8):727-33. doi: 10.1016/S0140-6736(20)30183-5.';
+const BIBTEX =
+  '@article{piwowar2018, title={The state of {OA}: a large-scale analysis}, author={Piwowar, Heather and Priem, Jason and Larivi{\\`e}re, Vincent}, journal={PeerJ}, year={2018}, doi={10.7717/peerj.4375}}';
+
+describe('parseReference', () => {
+  it('parses APA references', () => {
+    expect(parseReference(APA)).toMatchObject({
+      style: 'apa',
+      doi: '10.48550/arxiv.1706.03762',
+      authors: ['Vaswani', 'Shazeer', 'Parmar', 'Polosukhin'],
+      year: 2017,
+      title: 'Attention is all you need',
+      venue: 'Advances in Neural Information Processing Systems',
+    });
+  });
+
+  it('parses Vancouver references, keeping parentheses that belong to the DOI', () => {
+    expect(parseReference(VANCOUVER)).toMatchObject({
+      style: 'vancouver',
+      doi: '10.1016/s0140-6736(20)30183-5',
+      authors: ['Smith', 'van der Berg', 'Lee'],
+      year: 2020,
+      title: 'Safety of vaccines in children: a cohort study',
+      venue: 'N Engl J Med',
+    });
+  });
+
+  it('parses BibTeX entries, stripping braces and accents', () => {
+    expect(parseReference(BIBTEX)).toMatchObject({
+      style: 'bibtex',
+      doi: '10.7717/peerj.4375',
+      authors: ['Piwowar', 'Priem', 'Lariviere'],
+      year: 2018,
+      title: 'The state of OA: a large-scale analysis',
+      venue: 'PeerJ',
+    });
+  });
+
+  it('takes a quoted title from IEEE-style references', () => {
+    const ref = parseReference('A. Vaswani, N. Shazeer, and N. Parmar, "Attention is all you need," in Proc. NeurIPS, 2017, pp. 5998–6008.');
+    expect(ref).toMatchObject({ authors: ['Vaswani', 'Shazeer', 'Parmar'], year: 2017, title: 'Attention is all you need', venue: 'Proc. NeurIPS' });
+    expect(ref.doi).toBeUndefined();
+  });
+});
+
+describe('splitBibliography', () => {
+  it('groups wrapped lines under numbered entries and strips the numbers', () => {
+    expect(splitBibliography('[1] Foo A. Title one\nwrapped. J X. 2019;1:2.\n[2] Bar B. Title two. J Y. 2020;3:4.')).toEqual([
+      'Foo A. Title one wrapped. J X. 2019;1:2.',
+      'Bar B. Title two. J Y. 2020;3:4.',
+    ]);
+  });
+
+  it('splits on blank lines and BibTeX entries', () => {
+    expect(splitBibliography(`${APA}\n\n${VANCOUVER}\n`)).toEqual([APA, VANCOUVER]);
+    expect(splitBibliography(`% exported\n${BIBTEX}\n\n@comment{x}\n${BIBTEX}`)).toEqual([BIBTEX, BIBTEX]);
+  });
+});
+
+describe('titleSimilarity', () => {
+  it('ignores case and punctuation and tolerates a missing subtitle', () => {
+    expect(titleSimilarity('Attention Is All You Need!', 'attention is all you need')).toBe(1);
+    expect(titleSimilarity('The state of OA', 'The state of OA: a large-scale analysis of open access')).toBeCloseTo(0.9);
+    expect(titleSimilarity('Deep residual learning', 'Attention is all you need')).toBe(0);
+  });
+});
+
+const attention = {
+  id: 'https://openalex.org/W2963403868',
+  doi: 'https://doi.org/10.48550/arxiv.1706.03762',
+  title: 'Attention Is All You Need',
+  publication_year: 2017,
+  authorships: ['Ashish Vaswani', 'Noam Shazeer', 'Niki Parmar', 'Illia Polosukhin'].map(name => ({ author: { display_name: name } })),
+  primary_location: { source: { display_name: 'Advances in Neural Information Processing Systems' } },
+};
+const oaState = {
+  id: 'https://openalex.org/W2741809807',
+  doi: 'https://doi.org/10.7717/peerj.4375',
+  title: 'The state of OA: a large-scale analysis of the prevalence and impact of Open Access articles',
+  publication_year: 2018,
+  authorships: ['Heather Piwowar', 'Jason Priem', 'Vincent Larivière'].map(name => ({ author: { display_name: name } })),
+  primary_location: { source: { display_name: 'PeerJ' } },
+};
+
+function fakeClient() {
+  const byDoi: Record<string, any> = { '10.48550/arxiv.1706.03762': attention, '10.7717/peerj.4375': oaState };
+  return {
+    getWork: vi.fn(async (doi: string) => {
+      if (!byDoi[doi]) throw Object.assign(new Error('Request failed with status code 404'), { response: { status: 404 } });
+      return byDoi[doi];
+    }),
+    getWorks: vi.fn(async ({ search }: any) => ({
+      meta: { count: 2 },
+      results: [attention, oaState].filter(w => w.title.toLowerCase().includes(search.split(' ')[0])),
+    })),
+  };
+}
+
+describe('verifyBibliography', () => {
+  it('matches by DOI with full confidence when every field agrees', async () => {
+    const report = await verifyBibliography(fakeClient() as any, [APA]);
+    expect(report.results[0]).toMatchObject({ status: 'matched', method: 'doi', confidence: 1, mismatches: [] });
+    expect(report.results[0].work).toMatchObject({ id: attention.id, venue: 'Advances in Neural Information Processing Systems' });
+  });
+
+  it('falls back to title search and reports wrong year, misspelled author and venue', async () => {
+    const client = fakeClient();
+    const ref = 'Vaswanni, A., Shazeer, N. (2016). Attention is all you need. Nature, 30, 1-10.';
+    const [result] = (await verifyBibliography(client as any, [ref])).results;
+    expect(client.getWorks).toHaveBeenCalledWith({ search: 'attention is all you need', perPage: 5 });
+    expect(result.status).toBe('matched');
+    expect(result.method).toBe('title_search');
+    expect(result.confidence).toBeGreaterThanOrEqual(0.8);
+    expect(result.mismatches.map(m => m.message)).toEqual([
+      'Author "Vaswanni" looks misspelled; OpenAlex has "Vaswani"',
+      'Year differs: cited 2016, OpenAlex has 2017',
+      'Venue differs: cited "Nature", OpenAlex has "Advances in Neural Information Processing Systems"',
+    ]);
+  });
+
+  it('flags a DOI that resolves to a different paper', async () => {
+    const ref = 'Piwowar H, Priem J. The state of OA: a large-scale analysis. PeerJ. 2018;6:e4375. doi:10.48550/arXiv.1706.03762';
+    const [result] = (await verifyBibliography(fakeClient() as any, [ref])).results;
+    expect(result.work?.id).toBe(oaState.id);
+    expect(result.mismatches[0]).toMatchObject({ field: 'doi', cited: '10.48550/arxiv.1706.03762', message: 'Cited DOI resolves to a different work ("Attention Is All You Need")' });
+  });
+
+  it('falls back to the title only when the DOI is unknown, not when the lookup fails', async () => {
+    const ref = 'Vaswani A, Shazeer N. Attention is all you need. NeurIPS. 2017. doi:10.1234/unknown';
+    const [result] = (await verifyBibliography(fakeClient() as any, [ref])).results;
+    expect(result.method).toBe('title_search');
+    expect(result.mismatches[0]).toMatchObject({ field: 'doi', message: 'Cited DOI was not found in OpenAlex; matched by title' });
+
+    const client = fakeClient();
+    client.getWork.mockRejectedValueOnce(new Error('Rate limit exceeded after multiple retries. Please wait before making more requests.'));
+    await expect(verifyBibliography(client as any, [APA])).rejects.toThrow(/Rate limit exceeded/);
+  });
+
+  it('summarizes unmatched and unparseable references', async () => {
+    const report = await verifyBibliography(fakeClient() as any, [
+      'Doe J. Zebra migration patterns in the Serengeti. J Zool. 2001;12:3-4.',
+      '???',
+      BIBTEX,
+    ]);
+    expect(report.results.map(r => r.status)).toEqual(['not_found', 'unparsed', 'matched']);
+    expect(report.summary).toMatchObject({ total: 3, matched: 1, not_found: 1, unparsed: 1 });
+  });
+
+  it('refuses more references than the per-call limit', async () => {
+    await expect(verifyBibliography(fakeClient() as any, Array(101).fill(APA))).rejects.toThrow(/at most 100/);
+  });
+});
@@ -0,0 +1,107 @@
+import { describe, it, expect, vi } from 'vitest';
+import { Client } from '@modelcontextprotocol/sdk/client/index.js';
+import { InMemoryTransport } from '@modelcontextprotocol/sdk/inMemory.js';
+import { createServer } from '../src/server.js';
+import { analyzeCentrality, betweenness, pageRank, searchPathCount } from '../src/centrality.js';
+import { buildCorpusGraph } from '../src/graph.js';
+
+const work = (id: string, year: number, refs: string[], citedBy = 0) => ({
+  id: `https://openalex.org/${id}`,
+  title: `Paper ${id}`,
+  publication_year: year,
+  cited_by_count: citedBy,
+  referenced_works: refs.map(r => `https://openalex.org/${r}`),
+});
+
+// A ← B, A ← C ← D ← E (D also cites B), C ← F; X is cited from outside only
+const CORPUS = [
+  work('A', 2000, [], 500),
+  work('B', 2005, ['A'], 40),
+  work('C', 2006, ['A'], 300),
+  work('D', 2010, ['B', 'C', 'Z'], 80),
+  work('E', 2015, ['D'], 5),
+  work('F', 2016, ['C'], 10),
+  work('X', 2012, [], 900),
+];
+const graph = buildCorpusGraph(CORPUS);
+
+describe('centrality measures', () => {
+  it('counts search paths and finds the main path', () => {
+    const spc = searchPathCount(graph);
+    expect(spc.totalPaths).toBe(3);
+    expect(Object.fromEntries(spc.node)).toMatchObject({ A: 3, B: 1, C: 2, D: 2, E: 2, F: 1 });
+    expect(spc.edge.get('A\u0000C')).toBe(2);
+    expect(spc.edge.get('D\u0000E')).toBe(2);
+    expect(spc.mainPath).toEqual([
+      { id: 'A', edgeSpc: null },
+      { id: 'C', edgeSpc: 2 },
+      { id: 'D', edgeSpc: 1 },
+      { id: 'E', edgeSpc: 2 },
+    ]);
+    expect(spc.removedEdges).toBe(0);
+  });
+
+  it('computes directed betweenness and PageRank', () => {
+    const between = betweenness(graph);
+    // n = 7 → normalized by 6 × 5
+    expect(between.get('B')).toBeCloseTo(1 / 30);
+    expect(between.get('C')).toBeCloseTo(2 / 30);
+    expect(between.get('D')).toBeCloseTo(3 / 30);
+    expect(between.get('A')).toBe(0);
+
+    const ranks = pageRank(graph);
+    const total = Array.from(ranks.values()).reduce((a, b) => a + b, 0);
+    expect(total).toBeCloseTo(1);
+    const order = Array.from(ranks).sort((a, b) => b[1] - a[1]).map(([id]) => id);
+    expect(order[0]).toBe('A');
+    expect(ranks.get('C')!).toBeGreaterThan(ranks.get('B')!);
+  });
+
+  it('drops citation cycles before path counting', () => {
+    const cyclic = buildCorpusGraph([work('P', 2020, ['Q']), work('Q', 2020, ['P']), work('R', 2021, ['P'])]);
+    const analysis = analyzeCentrality(cyclic);
+    expect(analysis.cycle_edges_removed).toBe(1);
+    expect(analysis.main_path.length).toBeGreaterThan(1);
+    expect(analysis.scores.get('P')!.in_degree).toBe(2);
+  });
+});
+
+describe('rank_by_network_centrality over MCP', () => {
+  async function connect(fake: any) {
+    const server = createServer(fake);
+    const client = new Client({ name: 'test-client', version: '1.0.0' });
+    const [clientTransport, serverTransport] = InMemoryTransport.createLinkedPair();
+    await Promise.all([server.connect(serverTransport), client.connect(clientTransport)]);
+    await client.listTools();
+    return client;
+  }
+
+  it('ranks a query corpus and reports the main path', async () => {
+    const fake = { paginateAll: vi.fn(async () => ({ count: CORPUS.length, results: CORPUS, truncated: false })) };
+    const client = await connect(fake);
+
+    const result: any = await client.callTool({
+      name: 'rank_by_network_centrality',
+      arguments: { query: 'knowledge flow', from_year: 2000, rank_by: 'spc', limit: 3, max_works: 50 },
+    });
+    expect(result.isError).toBeFalsy();
+    const data = result.structuredContent;
+    expect(data.corpus).toEqual({ source: 'query', works: 7, citations: 6, cycle_edges_removed: 0 });
+    expect(data.results.map((r: any) => [r.id, r.scores.spc, r.on_main_path])).toEqual([['A', 1, true], ['C', 0.6667, true], ['D', 0.6667, true]]);
+    expect(data.main_path.map((s: any) => s.id)).toEqual(['A', 'C', 'D', 'E']);
+    expect(fake.paginateAll).toHaveBeenCalledWith(
+      'works',
+      expect.objectContaining({ search: 'knowledge flow', perPage: undefined, filter: expect.objectContaining({ publication_year: '>1999' }) }),
+      50,
+    );
+
+    const gexf: any = await client.callTool({ name: 'rank_by_network_centrality', arguments: { query: 'knowledge flow', graph_format: 'gexf' } });
+    expect(gexf.content[0].text).toContain('pagerank');
+    expect(gexf.content[0].text).toContain('main_path');
+
+    const invalid: any = await client.callTool({ name: 'rank_by_network_centrality', arguments: { rank_by: 'pagerank' } });
+    expect(invalid.isError).toBe(true);
+    expect(invalid.content[0].text).toMatch(/Provide either query or seed_ids/);
+    await client.close();
+  });
+});
@@ -0,0 +1,143 @@
+import { describe, it, expect } from 'vitest';
+import {
+  parseAuthorName, baseCitationKey, citationKeys, toBibTeX, toRIS, toCSLJSON, formatCitations,
+} from '../src/citation-formats.js';
+
+const attention = {
+  id: 'https://openalex.org/W2963403868',
+  doi: 'https://doi.org/10.48550/arxiv.1706.03762',
+  title: 'Attention Is All You Need',
+  publication_year: 2017,
+  publication_date: '2017-06-12',
+  type: 'article',
+  type_crossref: 'proceedings-article',
+  authorships: [
+    'Ashish Vaswani', 'Noam Shazeer', 'Niki Parmar', 'Jakob Uszkoreit',
+    'Llion Jones', 'Aidan N. Gomez', 'Łukasz Kaiser', 'Illia Polosukhin',
+  ].map(name => ({ author: { display_name: name } })),
+  primary_location: {
+    source: { display_name: 'Neural Information Processing Systems', type: 'conference' },
+  },
+  biblio: { volume: '30', issue: null, first_page: '5998', last_page: '6008' },
+};
+
+const journalArticle = {
+  id: 'https://openalex.org/W1',
+  doi: 'https://doi.org/10.1287/mnsc.2020.1234',
+  title: 'The R&D Effect of 50% Tax_Credits',
+  publication_year: 2021,
+  publication_date: '2021-03-01',
+  type: 'article',
+  authorships: [
+    { author: { display_name: 'José García' } },
+    { author: { display_name: 'Ludwig van Beethoven' } },
+    { author: { display_name: 'UNESCO' } },
+  ],
+  primary_location: {
+    source: { display_name: 'Management Science', type: 'journal', issn_l: '0025-1909', host_organization_name: 'INFORMS' },
+  },
+  biblio: { volume: '67', issue: '3', first_page: '1401', last_page: '1420' },
+};
+
+describe('parseAuthorName', () => {
+  it('splits given/family and keeps particles and suffixes', () => {
+    expect(parseAuthorName('Ashish Vaswani')).toEqual({ family: 'Vaswani', given: 'Ashish', suffix: undefined });
+    expect(parseAuthorName('Ludwig van Beethoven')).toMatchObject({ family: 'van Beethoven', given: 'Ludwig' });
+    expect(parseAuthorName('Martin Luther King Jr.')).toMatchObject({ family: 'King', given: 'Martin Luther', suffix: 'Jr.' });
+    expect(parseAuthorName('Doe, Jane A.')).toEqual({ family: 'Doe', given: 'Jane A.' });
+    expect(parseAuthorName('UNESCO')).toEqual({ literal: 'UNESCO' });
+  });
+});
+
+describe('citation keys', () => {
+  it('uses family name + year + first significant title word', () => {
+    expect(baseCitationKey(attention)).toBe('vaswani2017attention');
+    expect(baseCitationKey(journalArticle)).toBe('garcia2021r');
+  });
+
+  it('folds diacritics and falls back when fields are missing', () => {
+    expect(baseCitationKey({ title: 'On the Origin', authorships: [] })).toBe('anonndorigin');
+  });
+
+  it('disambiguates collisions deterministically', () => {
+    expect(citationKeys([attention, attention, journalArticle, attention]))
+      .toEqual(['vaswani2017attention', 'vaswani2017attentiona', 'garcia2021r', 'vaswani2017attentionb']);
+  });
+});
+
+describe('toBibTeX', () => {
+  const bib = toBibTeX([attention, journalArticle]);
+
+  it('maps conference papers to inproceedings with booktitle', () => {
+    expect(bib).toContain('@inproceedings{vaswani2017attention,');
+    expect(bib).toContain('booktitle = {Neural Information Processing Systems}');
+    expect(bib).toContain('pages = {5998--6008}');
+  });
+
+  it('includes the full author list, not the truncated five', () => {
+    const entry = bib.split('\n\n')[0];
+    expect(entry).toContain('Vaswani, Ashish and Shazeer, Noam');
+    expect(entry).toContain('Polosukhin, Illia');
+  });
+
+  it('escapes special characters and wraps single-token names in braces', () => {
+    expect(bib).toContain('title = {{The R\\&D Effect of 50\\% Tax\\_Credits}}');
+    expect(bib).toContain('and {UNESCO}');
+    expect(bib).toContain('journal = {Management Science}');
+    expect(bib).toContain('number = {3}');
+    expect(bib).toContain('doi = {10.1287/mnsc.2020.1234}');
+  });
+});
+
+describe('toRIS', () => {
+  it('emits one tagged record per work with start/end pages', () => {
+    const ris = toRIS([journalArticle]);
+    expect(ris.startsWith('TY  - JOUR\n')).toBe(true);
+    expect(ris).toContain('AU  - García, José');
+    expect(ris).toContain('AU  - UNESCO');
+    expect(ris).toContain('SP  - 1401');
+    expect(ris).toContain('EP  - 1420');
+    expect(ris).toContain('DO  - 10.1287/mnsc.2020.1234');
+    expect(ris.trimEnd().endsWith('ER  -')).toBe(true);
+  });
+
+  it('maps conference papers and preprints', () => {
+    expect(toRIS([attention])).toContain('TY  - CPAPER');
+    expect(toRIS([{ ...journalArticle, type: 'preprint' }])).toContain('TY  - UNPB');
+  });
+});
+
+describe('toCSLJSON', () => {
+  it('produces CSL items with typed dates and structured names', () => {
+    const [item] = toCSLJSON([journalArticle]);
+    expect(item).toMatchObject({
+      id: 'garcia2021r',
+      type: 'article-journal',
+      'container-title': 'Management Science',
+      volume: '67',
+      issue: '3',
+      page: '1401-1420',
+      DOI: '10.1287/mnsc.2020.1234',
+      issued: { 'date-parts': [[2021, 3, 1]] },
+    });
+    expect(item.author).toEqual([
+      { family: 'García', given: 'José' },
+      { family: 'van Beethoven', given: 'Ludwig' },
+      { literal: 'UNESCO' },
+    ]);
+  });
+
+  it('omits empty fields', () => {
+    const [item] = toCSLJSON([attention]);
+    expect(item.type).toBe('paper-conference');
+    expect(item).not.toHaveProperty('issue');
+  });
+});
+
+describe('formatCitations', () => {
+  it('dispatches by format', () => {
+    expect(formatCitations([attention], 'bibtex')).toMatch(/^@inproceedings/);
+    expect(formatCitations([attention], 'ris')).toMatch(/^TY {2}- CPAPER/);
+    expect(JSON.parse(formatCitations([attention], 'csl-json'))[0].id).toBe('vaswani2017attention');
+  });
+});
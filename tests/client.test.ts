@@ -223,6 +223,27 @@ describe('OpenAlexClient', () => {
     });
   });
 
+  describe('getWorksByIds', () => {
+    it('batches IDs into ids.openalex filters and preserves input order', async () => {
+      const mockGet = vi.fn().mockImplementation(async (_url: string, { params }: any) => {
+        const ids = params.filter.replace('ids.openalex:', '').split('|');
+        // API returns its own order and omits unknown IDs
+        const results = ids.filter((id: string) => id !== 'W404').reverse()
+          .map((id: string) => ({ id: `https://openalex.org/${id}` }));
+        return { data: { meta: { count: results.length }, results } };
+      });
+      vi.mocked(axios.create).mockReturnValue(createMockAxios(mockGet) as any);
+
+      const testClient = new OpenAlexClient({ enableCache: false });
+      const ids = Array.from({ length: 60 }, (_, i) => `W${i + 1}`);
+      const works = await testClient.getWorksByIds(['https://openalex.org/W404', ...ids, 'W1']);
+
+      expect(mockGet).toHaveBeenCalledTimes(2);
+      expect(mockGet.mock.calls[0][1].params.per_page).toBe('50');
+      expect(works.map((w: any) => w.id.split('/').pop())).toEqual(ids);
+    });
+  });
+
   describe('Retry Logic', () => {
     it('should retry failed requests', async () => {
       let attempts = 0;
@@ -0,0 +1,121 @@
+import { describe, it, expect, vi } from 'vitest';
+import { Client } from '@modelcontextprotocol/sdk/client/index.js';
+import { InMemoryTransport } from '@modelcontextprotocol/sdk/inMemory.js';
+import { createServer } from '../src/server.js';
+import { buildFeatureVectors, clusterCorpus, defaultK, kMeans, louvain } from '../src/clustering.js';
+
+const abstract = (text: string) => {
+  const index: Record<string, number[]> = {};
+  text.split(' ').forEach((word, i) => (index[word] = [...(index[word] || []), i]));
+  return index;
+};
+
+const work = (id: string, year: number, title: string, text: string, topic: string, refs: string[], citedBy = 10) => ({
+  id: `https://openalex.org/${id}`,
+  title,
+  publication_year: year,
+  cited_by_count: citedBy,
+  abstract_inverted_index: abstract(text),
+  primary_topic: { display_name: topic, score: 0.9 },
+  topics: [{ display_name: topic, score: 0.9 }],
+  keywords: [{ display_name: topic.split(' ')[0].toLowerCase(), score: 0.5 }],
+  referenced_works: refs.map(r => `https://openalex.org/${r}`),
+});
+
+// Two themes: protein folding (citing R1/R2) and graph neural networks (citing R3/R4)
+const CORPUS = [
+  work('W1', 2019, 'Protein folding with molecular dynamics', 'protein folding simulation molecular dynamics energy landscape', 'Protein Structure', ['R1', 'R2']),
+  work('W2', 2020, 'Energy landscape of protein folding', 'protein folding energy landscape funnel kinetics', 'Protein Structure', ['R1', 'R2'], 50),
+  work('W3', 2021, 'Folding kinetics of small proteins', 'protein folding kinetics molecular simulation', 'Protein Structure', ['R1']),
+  work('W4', 2022, 'Molecular dynamics of protein folding intermediates', 'protein folding intermediates molecular dynamics', 'Protein Structure', ['R2', 'W1']),
+  work('W5', 2020, 'Graph neural networks for node classification', 'graph neural networks message passing node embeddings', 'Graph Learning', ['R3', 'R4']),
+  work('W6', 2021, 'Message passing neural networks on graphs', 'message passing graph neural networks attention', 'Graph Learning', ['R3', 'R4'], 80),
+  work('W7', 2022, 'Scalable graph neural networks', 'graph neural networks sampling node embeddings', 'Graph Learning', ['R4']),
+  work('W8', 2023, 'Attention in graph neural networks', 'graph attention neural networks message passing', 'Graph Learning', ['R3', 'W5']),
+];
+
+describe('clustering', () => {
+  it('separates a two-theme corpus with k-means and describes each cluster', () => {
+    const result = clusterCorpus(CORPUS, { method: 'kmeans', k: 2, seed: 42, includeMembers: true });
+    expect(result.clusters).toHaveLength(2);
+    expect(result.unclustered).toBe(0);
+    const members = result.clusters.map(c => [...c.work_ids!].sort());
+    expect(members).toContainEqual(['W1', 'W2', 'W3', 'W4']);
+    expect(members).toContainEqual(['W5', 'W6', 'W7', 'W8']);
+
+    const graphs = result.clusters.find(c => c.work_ids!.includes('W5'))!;
+    expect(graphs.size).toBe(4);
+    expect(graphs.share).toBe(0.5);
+    expect(graphs.top_terms.map(t => t.term)).toContain('graph');
+    expect(graphs.top_terms.map(t => t.term)).not.toContain('protein');
+    expect(graphs.top_topics).toEqual([{ name: 'Graph Learning', count: 4 }]);
+    expect(graphs.years).toEqual({ from: 2020, to: 2023, median: 2022 });
+    expect(graphs.mean_citations).toBe(27.5);
+    expect(graphs.representative_works.length).toBeGreaterThan(0);
+
+    // Same seed, same clusters
+    expect(clusterCorpus(CORPUS, { method: 'kmeans', k: 2, seed: 42, includeMembers: true })).toEqual(result);
+  });
+
+  it('finds citation communities with Louvain', () => {
+    // Two triangles joined by one weak edge; node 6 has no links
+    const edges: [number, number, number][] = [[0, 1, 1], [1, 2, 1], [0, 2, 1], [3, 4, 1], [4, 5, 1], [3, 5, 1], [2, 3, 0.1]];
+    const adjacency = Array.from({ length: 7 }, () => new Map<number, number>());
+    for (const [a, b, w] of edges) {
+      adjacency[a].set(b, w);
+      adjacency[b].set(a, w);
+    }
+    const community = louvain(adjacency);
+    expect(community[0]).toBe(community[1]);
+    expect(community[1]).toBe(community[2]);
+    expect(community[3]).toBe(community[5]);
+    expect(community[0]).not.toBe(community[3]);
+    expect(community[6]).toBe(-1);
+
+    const result = clusterCorpus(CORPUS, { method: 'graph', seed: 42, includeMembers: true });
+    expect(result.clusters.map(c => [...c.work_ids!].sort())).toEqual([['W1', 'W2', 'W3', 'W4'], ['W5', 'W6', 'W7', 'W8']]);
+  });
+
+  it('leaves works without features unclustered', () => {
+    const { vectors } = buildFeatureVectors([...CORPUS, { id: 'https://openalex.org/W9', title: null }]);
+    expect(vectors[8].size).toBe(0);
+    expect(kMeans(vectors, 2, 1)[8]).toBe(-1);
+    expect(defaultK(8)).toBe(2);
+    expect(defaultK(100000)).toBe(30);
+  });
+});
+
+describe('cluster_corpus over MCP', () => {
+  it('clusters the works of a query', async () => {
+    const fake = { paginateAll: vi.fn(async () => ({ count: 120, results: CORPUS, truncated: true })) };
+    const server = createServer(fake as any);
+    const client = new Client({ name: 'test-client', version: '1.0.0' });
+    const [clientTransport, serverTransport] = InMemoryTransport.createLinkedPair();
+    await Promise.all([server.connect(serverTransport), client.connect(clientTransport)]);
+    await client.listTools();
+
+    const result: any = await client.callTool({
+      name: 'cluster_corpus',
+      arguments: { query: 'folding and graphs', from_year: 2019, k: 2, max_works: 500 },
+    });
+    expect(result.isError).toBeFalsy();
+    const data = result.structuredContent;
+    expect(data).toMatchObject({ query: 'folding and graphs', total_count: 120, method: 'kmeans', works: 8, unclustered: 0 });
+    expect(data.clusters).toHaveLength(2);
+    expect(data.clusters[0].work_ids).toBeUndefined();
+    expect(fake.paginateAll).toHaveBeenCalledWith(
+      'works',
+      expect.objectContaining({
+        search: 'folding and graphs',
+        perPage: undefined,
+        select: expect.arrayContaining(['abstract_inverted_index', 'referenced_works']),
+        filter: expect.objectContaining({ publication_year: '>2018' }),
+      }),
+      500,
+    );
+
+    const invalid: any = await client.callTool({ name: 'cluster_corpus', arguments: { query: 'x', k: 1 } });
+    expect(invalid.isError).toBe(true);
+    await client.close();
+  });
+});
@@ -0,0 +1,160 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { mkdtempSync, rmSync } from 'node:fs';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import { Client } from '@modelcontextprotocol/sdk/client/index.js';
+import { InMemoryTransport } from '@modelcontextprotocol/sdk/inMemory.js';
+import { createServer } from '../src/server.js';
+import { CollectionStore, collectionEntries, hydrateCollection, tagCounts } from '../src/collections.js';
+
+let dir: string;
+
+beforeEach(() => {
+  dir = mkdtempSync(join(tmpdir(), 'openalex-collections-'));
+});
+
+afterEach(() => {
+  rmSync(dir, { recursive: true, force: true });
+  vi.unstubAllEnvs();
+});
+
+const work = (id: string, doi?: string) => ({
+  id: `https://openalex.org/${id}`,
+  doi: doi ? `https://doi.org/${doi}` : null,
+  title: `Work ${id}`,
+  publication_year: 2021,
+  authorships: [{ author: { display_name: 'Ada Lovelace' } }],
+});
+
+const CATALOG = [work('W1', '10.1/one'), work('W2', '10.1/two'), work('W3', '10.1/three')];
+
+function fakeClient() {
+  return {
+    getWorksByIds: vi.fn(async (ids: string[]) => CATALOG.filter(w => ids.includes(w.id.split('/').pop()!))),
+    resolveWorks: vi.fn(async (ids: string[]) => {
+      const find = (id: string) => CATALOG.find(w => w.doi === `https://doi.org/${id.replace(/^https:\/\/doi\.org\//, '')}`);
+      return {
+        works: ids.map(find).filter(Boolean),
+        unresolved: ids.filter(id => !find(id)),
+      };
+    }),
+  };
+}
+
+describe('CollectionStore', () => {
+  it('adds works once, merging tags and replacing notes', async () => {
+    const store = new CollectionStore(join(dir, 'collections.json'));
+    await store.create('review', 'LLM review');
+    await expect(store.create('review')).rejects.toThrow(/already exists/);
+
+    const first = await store.add('review', [{ id: 'W1' }, { id: 'https://openalex.org/W2', doi: 'https://doi.org/10.1/TWO' }], { tags: ['include'] });
+    expect(first.added).toEqual(['W1', 'W2']);
+    const second = await store.add('review', [{ id: 'w1' }], { tags: ['methods', 'include'], note: 'key paper' });
+    expect(second).toMatchObject({ added: [], updated: ['W1'] });
+
+    const review = await store.get('review');
+    expect(review.items.map(item => [item.id, item.doi, item.tags, item.note])).toEqual([
+      ['W1', null, ['include', 'methods'], 'key paper'],
+      ['W2', '10.1/two', ['include'], null],
+    ]);
+    expect(tagCounts(review)).toEqual({ include: 2, methods: 1 });
+    await expect(store.add('missing', [{ id: 'W1' }])).rejects.toThrow(/No collection named "missing"/);
+    expect((await store.add('new', [{ id: 'W3' }], {}, true)).collection.items).toHaveLength(1);
+  });
+
+  it('removes works by ID or DOI, or only their tags', async () => {
+    const store = new CollectionStore(join(dir, 'collections.json'));
+    await store.create('review');
+    await store.add('review', [{ id: 'W1' }, { id: 'W2', doi: '10.1/two' }, { id: 'W3' }], { tags: ['include', 'screen'] });
+
+    const untag = await store.remove('review', [], ['screen']);
+    expect(untag).toMatchObject({ removed: [], untagged: ['W1', 'W2', 'W3'] });
+    expect(tagCounts(untag.collection)).toEqual({ include: 3 });
+
+    const removed = await store.remove('review', ['W1', 'https://doi.org/10.1/TWO', 'W9']);
+    expect(removed).toMatchObject({ removed: ['W1', 'W2'], not_found: ['W9'] });
+    expect(removed.collection.items.map(item => item.id)).toEqual(['W3']);
+  });
+});
+
+describe('collectionEntries / hydrateCollection', () => {
+  it('takes OpenAlex IDs as-is and resolves DOIs', async () => {
+    const client = fakeClient();
+    const { entries, unresolved } = await collectionEntries(
+      client as any,
+      ['W1', '10.1/three', '10.9/unknown'],
+      [{ id: 'https://openalex.org/W2', doi: 'https://doi.org/10.1/two' }, { doi: 'https://doi.org/10.1/one' }, { title: 'no id' }],
+    );
+    expect(entries.map(e => e.id.split('/').pop())).toEqual(['W1', 'W2', 'W3', 'W1']);
+    expect(unresolved).toEqual(['10.9/unknown']);
+    expect(client.resolveWorks).toHaveBeenCalledWith(['10.1/three', '10.9/unknown', 'https://doi.org/10.1/one']);
+  });
+
+  it('fetches works in collection order and reports missing IDs', async () => {
+    const client = fakeClient();
+    const store = new CollectionStore(join(dir, 'collections.json'));
+    await store.create('review');
+    await store.add('review', [{ id: 'W3' }, { id: 'W404' }], { tags: ['a'] });
+    await store.add('review', [{ id: 'W1' }]);
+
+    const all = await hydrateCollection(client as any, await store.get('review'));
+    expect(all.items.map(({ work }) => work.id)).toEqual([CATALOG[2].id, CATALOG[0].id]);
+    expect(all.missing).toEqual(['W404']);
+    expect(client.getWorksByIds).toHaveBeenCalledWith(['W3', 'W404', 'W1']);
+
+    const tagged = await hydrateCollection(client as any, await store.get('review'), 'a');
+    expect(tagged.items.map(({ item }) => item.id)).toEqual(['W3']);
+  });
+});
+
+describe('collection tools over MCP', () => {
+  it('create → add from a works-list result → list → export → remove', async () => {
+    vi.stubEnv('OPENALEX_DATA_DIR', dir);
+    vi.stubEnv('OPENALEX_COLLECTIONS', '');
+    const server = createServer(fakeClient() as any);
+    const client = new Client({ name: 'test-client', version: '1.0.0' });
+    const [clientTransport, serverTransport] = InMemoryTransport.createLinkedPair();
+    await Promise.all([server.connect(serverTransport), client.connect(clientTransport)]);
+    await client.listTools();
+    const call = async (name: string, args: Record<string, unknown>) => {
+      const result: any = await client.callTool({ name, arguments: args });
+      return {
+        error: result.isError ? JSON.parse(result.content[0].text).error : null,
+        text: result.content[0].text,
+        data: result.structuredContent,
+      };
+    };
+
+    expect((await call('collection_add', { name: 'review', ids: ['W1'] })).error).toMatch(/No collection named "review"/);
+    expect((await call('collection_add', { name: 'review' })).error).toMatch(/Provide ids and\/or works/);
+
+    const created = await call('collection_create', { name: 'review', description: 'LLM review' });
+    expect(created.data).toMatchObject({ created: { name: 'review', size: 0 }, file: join(dir, 'collections.json') });
+
+    const searchResult = { meta: { count: 2 }, results: [{ id: CATALOG[0].id, title: 'Work W1' }, { id: CATALOG[1].id, title: 'Work W2' }] };
+    const added = await call('collection_add', { name: 'review', works: searchResult.results, ids: ['10.1/three'], tags: ['include'] });
+    expect(added.data).toMatchObject({ added: ['W1', 'W2', 'W3'], updated: [], unresolved: [], collection: { size: 3, tags: { include: 3 } } });
+    await call('collection_add', { name: 'review', ids: ['W2'], tags: ['methods'], note: 'see section 3' });
+
+    const listed = await call('collection_list', {});
+    expect(listed.data.collections).toEqual([expect.objectContaining({ name: 'review', size: 3, tags: { include: 3, methods: 1 } })]);
+    const detail = await call('collection_list', { name: 'review', tag: 'methods', hydrate: true });
+    expect(detail.data.collections[0].items).toEqual([
+      expect.objectContaining({ id: 'W2', note: 'see section 3', work: expect.objectContaining({ title: 'Work W2' }) }),
+    ]);
+
+    const exported = await call('collection_export', { name: 'review' });
+    expect(exported.data.results.map((w: any) => [w.id, w.collection_tags])).toEqual([
+      [CATALOG[0].id, ['include']],
+      [CATALOG[1].id, ['include', 'methods']],
+      [CATALOG[2].id, ['include']],
+    ]);
+    const bibtex = await call('collection_export', { name: 'review', tag: 'methods', format: 'bibtex' });
+    expect(bibtex.data.format).toBe('bibtex');
+    expect(bibtex.text.match(/^@/gm)).toHaveLength(1);
+
+    const removed = await call('collection_remove', { name: 'review', ids: ['W1'] });
+    expect(removed.data).toMatchObject({ removed: ['W1'], collection: { size: 2 } });
+    await client.close();
+  });
+});
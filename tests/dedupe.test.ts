@@ -0,0 +1,120 @@
+import { describe, it, expect, vi } from 'vitest';
+import { Client } from '@modelcontextprotocol/sdk/client/index.js';
+import { InMemoryTransport } from '@modelcontextprotocol/sdk/inMemory.js';
+import { createServer } from '../src/server.js';
+import { clusterWorks, dedupeWorks, duplicateMatch, isPreprint } from '../src/dedupe.js';
+
+const authors = (...names: string[]) => names.map(name => ({ author: { display_name: name } }));
+
+const published = {
+  id: 'https://openalex.org/W1',
+  doi: 'https://doi.org/10.1038/s41586-021-03819-2',
+  title: 'Highly accurate protein structure prediction with AlphaFold',
+  publication_year: 2021,
+  type: 'article',
+  cited_by_count: 20000,
+  authorships: authors('John Jumper', 'Richard Evans'),
+  primary_location: { source: { display_name: 'Nature', type: 'journal' }, version: 'publishedVersion' },
+};
+const preprint = {
+  id: 'https://openalex.org/W2',
+  doi: 'https://doi.org/10.1101/2021.01.01.123456',
+  title: 'Highly Accurate Protein Structure Prediction with AlphaFold.',
+  publication_year: 2020,
+  type: 'preprint',
+  cited_by_count: 300,
+  authorships: authors('J. Jumper', 'R. Evans'),
+  primary_location: { source: { display_name: 'bioRxiv', type: 'repository' }, version: 'submittedVersion' },
+};
+const sameDoi = { ...published, id: 'https://openalex.org/W3', title: 'AlphaFold', cited_by_count: 5 };
+const revised = {
+  ...preprint,
+  id: 'https://openalex.org/W4',
+  doi: null,
+  title: 'Highly accurate protein structure prediction with AlphaFold 2',
+  authorships: authors('John Jumper'),
+  primary_location: { source: { display_name: 'arXiv', type: 'repository' } },
+};
+const other = {
+  id: 'https://openalex.org/W5',
+  doi: 'https://doi.org/10.1126/science.abj8754',
+  title: 'Accurate prediction of protein structures and interactions using a three-track neural network',
+  publication_year: 2021,
+  type: 'article',
+  authorships: authors('Minkyung Baek'),
+};
+
+describe('duplicateMatch', () => {
+  it('links by DOI, by normalized title with a shared author, and by near-identical title', () => {
+    expect(duplicateMatch(published, sameDoi)).toBe('doi');
+    expect(duplicateMatch(published, preprint)).toBe('title');
+    expect(duplicateMatch(published, revised)).toBe('similar_title');
+    expect(duplicateMatch(published, other)).toBeNull();
+  });
+
+  it('keeps apart same-titled works by different authors, years far apart, or short titles', () => {
+    expect(duplicateMatch(published, { ...preprint, authorships: authors('Someone Else') })).toBeNull();
+    expect(duplicateMatch(published, { ...preprint, publication_year: 2010 })).toBeNull();
+    const editorial = { id: 'W6', title: 'Editorial', authorships: authors('A Smith'), publication_year: 2020 };
+    expect(duplicateMatch(editorial, { ...editorial, id: 'W7' })).toBeNull();
+  });
+});
+
+describe('clusterWorks', () => {
+  it('picks the version of record as canonical and attaches the other versions', () => {
+    const clusters = clusterWorks([preprint, other, revised, published, sameDoi]);
+    expect(clusters.map(c => c.canonical.id)).toEqual([published.id, other.id]);
+    expect(clusters[0].alternates.map(a => [a.work.id, a.matched_by])).toEqual([
+      [sameDoi.id, 'doi'],
+      [preprint.id, 'title'],
+      [revised.id, 'similar_title'],
+    ]);
+  });
+
+  it('recognises preprints by type, DOI prefix or repository source', () => {
+    expect(isPreprint(preprint)).toBe(true);
+    expect(isPreprint({ doi: 'https://doi.org/10.48550/arXiv.1706.03762', type: 'article' })).toBe(true);
+    expect(isPreprint(published)).toBe(false);
+  });
+});
+
+describe('dedupeWorks', () => {
+  it('summarizes canonical records with alternates and counts', () => {
+    const { results, dedupe } = dedupeWorks([preprint, published, other]);
+    expect(dedupe).toEqual({ input: 3, output: 2, merged: 1 });
+    expect(results[0]).toMatchObject({ id: published.id, source: 'Nature' });
+    expect(results[0].alternates).toEqual([
+      expect.objectContaining({ id: preprint.id, source: 'bioRxiv', is_preprint: true, matched_by: 'title' }),
+    ]);
+    expect(results[1].alternates).toEqual([]);
+  });
+});
+
+describe('dedupe option over MCP', () => {
+  it('merges versions in search_works, get_work_citations and search_in_journal_list', async () => {
+    const openAlexClient = {
+      getWorks: vi.fn(async () => ({ meta: { count: 3, page: 1, per_page: 10 }, results: [preprint, published, other] })),
+    };
+    const server = createServer(openAlexClient as any);
+    const client = new Client({ name: 'test-client', version: '1.0.0' });
+    const [clientTransport, serverTransport] = InMemoryTransport.createLinkedPair();
+    await Promise.all([server.connect(serverTransport), client.connect(clientTransport)]);
+    await client.listTools();
+
+    for (const [name, args] of [
+      ['search_works', { query: 'alphafold' }],
+      ['get_work_citations', { id: 'W1' }],
+      ['search_in_journal_list', { journal_list: 'nature_science' }],
+    ] as const) {
+      const result: any = await client.callTool({ name, arguments: { ...args, dedupe: true } });
+      expect(result.isError, name).toBeFalsy();
+      expect(result.structuredContent.results.map((r: any) => r.id), name).toEqual([published.id, other.id]);
+      expect(result.structuredContent.dedupe, name).toEqual({ input: 3, output: 2, merged: 1 });
+    }
+
+    const plain: any = await client.callTool({ name: 'search_works', arguments: { query: 'alphafold' } });
+    expect(plain.structuredContent.results).toHaveLength(3);
+    expect(plain.structuredContent).not.toHaveProperty('dedupe');
+    await client.close();
+  });
+});
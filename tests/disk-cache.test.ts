@@ -0,0 +1,158 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { mkdtempSync, rmSync, readdirSync, readFileSync, writeFileSync } from 'node:fs';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import axios from 'axios';
+import { DiskCache } from '../src/disk-cache.js';
+import { OpenAlexClient } from '../src/openalex-client.js';
+import { CONFIG } from '../src/config.js';
+
+vi.mock('axios');
+
+let dir: string;
+
+beforeEach(() => {
+  dir = mkdtempSync(join(tmpdir(), 'openalex-cache-'));
+});
+
+afterEach(() => {
+  vi.useRealTimers();
+  vi.unstubAllEnvs();
+  rmSync(dir, { recursive: true, force: true });
+});
+
+describe('DiskCache', () => {
+  it('persists entries across instances (survives a restart)', async () => {
+    const first = new DiskCache({ directory: dir, maxSizeBytes: 1024 * 1024 });
+    await first.set('works/W1', { id: 'W1', title: 'Cached' }, 60_000);
+
+    const second = new DiskCache({ directory: dir, maxSizeBytes: 1024 * 1024 });
+    expect(await second.get('works/W1')).toEqual({ id: 'W1', title: 'Cached' });
+    const stats = await second.stats();
+    expect(stats.entries).toBe(1);
+    expect(stats.hits).toBe(1);
+    expect(stats.sizeBytes).toBeGreaterThan(0);
+  });
+
+  it('expires entries after their own TTL and counts misses', async () => {
+    vi.useFakeTimers({ toFake: ['Date'] });
+    const cache = new DiskCache({ directory: dir, maxSizeBytes: 1024 * 1024 });
+    await cache.set('short', 1, 1_000);
+    await cache.set('long', 2, 60_000);
+
+    vi.setSystemTime(Date.now() + 5_000);
+    expect(await cache.get('short')).toBeNull();
+    expect(await cache.get('long')).toBe(2);
+    expect(await cache.get('never-set')).toBeNull();
+
+    const stats = await cache.stats();
+    expect(stats).toMatchObject({ hits: 1, misses: 2, entries: 1 });
+  });
+
+  it('evicts oldest entries to stay under the size cap', async () => {
+    vi.useFakeTimers({ toFake: ['Date'] });
+    const payload = 'x'.repeat(400);
+    const cache = new DiskCache({ directory: dir, maxSizeBytes: 1_200 });
+    for (const key of ['a', 'b', 'c', 'd']) {
+      await cache.set(key, payload, 60_000);
+      vi.setSystemTime(Date.now() + 10);
+    }
+
+    const stats = await cache.stats();
+    expect(stats.sizeBytes).toBeLessThanOrEqual(1_200);
+    expect(stats.evictions).toBeGreaterThan(0);
+    expect(await cache.get('a')).toBeNull();
+    expect(await cache.get('d')).toBe(payload);
+  });
+
+  it('leaves other files in the directory alone (the rate-limit state file)', async () => {
+    const stateFile = join(dir, 'rate-limit.json');
+    writeFileSync(stateFile, JSON.stringify({ date: '2024-01-01', count: 5 }));
+    const cache = new DiskCache({ directory: dir, maxSizeBytes: 1_200 });
+    for (const key of ['a', 'b', 'c', 'd']) {
+      await cache.set(key, 'x'.repeat(400), 60_000);
+    }
+
+    const stats = await cache.stats();
+    expect(stats.evictions).toBeGreaterThan(0);
+    expect(stats.entries).toBeLessThan(4);
+    await cache.clear();
+    expect(readdirSync(dir)).toEqual(['rate-limit.json']);
+  });
+
+  it('treats an unreadable entry as a miss instead of throwing', async () => {
+    const cache = new DiskCache({ directory: dir, maxSizeBytes: 1024 * 1024 });
+    await cache.set('k', { ok: true }, 60_000);
+    const [file] = readdirSync(dir);
+    rmSync(join(dir, file));
+    expect(await cache.get('k')).toBeNull();
+  });
+});
+
+describe('OpenAlexClient with a disk cache', () => {
+  function mockAxios(get: any) {
+    vi.mocked(axios.create).mockReturnValue({
+      get,
+      interceptors: { response: { use: vi.fn() } },
+    } as any);
+  }
+
+  it('serves a work from disk after a restart without hitting the network', async () => {
+    const get = vi.fn().mockResolvedValue({ data: { id: 'W1', title: 'Persisted' } });
+    mockAxios(get);
+    const first = new OpenAlexClient({ diskCache: { directory: dir } });
+    await first.getWork('W1');
+    expect(get).toHaveBeenCalledTimes(1);
+
+    const second = new OpenAlexClient({ diskCache: { directory: dir } });
+    expect(await second.getWork('W1')).toEqual({ id: 'W1', title: 'Persisted' });
+    expect(get).toHaveBeenCalledTimes(1);
+    expect(await second.getDiskCacheStats()).toMatchObject({ hits: 1, entries: 1 });
+  });
+
+  it('applies per-category TTLs (entity vs search)', async () => {
+    vi.useFakeTimers({ toFake: ['Date'] });
+    mockAxios(vi.fn().mockResolvedValue({ data: { meta: {}, results: [] } }));
+    const client = new OpenAlexClient({
+      diskCache: { directory: dir, ttlMs: { works: 10_000, search: 1_000 } },
+    });
+    await client.getWork('W1');
+    await client.getWorks({ search: 'llm' });
+
+    const expiries = readdirSync(dir).map(f => {
+      const entry = JSON.parse(readFileSync(join(dir, f), 'utf-8'));
+      return [entry.key, entry.expiresAt - entry.storedAt];
+    });
+    expect(Object.fromEntries(expiries)).toEqual({
+      'works/W1': 10_000,
+      'works?{"search":"llm"}': 1_000,
+    });
+  });
+
+  it('keeps credentials out of persisted keys', async () => {
+    mockAxios(vi.fn().mockResolvedValue({ data: { meta: {}, results: [] } }));
+    const client = new OpenAlexClient({ apiKey: 'secret-key', diskCache: { directory: dir } });
+    await client.getWorks({ search: 'llm' });
+    const [file] = readdirSync(dir);
+    expect(readFileSync(join(dir, file), 'utf-8')).not.toContain('secret-key');
+  });
+
+  it('falls back to the default size cap when OPENALEX_CACHE_MAX_MB is invalid', async () => {
+    vi.stubEnv('OPENALEX_CACHE_DIR', dir);
+    mockAxios(vi.fn().mockResolvedValue({ data: { id: 'W1' } }));
+    for (const value of ['lots', '0', '-5']) {
+      vi.stubEnv('OPENALEX_CACHE_MAX_MB', value);
+      const client = new OpenAlexClient({ rateLimit: false });
+      await client.getWork('W1');
+      expect(await client.getDiskCacheStats()).toMatchObject({ entries: 1, maxSizeBytes: CONFIG.CACHE.DISK.MAX_SIZE_MB * 1024 * 1024 });
+    }
+    vi.stubEnv('OPENALEX_CACHE_MAX_MB', '2.5');
+    expect(await new OpenAlexClient({ rateLimit: false }).getDiskCacheStats()).toMatchObject({ maxSizeBytes: 2.5 * 1024 * 1024 });
+  });
+
+  it('reports null stats when the disk layer is disabled', async () => {
+    mockAxios(vi.fn());
+    const client = new OpenAlexClient({ diskCache: false });
+    expect(await client.getDiskCacheStats()).toBeNull();
+  });
+});
@@ -0,0 +1,125 @@
+import { describe, it, expect, vi } from 'vitest';
+import { Client } from '@modelcontextprotocol/sdk/client/index.js';
+import { InMemoryTransport } from '@modelcontextprotocol/sdk/inMemory.js';
+import { createServer } from '../src/server.js';
+import { kleinbergBurst, scoreEmergingTopics, scopeFilter } from '../src/emerging-topics.js';
+
+// Works per year (2018-2023): all of OpenAlex doubles, a big topic keeps pace,
+// a small one takes off in the recent window, a third one shrinks
+const TOTALS = [1000, 1200, 1400, 1600, 1800, 2000].map(n => n * 1000);
+const SERIES: Record<string, { name: string; counts: number[] }> = {
+  T1: { name: 'Deep learning', counts: [10000, 12000, 14000, 16000, 18000, 20000] },
+  T2: { name: 'Large language models', counts: [100, 110, 120, 600, 1800, 4000] },
+  T3: { name: 'Expert systems', counts: [900, 800, 700, 600, 500, 400] },
+};
+
+const years = TOTALS.map((total, i) => ({
+  year: 2018 + i,
+  total,
+  counts: new Map(Object.entries(SERIES).map(([id, { name, counts }]) => [id, { name, count: counts[i] }])),
+  truncated: false,
+}));
+
+describe('emerging topics', () => {
+  it('detects bursts in a topic\'s share of works', () => {
+    const burst = kleinbergBurst(years.map(y => ({ year: y.year, r: y.counts.get('T2')!.count, d: y.total })));
+    expect(burst).toMatchObject({ from: 2023, to: 2023, active: true });
+    expect(burst!.weight).toBeGreaterThan(0);
+    // Constant share: no burst
+    expect(kleinbergBurst(years.map(y => ({ year: y.year, r: y.counts.get('T1')!.count, d: y.total })))).toBeNull();
+  });
+
+  it('ranks by acceleration relative to overall growth', () => {
+    const { considered, overallCagr, ranked } = scoreEmergingTopics(
+      years,
+      { windowYears: 3, minWorks: 1000, rankBy: 'acceleration', limit: 10 },
+      null
+    );
+    expect(considered).toBe(3);
+    expect(overallCagr).toBeCloseTo((5400 / 3600) ** (1 / 3) - 1);
+    expect(ranked.map(t => t.topic)).toEqual(['Large language models', 'Deep learning', 'Expert systems']);
+
+    const [llm, dl, expert] = ranked;
+    expect(llm.works).toEqual({ baseline: 330, recent: 6400 });
+    expect(llm.by_year[5]).toEqual({ year: 2023, works_count: 4000 });
+    expect(llm.share.ratio).toBeGreaterThan(10);
+    expect(llm.burst?.active).toBe(true);
+    // Growing with OpenAlex is no growth relative to it
+    expect(dl.relative_growth).toBeCloseTo(0);
+    expect(dl.cagr).toBeCloseTo(overallCagr!, 3);
+    expect(expert.relative_growth!).toBeLessThan(0);
+
+    const scoped = scoreEmergingTopics(years, { windowYears: 3, minWorks: 1000, rankBy: 'cagr', limit: 1 }, new Set(['T1', 'T3']));
+    expect(scoped.considered).toBe(2);
+    expect(scoped.ranked.map(t => t.topic)).toEqual(['Deep learning']);
+  });
+
+  it('counts topics missing from truncated years conservatively', () => {
+    const truncated = years.map((y, i) => ({
+      ...y,
+      counts: new Map([...y.counts].filter(([id]) => id !== 'T2' || i >= 3)),
+      truncated: i < 3,
+    }));
+    const [llm] = scoreEmergingTopics(truncated, { windowYears: 3, minWorks: 1000, rankBy: 'acceleration', limit: 1 }, null).ranked;
+    // Baseline years fall back to the smallest listed group (Expert systems)
+    expect(llm.works.baseline).toBe(900 + 800 + 700);
+    expect(scopeFilter({ field: 'https://openalex.org/fields/17' })).toEqual({ 'topics.field.id': '17' });
+  });
+});
+
+describe('get_trending_topics growth mode over MCP', () => {
+  it('fetches yearly topic groups within a field', async () => {
+    const fake = {
+      paginateAll: vi.fn(async () => ({
+        count: 2,
+        results: [{ id: 'https://openalex.org/T1' }, { id: 'https://openalex.org/T2' }],
+        truncated: false,
+      })),
+      getWorks: vi.fn(async (options: any) => {
+        const i = Number(options.filter.publication_year) - 2018;
+        return {
+          meta: { count: TOTALS[i], next_cursor: null },
+          results: [],
+          group_by: Object.entries(SERIES).map(([id, { name, counts }]) => ({
+            key: `https://openalex.org/${id}`,
+            key_display_name: name,
+            count: counts[i],
+          })),
+        };
+      }),
+    };
+    const server = createServer(fake as any);
+    const client = new Client({ name: 'test-client', version: '1.0.0' });
+    const [clientTransport, serverTransport] = InMemoryTransport.createLinkedPair();
+    await Promise.all([server.connect(serverTransport), client.connect(clientTransport)]);
+    await client.listTools();
+
+    const result: any = await client.callTool({
+      name: 'get_trending_topics',
+      arguments: { mode: 'growth', end_year: 2023, window_years: 3, field: '17', min_works: 500 },
+    });
+    expect(result.isError).toBeFalsy();
+    const data = result.structuredContent;
+    expect(data).toMatchObject({
+      mode: 'growth',
+      windows: { baseline: { from: 2018, to: 2020 }, recent: { from: 2021, to: 2023 } },
+      overall: { baseline_works: 3600000, recent_works: 5400000 },
+      scope: { field: '17' },
+      rank_by: 'acceleration',
+      topics_considered: 2,
+      truncated_years: [],
+    });
+    expect(data.emerging_topics.map((t: any) => t.topic_id)).toEqual(['https://openalex.org/T2', 'https://openalex.org/T1']);
+    expect(fake.paginateAll).toHaveBeenCalledWith('topics', expect.objectContaining({ filter: { 'field.id': '17' } }), expect.any(Number));
+    expect(fake.getWorks).toHaveBeenCalledTimes(6);
+    expect(fake.getWorks).toHaveBeenCalledWith(expect.objectContaining({
+      filter: { 'topics.field.id': '17', publication_year: '2018' },
+      groupBy: 'topics.id',
+      cursor: '*',
+    }));
+
+    const invalid: any = await client.callTool({ name: 'get_trending_topics', arguments: { mode: 'growth', field: 'Computer Science' } });
+    expect(invalid.isError).toBe(true);
+    await client.close();
+  });
+});
@@ -1,5 +1,6 @@
 import { describe, it, expect } from 'vitest';
-import { buildFilter } from '../src/filter.js';
+import { buildAdvancedFilter, buildFilter, filterKeyError } from '../src/filter.js';
+import { searchAuthorsSchema, searchWorksSchema, validateInput } from '../src/validation.js';
 
 describe('buildFilter', () => {
   it('should handle from_year only (inclusive)', () => {
@@ -85,3 +86,49 @@ describe('buildFilter', () => {
     expect(filter['publication_year']).toBe('>2019');
   });
 });
+
+describe('buildAdvancedFilter', () => {
+  it('passes OpenAlex value syntax through and joins arrays as OR', () => {
+    expect(buildAdvancedFilter('works', {
+      language: 'en',
+      is_retracted: false,
+      'grants.funder': 'F4320332161|F4320306076',
+      type: '!paratext',
+      'authorships.institutions.country_code': 'us+gb',
+      from_publication_date: '2020-01-01',
+      fwci: '>1.5',
+      'sustainable_development_goals.id': [3, 13],
+    })).toEqual({
+      language: 'en',
+      is_retracted: 'false',
+      'grants.funder': 'F4320332161|F4320306076',
+      type: '!paratext',
+      'authorships.institutions.country_code': 'us+gb',
+      from_publication_date: '2020-01-01',
+      fwci: '>1.5',
+      'sustainable_development_goals.id': '3|13',
+    });
+    expect(buildAdvancedFilter('works', undefined)).toEqual({});
+  });
+
+  it('checks keys against the entity allowlist and suggests corrections', () => {
+    expect(filterKeyError('authors', 'last_known_institutions.ror')).toBeNull();
+    expect(filterKeyError('works', 'publicaton_year')).toMatch(/Unknown works filter "publicaton_year"\. Did you mean "publication_year"/);
+    expect(filterKeyError('works', 'orcid')).toContain('"authorships.author.orcid"');
+    // Valid for works, not for sources
+    expect(() => buildAdvancedFilter('sources', { language: 'en' })).toThrow(/Unknown sources filter "language"\..*filter-sources/);
+  });
+
+  it('rejects values that would corrupt the filter string', () => {
+    expect(() => buildAdvancedFilter('works', { language: 'en,fr' })).toThrow(/contains a comma; use \| for OR/);
+    expect(() => buildAdvancedFilter('works', { language: ' ' })).toThrow(/empty value/);
+  });
+
+  it('is validated as part of the tool input', () => {
+    expect(() => validateInput(searchWorksSchema, { advanced_filter: { has_fulltext: true, 'ids.pmid': ['1', '2'] } }, 'search_works'))
+      .not.toThrow();
+    expect(() => validateInput(searchAuthorsSchema, { advanced_filter: { h_index: '>20' } }, 'search_authors'))
+      .toThrow(/advanced_filter\.h_index: Unknown authors filter "h_index"\. Did you mean "summary_stats\.h_index"/);
+    expect(() => validateInput(searchWorksSchema, { advanced_filter: { language: { not: 'en' } } }, 'search_works')).toThrow();
+  });
+});
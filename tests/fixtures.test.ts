@@ -0,0 +1,100 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { mkdtempSync, rmSync, readdirSync, readFileSync, writeFileSync } from 'node:fs';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import axios from 'axios';
+import { FixtureStore, fixtureConfigFromEnv, fixtureKey } from '../src/fixtures.js';
+import { OpenAlexClient } from '../src/openalex-client.js';
+
+vi.mock('axios');
+
+let dir: string;
+
+beforeEach(() => {
+  dir = mkdtempSync(join(tmpdir(), 'openalex-fixtures-'));
+});
+
+afterEach(() => {
+  rmSync(dir, { recursive: true, force: true });
+});
+
+function mockAxios(data: unknown) {
+  const get = vi.fn(async () => ({ data }));
+  vi.mocked(axios.create).mockReturnValue({ get, interceptors: { response: { use: vi.fn() } } } as any);
+  return get;
+}
+
+describe('fixtureKey', () => {
+  it('ignores credentials and parameter order, and decodes the path', () => {
+    expect(fixtureKey('/works', { search: 'open access', page: '1', mailto: 'a@b.c' }))
+      .toBe(fixtureKey('/works', { page: '1', search: 'open access', api_key: 'secret' }));
+    expect(fixtureKey('/works/https%3A%2F%2Fdoi.org%2F10.1%2Fx')).toBe('/works/https://doi.org/10.1/x');
+    expect(fixtureKey('/works', { filter: 'publication_year:2020' })).toBe('/works?filter=publication_year%3A2020');
+  });
+});
+
+describe('fixtureConfigFromEnv', () => {
+  it('reads the mode and directory', () => {
+    expect(fixtureConfigFromEnv({})).toBe(false);
+    expect(fixtureConfigFromEnv({ OPENALEX_FIXTURES: 'off' })).toBe(false);
+    expect(fixtureConfigFromEnv({ OPENALEX_FIXTURES: 'Replay', OPENALEX_FIXTURES_DIR: dir })).toEqual({ mode: 'replay', directory: dir });
+    expect(fixtureConfigFromEnv({ OPENALEX_FIXTURES: 'record' })).toEqual({ mode: 'record', directory: 'fixtures/openalex' });
+    expect(() => fixtureConfigFromEnv({ OPENALEX_FIXTURES: 'live' })).toThrow(/Unknown OPENALEX_FIXTURES mode/);
+  });
+});
+
+describe('FixtureStore', () => {
+  it('serves entities found in recorded list responses, by ID and DOI', async () => {
+    writeFileSync(join(dir, 'hand-written.json'), JSON.stringify({
+      request: { path: '/works', params: { search: 'oa' } },
+      response: { meta: { count: 1 }, results: [{ id: 'https://openalex.org/W1', doi: 'https://doi.org/10.1/ABC', title: 'T' }] },
+    }));
+    writeFileSync(join(dir, 'broken.json'), '{ not json');
+    const store = new FixtureStore(dir);
+    expect(await store.size()).toBe(1);
+    expect(await store.lookup('/works/W1')).toMatchObject({ title: 'T' });
+    expect(await store.lookup('/works/doi:10.1/abc')).toMatchObject({ title: 'T' });
+    expect(await store.lookup('/works/https%3A%2F%2Fdoi.org%2F10.1%2FABC')).toMatchObject({ title: 'T' });
+    expect(await store.lookup('/works/W2')).toBeUndefined();
+  });
+});
+
+describe('OpenAlexClient record/replay', () => {
+  it('records live responses without credentials, then replays them offline', async () => {
+    const data = { meta: { count: 1 }, results: [{ id: 'https://openalex.org/W1', title: 'Recorded' }] };
+    const liveGet = mockAxios(data);
+    const recorder = new OpenAlexClient({
+      email: 'me@example.com', enableCache: false, rateLimit: false, fixtures: { mode: 'record', directory: dir },
+    });
+    await recorder.getWorks({ search: 'open access' });
+    expect(liveGet).toHaveBeenCalledTimes(1);
+
+    const files = readdirSync(dir);
+    expect(files).toHaveLength(1);
+    const saved = readFileSync(join(dir, files[0]), 'utf8');
+    expect(saved).not.toContain('me@example.com');
+    expect(JSON.parse(saved).request).toEqual({ path: '/works', params: { search: 'open access' } });
+
+    const offlineGet = mockAxios(null);
+    const replayer = new OpenAlexClient({
+      email: 'other@example.com', enableCache: false, rateLimit: false, fixtures: { mode: 'replay', directory: dir },
+    });
+    expect(await replayer.getWorks({ search: 'open access' })).toEqual(data);
+    expect(await replayer.getWork('W1')).toMatchObject({ title: 'Recorded' });
+    expect(offlineGet).not.toHaveBeenCalled();
+
+    // A key only counts when requests actually reach the API
+    expect(new OpenAlexClient({ apiKey: 'k', rateLimit: false, fixtures: false }).usesApiKey()).toBe(true);
+    expect(new OpenAlexClient({ apiKey: 'k', rateLimit: false, fixtures: { mode: 'replay', directory: dir } }).usesApiKey()).toBe(false);
+  });
+
+  it('fails a replay miss immediately instead of retrying or going online', async () => {
+    const get = mockAxios({});
+    const client = new OpenAlexClient({ enableCache: false, rateLimit: false, fixtures: { mode: 'replay', directory: dir } });
+    const started = Date.now();
+    await expect(client.getWorks({ search: 'unrecorded' }))
+      .rejects.toThrow('No fixture recorded for GET /works?search=unrecorded');
+    expect(Date.now() - started).toBeLessThan(500);
+    expect(get).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,148 @@
+import { describe, it, expect, vi } from 'vitest';
+import {
+  GraphBuilder, buildCitationGraph, buildCoauthorGraph, fetchCitationGraph,
+  toGraphML, toGEXF, toDOT, toNodeLink, formatGraph,
+} from '../src/graph.js';
+
+const work = (id: string, refs: string[] = [], extra: any = {}) => ({
+  id: `https://openalex.org/${id}`,
+  title: `Work ${id}`,
+  publication_year: 2020,
+  cited_by_count: 10,
+  fwci: 1.5,
+  primary_location: { source: { display_name: 'Nature' } },
+  primary_topic: { display_name: 'Graph Theory', field: { display_name: 'Mathematics' } },
+  referenced_works: refs.map(r => `https://openalex.org/${r}`),
+  ...extra,
+});
+
+// S cites A and B; X and Y cite S; X also cites A
+const S = work('S', ['A', 'B']);
+const A = work('A');
+const B = work('B', [], { title: 'Tom & Jerry <"quoted">', fwci: null });
+const X = work('X', ['S', 'A']);
+const Y = work('Y', ['S']);
+
+const authored = (...names: string[]) => ({
+  id: 'https://openalex.org/W',
+  authorships: names.map(n => ({ author: { id: `https://openalex.org/${n}`, display_name: `Author ${n}` } })),
+});
+
+describe('GraphBuilder', () => {
+  it('dedupes nodes and edges and ignores edges to unknown nodes', () => {
+    const builder = new GraphBuilder('g', false);
+    builder.addNode('a', 'A', { year: 2020 });
+    builder.addNode('a', 'A', { year: null, citations: 3 });
+    builder.addNode('b', 'B');
+    builder.addEdge('a', 'b');
+    builder.addEdge('b', 'a');
+    builder.addEdge('a', 'missing');
+    const graph = builder.build();
+    expect(graph.nodes).toHaveLength(2);
+    expect(graph.nodes[0].attributes).toEqual({ year: 2020, citations: 3 });
+    expect(graph.edges).toHaveLength(1);
+  });
+});
+
+describe('buildCitationGraph', () => {
+  const graph = buildCitationGraph([S], [X, Y], [A, B]);
+
+  it('adds seed, citing and reference nodes with work attributes', () => {
+    expect(graph.directed).toBe(true);
+    expect(graph.nodes.map(n => [n.id, n.attributes.role])).toEqual([
+      ['S', 'seed'], ['X', 'citing'], ['Y', 'citing'], ['A', 'reference'], ['B', 'reference'],
+    ]);
+    expect(graph.nodes[0].attributes).toMatchObject({
+      year: 2020, citations: 10, venue: 'Nature', topic: 'Graph Theory', field: 'Mathematics', fwci: 1.5,
+    });
+  });
+
+  it('links citing → cited, including citations among neighbours', () => {
+    const edges = graph.edges.map(e => `${e.source}->${e.target}`).sort();
+    expect(edges).toEqual(['S->A', 'S->B', 'X->A', 'X->S', 'Y->S']);
+  });
+});
+
+describe('buildCoauthorGraph', () => {
+  const works = [authored('A1', 'A2', 'A3'), authored('A1', 'A2'), authored('A1', 'A4')];
+
+  it('weights edges by shared works and links collaborators to each other', () => {
+    const graph = buildCoauthorGraph('A1', works);
+    expect(graph.directed).toBe(false);
+    expect(graph.nodes.find(n => n.id === 'A1')!.attributes).toEqual({ role: 'ego', works: 3 });
+    expect(graph.nodes.find(n => n.id === 'A2')!.attributes).toEqual({ role: 'collaborator', works: 2 });
+    const weights = Object.fromEntries(graph.edges.map(e => [`${e.source}-${e.target}`, e.attributes.weight]));
+    expect(weights).toEqual({ 'A1-A2': 2, 'A1-A3': 1, 'A2-A3': 1, 'A1-A4': 1 });
+  });
+
+  it('applies min_collaborations and finds the ego when given an ORCID', () => {
+    const graph = buildCoauthorGraph('https://orcid.org/0000-0001-2345-6789', works, 2);
+    expect(graph.nodes.map(n => n.id)).toEqual(['A1', 'A2']);
+    expect(graph.edges).toHaveLength(1);
+
+    // A hyper-authored work adds no edges among filtered-out authors
+    const consortium = authored('A1', 'A2', ...Array.from({ length: 200 }, (_, i) => `B${i}`));
+    const filtered = buildCoauthorGraph('A1', [...works, consortium], 2);
+    expect(filtered.nodes.map(n => n.id)).toEqual(['A1', 'A2']);
+    expect(filtered.edges.map(e => e.attributes.weight)).toEqual([3]);
+  });
+});
+
+describe('serializers', () => {
+  const graph = buildCitationGraph([S], [], [A, B]);
+
+  it('GraphML declares typed keys and escapes XML', () => {
+    const xml = toGraphML(graph);
+    expect(xml).toContain('<key id="n_year" for="node" attr.name="year" attr.type="int"/>');
+    expect(xml).toContain('<key id="n_fwci" for="node" attr.name="fwci" attr.type="double"/>');
+    expect(xml).toContain('edgedefault="directed"');
+    expect(xml).toContain('Tom &amp; Jerry &lt;&quot;quoted&quot;&gt;');
+    expect(xml).toContain('<edge id="e0" source="S" target="A">');
+    // Null attributes are omitted rather than written empty
+    expect(xml.split('<node id="B">')[1].split('</node>')[0]).not.toContain('n_fwci');
+  });
+
+  it('GEXF uses attribute ids and native edge weights', () => {
+    const gexf = toGEXF(buildCoauthorGraph('A1', [authored('A1', 'A2'), authored('A1', 'A2')]));
+    expect(gexf).toContain('defaultedgetype="undirected"');
+    expect(gexf).toContain('<attribute id="0" title="role" type="string"/>');
+    expect(gexf).toContain('<node id="A1" label="Author A1">');
+    expect(gexf).toContain('<edge id="0" source="A1" target="A2" weight="2">');
+  });
+
+  it('DOT quotes identifiers and strings', () => {
+    const dot = toDOT(graph);
+    expect(dot.startsWith('digraph "citation_network" {')).toBe(true);
+    expect(dot).toContain('"B" [label="Tom & Jerry <\\"quoted\\">"');
+    expect(dot).toContain('year=2020');
+    expect(dot).toContain('"S" -> "A" [type="cites"];');
+    expect(toDOT(buildCoauthorGraph('A1', [authored('A1', 'A2')]))).toContain('"A1" -- "A2" [weight=1];');
+  });
+
+  it('node-link JSON matches the networkx/d3 layout', () => {
+    const data = toNodeLink(graph);
+    expect(data).toMatchObject({ directed: true, multigraph: false, graph: { name: 'citation_network' } });
+    expect(data.nodes[0]).toMatchObject({ id: 'S', label: 'Work S', year: 2020, role: 'seed' });
+    expect(data.nodes[2]).not.toHaveProperty('fwci');
+    expect(data.links).toContainEqual({ source: 'S', target: 'B', type: 'cites' });
+    expect(JSON.parse(formatGraph(graph, 'json'))).toEqual(data);
+  });
+});
+
+describe('fetchCitationGraph', () => {
+  it('resolves seeds, fetches citing works and hydrates references', async () => {
+    const client = {
+      resolveWorks: vi.fn(async () => ({ works: [S], unresolved: ['10.9999/missing'] })),
+      getWorks: vi.fn(async () => ({ meta: { count: 2 }, results: [X, Y] })),
+      getWorksByIds: vi.fn(async (ids: string[]) => [A, B].filter(w => ids.includes(w.id))),
+    };
+    const { graph, unresolved } = await fetchCitationGraph(client as any, ['S', '10.9999/missing'], {
+      maxCitingPerSeed: 2,
+      maxReferencesPerSeed: 1,
+    });
+    expect(unresolved).toEqual(['10.9999/missing']);
+    expect(client.getWorks).toHaveBeenCalledWith(expect.objectContaining({ filter: { cites: 'S' }, perPage: 2 }));
+    expect(client.getWorksByIds).toHaveBeenCalledWith(['https://openalex.org/A']);
+    expect(graph.nodes.map(n => n.id)).toEqual(['S', 'X', 'Y', 'A']);
+  });
+});
@@ -0,0 +1,105 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { Client } from '@modelcontextprotocol/sdk/client/index.js';
+import { StreamableHTTPClientTransport } from '@modelcontextprotocol/sdk/client/streamableHttp.js';
+import { OpenAlexClient } from '../src/openalex-client.js';
+import { createServer, tools } from '../src/server.js';
+import { parseTransportOptions, startHttpServer, HttpServerHandle } from '../src/http-transport.js';
+
+describe('parseTransportOptions', () => {
+  it('defaults to stdio on 127.0.0.1:3000', () => {
+    expect(parseTransportOptions([], {})).toEqual({ transport: 'stdio', host: '127.0.0.1', port: 3000 });
+  });
+
+  it('reads flags, which take precedence over env vars', () => {
+    const env = { MCP_TRANSPORT: 'stdio', MCP_HTTP_HOST: '10.0.0.1', MCP_HTTP_PORT: '9000' };
+    expect(parseTransportOptions(['--transport', 'http', '--host', '0.0.0.0', '--port', '8080'], env))
+      .toEqual({ transport: 'http', host: '0.0.0.0', port: 8080 });
+    expect(parseTransportOptions([], { ...env, MCP_TRANSPORT: 'HTTP' }))
+      .toEqual({ transport: 'http', host: '10.0.0.1', port: 9000 });
+  });
+
+  it('rejects unknown transports and invalid ports', () => {
+    expect(() => parseTransportOptions(['--transport', 'websocket'], {})).toThrow(/Unknown transport/);
+    expect(() => parseTransportOptions(['--port', 'abc'], {})).toThrow(/Invalid port/);
+    expect(() => parseTransportOptions([], { MCP_HTTP_PORT: '70000' })).toThrow(/Invalid port/);
+  });
+});
+
+describe('Streamable HTTP transport (in-process client)', () => {
+  let handle: HttpServerHandle;
+
+  beforeEach(async () => {
+    // Only tools that never reach the network are called, so the client is inert
+    const openAlexClient = new OpenAlexClient({ enableCache: false });
+    handle = await startHttpServer(() => createServer(openAlexClient), { host: '127.0.0.1', port: 0 });
+  });
+
+  afterEach(async () => {
+    await handle.close();
+  });
+
+  async function connect(): Promise<{ client: Client; transport: StreamableHTTPClientTransport }> {
+    const client = new Client({ name: 'test-client', version: '1.0.0' });
+    const transport = new StreamableHTTPClientTransport(new URL(handle.url));
+    await client.connect(transport);
+    return { client, transport };
+  }
+
+  it('serves the same tool list as stdio', async () => {
+    const { client } = await connect();
+    const listed = await client.listTools();
+    expect(listed.tools.map(t => t.name)).toEqual(tools.map(t => t.name));
+    await client.close();
+  });
+
+  it('routes tool calls through the shared handler', async () => {
+    const { client } = await connect();
+    const result: any = await client.callTool({ name: 'health_check', arguments: {} });
+    expect(JSON.parse(result.content[0].text).status).toBe('healthy');
+    await client.close();
+  });
+
+  it('gives each client its own session and ends it on DELETE', async () => {
+    const a = await connect();
+    const b = await connect();
+    expect(a.transport.sessionId).toBeDefined();
+    expect(a.transport.sessionId).not.toBe(b.transport.sessionId);
+    expect(handle.sessionCount()).toBe(2);
+
+    await a.transport.terminateSession();
+    expect(handle.sessionCount()).toBe(1);
+
+    await a.client.close();
+    await b.client.close();
+  });
+
+  it('rejects non-initialize requests without a session and unknown paths', async () => {
+    const base = new URL(handle.url);
+    const noSession = await fetch(base, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json', Accept: 'application/json, text/event-stream' },
+      body: JSON.stringify({ jsonrpc: '2.0', id: 1, method: 'tools/list' }),
+    });
+    expect(noSession.status).toBe(400);
+
+    const unknownSession = await fetch(base, {
+      method: 'GET',
+      headers: { 'mcp-session-id': 'does-not-exist', Accept: 'text/event-stream' },
+    });
+    expect(unknownSession.status).toBe(404);
+
+    const wrongPath = await fetch(new URL('/other', base), { method: 'POST', body: '{}' });
+    expect(wrongPath.status).toBe(404);
+  });
+
+  it('answers malformed JSON with a parse error', async () => {
+    const res = await fetch(handle.url, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: '{not json',
+    });
+    expect(res.status).toBe(400);
+    const body = await res.json();
+    expect(body.error.code).toBe(-32700);
+  });
+});
@@ -7,7 +7,8 @@
 
 import axios from 'axios';
 
-const API_BASE = 'https://api.openalex.org';
+// Point at a local stand-in with OPENALEX_BASE_URL (see `openalex-research-mcp mock-server`)
+const API_BASE = process.env.OPENALEX_BASE_URL || 'https://api.openalex.org';
 const EMAIL = 'test@example.com';
 
 // Track test results
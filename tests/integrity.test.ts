@@ -0,0 +1,86 @@
+import { describe, it, expect, vi } from 'vitest';
+import { checkIntegrity, formatIntegrityReport, IntegrityOptions } from '../src/integrity.js';
+
+const author = (id: string) => ({ author: { id: `https://openalex.org/${id}`, display_name: `Author ${id}` } });
+
+// M cites a retracted paper (R) and three papers of its own author A1 (P1–P3)
+const WORKS: Record<string, any> = {
+  M: { title: 'Manuscript', authors: ['A1', 'A2'], refs: ['R', 'P1', 'P2', 'P3', 'O1', 'O2'] },
+  T: { title: 'Retracted study', authors: ['A3'], refs: ['O1'], is_retracted: true },
+  F: { title: 'Front matter', authors: [], refs: [], is_paratext: true },
+  R: { title: 'Retracted reference', authors: ['A9'], refs: [], is_retracted: true },
+  P1: { title: 'Own paper 1', authors: ['A1'], refs: [] },
+  P2: { title: 'Own paper 2', authors: ['A1', 'A4'], refs: [] },
+  P3: { title: 'Own paper 3', authors: ['A2'], refs: [] },
+  O1: { title: 'Other paper 1', authors: ['A5'], refs: [] },
+  O2: { title: 'Other paper 2', authors: ['A6'], refs: [] },
+};
+
+const work = (id: string) => ({
+  id: `https://openalex.org/${id}`,
+  doi: `https://doi.org/10.1234/${id.toLowerCase()}`,
+  title: WORKS[id].title,
+  publication_year: 2020,
+  is_retracted: !!WORKS[id].is_retracted,
+  is_paratext: !!WORKS[id].is_paratext,
+  authorships: WORKS[id].authors.map(author),
+  referenced_works: WORKS[id].refs.map((r: string) => `https://openalex.org/${r}`),
+});
+
+function fakeClient() {
+  return {
+    resolveWorks: vi.fn(async (ids: string[]) => ({
+      works: ids.filter(id => WORKS[id]).map(work),
+      unresolved: ids.filter(id => !WORKS[id]),
+    })),
+    getWorksByIds: vi.fn(async (ids: string[]) => ids.filter(id => WORKS[id]).map(work)),
+  };
+}
+
+const options: IntegrityOptions = { selfCitationThreshold: 0.25, maxReferencesPerWork: 500 };
+
+describe('checkIntegrity', () => {
+  it('lists cited retracted works and flags self-citation-heavy reference lists', async () => {
+    const report = await checkIntegrity(fakeClient() as any, ['M'], options);
+    const [m] = report.works;
+    expect(m.status).toBe('needs_review');
+    expect(m.flags).toEqual(['cites_retracted', 'self_citation_heavy']);
+    expect(m.cited_retracted_works.map(w => w.title)).toEqual(['Retracted reference']);
+    expect(m.references).toEqual({ total: 6, checked: 6, resolved: 6 });
+    expect(m.self_citations).toMatchObject({ count: 3, ratio: 0.5, authors: ['Author A1', 'Author A2'] });
+  });
+
+  it('flags retracted works and paratext, and reports unresolved IDs', async () => {
+    const report = await checkIntegrity(fakeClient() as any, ['T', 'F', 'W0'], options);
+    expect(report.works.map(w => [w.status, w.flags])).toEqual([
+      ['retracted', ['retracted']],
+      ['needs_review', ['paratext']],
+    ]);
+    expect(report.unresolved).toEqual(['W0']);
+    expect(report.summary).toEqual({
+      checked: 2, retracted: 1, cites_retracted: 0, paratext: 1, self_citation_heavy: 0, unresolved: 1,
+    });
+  });
+
+  it('hydrates shared references once and respects the per-work cap and threshold', async () => {
+    const client = fakeClient();
+    const report = await checkIntegrity(client as any, ['M', 'T'], { selfCitationThreshold: 0.9, maxReferencesPerWork: 2 });
+    expect(client.getWorksByIds).toHaveBeenCalledTimes(1);
+    expect(client.getWorksByIds.mock.calls[0][0].sort()).toEqual(['O1', 'P1', 'R']);
+    const [m] = report.works;
+    expect(m.references).toEqual({ total: 6, checked: 2, resolved: 2 });
+    expect(m.flags).toEqual(['cites_retracted']);
+    expect(m.notes).toContain('Only the first 2 of 6 references were checked.');
+  });
+
+  it('renders a markdown report for manuscript review', async () => {
+    const report = await checkIntegrity(fakeClient() as any, ['M', 'W0'], options);
+    const markdown = formatIntegrityReport(report);
+    expect(markdown).toContain('# Integrity screening report');
+    expect(markdown).toContain('Not found in OpenAlex: W0');
+    expect(markdown).toContain('## 1. Manuscript (2020)');
+    expect(markdown).toContain('- **Status**: Needs review');
+    expect(markdown).toContain('  - Retracted reference (2020) — https://doi.org/10.1234/r');
+    expect(markdown).toContain('- **Self-citations**: 3 (50% of resolved references) by Author A1, Author A2');
+  });
+});
@@ -0,0 +1,85 @@
+import { describe, it, expect, beforeAll, afterAll } from 'vitest';
+import { Client } from '@modelcontextprotocol/sdk/client/index.js';
+import { InMemoryTransport } from '@modelcontextprotocol/sdk/inMemory.js';
+import { createServer } from '../src/server.js';
+import { OpenAlexClient } from '../src/openalex-client.js';
+import { MockServerHandle, startMockServer } from '../src/mock-server.js';
+
+const FIXTURES = 'tests/fixtures/openalex';
+
+// Every tool handler below runs end to end: MCP client → server → OpenAlexClient
+// → axios → local stand-in serving tests/fixtures/openalex.
+describe('tool handlers against the mock OpenAlex API', () => {
+  let mock: MockServerHandle;
+  let client: Client;
+
+  beforeAll(async () => {
+    mock = await startMockServer({ directory: FIXTURES });
+    const openAlexClient = new OpenAlexClient({ baseUrl: mock.url, enableCache: false, rateLimit: false, fixtures: false });
+    client = new Client({ name: 'test-client', version: '1.0.0' });
+    const [clientTransport, serverTransport] = InMemoryTransport.createLinkedPair();
+    await Promise.all([createServer(openAlexClient).connect(serverTransport), client.connect(clientTransport)]);
+    await client.listTools();
+  });
+
+  afterAll(async () => {
+    await client.close();
+    await mock.close();
+  });
+
+  const call = async (name: string, args: Record<string, unknown>) => {
+    const result: any = await client.callTool({ name, arguments: args });
+    expect(result.isError, result.content[0].text).toBeFalsy();
+    return result.structuredContent;
+  };
+
+  it('searches works', async () => {
+    const result = await call('search_works', { query: 'open access' });
+    expect(result.meta.count).toBe(2);
+    expect(result.results.map((w: any) => w.title)).toContain('Citation Advantage of Open Access Articles');
+  });
+
+  it('gets a work by ID and by DOI', async () => {
+    const byId = await call('get_work', { id: 'W2741809807' });
+    const byDoi = await call('get_work', { id: '10.7717/peerj.4375' });
+    expect(byId.title).toMatch(/^The state of OA/);
+    expect(byDoi).toEqual(byId);
+  });
+
+  it('profiles an author', async () => {
+    const profile = await call('get_author_profile', { author_id: 'A5023888391' });
+    expect(profile).toMatchObject({ name: 'Heather Piwowar', h_index: 28 });
+    expect(profile.top_cited_works).toHaveLength(1);
+  });
+
+  it('searches and rates sources', async () => {
+    expect((await call('search_sources', { query: 'PeerJ' })).sources[0].display_name).toBe('PeerJ');
+    const quality = await call('check_venue_quality', { venue_name: 'PeerJ' });
+    expect(quality).toMatchObject({ h_index: 139 });
+  });
+
+  it('groups works by year and autocompletes', async () => {
+    const trends = await call('analyze_topic_trends', { query: 'open access', from_year: 2015, to_year: 2018 });
+    expect(JSON.stringify(trends)).toContain('52110');
+    const suggestions = await call('autocomplete_search', { query: 'piwow', entity_type: 'authors' });
+    expect(JSON.stringify(suggestions)).toContain('Heather Piwowar');
+  });
+
+  it('answers requests without a fixture with a 404 naming the request', async () => {
+    const result: any = await client.callTool({ name: 'get_work', arguments: { id: 'W1' } });
+    expect(result.isError).toBe(true);
+    const response = await fetch(`${mock.url}/works/W1?mailto=x@example.com`);
+    expect(response.status).toBe(404);
+    expect((await response.json()).message).toMatch('No fixture recorded for GET /works/W1 in');
+    expect(mock.requests).toContain('/works/W2741809807');
+  });
+});
+
+describe('replay mode', () => {
+  it('serves the same fixtures without any server', async () => {
+    const client = new OpenAlexClient({ enableCache: false, rateLimit: false, fixtures: { mode: 'replay', directory: FIXTURES } });
+    const response = await client.getWorks({ search: 'open access', page: 1, perPage: 10 });
+    expect(response.meta.count).toBe(2);
+    expect((await client.autocomplete('authors', 'piwow')).results[0].display_name).toBe('Heather Piwowar');
+  });
+});
@@ -0,0 +1,125 @@
+import { describe, it, expect, vi } from 'vitest';
+import axios from 'axios';
+import { Client } from '@modelcontextprotocol/sdk/client/index.js';
+import { InMemoryTransport } from '@modelcontextprotocol/sdk/inMemory.js';
+import { OpenAlexClient } from '../src/openalex-client.js';
+import { createServer } from '../src/server.js';
+import { validateInput, TOOL_SCHEMAS } from '../src/validation.js';
+
+vi.mock('axios');
+
+function createMockAxios(mockGet: any) {
+  return {
+    get: mockGet,
+    interceptors: {
+      response: {
+        use: vi.fn(),
+      },
+    },
+  };
+}
+
+// Simulates OpenAlex cursor paging over `total` works
+function cursorApi(total: number) {
+  return vi.fn().mockImplementation(async (_url: string, { params }: any) => {
+    const perPage = Number(params.per_page);
+    const offset = params.cursor === '*' ? 0 : Number(params.cursor);
+    const results = Array.from({ length: Math.max(0, Math.min(perPage, total - offset)) }, (_, i) => ({ id: `W${offset + i}` }));
+    const next = offset + results.length;
+    return {
+      data: {
+        meta: { count: total, page: null, per_page: perPage, next_cursor: next < total ? String(next) : null },
+        results,
+      },
+    };
+  });
+}
+
+describe('Cursor pagination', () => {
+  it('starts with cursor=* and follows next_cursor, ignoring page', async () => {
+    const mockGet = cursorApi(450);
+    vi.mocked(axios.create).mockReturnValue(createMockAxios(mockGet) as any);
+    const client = new OpenAlexClient({ enableCache: false });
+
+    const { results, count, truncated } = await client.paginateAll('works', { search: 'llm', page: 3 });
+
+    expect(results).toHaveLength(450);
+    expect(count).toBe(450);
+    expect(truncated).toBe(false);
+    const cursors = mockGet.mock.calls.map(c => c[1].params.cursor);
+    expect(cursors).toEqual(['*', '200', '400']);
+    expect(mockGet.mock.calls[0][1].params.page).toBeUndefined();
+    expect(mockGet.mock.calls[0][1].params.per_page).toBe('200');
+  });
+
+  it('stops at maxResults and shrinks the last page request', async () => {
+    const mockGet = cursorApi(50000);
+    vi.mocked(axios.create).mockReturnValue(createMockAxios(mockGet) as any);
+    const client = new OpenAlexClient({ enableCache: false });
+
+    const { results, truncated } = await client.paginateAll('works', {}, 250);
+
+    expect(results).toHaveLength(250);
+    expect(truncated).toBe(true);
+    expect(mockGet.mock.calls.map(c => c[1].params.per_page)).toEqual(['200', '50']);
+  });
+
+  it('yields pages lazily through the async iterator', async () => {
+    const mockGet = cursorApi(1000);
+    vi.mocked(axios.create).mockReturnValue(createMockAxios(mockGet) as any);
+    const client = new OpenAlexClient({ enableCache: false });
+
+    for await (const page of client.paginate('works', { perPage: 100 })) {
+      expect(page.results).toHaveLength(100);
+      break;
+    }
+    expect(mockGet).toHaveBeenCalledTimes(1);
+  });
+
+  it('stops when a page comes back empty even if a cursor is returned', async () => {
+    const mockGet = vi.fn().mockResolvedValue({
+      data: { meta: { count: 10, page: null, per_page: 200, next_cursor: 'abc' }, results: [] },
+    });
+    vi.mocked(axios.create).mockReturnValue(createMockAxios(mockGet) as any);
+    const client = new OpenAlexClient({ enableCache: false });
+
+    const { results } = await client.paginateAll('works', {});
+    expect(results).toEqual([]);
+    expect(mockGet).toHaveBeenCalledTimes(1);
+  });
+});
+
+describe('fetch_all over MCP', () => {
+  it('requests full pages whatever per_page says', async () => {
+    const mockGet = cursorApi(500);
+    vi.mocked(axios.create).mockReturnValue(createMockAxios(mockGet) as any);
+    const server = createServer(new OpenAlexClient({ enableCache: false }));
+    const client = new Client({ name: 'test-client', version: '1.0.0' });
+    const [clientTransport, serverTransport] = InMemoryTransport.createLinkedPair();
+    await Promise.all([server.connect(serverTransport), client.connect(clientTransport)]);
+
+    const calls: [{ name: string; arguments: any }, string[]][] = [
+      [{ name: 'search_works', arguments: { query: 'llm', fetch_all: true, per_page: 10 } }, ['200', '200', '200']],
+      [{ name: 'get_work_citations', arguments: { id: 'W1', max_results: 450, per_page: 10 } }, ['200', '200', '50']],
+      [{ name: 'search_works', arguments: { query: 'llm', fetch_all: true, per_page: 10, format: 'ris' } }, ['200', '200', '200']],
+    ];
+    for (const [call, perPage] of calls) {
+      mockGet.mockClear();
+      const result: any = await client.callTool(call);
+      expect(result.isError, call.name).toBeFalsy();
+      expect(mockGet.mock.calls.map(c => c[1].params.per_page)).toEqual(perPage);
+    }
+    await client.close();
+  });
+});
+
+describe('fetch_all / max_results validation', () => {
+  it('accepts fetch_all and max_results on search_works and get_work_citations', () => {
+    expect(validateInput(TOOL_SCHEMAS.search_works, { query: 'x', fetch_all: true, max_results: 5000 }, 'test')).toBeDefined();
+    expect(validateInput(TOOL_SCHEMAS.get_work_citations, { id: 'W1', max_results: 300 }, 'test')).toBeDefined();
+  });
+
+  it('rejects max_results above 10000', () => {
+    expect(() => validateInput(TOOL_SCHEMAS.search_works, { max_results: 20000 }, 'test')).toThrow();
+  });
+});
@@ -0,0 +1,68 @@
+import { describe, it, expect } from 'vitest';
+import { Client } from '@modelcontextprotocol/sdk/client/index.js';
+import { InMemoryTransport } from '@modelcontextprotocol/sdk/inMemory.js';
+import { prompts, getPrompt } from '../src/prompts.js';
+import { createServer, tools } from '../src/server.js';
+
+const REQUIRED_ARGS: Record<string, Record<string, string>> = {
+  landscape_field: { field: 'supply chain resilience' },
+  vet_venue: { venue: 'Management Science' },
+  profile_expert: { name: 'Daron Acemoglu' },
+  find_foundational_literature: { topic: 'transformer models' },
+  snowball_review: { seed_ids: 'W2741809807, 10.1038/nature12373', research_question: 'LLM hallucination' },
+};
+
+const text = (result: any) => result.messages[0].content.text as string;
+
+describe('prompts', () => {
+  it('declares the expected workflows with typed arguments', () => {
+    expect(prompts.map(p => p.name)).toEqual(Object.keys(REQUIRED_ARGS));
+    for (const prompt of prompts) {
+      expect(prompt.description).toBeTruthy();
+      expect(prompt.arguments!.some(a => a.required)).toBe(true);
+    }
+  });
+
+  it('only chains tools that exist', () => {
+    const toolNames = new Set(tools.map(t => t.name));
+    for (const [name, args] of Object.entries(REQUIRED_ARGS)) {
+      const called = Array.from(text(getPrompt(name, args)).matchAll(/\b([a-z]+(?:_[a-z]+)+)\(/g), m => m[1]);
+      expect(called.length).toBeGreaterThan(0);
+      for (const tool of called) expect(toolNames, `${name} → ${tool}`).toContain(tool);
+    }
+  });
+
+  it('interpolates arguments into the workflow', () => {
+    const landscape = text(getPrompt('landscape_field', { field: 'quantum sensing', from_year: '2015', journal_list: 'utd24' }));
+    expect(landscape).toContain('analyze_topic_trends(query="quantum sensing", from_year=2015)');
+    expect(landscape).toContain('journal_list="utd24"');
+
+    expect(text(getPrompt('vet_venue', { venue: '0025-1909' }))).toContain('check_venue_quality(venue_issn="0025-1909")');
+    expect(text(getPrompt('profile_expert', { name: 'A5023888391' }))).not.toContain('search_authors(');
+    expect(text(getPrompt('snowball_review', REQUIRED_ARGS.snowball_review)))
+      .toContain('seed_ids=["W2741809807","10.1038/nature12373"]');
+  });
+
+  it('rejects unknown prompts, missing and malformed arguments', () => {
+    expect(() => getPrompt('nope')).toThrow(/Unknown prompt/);
+    expect(() => getPrompt('landscape_field', {})).toThrow(/field/);
+    expect(() => getPrompt('landscape_field', { field: 'x', from_year: 'last year' })).toThrow(/four-digit year/);
+    expect(() => getPrompt('landscape_field', { field: 'x', journal_list: 'bogus' })).toThrow(/venue preset key/);
+    expect(() => getPrompt('find_foundational_literature', { topic: 'x', export_format: 'docx' })).toThrow(/export_format/);
+  });
+
+  it('are served over MCP', async () => {
+    const server = createServer({} as any);
+    const client = new Client({ name: 'test-client', version: '1.0.0' });
+    const [clientTransport, serverTransport] = InMemoryTransport.createLinkedPair();
+    await Promise.all([server.connect(serverTransport), client.connect(clientTransport)]);
+
+    expect(client.getServerCapabilities()?.prompts).toBeDefined();
+    const listed = await client.listPrompts();
+    expect(listed.prompts).toHaveLength(prompts.length);
+    const result = await client.getPrompt({ name: 'vet_venue', arguments: { venue: 'Nature' } });
+    expect(text(result)).toContain('check_venue_quality(venue_name="Nature")');
+
+    await client.close();
+  });
+});
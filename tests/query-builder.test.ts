@@ -0,0 +1,111 @@
+import { describe, it, expect } from 'vitest';
+import { Client } from '@modelcontextprotocol/sdk/client/index.js';
+import { InMemoryTransport } from '@modelcontextprotocol/sdk/inMemory.js';
+import { createServer } from '../src/server.js';
+import { compileSearchQuery, parseSearchQuery } from '../src/query-builder.js';
+import { applySearchField } from '../src/search-helpers.js';
+
+describe('parseSearchQuery', () => {
+  it('keeps adjacent words together and gives AND precedence over OR', () => {
+    expect(parseSearchQuery('large language model')).toEqual({ type: 'term', text: 'large language model', phrase: false });
+    expect(parseSearchQuery('a OR b AND c')).toEqual({
+      type: 'or',
+      children: [
+        { type: 'term', text: 'a', phrase: false },
+        { type: 'and', children: [{ type: 'term', text: 'b', phrase: false }, { type: 'term', text: 'c', phrase: false }] },
+      ],
+    });
+  });
+
+  it('reports malformed queries with their position', () => {
+    expect(() => parseSearchQuery('(a OR b')).toThrow('Invalid search query: unclosed "(" (at position 1)');
+    expect(() => parseSearchQuery('a OR b)')).toThrow('unmatched ")" (at position 7)');
+    expect(() => parseSearchQuery('a AND')).toThrow(/dangling operator/);
+    expect(() => parseSearchQuery('OR a')).toThrow(/expected a search term before OR/);
+    expect(() => parseSearchQuery('a AND ()')).toThrow(/empty parentheses/);
+    expect(() => parseSearchQuery('"open access')).toThrow(/unterminated quote/);
+    expect(() => parseSearchQuery('   ')).toThrow(/empty/);
+    expect(() => parseSearchQuery('title:(a AND abstract:b)')).toThrow(/cannot be nested/);
+    expect(() => parseSearchQuery('title:smith', 'authors')).toThrow(/"title" is not searchable for authors \(use display_name\)/);
+  });
+});
+
+describe('compileSearchQuery', () => {
+  it('splits field-scoped conjuncts into *.search filters', () => {
+    expect(compileSearchQuery('(“large language model” OR LLM) AND title:(education NOT medical)')).toEqual({
+      search: '"large language model" OR LLM',
+      filter: { 'title.search': 'education NOT medical' },
+    });
+    expect(compileSearchQuery('abstract:"randomized trial" title:vaccine title:malaria NOT title:mouse')).toEqual({
+      filter: { 'abstract.search': '"randomized trial"', 'title.search': 'vaccine AND malaria NOT mouse' },
+    });
+  });
+
+  it('leaves plain and already-boolean queries unchanged', () => {
+    for (const query of ['machine learning', 'machine learning AND (neural networks OR deep learning)', '"climate change" NOT "climate denial"', 'COVID-19: a review']) {
+      expect(compileSearchQuery(query)).toEqual({ search: query, filter: {} });
+    }
+    expect(compileSearchQuery('a OR b AND c').search).toBe('a OR (b AND c)');
+  });
+
+  it('scopes unscoped clauses to the default field', () => {
+    expect(compileSearchQuery('privacy NOT children AND abstract:survey', 'works', 'title')).toEqual({
+      filter: { 'title.search': 'privacy NOT children', 'abstract.search': 'survey' },
+    });
+  });
+
+  it('rejects clauses OpenAlex cannot express', () => {
+    expect(() => compileSearchQuery('title:LLM OR abstract:LLM')).toThrow(/must be joined to the rest of the query with AND/);
+    expect(() => compileSearchQuery('NOT medical')).toThrow(/NOT needs a term to exclude from/);
+    expect(() => compileSearchQuery('title:education NOT medical')).toThrow(/NOT needs a term/);
+    expect(() => compileSearchQuery('a OR NOT b')).toThrow(/NOT cannot be an alternative/);
+    expect(() => compileSearchQuery('title:"smith, john"')).toThrow(/cannot contain commas/);
+  });
+
+  it('supports display_name scopes for other entities', () => {
+    expect(compileSearchQuery('display_name:(Smith OR Smyth) AND economics', 'authors')).toEqual({
+      search: 'economics',
+      filter: { 'display_name.search': 'Smith OR Smyth' },
+    });
+  });
+});
+
+describe('applySearchField with boolean queries', () => {
+  it('returns filter additions for field-scoped clauses', () => {
+    expect(applySearchField('LLM AND title:education', undefined)).toEqual({
+      search: 'LLM',
+      filterAdditions: { 'title.search': 'education' },
+    });
+    expect(() => applySearchField('(unbalanced', undefined)).toThrow(/unclosed/);
+    // Phrase search bypasses the builder
+    expect(applySearchField('title:(x', undefined, true)).toEqual({ search: '"title:(x"' });
+  });
+});
+
+describe('build_search_query tool', () => {
+  it('reports the compiled parameters without calling the API', async () => {
+    const server = createServer({} as any);
+    const client = new Client({ name: 'test-client', version: '1.0.0' });
+    const [clientTransport, serverTransport] = InMemoryTransport.createLinkedPair();
+    await Promise.all([server.connect(serverTransport), client.connect(clientTransport)]);
+    await client.listTools();
+
+    const result: any = await client.callTool({
+      name: 'build_search_query',
+      arguments: { query: 'LLM AND title:(education NOT medical) AND abstract:survey' },
+    });
+    expect(result.structuredContent).toEqual({
+      query: 'LLM AND title:(education NOT medical) AND abstract:survey',
+      entity_type: 'works',
+      search: 'LLM',
+      filter: { 'title.search': 'education NOT medical', 'abstract.search': 'survey' },
+      api_params: { search: 'LLM', filter: 'title.search:education NOT medical,abstract.search:survey' },
+    });
+
+    const invalid: any = await client.callTool({ name: 'build_search_query', arguments: { query: 'a AND (b' } });
+    expect(invalid.isError).toBe(true);
+    expect(JSON.parse(invalid.content[0].text).error).toMatch(/unclosed "\("/);
+
+    await client.close();
+  });
+});
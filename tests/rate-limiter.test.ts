@@ -0,0 +1,112 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { mkdtempSync, rmSync, readFileSync, writeFileSync } from 'node:fs';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import axios from 'axios';
+import { RateLimiter } from '../src/rate-limiter.js';
+import { OpenAlexClient } from '../src/openalex-client.js';
+
+vi.mock('axios');
+
+let dir: string;
+
+beforeEach(() => {
+  dir = mkdtempSync(join(tmpdir(), 'openalex-ratelimit-'));
+});
+
+afterEach(() => {
+  rmSync(dir, { recursive: true, force: true });
+});
+
+const today = () => new Date().toISOString().slice(0, 10);
+const delay = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+
+describe('RateLimiter', () => {
+  it('caps concurrent requests', async () => {
+    const limiter = new RateLimiter({ requestsPerSecond: 100, requestsPerDay: 1000, maxConcurrent: 2 });
+    let active = 0;
+    let peak = 0;
+    const task = async () => {
+      active++;
+      peak = Math.max(peak, active);
+      await delay(20);
+      active--;
+    };
+    await Promise.all(Array.from({ length: 6 }, () => limiter.schedule(task)));
+    expect(peak).toBe(2);
+    expect(limiter.stats()).toMatchObject({ in_flight: 0, queued: 0, total_requests: 6 });
+  });
+
+  it('spreads a burst over the per-second budget and reports the wait', async () => {
+    const limiter = new RateLimiter({ requestsPerSecond: 10, requestsPerDay: 1000, maxConcurrent: 20 });
+    const started = Date.now();
+    await Promise.all(Array.from({ length: 13 }, () => limiter.schedule(async () => undefined)));
+    // 10 tokens up front, then one every 100ms
+    expect(Date.now() - started).toBeGreaterThanOrEqual(250);
+    const stats = limiter.stats();
+    expect(stats.throttled_requests).toBeGreaterThanOrEqual(3);
+    expect(stats.max_wait_ms).toBeGreaterThanOrEqual(250);
+    expect(stats.avg_wait_ms).toBeGreaterThan(0);
+  });
+
+  it('fails fast once the daily budget is spent, releasing the slot', async () => {
+    const limiter = new RateLimiter({ requestsPerSecond: 100, requestsPerDay: 2, maxConcurrent: 1 });
+    await limiter.schedule(async () => 1);
+    await limiter.schedule(async () => 2);
+    const rejected = limiter.schedule(async () => 3);
+    await expect(rejected).rejects.toThrow(/Daily OpenAlex request budget of 2 exhausted/);
+    await expect(rejected).rejects.toHaveProperty('isRateLimitExhausted', true);
+    expect(limiter.stats()).toMatchObject({ requests_today: 2, remaining_today: 0, in_flight: 0 });
+  });
+
+  it('persists the daily count across instances', async () => {
+    const stateFile = join(dir, 'rate-limit.json');
+    const first = new RateLimiter({ requestsPerSecond: 100, requestsPerDay: 5, maxConcurrent: 5, stateFile });
+    await first.schedule(async () => undefined);
+    await first.schedule(async () => undefined);
+    await first.flush();
+    expect(JSON.parse(readFileSync(stateFile, 'utf8'))).toEqual({ date: today(), count: 2 });
+
+    const second = new RateLimiter({ requestsPerSecond: 100, requestsPerDay: 5, maxConcurrent: 5, stateFile });
+    await second.schedule(async () => undefined);
+    expect(second.stats()).toMatchObject({ requests_today: 3, persisted: true });
+    await second.flush();
+  });
+
+  it('ignores a count persisted on a previous day', async () => {
+    const stateFile = join(dir, 'rate-limit.json');
+    writeFileSync(stateFile, JSON.stringify({ date: '2000-01-01', count: 99 }));
+    const limiter = new RateLimiter({ requestsPerSecond: 100, requestsPerDay: 100, maxConcurrent: 5, stateFile });
+    await limiter.schedule(async () => undefined);
+    expect(limiter.stats().requests_today).toBe(1);
+    await limiter.flush();
+  });
+});
+
+describe('OpenAlexClient rate limiting', () => {
+  it('routes every request through the limiter and reports it', async () => {
+    vi.mocked(axios.create).mockReturnValue({
+      get: vi.fn(async () => ({ data: { meta: { count: 0 }, results: [] } })),
+      interceptors: { response: { use: vi.fn() } },
+    } as any);
+    const client = new OpenAlexClient({ enableCache: false, rateLimit: { stateFile: join(dir, 'state.json') } });
+    await Promise.all(['a', 'b', 'c'].map(q => client.getWorks({ search: q })));
+    expect(client.getRateLimitStats()).toMatchObject({ total_requests: 3, requests_today: 3, max_concurrent: 5 });
+    await client.flush();
+
+    const unlimited = new OpenAlexClient({ enableCache: false, rateLimit: false });
+    expect(unlimited.getRateLimitStats()).toBeNull();
+  });
+
+  it('charges 429 retries to the daily budget', async () => {
+    const use = vi.fn();
+    const request = vi.fn(async () => ({ data: {} }));
+    vi.mocked(axios.create).mockReturnValue({ get: vi.fn(), request, interceptors: { response: { use } } } as any);
+    const client = new OpenAlexClient({ enableCache: false, rateLimit: {} });
+    const onError = use.mock.calls[0][1];
+
+    await onError({ response: { status: 429, headers: { 'retry-after': '0' } }, config: { url: '/works' } });
+    expect(request).toHaveBeenCalledTimes(1);
+    expect(client.getRateLimitStats()).toMatchObject({ total_requests: 1, requests_today: 1 });
+  });
+});
@@ -0,0 +1,84 @@
+import { describe, it, expect, vi } from 'vitest';
+import { Client } from '@modelcontextprotocol/sdk/client/index.js';
+import { InMemoryTransport } from '@modelcontextprotocol/sdk/inMemory.js';
+import { createServer } from '../src/server.js';
+import { listResources, readResource, resourceTemplates } from '../src/resources.js';
+import { VENUE_PRESETS, INSTITUTION_GROUPS } from '../src/presets.js';
+
+function fakeClient() {
+  return {
+    getEntity: vi.fn(async (type: string, id: string) => ({
+      id: `https://openalex.org/${id}`,
+      title: `Entity ${id}`,
+      display_name: `Entity ${id}`,
+      _type: type,
+    })),
+  };
+}
+
+const parse = (result: any) => JSON.parse(result.contents[0].text);
+
+describe('listResources', () => {
+  it('lists the preset indexes and every preset', () => {
+    const uris = listResources().map(r => r.uri);
+    expect(uris).toContain('openalex://presets/venues');
+    expect(uris).toContain('openalex://presets/venues/utd24');
+    expect(uris).toContain('openalex://presets/institutions');
+    expect(uris).toHaveLength(2 + Object.keys(VENUE_PRESETS).length + Object.keys(INSTITUTION_GROUPS).length);
+  });
+
+  it('exposes templates for entities and presets', () => {
+    const templates = resourceTemplates.map(t => t.uriTemplate);
+    expect(templates).toContain('openalex://works/{id}');
+    expect(templates).toContain('openalex://authors/{id}');
+    expect(templates).toContain('openalex://presets/venues/{key}');
+  });
+});
+
+describe('readResource', () => {
+  it('returns preset listings and single presets without touching the API', async () => {
+    const client = fakeClient();
+    const venues = parse(await readResource(client as any, 'openalex://presets/venues'));
+    expect(venues.find((v: any) => v.key === 'utd24')).toMatchObject({ name: VENUE_PRESETS.utd24.name, filter_type: 'issn' });
+
+    const utd = parse(await readResource(client as any, 'openalex://presets/venues/utd24'));
+    expect(utd.issns).toEqual(VENUE_PRESETS.utd24.issns);
+    expect(client.getEntity).not.toHaveBeenCalled();
+  });
+
+  it('fetches entities through the client, decoding DOIs', async () => {
+    const client = fakeClient();
+    const result = await readResource(client as any, 'openalex://works/10.1038%2Fnature12373');
+    expect(client.getEntity).toHaveBeenCalledWith('works', '10.1038/nature12373');
+    expect(result.contents[0]).toMatchObject({ uri: 'openalex://works/10.1038%2Fnature12373', mimeType: 'application/json' });
+    expect(parse(result).title).toBe('Entity 10.1038/nature12373');
+
+    await readResource(client as any, 'openalex://authors/A5023888391');
+    expect(client.getEntity).toHaveBeenLastCalledWith('authors', 'A5023888391');
+  });
+
+  it('rejects unknown URIs', async () => {
+    const client = fakeClient();
+    await expect(readResource(client as any, 'openalex://presets/venues/nope')).rejects.toThrow(/Resource not found/);
+    await expect(readResource(client as any, 'openalex://concepts/C1')).rejects.toThrow(/Resource not found/);
+    await expect(readResource(client as any, 'https://openalex.org/W1')).rejects.toThrow(/Resource not found/);
+  });
+});
+
+describe('resources over MCP', () => {
+  it('advertises the capability and serves reads', async () => {
+    const server = createServer(fakeClient() as any);
+    const client = new Client({ name: 'test-client', version: '1.0.0' });
+    const [clientTransport, serverTransport] = InMemoryTransport.createLinkedPair();
+    await Promise.all([server.connect(serverTransport), client.connect(clientTransport)]);
+
+    expect(client.getServerCapabilities()?.resources).toBeDefined();
+    const { resourceTemplates: templates } = await client.listResourceTemplates();
+    expect(templates.length).toBe(resourceTemplates.length);
+    const read = await client.readResource({ uri: 'openalex://presets/institutions/top_china' });
+    const [content] = read.contents;
+    expect('text' in content && JSON.parse(content.text).institutions).toContain('Peking University');
+
+    await client.close();
+  });
+});
@@ -0,0 +1,147 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { mkdtempSync, rmSync, readFileSync } from 'node:fs';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import { Client } from '@modelcontextprotocol/sdk/client/index.js';
+import { InMemoryTransport } from '@modelcontextprotocol/sdk/inMemory.js';
+import { createServer } from '../src/server.js';
+import { SavedSearchStore, runSavedSearch, savedSearchStore } from '../src/saved-searches.js';
+
+let dir: string;
+
+beforeEach(() => {
+  dir = mkdtempSync(join(tmpdir(), 'openalex-saved-'));
+});
+
+afterEach(() => {
+  rmSync(dir, { recursive: true, force: true });
+  vi.unstubAllEnvs();
+});
+
+const work = (id: string) => ({ id: `https://openalex.org/${id}`, title: `Work ${id}`, publication_year: 2024 });
+
+// Each call to paginateAll returns the next page of "current" results
+function fakeClient(...snapshots: string[][]) {
+  let call = 0;
+  return {
+    usesApiKey: vi.fn(() => false),
+    paginateAll: vi.fn(async (_entity: string, _options: any, _maxResults?: number) => {
+      const ids = snapshots[Math.min(call++, snapshots.length - 1)];
+      return { count: ids.length, results: ids.map(work), truncated: false };
+    }),
+  };
+}
+
+const buildOptions = (_tool: string, params: any) => ({ search: params.query, filter: { publication_year: '2024' }, perPage: 10 });
+
+describe('SavedSearchStore', () => {
+  it('saves, lists and deletes searches, dropping paging options', async () => {
+    const store = new SavedSearchStore(join(dir, 'saved.json'));
+    await store.save({ name: 'llm', tool: 'search_works', params: { query: 'llm', per_page: 50, page: 2 } });
+    await store.save({ name: 'agents', tool: 'search_in_journal_list', params: { journal_list: 'utd24' }, description: 'weekly' });
+    expect((await store.list()).map(s => s.name)).toEqual(['agents', 'llm']);
+    expect((await store.get('llm')).params).toEqual({ query: 'llm' });
+
+    await expect(store.save({ name: 'llm', tool: 'search_works', params: {} })).rejects.toThrow(/already exists/);
+    await store.save({ name: 'llm', tool: 'search_works', params: { query: 'gpt' } }, true);
+    expect((await store.get('llm')).params).toEqual({ query: 'gpt' });
+
+    await store.delete('agents');
+    await expect(store.get('agents')).rejects.toThrow(/No saved search named "agents"/);
+    expect(JSON.parse(readFileSync(join(dir, 'saved.json'), 'utf8')).searches).toHaveProperty('llm');
+  });
+
+  it('serializes concurrent updates', async () => {
+    const store = new SavedSearchStore(join(dir, 'saved.json'));
+    await Promise.all(['a', 'b', 'c', 'd'].map(name => store.save({ name, tool: 'search_works', params: {} })));
+    expect(await store.list()).toHaveLength(4);
+  });
+
+  it('resolves the file from OPENALEX_SAVED_SEARCHES or OPENALEX_DATA_DIR', () => {
+    expect(savedSearchStore({ OPENALEX_DATA_DIR: dir }).file).toBe(join(dir, 'saved-searches.json'));
+    expect(savedSearchStore({ OPENALEX_SAVED_SEARCHES: join(dir, 'x.json') }).file).toBe(join(dir, 'x.json'));
+  });
+});
+
+describe('runSavedSearch', () => {
+  it('returns a baseline first, then only unseen works, and keeps the history', async () => {
+    const store = new SavedSearchStore(join(dir, 'saved.json'));
+    await store.save({ name: 'llm', tool: 'search_works', params: { query: 'llm' } });
+    const client = fakeClient(['W1', 'W2'], ['W3', 'W1', 'W2'], ['W3', 'W1']);
+    const options = { maxResults: 100, useCreatedDate: false };
+
+    const first = await runSavedSearch(client as any, store, 'llm', buildOptions, options);
+    expect(first.newWorks.map(w => w.id)).toEqual([work('W1').id, work('W2').id]);
+    expect(first.previousRunAt).toBeNull();
+    expect(client.paginateAll).toHaveBeenCalledWith(
+      'works',
+      expect.objectContaining({ search: 'llm', sort: 'publication_date:desc', perPage: undefined, filter: { publication_year: '2024' } }),
+      100,
+    );
+
+    const second = await runSavedSearch(client as any, store, 'llm', buildOptions, options);
+    expect(second.run).toMatchObject({ strategy: 'ids', since: null, fetched: 3, new_count: 1, new_ids: ['W3'] });
+    expect(second.previousRunAt).toBe(first.run.run_at);
+
+    const third = await runSavedSearch(client as any, store, 'llm', buildOptions, options);
+    expect(third.newWorks).toEqual([]);
+    expect(third.search.runs.map(r => r.new_count)).toEqual([2, 1, 0]);
+    expect(third.search.seen_ids).toEqual(['W1', 'W2', 'W3']);
+  });
+
+  it('narrows later runs with from_created_date when enabled', async () => {
+    const store = new SavedSearchStore(join(dir, 'saved.json'));
+    await store.save({ name: 'llm', tool: 'search_works', params: { query: 'llm' } });
+    const client = fakeClient(['W1'], ['W2']);
+    const first = await runSavedSearch(client as any, store, 'llm', buildOptions, { maxResults: 50, useCreatedDate: true });
+    expect(first.run.strategy).toBe('ids');
+
+    const second = await runSavedSearch(client as any, store, 'llm', buildOptions, { maxResults: 50, useCreatedDate: true });
+    const day = first.run.run_at.slice(0, 10);
+    expect(second.run).toMatchObject({ strategy: 'created_date', since: day, new_ids: ['W2'] });
+    expect(client.paginateAll.mock.calls[1][1]).toMatchObject({ filter: { publication_year: '2024', from_created_date: day } });
+  });
+});
+
+describe('saved search tools over MCP', () => {
+  it('save → run → run → list → delete', async () => {
+    vi.stubEnv('OPENALEX_DATA_DIR', dir);
+    vi.stubEnv('OPENALEX_SAVED_SEARCHES', '');
+    vi.stubEnv('OPENALEX_API_KEY', 'env-key-ignored');
+    const openAlexClient = fakeClient(['W1', 'W2'], ['W3', 'W1', 'W2']);
+    const server = createServer(openAlexClient as any);
+    const client = new Client({ name: 'test-client', version: '1.0.0' });
+    const [clientTransport, serverTransport] = InMemoryTransport.createLinkedPair();
+    await Promise.all([server.connect(serverTransport), client.connect(clientTransport)]);
+    await client.listTools();
+    const call = async (name: string, args: Record<string, unknown>) => {
+      const result: any = await client.callTool({ name, arguments: args });
+      return { error: result.isError ? JSON.parse(result.content[0].text).error : null, data: result.structuredContent };
+    };
+
+    expect((await call('save_search', { name: 'bad', tool: 'search_in_journal_list', params: { journal_list: 'nope' } })).error)
+      .toMatch(/Unknown journal_list preset/);
+    expect((await call('save_search', { name: 'bad', tool: 'search_works', params: { per_page: 'lots' } })).error)
+      .toMatch(/Validation error for search_works/);
+
+    const saved = await call('save_search', { name: 'llm', tool: 'search_works', params: { query: 'llm', from_year: 2023 } });
+    expect(saved.data).toMatchObject({ saved: { name: 'llm', run_count: 0 }, file: join(dir, 'saved-searches.json') });
+
+    const first = await call('run_saved_search', { name: 'llm' });
+    expect(first.data).toMatchObject({ first_run: true, run: { new_count: 2 } });
+    const second = await call('run_saved_search', { name: 'llm' });
+    expect(second.data.first_run).toBe(false);
+    // Keyless client: later runs compare IDs rather than narrowing by created date
+    expect(second.data.run.strategy).toBe('ids');
+    expect(second.data.results.map((w: any) => w.id)).toEqual([work('W3').id]);
+
+    const listed = await call('list_saved_searches', {});
+    expect(listed.data.searches[0]).toMatchObject({ name: 'llm', run_count: 2, seen_count: 3, last_run: { new_count: 1 } });
+    expect(listed.data.searches[0]).not.toHaveProperty('runs');
+    expect((await call('list_saved_searches', { name: 'llm' })).data.searches[0].runs).toHaveLength(2);
+
+    expect((await call('delete_saved_search', { name: 'llm' })).data).toMatchObject({ deleted: 'llm', runs_removed: 2 });
+    expect((await call('run_saved_search', { name: 'llm' })).error).toMatch(/No saved search named "llm"/);
+    await client.close();
+  });
+});
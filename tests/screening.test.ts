@@ -0,0 +1,177 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { mkdtempSync, rmSync } from 'node:fs';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import { Client } from '@modelcontextprotocol/sdk/client/index.js';
+import { InMemoryTransport } from '@modelcontextprotocol/sdk/inMemory.js';
+import { createServer } from '../src/server.js';
+import { ScreeningStore, formatPrismaFlow, identifyRecords, prismaCounts } from '../src/screening.js';
+
+let dir: string;
+
+beforeEach(() => {
+  dir = mkdtempSync(join(tmpdir(), 'openalex-screening-'));
+});
+
+afterEach(() => {
+  rmSync(dir, { recursive: true, force: true });
+  vi.unstubAllEnvs();
+});
+
+const work = (id: string, title: string, extra: Record<string, unknown> = {}) => ({
+  id: `https://openalex.org/${id}`,
+  doi: null,
+  title,
+  publication_year: 2022,
+  type: 'article',
+  authorships: [{ author: { display_name: 'Grace Hopper' } }],
+  primary_location: { source: { display_name: 'Journal of Testing', type: 'journal' } },
+  ...extra,
+});
+
+const W1 = work('W1', 'Large language models in the classroom: a field study');
+const W2 = work('W2', 'Automated feedback on student essays with transformers');
+// Preprint version of W1
+const W1_PREPRINT = work('W11', 'Large language models in the classroom: a field study', {
+  type: 'preprint',
+  doi: 'https://doi.org/10.48550/arxiv.2201.00001',
+  primary_location: { source: { display_name: 'arXiv', type: 'repository' } },
+});
+const W3 = work('W3', 'Tutoring chatbots and learning outcomes in secondary schools');
+
+// Each search (by query) returns a fixed list of works
+function fakeClient(bySearch: Record<string, any[]>) {
+  const catalog = Object.values(bySearch).flat();
+  return {
+    paginateAll: vi.fn(async (_entity: string, options: any) => {
+      const results = bySearch[options.search] ?? [];
+      return { count: results.length + 10, results, truncated: true };
+    }),
+    getWorksByIds: vi.fn(async (ids: string[]) => catalog.filter(w => ids.includes(w.id.split('/').pop()!))),
+  };
+}
+
+const searches = [
+  { label: 'llm', tool: 'search_works', params: { query: 'llm' }, options: { search: 'llm' } },
+  { label: 'chatbot', tool: 'search_works', params: { query: 'chatbot' }, options: { search: 'chatbot' } },
+];
+
+describe('identifyRecords', () => {
+  it('removes works found twice and merges preprint/published versions', async () => {
+    const client = fakeClient({ llm: [W1_PREPRINT, W2], chatbot: [W2, W1, W3] });
+    const identified = await identifyRecords(client as any, searches, 100);
+
+    expect(identified.searches.map(s => [s.label, s.fetched, s.total_count])).toEqual([['llm', 2, 12], ['chatbot', 3, 13]]);
+    expect(identified.duplicates).toEqual({ same_work: 1, versions: 1 });
+    expect(identified.records.map(r => [r.id, r.found_by, r.duplicates])).toEqual([
+      ['W1', ['llm', 'chatbot'], ['W11']],
+      ['W2', ['llm', 'chatbot'], []],
+      ['W3', ['chatbot'], []],
+    ]);
+    expect(identified.records[0]).toMatchObject({ first_author: 'Grace Hopper', source: 'Journal of Testing', decision: null });
+
+    const separate = await identifyRecords(client as any, searches, 100, false);
+    expect(separate.records).toHaveLength(4);
+  });
+});
+
+describe('ScreeningStore and PRISMA counts', () => {
+  it('records decisions and tallies the flow', async () => {
+    const store = new ScreeningStore(join(dir, 'screening.json'));
+    const identified = await identifyRecords(fakeClient({ llm: [W1_PREPRINT, W2], chatbot: [W2, W1, W3] }) as any, searches, 100);
+    await store.create({ name: 'review', ...identified });
+    await expect(store.create({ name: 'review', ...identified })).rejects.toThrow(/already exists/);
+    await expect(store.assertNew('review')).rejects.toThrow(/Pass overwrite: true/);
+
+    const { updated, not_found } = await store.decide('review', [
+      { id: 'https://openalex.org/W11', decision: 'include' },
+      { id: 'W2', decision: 'exclude', reason: 'wrong population' },
+      { id: 'W3', decision: 'include' },
+      { id: 'W3', decision: 'exclude', reason: ' ' },
+      { id: 'W404', decision: 'maybe' },
+    ]);
+    expect(updated).toEqual(['W1', 'W2', 'W3']);
+    expect(not_found).toEqual(['W404']);
+
+    const session = await store.get('review');
+    expect(prismaCounts(session)).toMatchObject({
+      identification: { records_identified: 5, duplicates_removed: 2 },
+      screening: {
+        records_screened: 3,
+        decided: 3,
+        pending: 0,
+        excluded: 2,
+        exclusion_reasons: { 'no reason given': 1, 'wrong population': 1 },
+        maybe: 0,
+      },
+      included: 1,
+    });
+    const flow = formatPrismaFlow(session);
+    expect(flow).toContain('- **Records identified**: 5');
+    expect(flow).toContain('  - llm: 2 (first 2 of 12 matches)');
+    expect(flow).toContain('- **Duplicates removed**: 2 (1 found by more than one search, 1 versions of the same work)');
+    expect(flow).toContain('  - wrong population: 1');
+    expect(flow).toContain('- **Records included**: 1');
+  });
+});
+
+describe('screening tools over MCP', () => {
+  it('create → records → decide → prisma → export', async () => {
+    vi.stubEnv('OPENALEX_DATA_DIR', dir);
+    vi.stubEnv('OPENALEX_SCREENING', '');
+    vi.stubEnv('OPENALEX_SAVED_SEARCHES', '');
+    const openAlexClient = fakeClient({ llm: [W1_PREPRINT, W2], chatbot: [W2, W1, W3] });
+    const server = createServer(openAlexClient as any);
+    const client = new Client({ name: 'test-client', version: '1.0.0' });
+    const [clientTransport, serverTransport] = InMemoryTransport.createLinkedPair();
+    await Promise.all([server.connect(serverTransport), client.connect(clientTransport)]);
+    await client.listTools();
+    const call = async (name: string, args: Record<string, unknown>) => {
+      const result: any = await client.callTool({ name, arguments: args });
+      return {
+        error: result.isError ? JSON.parse(result.content[0].text).error : null,
+        text: result.content[0].text,
+        data: result.structuredContent,
+      };
+    };
+
+    expect((await call('screening_create', { name: 'review', searches: [{ label: 'x' }] })).error)
+      .toMatch(/either params or saved_search/);
+    expect((await call('screening_create', { name: 'review', searches: [{ saved_search: 'nope' }] })).error)
+      .toMatch(/No saved search named "nope"/);
+
+    await call('save_search', { name: 'chatbot', tool: 'search_works', params: { query: 'chatbot' } });
+    const created = await call('screening_create', {
+      name: 'review',
+      searches: [{ label: 'llm', params: { query: 'llm', per_page: 5 } }, { saved_search: 'chatbot' }],
+      max_per_search: 50,
+    });
+    expect(created.data.prisma.identification).toMatchObject({ records_identified: 5, duplicates_removed: 2 });
+    expect(created.data.session.searches.map((s: any) => s.label)).toEqual(['llm', 'chatbot']);
+    expect(openAlexClient.paginateAll).toHaveBeenCalledWith('works', expect.objectContaining({ search: 'llm', perPage: undefined }), 50);
+    expect((await call('screening_create', { name: 'review', searches: [{ params: { query: 'llm' } }] })).error)
+      .toMatch(/already exists/);
+
+    const pending = await call('screening_records', { name: 'review', limit: 2, with_abstracts: true });
+    expect(pending.data).toMatchObject({ decision: 'pending', total: 3, count: 2 });
+    expect(pending.data.records[0].work.title).toBe(W1.title);
+
+    const decided = await call('screening_decide', {
+      name: 'review',
+      decisions: [{ id: 'W1', decision: 'include' }, { id: 'W2', decision: 'exclude', reason: 'not empirical' }, { id: 'W3', decision: 'maybe' }],
+    });
+    expect(decided.data.prisma).toMatchObject({ screening: { pending: 0, excluded: 1, maybe: 1 }, included: 1 });
+
+    const sessions = await call('screening_prisma', {});
+    expect(sessions.data.sessions).toEqual([expect.objectContaining({ name: 'review', records: 3 })]);
+    expect((await call('screening_prisma', { name: 'review', format: 'markdown' })).text).toContain('# PRISMA flow: review');
+
+    const exported = await call('screening_export', { name: 'review' });
+    expect(exported.data.results).toEqual([
+      expect.objectContaining({ id: W1.id, screening_decision: 'include', found_by: ['llm', 'chatbot'] }),
+    ]);
+    const ris = await call('screening_export', { name: 'review', decision: 'all', format: 'ris' });
+    expect(ris.text.match(/^TY {2}-/gm)).toHaveLength(3);
+    await client.close();
+  });
+});
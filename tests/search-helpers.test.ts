@@ -69,10 +69,10 @@ describe('applySearchField', () => {
     expect(result.search).toBeUndefined();
     expect(result.filterAdditions).toEqual({ 'fulltext.search': 'privacy paradox' });
   });
-  it('prefers phrase search over field scoping when both set', () => {
+  it('scopes the phrase to the field when both are set', () => {
     const result = applySearchField('privacy paradox', 'title', true);
-    expect(result.search).toBe('"privacy paradox"');
-    expect(result.filterAdditions).toBeUndefined();
+    expect(result.search).toBeUndefined();
+    expect(result.filterAdditions).toEqual({ 'title.search': '"privacy paradox"' });
   });
   it('returns undefined search for undefined query', () => {
     const result = applySearchField(undefined, undefined, false);
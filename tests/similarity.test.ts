@@ -0,0 +1,102 @@
+import { describe, it, expect, vi } from 'vitest';
+import { findSimilarByCitations } from '../src/similarity.js';
+import { CONFIG } from '../src/config.js';
+
+const url = (id: string) => `https://openalex.org/${id}`;
+const work = (id: string, refs: string[], citedBy: number) => ({
+  id: url(id),
+  doi: null,
+  title: `Title ${id}`,
+  publication_year: 2020,
+  cited_by_count: citedBy,
+  referenced_works: refs.map(url),
+});
+
+const SEED = work('S', ['R1', 'R2', 'R3', 'R4'], 4);
+// Coupling candidates: works citing the seed's references
+const COUPLED = [
+  SEED,
+  work('A', ['R1', 'R2', 'R3', 'X'], 2),
+  work('B', ['R1', 'R2', 'X1', 'X2', 'X3', 'X4', 'X5', 'X6', 'X7', 'X8'], 50),
+  work('C', ['R1'], 90),
+];
+// Works citing the seed
+const CITING = [
+  work('P1', ['S', 'A', 'D'], 0),
+  work('P2', ['S', 'A', 'D'], 0),
+  work('P3', ['S', 'D'], 0),
+  work('P4', ['S'], 0),
+];
+const CATALOG = [...COUPLED, work('D', [], 30), ...['R1', 'R2', 'R3', 'R4'].map(id => work(id, [], 100))];
+
+function fakeClient() {
+  return {
+    getWork: vi.fn(async () => SEED),
+    paginateAll: vi.fn(async () => ({ count: COUPLED.length, results: COUPLED, truncated: false })),
+    getWorks: vi.fn(async () => ({ meta: { count: CITING.length }, results: CITING })),
+    getWorksByIds: vi.fn(async (ids: string[]) => CATALOG.filter(w => ids.includes(w.id.split('/').pop()!))),
+  };
+}
+
+const options = { method: 'both' as const, limit: 10, maxCandidates: 200, citingSample: 200, minShared: 2 };
+
+describe('findSimilarByCitations', () => {
+  it('ranks by the mean of normalized coupling and co-citation scores', async () => {
+    const client = fakeClient();
+    const result = await findSimilarByCitations(client as any, 'W-seed', options);
+
+    expect(result.seed).toMatchObject({ id: 'S', references: 4, cited_by_count: 4 });
+    expect(result.coupling).toEqual({ references_used: 4, candidates_scanned: 2, truncated: false });
+    expect(result.cocitation).toEqual({ citing_total: 4, citing_sampled: 4 });
+    // A: coupling 3/√(4·4), co-citation 2/√(4·2); B: coupling only; D: co-citation only; C shares one reference
+    expect(result.results.map(r => [r.id, r.score, r.coupling?.score ?? null, r.cocitation?.score ?? null])).toEqual([
+      ['A', 0.729, 0.75, 0.707],
+      ['B', 0.158, 0.316, null],
+      ['D', 0.137, null, 0.274],
+    ]);
+    expect(client.paginateAll).toHaveBeenCalledWith(
+      'works',
+      expect.objectContaining({ filter: { cites: 'R1|R2|R3|R4' }, sort: 'cited_by_count:desc' }),
+      200,
+    );
+  });
+
+  it('lists the shared references and co-citing works behind each score', async () => {
+    const result = await findSimilarByCitations(fakeClient() as any, 'S', options);
+    const a = result.results[0];
+    expect(a.coupling).toEqual({
+      score: 0.75,
+      shared_count: 3,
+      shared_references: [{ id: 'R1', title: 'Title R1' }, { id: 'R2', title: 'Title R2' }, { id: 'R3', title: 'Title R3' }],
+    });
+    expect(a.cocitation).toEqual({
+      score: 0.707,
+      count: 2,
+      co_citing_works: [{ id: 'P1', title: 'Title P1' }, { id: 'P2', title: 'Title P2' }],
+    });
+  });
+
+  it('runs a single method and samples citing works when there are too many', async () => {
+    const client = fakeClient();
+    const coupling = await findSimilarByCitations(client as any, 'S', { ...options, method: 'coupling' });
+    expect(coupling.results.map(r => [r.id, r.score])).toEqual([['A', 0.75], ['B', 0.316]]);
+    expect(coupling.cocitation).toBeNull();
+    expect(client.getWorks).not.toHaveBeenCalled();
+
+    const cocitation = await findSimilarByCitations(client as any, 'S', { ...options, method: 'cocitation', citingSample: 3, minShared: 3 });
+    expect(client.paginateAll).toHaveBeenCalledTimes(1);
+    expect(client.getWorks).toHaveBeenCalledWith(expect.objectContaining({ filter: { cites: 'S' }, sample: 3, perPage: 3 }));
+    expect(cocitation.results.map(r => r.id)).toEqual(['D']);
+  });
+
+  it('uses only the first MAX_REFERENCES references, in batches', async () => {
+    const client = fakeClient();
+    const refs = Array.from({ length: CONFIG.SIMILARITY.MAX_REFERENCES + 20 }, (_, i) => `R${i}`);
+    client.getWork.mockResolvedValue(work('S', refs, 0));
+    const result = await findSimilarByCitations(client as any, 'S', options);
+    expect(result.seed.references).toBe(refs.length);
+    expect(result.coupling?.references_used).toBe(CONFIG.SIMILARITY.MAX_REFERENCES);
+    expect(client.paginateAll).toHaveBeenCalledTimes(CONFIG.SIMILARITY.MAX_REFERENCES / CONFIG.MCP.IDS_FILTER_BATCH_SIZE);
+    expect(result.cocitation).toEqual({ citing_total: 0, citing_sampled: 0 });
+  });
+});
@@ -0,0 +1,94 @@
+import { describe, it, expect, vi } from 'vitest';
+import { snowball, SnowballOptions } from '../src/snowball.js';
+
+// Tiny citation graph: id → { refs, year, cites }
+//   S cites A, B;  A cites C;  B cites C, D;  X and Y cite S;  Z cites X
+const GRAPH: Record<string, { refs: string[]; year: number; cites: number }> = {
+  S: { refs: ['A', 'B'], year: 2020, cites: 100 },
+  A: { refs: ['C'], year: 2015, cites: 50 },
+  B: { refs: ['C', 'D'], year: 2010, cites: 500 },
+  C: { refs: [], year: 2005, cites: 900 },
+  D: { refs: [], year: 1999, cites: 10 },
+  X: { refs: ['S'], year: 2021, cites: 30 },
+  Y: { refs: ['S'], year: 2022, cites: 5 },
+  Z: { refs: ['X'], year: 2023, cites: 1 },
+};
+
+const work = (id: string) => ({
+  id: `https://openalex.org/${id}`,
+  title: `Work ${id}`,
+  publication_year: GRAPH[id].year,
+  cited_by_count: GRAPH[id].cites,
+  referenced_works: GRAPH[id].refs.map(r => `https://openalex.org/${r}`),
+});
+
+function fakeClient() {
+  return {
+    resolveWorks: vi.fn(async (ids: string[]) => ({
+      works: ids.filter(id => GRAPH[id]).map(work),
+      unresolved: ids.filter(id => !GRAPH[id]),
+    })),
+    getWorksByIds: vi.fn(async (ids: string[]) => ids.filter(id => GRAPH[id]).map(work)),
+    getWorks: vi.fn(async ({ filter, perPage }: any) => {
+      const citing = Object.keys(GRAPH)
+        .filter(id => GRAPH[id].refs.includes(filter.cites))
+        .map(work)
+        .sort((a, b) => b.cited_by_count - a.cited_by_count)
+        .slice(0, perPage);
+      return { meta: { count: citing.length }, results: citing };
+    }),
+  };
+}
+
+const base: SnowballOptions = {
+  seeds: ['S'],
+  direction: 'both',
+  depth: 1,
+  maxPerLevel: 50,
+  maxCitingPerWork: 25,
+};
+
+describe('snowball', () => {
+  it('collects references and citing works one hop out with provenance', async () => {
+    const result = await snowball(fakeClient() as any, base);
+    const byId = Object.fromEntries(result.works.map(w => [w.work.id.split('/').pop(), w.provenance]));
+    expect(Object.keys(byId).sort()).toEqual(['A', 'B', 'X', 'Y']);
+    expect(byId.A).toMatchObject({ level: 1, direction: 'backward', seed: 'S', via: 'S' });
+    expect(byId.X).toMatchObject({ level: 1, direction: 'forward', seed: 'S', via: 'S' });
+  });
+
+  it('goes deeper, deduplicates across levels and counts converging links', async () => {
+    const result = await snowball(fakeClient() as any, { ...base, direction: 'backward', depth: 2 });
+    const ids = result.works.map(w => w.work.id.split('/').pop());
+    expect(ids.filter(id => id === 'C')).toHaveLength(1);
+    const c = result.works.find(w => w.work.id.endsWith('/C'))!.provenance;
+    // C is reached from both A and B at level 2
+    expect(c).toMatchObject({ level: 2, seed: 'S', links: 2 });
+    expect(result.levels.map(l => l.kept)).toEqual([2, 2]);
+  });
+
+  it('never re-adds a seed reached again through a citation loop', async () => {
+    const result = await snowball(fakeClient() as any, { ...base, seeds: ['S', 'X'], direction: 'forward', depth: 2 });
+    const ids = result.works.map(w => w.work.id.split('/').pop());
+    expect(ids).not.toContain('S');
+    expect(ids).not.toContain('X');
+    expect(ids).toContain('Z');
+  });
+
+  it('applies the per-level cap (most-cited first) and year/citation filters', async () => {
+    const capped = await snowball(fakeClient() as any, { ...base, direction: 'backward', maxPerLevel: 1 });
+    expect(capped.works.map(w => w.work.id.split('/').pop())).toEqual(['B']);
+    expect(capped.levels[0]).toMatchObject({ candidates: 2, passed_filters: 2, kept: 1 });
+
+    const filtered = await snowball(fakeClient() as any, { ...base, direction: 'backward', depth: 2, fromYear: 2000 });
+    const ids = filtered.works.map(w => w.work.id.split('/').pop());
+    expect(ids).not.toContain('D');
+    expect(ids).toContain('C');
+  });
+
+  it('reports seeds that could not be resolved', async () => {
+    const result = await snowball(fakeClient() as any, { ...base, seeds: ['S', '10.9999/missing'] });
+    expect(result.unresolved_seeds).toEqual(['10.9999/missing']);
+    expect(result.seeds).toHaveLength(1);
+  });
+});
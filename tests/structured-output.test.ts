@@ -0,0 +1,118 @@
+import { describe, it, expect, vi, beforeAll, afterAll } from 'vitest';
+import { Client } from '@modelcontextprotocol/sdk/client/index.js';
+import { InMemoryTransport } from '@modelcontextprotocol/sdk/inMemory.js';
+import { createServer, tools } from '../src/server.js';
+import {
+  TOOL_OUTPUT_SCHEMAS, toolOutputJsonSchema,
+  workSummaryOutputSchema, fullWorkOutputSchema, authorSummaryOutputSchema,
+  sourceSummaryOutputSchema, institutionSummaryOutputSchema,
+} from '../src/validation.js';
+import {
+  summarizeWork, getFullWorkDetails, summarizeAuthor, summarizeSource, summarizeInstitution,
+} from '../src/formatters.js';
+
+const work = {
+  id: 'https://openalex.org/W2741809807',
+  doi: 'https://doi.org/10.7717/peerj.4375',
+  title: 'The state of OA',
+  publication_year: 2018,
+  cited_by_count: 1200,
+  type: 'article',
+  authorships: [{ author: { id: 'https://openalex.org/A1', display_name: 'Heather Piwowar' }, institutions: [] }],
+  primary_location: { source: { id: 'https://openalex.org/S1', display_name: 'PeerJ', type: 'journal' } },
+  open_access: { is_oa: true, oa_status: 'gold', oa_url: null },
+  abstract_inverted_index: { Despite: [0], growing: [1] },
+  referenced_works: ['https://openalex.org/W2'],
+  related_works: [],
+  fwci: 25.3,
+};
+
+const author = {
+  id: 'https://openalex.org/A1',
+  display_name: 'Heather Piwowar',
+  works_count: 80,
+  cited_by_count: 9000,
+  summary_stats: { h_index: 30, i10_index: 50, '2yr_mean_citedness': 2.5 },
+  affiliations: [{ institution: { display_name: 'OurResearch', country_code: 'US' }, years: [2020, 2021] }],
+};
+
+describe('output schemas', () => {
+  it('cover every tool and are advertised as object schemas', () => {
+    expect(Object.keys(TOOL_OUTPUT_SCHEMAS).sort()).toEqual(tools.map(t => t.name).sort());
+    for (const tool of tools) {
+      expect(tool.outputSchema?.type, tool.name).toBe('object');
+      expect(tool.outputSchema).not.toHaveProperty('$schema');
+    }
+    // Tools with a text-export mode advertise both shapes
+    expect(toolOutputJsonSchema('search_works')).toHaveProperty('anyOf');
+  });
+
+  it('accept the formatter summaries, including sparse records', () => {
+    for (const w of [work, { id: 'https://openalex.org/W9' }]) {
+      expect(() => workSummaryOutputSchema.parse(summarizeWork(w))).not.toThrow();
+      expect(() => fullWorkOutputSchema.parse(getFullWorkDetails(w))).not.toThrow();
+    }
+    expect(() => authorSummaryOutputSchema.parse(summarizeAuthor(author))).not.toThrow();
+    expect(() => sourceSummaryOutputSchema.parse(summarizeSource({ id: 'https://openalex.org/S1' }))).not.toThrow();
+    expect(() => institutionSummaryOutputSchema.parse(summarizeInstitution({ id: 'https://openalex.org/I1' }))).not.toThrow();
+  });
+
+  it('reject output that drifted from the formatters', () => {
+    expect(() => workSummaryOutputSchema.parse({ ...summarizeWork(work), cited_by_count: 'many' })).toThrow();
+    expect(() => authorSummaryOutputSchema.parse({ name: 'No ID' })).toThrow();
+  });
+});
+
+describe('structuredContent over MCP', () => {
+  let client: Client;
+  const openAlexClient = {
+    getWorks: vi.fn(async () => ({ meta: { count: 1, page: 1, per_page: 10 }, results: [work] })),
+    getWork: vi.fn(async () => work),
+    getAuthor: vi.fn(async () => author),
+    getSources: vi.fn(async () => ({ meta: { count: 0 }, results: [] })),
+    getDiskCacheStats: vi.fn(async () => null),
+    getCacheSize: vi.fn(() => 0),
+    getRateLimitStats: vi.fn(() => null),
+    getBaseUrl: vi.fn(() => 'http://127.0.0.1:4010'),
+  };
+
+  beforeAll(async () => {
+    const server = createServer(openAlexClient as any);
+    client = new Client({ name: 'test-client', version: '1.0.0' });
+    const [clientTransport, serverTransport] = InMemoryTransport.createLinkedPair();
+    await Promise.all([server.connect(serverTransport), client.connect(clientTransport)]);
+    // Listing tools makes the client validate structuredContent against outputSchema
+    await client.listTools();
+  });
+
+  afterAll(async () => {
+    await client.close();
+  });
+
+  it('returns compact text alongside matching structured content', async () => {
+    const result: any = await client.callTool({ name: 'search_works', arguments: { query: 'open access' } });
+    expect(result.content[0].text).not.toContain('\n');
+    expect(JSON.parse(result.content[0].text)).toEqual(result.structuredContent);
+    expect(result.structuredContent.results[0].title).toBe('The state of OA');
+  });
+
+  it('validates nested summaries (get_author_profile, health_check)', async () => {
+    const profile: any = await client.callTool({ name: 'get_author_profile', arguments: { author_id: 'A1' } });
+    expect(profile.structuredContent).toMatchObject({ h_index: 30, top_cited_works: [{ fwci: 25.3 }] });
+    const health: any = await client.callTool({ name: 'health_check', arguments: {} });
+    expect(health.structuredContent.status).toBe('healthy');
+    expect(health.structuredContent.api.baseUrl).toBe('http://127.0.0.1:4010');
+  });
+
+  it('wraps text exports as { format, document }', async () => {
+    const result: any = await client.callTool({ name: 'get_work', arguments: { id: 'W2741809807', format: 'bibtex' } });
+    expect(result.content[0].text).toMatch(/^@article\{/);
+    expect(result.structuredContent).toEqual({ format: 'bibtex', document: result.content[0].text });
+  });
+
+  it('reports lookups that find nothing as tool errors', async () => {
+    const result: any = await client.callTool({ name: 'check_venue_quality', arguments: { venue_name: 'Nope' } });
+    expect(result.isError).toBe(true);
+    expect(JSON.parse(result.content[0].text).error).toMatch(/Venue not found/);
+  });
+});
@@ -7,9 +7,9 @@ import {
 } from '../src/validation.js';
 
 describe('TOOL_SCHEMAS map', () => {
-  it('covers every argument-taking tool (30) and excludes health_check', () => {
+  it('covers every argument-taking tool (55) and excludes health_check', () => {
     const names = Object.keys(TOOL_SCHEMAS);
-    expect(names.length).toBe(30);
+    expect(names.length).toBe(55);
     expect(names).not.toContain('health_check');
     // Spot-check a few tools that previously had no schema (added in 0.5.0)
     for (const t of [